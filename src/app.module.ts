@@ -5,6 +5,7 @@ import { ScheduleModule } from '@nestjs/schedule';
 // Core Modules
 import { SupabaseModule } from './common/supabase/supabase.module';
 import { QueueModule } from './common/queue/queue.module';
+import { MetricsModule } from './common/metrics/metrics.module';
 
 // Feature Modules
 import { WebhooksModule } from './modules/webhooks/webhooks.module';
@@ -21,6 +22,13 @@ import { AuthModule } from './modules/auth/auth.module';
 import { CommentsModule } from './modules/comments/comments.module';
 import { AiTrainingModule } from './modules/ai-training/ai-training.module';
 import { ZohoCrmModule } from './modules/zoho-crm/zoho-crm.module';
+import { TranscriptionModule } from './modules/transcription/transcription.module';
+import { IdentityModule } from './modules/identity/identity.module';
+import { HandoffsModule } from './modules/handoffs/handoffs.module';
+import { DraftReviewsModule } from './modules/draft-reviews/draft-reviews.module';
+import { DeadLettersModule } from './modules/dead-letters/dead-letters.module';
+import { MonitoringModule } from './modules/monitoring/monitoring.module';
+import { AnalyticsModule } from './modules/analytics/analytics.module';
 
 @Module({
   imports: [
@@ -35,6 +43,7 @@ import { ZohoCrmModule } from './modules/zoho-crm/zoho-crm.module';
 
     // Core
     SupabaseModule,
+    MetricsModule,
     QueueModule,
 
     // Features
@@ -52,6 +61,13 @@ import { ZohoCrmModule } from './modules/zoho-crm/zoho-crm.module';
     CommentsModule,
     AiTrainingModule,
     ZohoCrmModule,
+    TranscriptionModule,
+    IdentityModule,
+    HandoffsModule,
+    DraftReviewsModule,
+    DeadLettersModule,
+    MonitoringModule,
+    AnalyticsModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,9 @@
+import { Module, Global } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+
+@Global()
+@Module({
+  providers: [MetricsService],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import { Job } from 'bullmq';
+
+export type MetricLabels = Record<string, string>;
+
+export interface GaugeSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+interface CounterFamily {
+  help: string;
+  samples: Map<string, GaugeSample>;
+}
+
+interface HistogramFamily {
+  help: string;
+  buckets: number[];
+  samples: Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>;
+}
+
+// Seconds - channel sends take ~1s, AI replies up to a minute
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+/**
+ * In-process metric registry rendered in the Prometheus text exposition format
+ * Counters and histograms are per instance, so Prometheus should scrape every replica.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly counters = new Map<string, CounterFamily>();
+  private readonly histograms = new Map<string, HistogramFamily>();
+
+  incrementCounter(name: string, help: string, labels: MetricLabels = {}, value = 1): void {
+    const family = this.counters.get(name) || { help, samples: new Map() };
+    const key = this.labelKey(labels);
+    const sample = family.samples.get(key) || { labels, value: 0 };
+
+    sample.value += value;
+    family.samples.set(key, sample);
+    this.counters.set(name, family);
+  }
+
+  observeHistogram(name: string, help: string, labels: MetricLabels, value: number, buckets = DEFAULT_BUCKETS): void {
+    const family = this.histograms.get(name) || { help, buckets, samples: new Map() };
+    const key = this.labelKey(labels);
+    const sample = family.samples.get(key) || { labels, counts: family.buckets.map(() => 0), sum: 0, count: 0 };
+
+    family.buckets.forEach((bound, i) => {
+      if (value <= bound) sample.counts[i]++;
+    });
+    sample.sum += value;
+    sample.count++;
+    family.samples.set(key, sample);
+    this.histograms.set(name, family);
+  }
+
+  /**
+   * Record how long a worker spent on a job (from pickup to completion / failure)
+   */
+  observeJobDuration(queue: string, job: Job | undefined, status: 'completed' | 'failed'): void {
+    if (!job?.processedOn || !job.finishedOn) return;
+
+    this.observeHistogram(
+      'sales_agent_job_duration_seconds',
+      'Time workers spent processing a queue job',
+      { queue, status },
+      (job.finishedOn - job.processedOn) / 1000,
+    );
+  }
+
+  /**
+   * Render everything recorded in this process
+   */
+  render(): string {
+    const lines: string[] = [];
+
+    for (const [name, family] of this.counters) {
+      lines.push(`# HELP ${name} ${family.help}`, `# TYPE ${name} counter`);
+      for (const sample of family.samples.values()) {
+        lines.push(`${name}${this.formatLabels(sample.labels)} ${sample.value}`);
+      }
+    }
+
+    for (const [name, family] of this.histograms) {
+      lines.push(`# HELP ${name} ${family.help}`, `# TYPE ${name} histogram`);
+      for (const sample of family.samples.values()) {
+        family.buckets.forEach((bound, i) => {
+          lines.push(`${name}_bucket${this.formatLabels({ ...sample.labels, le: String(bound) })} ${sample.counts[i]}`);
+        });
+        lines.push(`${name}_bucket${this.formatLabels({ ...sample.labels, le: '+Inf' })} ${sample.count}`);
+        lines.push(`${name}_sum${this.formatLabels(sample.labels)} ${sample.sum}`);
+        lines.push(`${name}_count${this.formatLabels(sample.labels)} ${sample.count}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render a gauge computed at scrape time (queue depth, database aggregates)
+   */
+  renderGauge(name: string, help: string, samples: GaugeSample[]): string {
+    const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} gauge`];
+    for (const sample of samples) {
+      lines.push(`${name}${this.formatLabels(sample.labels)} ${sample.value}`);
+    }
+    return lines.join('\n');
+  }
+
+  private labelKey(labels: MetricLabels): string {
+    return Object.keys(labels).sort().map((key) => `${key}=${labels[key]}`).join(',');
+  }
+
+  private formatLabels(labels: MetricLabels): string {
+    const pairs = Object.entries(labels).map(
+      ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+    );
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  }
+}
@@ -1,9 +1,12 @@
 import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
 import { ModuleRef } from '@nestjs/core';
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, UnrecoverableError } from 'bullmq';
 import { ConfigService } from '@nestjs/config';
 import IORedis from 'ioredis';
 import { ChannelSendPayload } from './queue.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { DeadLetterService } from './dead-letter.service';
+import { MetricsService } from '../metrics/metrics.service';
 
 @Injectable()
 export class ChannelSendProcessor implements OnModuleInit, OnModuleDestroy {
@@ -14,10 +17,17 @@ export class ChannelSendProcessor implements OnModuleInit, OnModuleDestroy {
   // Lazy-loaded adapters to avoid circular dependency
   private telegramAdapter: any;
   private whatsappAdapter: any;
+  private instagramAdapter: any;
+  private webChatAdapter: any;
+  private emailAdapter: any;
+  private whatsappTemplates: any;
 
   constructor(
     private readonly configService: ConfigService,
     private readonly moduleRef: ModuleRef,
+    private readonly supabase: SupabaseService,
+    private readonly deadLetters: DeadLetterService,
+    private readonly metrics: MetricsService,
   ) {}
 
   async onModuleInit() {
@@ -25,9 +35,17 @@ export class ChannelSendProcessor implements OnModuleInit, OnModuleDestroy {
     try {
       const { TelegramAdapter } = await import('../../modules/webhooks/adapters/telegram.adapter');
       const { WhatsappAdapter } = await import('../../modules/webhooks/adapters/whatsapp.adapter');
+      const { InstagramAdapter } = await import('../../modules/webhooks/adapters/instagram.adapter');
+      const { WebChatAdapter } = await import('../../modules/webhooks/adapters/web-chat.adapter');
+      const { EmailAdapter } = await import('../../modules/webhooks/adapters/email.adapter');
+      const { WhatsappTemplatesService } = await import('../../modules/webhooks/whatsapp-templates.service');
       
       this.telegramAdapter = this.moduleRef.get(TelegramAdapter, { strict: false });
       this.whatsappAdapter = this.moduleRef.get(WhatsappAdapter, { strict: false });
+      this.instagramAdapter = this.moduleRef.get(InstagramAdapter, { strict: false });
+      this.webChatAdapter = this.moduleRef.get(WebChatAdapter, { strict: false });
+      this.emailAdapter = this.moduleRef.get(EmailAdapter, { strict: false });
+      this.whatsappTemplates = this.moduleRef.get(WhatsappTemplatesService, { strict: false });
     } catch (error) {
       this.logger.warn('Could not load channel adapters, channel-send will be disabled', error);
       return;
@@ -82,10 +100,13 @@ export class ChannelSendProcessor implements OnModuleInit, OnModuleDestroy {
 
     this.worker.on('completed', (job) => {
       this.logger.log(`Channel send job completed: ${job.id}`);
+      this.metrics.observeJobDuration('channel-send', job, 'completed');
     });
 
     this.worker.on('failed', (job, err) => {
       this.logger.error(`Channel send job failed: ${job?.id}`, err);
+      this.metrics.observeJobDuration('channel-send', job, 'failed');
+      this.deadLetters.recordFailedJob('channel-send', job, err);
     });
 
     this.logger.log('Channel Send Worker processor started');
@@ -102,16 +123,34 @@ export class ChannelSendProcessor implements OnModuleInit, OnModuleDestroy {
     this.logger.log(`Processing channel send job: ${job.id} for ${channel}:${channelUserId}`);
 
     try {
+      let channelMessageId: string | undefined;
+
       if (channel === 'telegram') {
-        await this.handleTelegramMessage(channelUserId, content, mediaUrl, mediaType, metadata);
+        channelMessageId = await this.handleTelegramMessage(channelUserId, content, mediaUrl, mediaType, metadata);
       } else if (channel === 'whatsapp') {
-        await this.handleWhatsappMessage(channelUserId, content, mediaUrl, mediaType, metadata);
+        channelMessageId = await this.handleWhatsappMessage(channelUserId, content, mediaUrl, mediaType, metadata);
+      } else if (channel === 'instagram') {
+        channelMessageId = await this.handleInstagramMessage(channelUserId, content, mediaUrl, mediaType, metadata);
       } else if (channel === 'web') {
-        this.logger.warn(`Web channel send not implemented yet for ${channelUserId}`);
+        channelMessageId = await this.handleWebMessage(channelUserId, content, mediaUrl, mediaType, metadata);
+      } else if (channel === 'email') {
+        channelMessageId = await this.handleEmailMessage(channelUserId, content, mediaUrl, mediaType, metadata);
       } else {
         this.logger.warn(`Unknown channel: ${channel}`);
       }
 
+      // Link the sent part to its stored message for delivery / read receipts
+      if (metadata?.messageId && channelMessageId) {
+        await this.supabase.recordOutboundDelivery(metadata.messageId, {
+          channel,
+          channelUserId,
+          channelMessageId,
+        }).catch((error) => {
+          // Already sent - never let the job retry (and resend) because of tracking
+          this.logger.warn(`Could not link ${channelMessageId} to message ${metadata.messageId}`, error);
+        });
+      }
+
       this.logger.log(`✅ Message sent via ${channel} to ${channelUserId}`);
     } catch (error: unknown) {
       this.logger.error(`Error processing channel send job ${job.id}:`, error);
@@ -125,7 +164,7 @@ export class ChannelSendProcessor implements OnModuleInit, OnModuleDestroy {
     mediaUrl?: string,
     mediaType?: string,
     metadata?: ChannelSendPayload['metadata'],
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     if (!this.telegramAdapter) {
       this.logger.error('Telegram adapter not available');
       throw new Error('Telegram adapter not loaded');
@@ -147,7 +186,7 @@ export class ChannelSendProcessor implements OnModuleInit, OnModuleDestroy {
         metadata.formUrl,
       );
     } else {
-      await this.telegramAdapter.sendMessage({
+      return this.telegramAdapter.sendMessage({
         channel: 'telegram',
         channelUserId,
         content,
@@ -163,7 +202,7 @@ export class ChannelSendProcessor implements OnModuleInit, OnModuleDestroy {
     mediaUrl?: string,
     mediaType?: string,
     metadata?: ChannelSendPayload['metadata'],
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     if (!this.whatsappAdapter) {
       this.logger.error('WhatsApp adapter not available');
       throw new Error('WhatsApp adapter not loaded');
@@ -185,7 +224,39 @@ export class ChannelSendProcessor implements OnModuleInit, OnModuleDestroy {
         metadata.formUrl,
       );
     } else {
-      await this.whatsappAdapter.sendMessage({
+      // Free-form messages are rejected outside the 24h service window - followups go out as
+      // their followup template, anything else as the re-engagement template
+      const closedWindowLead = await this.whatsappTemplates?.getClosedWindowLead(channelUserId);
+      if (closedWindowLead) {
+        // The template stands in for the whole split reply, it went out with the first part
+        if (metadata?.partIndex) {
+          this.logger.log(`⏭️ ${channelUserId} is outside the 24h window, part ${metadata.partIndex} covered by the template`);
+          return undefined;
+        }
+
+        const purpose = metadata?.followupId ? 'followup' : 'reengagement';
+        const result = await this.whatsappTemplates.sendForLead(closedWindowLead, purpose, metadata?.followupId);
+        if (!result) {
+          throw new UnrecoverableError(
+            `WhatsApp 24h service window is closed for ${channelUserId} and no ${purpose} template is registered`,
+          );
+        }
+
+        this.logger.log(`📨 ${channelUserId} is outside the 24h window, sent template ${result.template.name}`);
+
+        // The stored message keeps its content, note what the lead actually received
+        if (metadata?.messageId) {
+          await this.supabase.updateMessageMetadata(metadata.messageId, {
+            whatsapp_template: { name: result.template.name, language: result.template.language, purpose },
+            whatsapp_template_body: result.renderedBody,
+          }).catch((error) => {
+            this.logger.warn(`Could not record template ${result.template.name} on message ${metadata.messageId}`, error);
+          });
+        }
+        return result.messageId;
+      }
+
+      return this.whatsappAdapter.sendMessage({
         channel: 'whatsapp',
         channelUserId,
         content,
@@ -194,4 +265,124 @@ export class ChannelSendProcessor implements OnModuleInit, OnModuleDestroy {
       });
     }
   }
+
+  private async handleInstagramMessage(
+    channelUserId: string,
+    content: string,
+    mediaUrl?: string,
+    mediaType?: string,
+    metadata?: ChannelSendPayload['metadata'],
+  ): Promise<string | undefined> {
+    if (!this.instagramAdapter) {
+      this.logger.error('Instagram adapter not available');
+      throw new Error('Instagram adapter not loaded');
+    }
+
+    const messageType = metadata?.messageType;
+    const language = metadata?.language || 'en';
+
+    if (messageType === 'kvkk_consent' && metadata?.kvkkLinkUrl) {
+      await this.instagramAdapter.sendKvkkConsentMessage(
+        channelUserId,
+        language,
+        metadata.kvkkLinkUrl,
+      );
+    } else if (messageType === 'flow_selection' && metadata?.formUrl) {
+      await this.instagramAdapter.sendFlowSelectionMessage(
+        channelUserId,
+        language,
+        metadata.formUrl,
+      );
+    } else {
+      return this.instagramAdapter.sendMessage({
+        channel: 'instagram',
+        channelUserId,
+        content,
+        mediaUrl,
+        mediaType: mediaType as 'image' | 'video' | 'audio' | 'document' | undefined,
+      });
+    }
+  }
+
+  private async handleWebMessage(
+    channelUserId: string,
+    content: string,
+    mediaUrl?: string,
+    mediaType?: string,
+    metadata?: ChannelSendPayload['metadata'],
+  ): Promise<string | undefined> {
+    if (!this.webChatAdapter) {
+      this.logger.error('Web chat adapter not available');
+      throw new Error('Web chat adapter not loaded');
+    }
+
+    const messageType = metadata?.messageType;
+    const language = metadata?.language || 'en';
+
+    if (messageType === 'kvkk_consent' && metadata?.kvkkLinkUrl) {
+      await this.webChatAdapter.sendKvkkConsentMessage(
+        channelUserId,
+        language,
+        metadata.kvkkLinkUrl,
+      );
+    } else if (messageType === 'flow_selection' && metadata?.formUrl) {
+      await this.webChatAdapter.sendFlowSelectionMessage(
+        channelUserId,
+        language,
+        metadata.formUrl,
+      );
+    } else {
+      const channelMessageId = await this.webChatAdapter.sendMessage({
+        channel: 'web',
+        channelUserId,
+        content,
+        mediaUrl,
+        mediaType: mediaType as 'image' | 'video' | 'audio' | 'document' | undefined,
+      });
+
+      if (metadata?.hasMoreParts) {
+        this.webChatAdapter.sendTypingIndicator(channelUserId);
+      }
+
+      return channelMessageId;
+    }
+  }
+
+  private async handleEmailMessage(
+    channelUserId: string,
+    content: string,
+    mediaUrl?: string,
+    mediaType?: string,
+    metadata?: ChannelSendPayload['metadata'],
+  ): Promise<string | undefined> {
+    if (!this.emailAdapter) {
+      this.logger.error('Email adapter not available');
+      throw new Error('Email adapter not loaded');
+    }
+
+    const messageType = metadata?.messageType;
+    const language = metadata?.language || 'en';
+
+    if (messageType === 'kvkk_consent' && metadata?.kvkkLinkUrl) {
+      await this.emailAdapter.sendKvkkConsentMessage(
+        channelUserId,
+        language,
+        metadata.kvkkLinkUrl,
+      );
+    } else if (messageType === 'flow_selection' && metadata?.formUrl) {
+      await this.emailAdapter.sendFlowSelectionMessage(
+        channelUserId,
+        language,
+        metadata.formUrl,
+      );
+    } else {
+      return this.emailAdapter.sendMessage({
+        channel: 'email',
+        channelUserId,
+        content,
+        mediaUrl,
+        mediaType: mediaType as 'image' | 'video' | 'audio' | 'document' | undefined,
+      });
+    }
+  }
 }
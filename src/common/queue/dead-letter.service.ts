@@ -0,0 +1,234 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Job, Queue, UnrecoverableError } from 'bullmq';
+import {
+  SupabaseService,
+  DeadLetter,
+  DeadLetterStatus,
+} from '../supabase/supabase.service';
+import { QueueService, AiJobPayload, ChannelSendPayload, InboundMessagePayload } from './queue.service';
+
+export type DeadLetterQueue = 'channel-send' | 'ai-processing' | 'inbound-messages';
+
+type DeadLetterPayload = AiJobPayload | ChannelSendPayload | InboundMessagePayload;
+
+// Fields a replayed payload can't do without
+const REQUIRED_PAYLOAD_FIELDS: Record<DeadLetterQueue, string[]> = {
+  'channel-send': ['channel', 'channelUserId', 'content'],
+  'ai-processing': ['jobType', 'leadId', 'conversationId', 'messageId'],
+  'inbound-messages': ['message'],
+};
+
+// Required fields that may be empty - media, consent and flow selection sends carry no text
+const EMPTY_ALLOWED_FIELDS = ['content'];
+
+const FAILURE_NOTIFICATIONS: Record<DeadLetterQueue, { type: string; title: string }> = {
+  'channel-send': { type: 'outbound_send_failed', title: 'Message to lead could not be delivered' },
+  'ai-processing': { type: 'ai_reply_failed', title: 'AI reply could not be generated' },
+  'inbound-messages': { type: 'inbound_message_failed', title: 'Message from lead could not be processed' },
+};
+
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly queueService: QueueService,
+  ) {}
+
+  /**
+   * Store a job that used up its retries and tell the team the lead is waiting
+   * Called from the workers' 'failed' handlers, so it never throws.
+   */
+  async recordFailedJob(
+    queue: DeadLetterQueue,
+    job: Job<DeadLetterPayload> | undefined,
+    error: Error,
+  ): Promise<void> {
+    if (!job) return;
+    if (!(error instanceof UnrecoverableError) && job.attemptsMade < (job.opts.attempts ?? 1)) return; // BullMQ will retry
+
+    try {
+      const leadId = await this.resolveLeadId(queue, job.data);
+
+      const deadLetter = await this.supabase.createDeadLetter({
+        queue,
+        job_id: job.id,
+        job_name: job.name,
+        payload: job.data as unknown as Record<string, unknown>,
+        error: error.message,
+        attempts: job.attemptsMade,
+        lead_id: leadId || undefined,
+      });
+
+      this.logger.warn(`☠️ ${queue} job ${job.id} dead-lettered as ${deadLetter.id} (lead ${leadId || 'unknown'})`);
+
+      if (queue === 'channel-send') {
+        const messageId = (job.data as ChannelSendPayload).metadata?.messageId;
+        if (messageId) {
+          await this.supabase.recordOutboundSendFailure(messageId, error.message);
+        }
+      }
+
+      await this.supabase.createNotification({
+        ...FAILURE_NOTIFICATIONS[queue],
+        lead_id: leadId || undefined,
+        body: error.message,
+        data: { dead_letter_id: deadLetter.id, queue, job_id: job.id },
+      });
+    } catch (recordError) {
+      this.logger.error(`Failed to dead-letter ${queue} job ${job.id}`, recordError);
+    }
+  }
+
+  async list(options: { status?: DeadLetterStatus; queue?: string; leadId?: string; limit?: number } = {}) {
+    return this.supabase.getDeadLetters({
+      status: options.status || 'open',
+      queue: options.queue,
+      leadId: options.leadId,
+      limit: options.limit,
+    });
+  }
+
+  async get(id: string): Promise<DeadLetter> {
+    const deadLetter = await this.supabase.getDeadLetterById(id);
+    if (!deadLetter) {
+      throw new NotFoundException(`Dead letter not found: ${id}`);
+    }
+    return deadLetter;
+  }
+
+  /**
+   * Fix a payload before replaying it (e.g. a wrong channel user id or a message too long for the channel)
+   */
+  async updatePayload(id: string, payload: Record<string, unknown>): Promise<DeadLetter> {
+    const deadLetter = await this.getOpen(id);
+    this.assertValidPayload(deadLetter.queue as DeadLetterQueue, payload);
+    return this.supabase.updateDeadLetter(deadLetter.id, { payload });
+  }
+
+  /**
+   * Drop the original from BullMQ's failed set and put the job back on its queue
+   */
+  async replay(id: string, userId: string): Promise<DeadLetter> {
+    const deadLetter = await this.getOpen(id);
+    const queue = deadLetter.queue as DeadLetterQueue;
+    this.assertValidPayload(queue, deadLetter.payload);
+
+    // Removed first: a job id that is still taken makes BullMQ return the old job instead of adding one
+    await this.removeOriginalJob(deadLetter);
+
+    let job: Job;
+    if (queue === 'channel-send') {
+      const payload = deadLetter.payload as unknown as ChannelSendPayload;
+      // The split reply is long over, so the part gets a fresh job id instead of reply-<id>-<i>
+      const { replyId: _replyId, partIndex: _partIndex, hasMoreParts: _hasMoreParts, ...metadata } = payload.metadata || {};
+      // Replays go out right away - the original typing delay no longer means anything
+      job = await this.queueService.addChannelSendJob({ ...payload, metadata, delay: 0 });
+    } else if (queue === 'inbound-messages') {
+      job = await this.queueService.requeueInboundMessage((deadLetter.payload as unknown as InboundMessagePayload).message);
+    } else {
+      job = await this.queueService.addAiJob(deadLetter.payload as unknown as AiJobPayload);
+    }
+
+    if (!job.id || job.id === deadLetter.job_id) {
+      throw new ConflictException(`Job ${deadLetter.job_id} is still queued, nothing was replayed`);
+    }
+
+    const replayed = await this.supabase.updateDeadLetter(deadLetter.id, {
+      status: 'replayed',
+      replayed_job_id: job.id || null,
+      resolved_by: userId,
+      resolved_at: new Date().toISOString(),
+    });
+
+    await this.supabase.createAuditLog({
+      action: 'dead_letter_replayed',
+      entity_type: 'dead_letter',
+      entity_id: deadLetter.id,
+      user_id: userId,
+      new_value: { queue, replayed_job_id: job.id, lead_id: deadLetter.lead_id },
+    });
+
+    this.logger.log(`🔁 Dead letter ${deadLetter.id} replayed as ${queue} job ${job.id}`);
+    return replayed;
+  }
+
+  async discard(id: string, userId: string): Promise<DeadLetter> {
+    const deadLetter = await this.getOpen(id);
+
+    await this.removeOriginalJob(deadLetter);
+
+    const discarded = await this.supabase.updateDeadLetter(deadLetter.id, {
+      status: 'discarded',
+      resolved_by: userId,
+      resolved_at: new Date().toISOString(),
+    });
+
+    await this.supabase.createAuditLog({
+      action: 'dead_letter_discarded',
+      entity_type: 'dead_letter',
+      entity_id: deadLetter.id,
+      user_id: userId,
+      old_value: { queue: deadLetter.queue, payload: deadLetter.payload, error: deadLetter.error },
+    });
+
+    this.logger.log(`🗑️ Dead letter ${deadLetter.id} discarded`);
+    return discarded;
+  }
+
+  private async getOpen(id: string): Promise<DeadLetter> {
+    const deadLetter = await this.get(id);
+    if (deadLetter.status !== 'open') {
+      throw new BadRequestException(`Dead letter is already ${deadLetter.status}`);
+    }
+    return deadLetter;
+  }
+
+  private assertValidPayload(queue: DeadLetterQueue, payload: Record<string, unknown>): void {
+    const missing = (REQUIRED_PAYLOAD_FIELDS[queue] || []).filter((field) => (
+      EMPTY_ALLOWED_FIELDS.includes(field) ? payload?.[field] === undefined : !payload?.[field]
+    ));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Payload is missing: ${missing.join(', ')}`);
+    }
+  }
+
+  private async resolveLeadId(
+    queue: DeadLetterQueue,
+    payload: DeadLetterPayload,
+  ): Promise<string | null> {
+    if (queue === 'ai-processing') {
+      return (payload as AiJobPayload).leadId;
+    }
+
+    const { channel, channelUserId } = queue === 'inbound-messages'
+      ? (payload as InboundMessagePayload).message
+      : payload as ChannelSendPayload;
+    const lead = await this.supabase.getLeadByChannelUser(channel, channelUserId);
+    return lead?.id || null;
+  }
+
+  private getQueue(deadLetter: DeadLetter): Queue {
+    if (deadLetter.queue === 'channel-send') return this.queueService.getChannelQueue();
+    if (deadLetter.queue === 'inbound-messages') {
+      const { message } = deadLetter.payload as unknown as InboundMessagePayload;
+      return this.queueService.getInboundQueueFor(message.channelUserId);
+    }
+    return this.queueService.getAiQueue();
+  }
+
+  private async removeOriginalJob(deadLetter: DeadLetter): Promise<void> {
+    if (!deadLetter.job_id) return;
+
+    const queue = this.getQueue(deadLetter);
+
+    try {
+      const job = await queue.getJob(deadLetter.job_id);
+      await job?.remove();
+    } catch (error) {
+      // Already cleaned up by removeOnFail - nothing to do
+      this.logger.debug(`Could not remove failed job ${deadLetter.job_id}`, error);
+    }
+  }
+}
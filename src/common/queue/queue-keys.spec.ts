@@ -0,0 +1,42 @@
+import { getInboundIdempotencyKey, getInboundPartition, getReplyPartJobId } from './queue-keys';
+
+describe('getInboundIdempotencyKey', () => {
+  it('scopes the channel message id to the sender', () => {
+    const key = getInboundIdempotencyKey({ channel: 'telegram', channelUserId: '111', channelMessageId: '42' });
+    expect(key).toBe('inbound:telegram:111:42');
+  });
+
+  it('keeps the same message id from different chats apart', () => {
+    const first = getInboundIdempotencyKey({ channel: 'telegram', channelUserId: '111', channelMessageId: '42' });
+    const second = getInboundIdempotencyKey({ channel: 'telegram', channelUserId: '222', channelMessageId: '42' });
+    const otherChannel = getInboundIdempotencyKey({ channel: 'instagram', channelUserId: '111', channelMessageId: '42' });
+    expect(new Set([first, second, otherChannel]).size).toBe(3);
+  });
+});
+
+describe('getInboundPartition', () => {
+  it('always puts a user on the same partition', () => {
+    expect(getInboundPartition('905551234567', 4)).toBe(getInboundPartition('905551234567', 4));
+  });
+
+  it('stays within the partition count', () => {
+    for (const user of ['a', '905551234567', 'jane@example.com', 'web-session-ü']) {
+      const partition = getInboundPartition(user, 4);
+      expect(partition).toBeGreaterThanOrEqual(0);
+      expect(partition).toBeLessThan(4);
+    }
+    expect(getInboundPartition('905551234567', 1)).toBe(0);
+  });
+
+  it('spreads users across partitions', () => {
+    const partitions = new Set(Array.from({ length: 50 }, (_, i) => getInboundPartition(`user-${i}`, 4)));
+    expect(partitions.size).toBe(4);
+  });
+});
+
+describe('getReplyPartJobId', () => {
+  it('is predictable per reply and part', () => {
+    expect(getReplyPartJobId('abc', 0)).toBe('reply-abc-0');
+    expect(getReplyPartJobId('abc', 2)).not.toBe(getReplyPartJobId('abc', 1));
+  });
+});
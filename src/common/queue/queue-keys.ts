@@ -0,0 +1,36 @@
+/**
+ * Queue Keys
+ *
+ * Redis keys and BullMQ job ids the queue service derives from payloads. Kept as pure
+ * functions so duplicate detection and partitioning don't depend on a live connection.
+ */
+
+import { NormalizedMessage } from '../../modules/webhooks/interfaces/normalized-message.interface';
+
+/**
+ * Key claimed while an inbound message is queued - a second delivery of the same message is dropped
+ * Message ids are only unique per chat on some channels (Telegram), so the sender is part of the key
+ */
+export function getInboundIdempotencyKey(
+  message: Pick<NormalizedMessage, 'channel' | 'channelUserId' | 'channelMessageId'>,
+): string {
+  return `inbound:${message.channel}:${message.channelUserId}:${message.channelMessageId}`;
+}
+
+/**
+ * Inbound partition of a user - all of a user's messages land on the same queue, in order
+ */
+export function getInboundPartition(channelUserId: string, partitions: number): number {
+  let hash = 0;
+  for (const char of channelUserId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return hash % partitions;
+}
+
+/**
+ * Job id of a split reply part, predictable so an interrupted reply can be pulled from the queue
+ */
+export function getReplyPartJobId(replyId: string, partIndex: number): string {
+  return `reply-${replyId}-${partIndex}`;
+}
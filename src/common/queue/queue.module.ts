@@ -2,12 +2,13 @@ import { Module, Global } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { QueueService } from './queue.service';
 import { ChannelSendProcessor } from './channel-send.processor';
+import { DeadLetterService } from './dead-letter.service';
 
 @Global()
 @Module({
   imports: [ConfigModule],
-  providers: [QueueService, ChannelSendProcessor],
-  exports: [QueueService],
+  providers: [QueueService, ChannelSendProcessor, DeadLetterService],
+  exports: [QueueService, DeadLetterService],
 })
 export class QueueModule {}
 
@@ -2,6 +2,9 @@ import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/commo
 import { ConfigService } from '@nestjs/config';
 import { Queue, Worker, Job } from 'bullmq';
 import IORedis from 'ioredis';
+import { NormalizedMessage } from '../../modules/webhooks/interfaces/normalized-message.interface';
+import { MetricsService } from '../metrics/metrics.service';
+import { getInboundIdempotencyKey, getInboundPartition, getReplyPartJobId } from './queue-keys';
 
 export interface AiJobPayload {
   jobType: 'ANALYZE_AND_DRAFT_REPLY' | 'SCORE_LEAD' | 'EXTRACT_INFO' | 'CLASSIFY_INTENT';
@@ -11,6 +14,8 @@ export interface AiJobPayload {
   language: string;
   contextWindow?: number;
   promptVersion?: string;
+  // Identity the triggering message came from - differs from the lead's own for merged duplicates
+  replyTo?: { channel: ChannelSendPayload['channel']; channelUserId: string };
 }
 
 export interface FollowupJobPayload {
@@ -22,7 +27,7 @@ export interface FollowupJobPayload {
 }
 
 export interface ChannelSendPayload {
-  channel: 'whatsapp' | 'telegram' | 'web';
+  channel: 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email';
   channelUserId: string;
   content: string;
   mediaUrl?: string;
@@ -33,9 +38,36 @@ export interface ChannelSendPayload {
     kvkkLinkUrl?: string;
     formUrl?: string;
     language?: string;
+    hasMoreParts?: boolean; // More split reply parts are queued after this one
+    followupId?: string; // Followup this message belongs to (WhatsApp template tracking)
+    messageId?: string; // Stored outbound message, used to link delivery receipts
+    replyId?: string; // Split reply this part belongs to (the stored reply message id)
+    partIndex?: number; // Position of the part within its split reply
   };
 }
 
+export interface InboundMessagePayload {
+  message: NormalizedMessage; // timestamp arrives as an ISO string after JSON serialization
+  receivedAt: string;
+}
+
+export interface InFlightReply {
+  replyId: string;
+  parts: string[];
+}
+
+export interface CancelledReply {
+  replyId: string;
+  deliveredParts: string[];
+  cancelledParts: string[];
+}
+
+// Keep tracking an in-flight reply a little past its last scheduled part
+const IN_FLIGHT_REPLY_GRACE_MS = 30 * 1000;
+
+// Meta retries undelivered webhooks for up to 7 days
+const INBOUND_IDEMPOTENCY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
 @Injectable()
 export class QueueService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(QueueService.name);
@@ -44,8 +76,12 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
   private aiQueue: Queue<AiJobPayload>;
   private followupQueue: Queue<FollowupJobPayload>;
   private channelQueue: Queue<ChannelSendPayload>;
+  private inboundQueues: Queue<InboundMessagePayload>[] = [];
 
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private configService: ConfigService,
+    private readonly metrics: MetricsService,
+  ) {}
 
   async onModuleInit() {
     // Support both REDIS_URL (Railway) and individual host/port/password config
@@ -126,6 +162,22 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
       },
     });
 
+    // Inbound messages: each user always lands in the same partition, and every partition
+    // processes one job at a time across all instances, so a user's messages stay in order.
+    // A single attempt - the worker retries in place, a delayed BullMQ retry would lose the order
+    for (const name of this.getInboundQueueNames()) {
+      const queue = new Queue<InboundMessagePayload>(name, {
+        connection: this.connection,
+        defaultJobOptions: {
+          attempts: 1,
+          removeOnComplete: 100,
+          removeOnFail: 500,
+        },
+      });
+      await queue.setGlobalConcurrency(1);
+      this.inboundQueues.push(queue);
+    }
+
     this.logger.log('Queue service initialized');
   }
 
@@ -133,9 +185,17 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     await this.aiQueue?.close();
     await this.followupQueue?.close();
     await this.channelQueue?.close();
+    await Promise.all(this.inboundQueues.map((queue) => queue.close()));
     await this.connection?.quit();
   }
 
+  /**
+   * Round-trip to Redis (used by the health check)
+   */
+  async ping(): Promise<void> {
+    await this.connection.ping();
+  }
+
   // ==================== AI QUEUE ====================
 
   async addAiJob(payload: AiJobPayload): Promise<Job<AiJobPayload>> {
@@ -146,6 +206,27 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     return job;
   }
 
+  /**
+   * Add a reply job that waits for the lead to go quiet (BullMQ debounce mode)
+   * Every add for the same lead within the delay replaces the pending job's payload and restarts
+   * its delay, so a burst of texts / photos yields exactly one reply job across all instances.
+   */
+  async addDebouncedAiReplyJob(payload: AiJobPayload, delay: number): Promise<Job<AiJobPayload>> {
+    const debounceId = `ai-reply:${payload.leadId}`;
+    const job = await this.aiQueue.add('process', payload, {
+      priority: 1,
+      delay,
+      deduplication: {
+        id: debounceId,
+        ttl: delay,
+        extend: true,
+        replace: true,
+      },
+    });
+    this.logger.debug(`Debounced AI job ${job.id} (${debounceId}) - fires in ${delay}ms`);
+    return job;
+  }
+
   getAiQueue(): Queue<AiJobPayload> {
     return this.aiQueue;
   }
@@ -164,16 +245,137 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     return this.followupQueue;
   }
 
+  // ==================== INBOUND QUEUE ====================
+
+  /**
+   * Queue an inbound message for processing (false if it was already received)
+   * The idempotency key is claimed before queueing, so webhook retries and double deliveries
+   * of the same channel message are dropped here instead of racing each other.
+   */
+  async addInboundMessageJob(message: NormalizedMessage): Promise<boolean> {
+    const idempotencyKey = getInboundIdempotencyKey(message);
+    const claimed = await this.connection.set(idempotencyKey, '1', 'EX', INBOUND_IDEMPOTENCY_TTL_SECONDS, 'NX');
+    if (!claimed) {
+      this.logger.debug(`Duplicate inbound message skipped: ${idempotencyKey}`);
+      this.countInboundMessage(message.channel, 'duplicate');
+      return false;
+    }
+
+    try {
+      await this.requeueInboundMessage(message);
+    } catch (error) {
+      // Release the key so the channel's retry gets another chance
+      await this.connection.del(idempotencyKey);
+      throw error;
+    }
+
+    this.countInboundMessage(message.channel, 'queued');
+    return true;
+  }
+
+  /**
+   * Put an inbound message on its user's partition without the duplicate check (dead letter replays)
+   */
+  async requeueInboundMessage(message: NormalizedMessage): Promise<Job<InboundMessagePayload>> {
+    const queue = this.getInboundQueueFor(message.channelUserId);
+    const job = await queue.add('inbound', {
+      message,
+      receivedAt: new Date().toISOString(),
+    });
+    this.logger.debug(`Inbound job added: ${job.id} on ${queue.name} for ${message.channel}:${message.channelUserId}`);
+    return job;
+  }
+
+  /**
+   * Forget that a message was received, so a redelivery by the channel is processed again
+   * Used once a message's job has used up its retries.
+   */
+  async releaseInboundMessage(message: NormalizedMessage): Promise<void> {
+    await this.connection.del(getInboundIdempotencyKey(message));
+  }
+
+  private countInboundMessage(channel: string, outcome: 'queued' | 'duplicate'): void {
+    this.metrics.incrementCounter(
+      'sales_agent_inbound_messages_total',
+      'Inbound channel messages received via webhooks / polling',
+      { channel, outcome },
+    );
+  }
+
+  getInboundQueueNames(): string[] {
+    const partitions = Math.max(1, Number(this.configService.get<string>('INBOUND_QUEUE_PARTITIONS', '4')));
+    return Array.from({ length: partitions }, (_, i) => `inbound-messages-${i}`);
+  }
+
+  getInboundQueues(): Queue<InboundMessagePayload>[] {
+    return this.inboundQueues;
+  }
+
+  getInboundQueueFor(channelUserId: string): Queue<InboundMessagePayload> {
+    return this.inboundQueues[getInboundPartition(channelUserId, this.inboundQueues.length)];
+  }
+
   // ==================== CHANNEL SEND QUEUE ====================
 
   async addChannelSendJob(payload: ChannelSendPayload): Promise<Job<ChannelSendPayload>> {
+    const replyId = payload.metadata?.replyId;
     const job = await this.channelQueue.add('send', payload, {
       delay: payload.delay || 0, // Support delayed sending for human-like message splitting
+      // Split reply parts get predictable ids so an interrupted reply can be pulled from the queue
+      ...(replyId && { jobId: getReplyPartJobId(replyId, payload.metadata?.partIndex ?? 0) }),
     });
     this.logger.debug(`Channel send job added: ${job.id} - ${payload.channel}${payload.delay ? ` (delayed ${payload.delay}ms)` : ''}`);
     return job;
   }
 
+  /**
+   * Remember the split reply a lead is currently receiving (expires once its last part is due)
+   */
+  async trackInFlightReply(leadId: string, reply: InFlightReply, lastPartDelay: number): Promise<void> {
+    await this.connection.set(
+      `in-flight-reply:${leadId}`,
+      JSON.stringify(reply),
+      'PX',
+      lastPartDelay + IN_FLIGHT_REPLY_GRACE_MS,
+    );
+  }
+
+  /**
+   * Remove the not-yet-sent parts of the lead's in-flight reply from the channel queue
+   * Parts already sent (or being sent right now) count as delivered.
+   */
+  async cancelInFlightReply(leadId: string): Promise<CancelledReply | null> {
+    const key = `in-flight-reply:${leadId}`;
+    const stored = await this.connection.get(key);
+    if (!stored) return null;
+    await this.connection.del(key);
+
+    const reply = JSON.parse(stored) as InFlightReply;
+    const cancelledIndexes = new Set<number>();
+
+    for (let i = 0; i < reply.parts.length; i++) {
+      const job = await this.channelQueue.getJob(getReplyPartJobId(reply.replyId, i));
+      if (!job || !((await job.isDelayed()) || (await job.isWaiting()))) continue;
+
+      try {
+        await job.remove();
+        cancelledIndexes.add(i);
+      } catch (error) {
+        // Picked up by the worker in the meantime - it goes out
+        this.logger.debug(`Reply part ${job.id} could not be removed`, error);
+      }
+    }
+
+    if (cancelledIndexes.size === 0) return null;
+
+    this.logger.log(`✂️ Cancelled ${cancelledIndexes.size}/${reply.parts.length} part(s) of reply ${reply.replyId}`);
+    return {
+      replyId: reply.replyId,
+      deliveredParts: reply.parts.filter((_, i) => !cancelledIndexes.has(i)),
+      cancelledParts: reply.parts.filter((_, i) => cancelledIndexes.has(i)),
+    };
+  }
+
   getChannelQueue(): Queue<ChannelSendPayload> {
     return this.channelQueue;
   }
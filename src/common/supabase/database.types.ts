@@ -62,6 +62,100 @@ export type Database = {
           },
         ]
       }
+      ai_reply_drafts: {
+        Row: {
+          ai_run_id: string | null
+          conversation_id: string
+          created_at: string
+          draft_content: string
+          final_content: string | null
+          id: string
+          lead_id: string
+          rejection_reason: string | null
+          review_reason: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          sent_message_id: string | null
+          status: string
+          trigger_message_id: string | null
+        }
+        Insert: {
+          ai_run_id?: string | null
+          conversation_id: string
+          created_at?: string
+          draft_content: string
+          final_content?: string | null
+          id?: string
+          lead_id: string
+          rejection_reason?: string | null
+          review_reason: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          sent_message_id?: string | null
+          status?: string
+          trigger_message_id?: string | null
+        }
+        Update: {
+          ai_run_id?: string | null
+          conversation_id?: string
+          created_at?: string
+          draft_content?: string
+          final_content?: string | null
+          id?: string
+          lead_id?: string
+          rejection_reason?: string | null
+          review_reason?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          sent_message_id?: string | null
+          status?: string
+          trigger_message_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_reply_drafts_ai_run_id_fkey"
+            columns: ["ai_run_id"]
+            isOneToOne: false
+            referencedRelation: "ai_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_reply_drafts_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_reply_drafts_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_reply_drafts_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_reply_drafts_sent_message_id_fkey"
+            columns: ["sent_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_reply_drafts_trigger_message_id_fkey"
+            columns: ["trigger_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ai_runs: {
         Row: {
           created_at: string | null
@@ -134,6 +228,47 @@ export type Database = {
           },
         ]
       }
+      ai_usage_alerts: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          alert_type: string
+          created_at: string
+          details: Json | null
+          id: string
+          threshold: number
+          value: number
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          alert_type: string
+          created_at?: string
+          details?: Json | null
+          id?: string
+          threshold: number
+          value: number
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          alert_type?: string
+          created_at?: string
+          details?: Json | null
+          id?: string
+          threshold?: number
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_alerts_acknowledged_by_fkey"
+            columns: ["acknowledged_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_logs: {
         Row: {
           action: string
@@ -253,6 +388,72 @@ export type Database = {
           },
         ]
       }
+      dead_letter_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          error: string | null
+          id: string
+          job_id: string | null
+          job_name: string | null
+          lead_id: string | null
+          payload: Json
+          queue: string
+          replayed_job_id: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          job_id?: string | null
+          job_name?: string | null
+          lead_id?: string | null
+          payload: Json
+          queue: string
+          replayed_job_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          job_id?: string | null
+          job_name?: string | null
+          lead_id?: string | null
+          payload?: Json
+          queue?: string
+          replayed_job_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dead_letter_jobs_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dead_letter_jobs_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       doctor_comments: {
         Row: {
           comment: string
@@ -304,6 +505,166 @@ export type Database = {
           },
         ]
       }
+      doctor_notifications: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_read: boolean | null
+          lead_id: string
+          message: string | null
+          metadata: Json | null
+          notification_type: string
+          priority: string | null
+          read_at: string | null
+          read_by: string | null
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_read?: boolean | null
+          lead_id: string
+          message?: string | null
+          metadata?: Json | null
+          notification_type: string
+          priority?: string | null
+          read_at?: string | null
+          read_by?: string | null
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_read?: boolean | null
+          lead_id?: string
+          message?: string | null
+          metadata?: Json | null
+          notification_type?: string
+          priority?: string | null
+          read_at?: string | null
+          read_by?: string | null
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_notifications_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "doctor_notifications_read_by_fkey"
+            columns: ["read_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      followup_decisions: {
+        Row: {
+          confidence: number | null
+          conversation_id: string | null
+          created_at: string | null
+          desire_score: number | null
+          escalation_reason: string | null
+          followup_id: string | null
+          followup_strategy: string
+          followup_tone: string | null
+          has_photos: boolean | null
+          hours_since_response: number | null
+          id: string
+          latency_ms: number | null
+          lead_id: string | null
+          lead_status: string | null
+          model: string | null
+          outcome: string | null
+          outcome_at: string | null
+          reasoning: string | null
+          should_followup: boolean
+          suggested_message: string | null
+          tokens_used: number | null
+          unanswered_followup_count: number | null
+          wait_hours: number | null
+        }
+        Insert: {
+          confidence?: number | null
+          conversation_id?: string | null
+          created_at?: string | null
+          desire_score?: number | null
+          escalation_reason?: string | null
+          followup_id?: string | null
+          followup_strategy: string
+          followup_tone?: string | null
+          has_photos?: boolean | null
+          hours_since_response?: number | null
+          id?: string
+          latency_ms?: number | null
+          lead_id?: string | null
+          lead_status?: string | null
+          model?: string | null
+          outcome?: string | null
+          outcome_at?: string | null
+          reasoning?: string | null
+          should_followup: boolean
+          suggested_message?: string | null
+          tokens_used?: number | null
+          unanswered_followup_count?: number | null
+          wait_hours?: number | null
+        }
+        Update: {
+          confidence?: number | null
+          conversation_id?: string | null
+          created_at?: string | null
+          desire_score?: number | null
+          escalation_reason?: string | null
+          followup_id?: string | null
+          followup_strategy?: string
+          followup_tone?: string | null
+          has_photos?: boolean | null
+          hours_since_response?: number | null
+          id?: string
+          latency_ms?: number | null
+          lead_id?: string | null
+          lead_status?: string | null
+          model?: string | null
+          outcome?: string | null
+          outcome_at?: string | null
+          reasoning?: string | null
+          should_followup?: boolean
+          suggested_message?: string | null
+          tokens_used?: number | null
+          unanswered_followup_count?: number | null
+          wait_hours?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "followup_decisions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "followup_decisions_followup_id_fkey"
+            columns: ["followup_id"]
+            isOneToOne: false
+            referencedRelation: "followups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "followup_decisions_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       followups: {
         Row: {
           attempt_number: number
@@ -377,6 +738,50 @@ export type Database = {
           },
         ]
       }
+      form_submissions: {
+        Row: {
+          created_at: string | null
+          external_form_id: string | null
+          form_type: string | null
+          id: string
+          lead_id: string | null
+          processed: boolean | null
+          processed_at: string | null
+          processing_error: string | null
+          submission_data: Json
+        }
+        Insert: {
+          created_at?: string | null
+          external_form_id?: string | null
+          form_type?: string | null
+          id?: string
+          lead_id?: string | null
+          processed?: boolean | null
+          processed_at?: string | null
+          processing_error?: string | null
+          submission_data: Json
+        }
+        Update: {
+          created_at?: string | null
+          external_form_id?: string | null
+          form_type?: string | null
+          id?: string
+          lead_id?: string | null
+          processed?: boolean | null
+          processed_at?: string | null
+          processing_error?: string | null
+          submission_data?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_submissions_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       handoffs: {
         Row: {
           assigned_to: string | null
@@ -625,6 +1030,57 @@ export type Database = {
           },
         ]
       }
+      lead_status_history: {
+        Row: {
+          actor: string
+          actor_id: string | null
+          created_at: string
+          event: string | null
+          from_status: string | null
+          id: string
+          lead_id: string
+          reason: string | null
+          to_status: string
+        }
+        Insert: {
+          actor: string
+          actor_id?: string | null
+          created_at?: string
+          event?: string | null
+          from_status?: string | null
+          id?: string
+          lead_id: string
+          reason?: string | null
+          to_status: string
+        }
+        Update: {
+          actor?: string
+          actor_id?: string | null
+          created_at?: string
+          event?: string | null
+          from_status?: string | null
+          id?: string
+          lead_id?: string
+          reason?: string | null
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_status_history_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_status_history_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       leads: {
         Row: {
           channel: string
@@ -703,13 +1159,147 @@ export type Database = {
         }
         Relationships: []
       }
+      medical_documents: {
+        Row: {
+          created_at: string
+          extracted_fields: Json | null
+          extracted_text: string | null
+          extraction_status: string
+          file_name: string | null
+          file_size: number | null
+          id: string
+          lead_id: string
+          message_id: string | null
+          mime_type: string | null
+          storage_bucket: string
+          storage_path: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          extracted_fields?: Json | null
+          extracted_text?: string | null
+          extraction_status?: string
+          file_name?: string | null
+          file_size?: number | null
+          id?: string
+          lead_id: string
+          message_id?: string | null
+          mime_type?: string | null
+          storage_bucket?: string
+          storage_path: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          extracted_fields?: Json | null
+          extracted_text?: string | null
+          extraction_status?: string
+          file_name?: string | null
+          file_size?: number | null
+          id?: string
+          lead_id?: string
+          message_id?: string | null
+          mime_type?: string | null
+          storage_bucket?: string
+          storage_path?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medical_documents_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medical_documents_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_deliveries: {
+        Row: {
+          channel: string
+          channel_message_id: string
+          channel_user_id: string
+          created_at: string
+          message_id: string
+        }
+        Insert: {
+          channel: string
+          channel_message_id: string
+          channel_user_id: string
+          created_at?: string
+          message_id: string
+        }
+        Update: {
+          channel?: string
+          channel_message_id?: string
+          channel_user_id?: string
+          created_at?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_deliveries_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_delivery_events: {
+        Row: {
+          channel_message_id: string | null
+          error: string | null
+          id: string
+          message_id: string
+          occurred_at: string
+          status: string
+        }
+        Insert: {
+          channel_message_id?: string | null
+          error?: string | null
+          id?: string
+          message_id: string
+          occurred_at?: string
+          status: string
+        }
+        Update: {
+          channel_message_id?: string | null
+          error?: string | null
+          id?: string
+          message_id?: string
+          occurred_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_delivery_events_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           ai_run_id: string | null
+          channel: string | null
           channel_message_id: string | null
+          channel_user_id: string | null
           content: string | null
           conversation_id: string
           created_at: string | null
+          delivery_status: string | null
+          delivery_updated_at: string | null
           direction: string
           id: string
           is_read: boolean | null
@@ -721,10 +1311,14 @@ export type Database = {
         }
         Insert: {
           ai_run_id?: string | null
+          channel?: string | null
           channel_message_id?: string | null
+          channel_user_id?: string | null
           content?: string | null
           conversation_id: string
           created_at?: string | null
+          delivery_status?: string | null
+          delivery_updated_at?: string | null
           direction: string
           id?: string
           is_read?: boolean | null
@@ -736,10 +1330,14 @@ export type Database = {
         }
         Update: {
           ai_run_id?: string | null
+          channel?: string | null
           channel_message_id?: string | null
+          channel_user_id?: string | null
           content?: string | null
           conversation_id?: string
           created_at?: string | null
+          delivery_status?: string | null
+          delivery_updated_at?: string | null
           direction?: string
           id?: string
           is_read?: boolean | null
@@ -942,6 +1540,47 @@ export type Database = {
           },
         ]
       }
+      state_machine_definitions: {
+        Row: {
+          activated_at: string | null
+          created_at: string
+          created_by: string | null
+          definition: Json
+          id: string
+          is_active: boolean
+          notes: string | null
+          version: number
+        }
+        Insert: {
+          activated_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          definition: Json
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          version: number
+        }
+        Update: {
+          activated_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          definition?: Json
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "state_machine_definitions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       system_configs: {
         Row: {
           config_key: string
@@ -1093,7 +1732,78 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      activate_state_machine_version: {
+        Args: { p_id: string }
+        Returns: {
+          activated_at: string | null
+          created_at: string
+          created_by: string | null
+          definition: Json
+          id: string
+          is_active: boolean
+          notes: string | null
+          version: number
+        }[]
+      }
+      apply_delivery_receipt: {
+        Args: {
+          p_at: string
+          p_channel: string
+          p_channel_message_id: string
+          p_channel_user_id: string
+          p_error?: string
+          p_status: string
+        }
+        Returns: {
+          ai_run_id: string | null
+          channel: string | null
+          channel_message_id: string | null
+          channel_user_id: string | null
+          content: string | null
+          conversation_id: string
+          created_at: string | null
+          delivery_status: string | null
+          delivery_updated_at: string | null
+          direction: string
+          id: string
+          is_read: boolean | null
+          lead_id: string
+          media_type: string | null
+          media_url: string | null
+          metadata: Json | null
+          sender_type: string
+        }[]
+      }
+      delivery_status_rank: {
+        Args: { p_status: string }
+        Returns: number
+      }
+      merge_leads: {
+        Args: {
+          p_audit: Json
+          p_lead_updates: Json
+          p_merged_lead: Json
+          p_primary_id: string
+          p_profile_updates: Json
+          p_secondary_id: string
+          p_secondary_metadata: Json
+          p_tables: string[]
+        }
+        Returns: Json
+      }
+      record_outbound_delivery: {
+        Args: {
+          p_channel: string
+          p_channel_message_id: string
+          p_channel_user_id: string
+          p_message_id: string
+        }
+        Returns: undefined
+      }
+      record_outbound_send_failure: {
+        Args: { p_error: string; p_message_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -14,6 +14,78 @@ export type Handoff = Tables<'handoffs'>;
 export type PhotoAsset = Tables<'photo_assets'>;
 export type PhotoChecklist = Tables<'photo_checklists'>;
 export type SystemConfig = Tables<'system_configs'>;
+export type AuditLog = Tables<'audit_logs'>;
+
+// Rows whose status / JSON columns are narrowed to what the app writes (tables in supabase/migrations)
+
+// Medical documents (lab results, surgery reports, ...)
+export type MedicalDocument = Omit<Tables<'medical_documents'>, 'extraction_status' | 'extracted_fields'> & {
+  extraction_status: 'pending' | 'extracted' | 'unsupported' | 'failed';
+  extracted_fields: Record<string, unknown> | null;
+};
+
+// Jobs that exhausted their retries
+export type DeadLetterStatus = 'open' | 'replayed' | 'discarded';
+
+export type DeadLetter = Omit<Tables<'dead_letter_jobs'>, 'payload' | 'status'> & {
+  payload: Record<string, unknown>;
+  status: DeadLetterStatus;
+};
+
+// Versioned lead state machine definitions
+export type StateMachineVersion = Omit<Tables<'state_machine_definitions'>, 'definition'> & {
+  definition: Record<string, unknown>; // StateMachineDefinition (validated by StateMachineService)
+};
+
+// Lead status transitions (who / what moved the lead and why)
+export type StatusActor = 'ai' | 'user' | 'system';
+
+export interface LeadStatusChange {
+  event?: string; // State machine event behind the change
+  actor: StatusActor;
+  actor_id?: string; // User id when a person made the change
+  reason?: string;
+}
+
+export type LeadStatusHistoryEntry = Omit<Tables<'lead_status_history'>, 'actor'> & {
+  actor: StatusActor;
+};
+
+// AI spend / error rate threshold crossings
+export type AiUsageAlertType = 'daily_spend' | 'error_rate';
+
+export type AiUsageAlert = Omit<Tables<'ai_usage_alerts'>, 'alert_type' | 'details'> & {
+  alert_type: AiUsageAlertType;
+  details: Record<string, unknown> | null;
+};
+
+// AI replies held for human review before sending
+export type ReplyDraftStatus = 'pending' | 'approved' | 'edited' | 'rejected' | 'superseded';
+
+export type ReplyDraft = Omit<Tables<'ai_reply_drafts'>, 'status'> & {
+  status: ReplyDraftStatus;
+};
+
+// Delivery receipts: messages.delivery_status / delivery_updated_at, per-part ids in message_deliveries
+// and every receipt in message_delivery_events (supabase/migrations/20261019000100_message_delivery.sql)
+export type MessageDeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface MessageDeliveryFields {
+  delivery_status: MessageDeliveryStatus | null;
+  delivery_updated_at: string | null;
+}
+
+// A channel message id is only unique within its chat (Telegram message_id counts up per chat)
+export interface ChannelMessageRef {
+  channel: string;
+  channelUserId: string;
+  channelMessageId: string;
+}
+
+// PostgREST returns at most this many rows per request (max-rows), larger reads page with .range()
+const PAGE_SIZE = 1000;
+// Ids per `in` filter, keeps the request URL short
+const ID_CHUNK_SIZE = 100;
 
 // Insert types
 type LeadInsert = TablesInsert<'leads'>;
@@ -24,11 +96,40 @@ type AiRunInsert = TablesInsert<'ai_runs'>;
 type FollowupInsert = TablesInsert<'followups'>;
 type HandoffInsert = TablesInsert<'handoffs'>;
 type PhotoAssetInsert = TablesInsert<'photo_assets'>;
+type AuditLogInsert = TablesInsert<'audit_logs'>;
 
 // Update types
 type LeadUpdate = TablesUpdate<'leads'>;
 type ConversationUpdate = TablesUpdate<'conversations'>;
 type FollowupUpdate = TablesUpdate<'followups'>;
+type HandoffUpdate = TablesUpdate<'handoffs'>;
+
+// Lead columns that can be updated directly (status is excluded - see updateLeadStatus)
+export type LeadFieldUpdate = Partial<{
+  language: string;
+  country: string;
+  treatment_category: string;
+  desire_score: number;
+  metadata: Record<string, unknown>;
+  tags: string[];
+  // Doctor approval fields
+  doctor_approved_by: string;
+  doctor_approved_at: string;
+  treatment_recommendations: string;
+  // Sales price fields
+  estimated_price_min: number;
+  estimated_price_max: number;
+  price_currency: string;
+  sales_price_set_by: string;
+  sales_price_set_at: string;
+  // Timezone field
+  timezone: string;
+  // Zoho CRM fields
+  zoho_lead_id: string;
+  zoho_synced_at: string;
+  zoho_sync_error: string;
+  zoho_sync_attempted_at: string;
+}>;
 
 @Injectable()
 export class SupabaseService implements OnModuleInit {
@@ -62,14 +163,18 @@ export class SupabaseService implements OnModuleInit {
     channel_user_id?: string;
     language?: string;
     country?: string;
+    timezone?: string;
     source?: string;
+    metadata?: Record<string, unknown>;
   }): Promise<Lead> {
     const insertData: LeadInsert = {
       channel: data.channel,
       channel_user_id: data.channel_user_id,
       language: data.language,
       country: data.country,
+      timezone: data.timezone,
       source: data.source,
+      metadata: data.metadata as Json,
     };
     
     const { data: lead, error } = await this.supabase
@@ -104,35 +209,81 @@ export class SupabaseService implements OnModuleInit {
       .single();
 
     if (error && error.code !== 'PGRST116') throw error;
+
+    // Identities merged into another lead resolve to that lead, still addressed on the identity
+    // that was looked up - replies go back where the patient wrote from
+    const mergedInto = (data?.metadata as Record<string, unknown> | null)?.merged_into;
+    if (typeof mergedInto === 'string') {
+      const primary = await this.getLeadById(mergedInto);
+      return { ...primary, channel, channel_user_id: channelUserId };
+    }
+
     return data as (Lead & { lead_profile: LeadProfile | null }) | null;
   }
 
-  async updateLead(id: string, data: Partial<{
-    status: string;
-    language: string;
-    country: string;
-    treatment_category: string;
-    desire_score: number;
-    metadata: Record<string, unknown>;
-    tags: string[];
-    // Doctor approval fields
-    doctor_approved_by: string;
-    doctor_approved_at: string;
-    treatment_recommendations: string;
-    // Sales price fields
-    estimated_price_min: number;
-    estimated_price_max: number;
-    price_currency: string;
-    sales_price_set_by: string;
-    sales_price_set_at: string;
-    // Timezone field
-    timezone: string;
-    // Zoho CRM fields
-    zoho_lead_id: string;
-    zoho_synced_at: string;
-    zoho_sync_error: string;
-    zoho_sync_attempted_at: string;
-  }>): Promise<Lead> {
+  /**
+   * Update lead fields (status changes go through updateLeadStatus so they are recorded)
+   */
+  async updateLead(id: string, data: LeadFieldUpdate): Promise<Lead> {
+    if ('status' in data) {
+      throw new Error('Lead status must be changed with updateLeadStatus()');
+    }
+    return this.writeLead(id, data);
+  }
+
+  /**
+   * Change a lead's status (plus any other fields) and record the transition in lead_status_history
+   */
+  async updateLeadStatus(
+    id: string,
+    status: string,
+    change: LeadStatusChange,
+    fields: LeadFieldUpdate = {},
+  ): Promise<Lead> {
+    const { data: current, error: currentError } = await this.supabase
+      .from('leads')
+      .select('status')
+      .eq('id', id)
+      .single();
+
+    if (currentError) throw currentError;
+
+    const lead = await this.writeLead(id, { ...fields, status });
+
+    if (current.status !== status) {
+      // The lead is already updated - a missing history row must not fail the caller's flow
+      const { error } = await this.supabase
+        .from('lead_status_history')
+        .insert({
+          lead_id: id,
+          from_status: current.status,
+          to_status: status,
+          event: change.event,
+          actor: change.actor,
+          actor_id: change.actor_id,
+          reason: change.reason,
+        });
+
+      if (error) {
+        this.logger.error(`Failed to record status change ${current.status} -> ${status} for lead ${id}: ${error.message}`);
+      }
+    }
+
+    return lead;
+  }
+
+  async getLeadStatusHistory(leadId: string): Promise<LeadStatusHistoryEntry[]> {
+    const { data, error } = await this.supabase
+      .from('lead_status_history')
+      .select('*')
+      .eq('lead_id', leadId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as LeadStatusHistoryEntry[];
+  }
+
+  private async writeLead(id: string, data: LeadFieldUpdate & { status?: string }): Promise<Lead> {
     const updateData: Record<string, unknown> = {};
     
     if (data.status !== undefined) updateData.status = data.status;
@@ -187,6 +338,7 @@ export class SupabaseService implements OnModuleInit {
     const { data, error } = await this.supabase
       .from('leads')
       .select('*, lead_profile(*)')
+      .is('metadata->>merged_into', null) // Merged duplicates are kept only as redirects
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -215,6 +367,34 @@ export class SupabaseService implements OnModuleInit {
     return conversation!;
   }
 
+  async getConversationById(id: string): Promise<Conversation | null> {
+    const { data, error } = await this.supabase
+      .from('conversations')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data;
+  }
+
+  /**
+   * Find the lead's conversation whose email thread (metadata.email_thread.messageIds) holds a Message-ID
+   */
+  async getConversationByEmailMessageId(leadId: string, emailMessageId: string): Promise<Conversation | null> {
+    const { data, error } = await this.supabase
+      .from('conversations')
+      .select('*')
+      .eq('lead_id', leadId)
+      .contains('metadata', { email_thread: { messageIds: [emailMessageId] } })
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data;
+  }
+
   async getActiveConversation(leadId: string): Promise<Conversation | null> {
     const { data, error } = await this.supabase
       .from('conversations')
@@ -266,7 +446,9 @@ export class SupabaseService implements OnModuleInit {
     content?: string;
     media_type?: string;
     media_url?: string;
-    sender_type: 'patient' | 'ai' | 'system' | 'human';
+    sender_type: 'patient' | 'ai' | 'system' | 'human' | 'agent';
+    channel?: string;
+    channel_user_id?: string;
     channel_message_id?: string;
     ai_run_id?: string;
     metadata?: Record<string, unknown>;
@@ -279,6 +461,8 @@ export class SupabaseService implements OnModuleInit {
       media_type: data.media_type,
       media_url: data.media_url,
       sender_type: data.sender_type,
+      channel: data.channel,
+      channel_user_id: data.channel_user_id,
       channel_message_id: data.channel_message_id,
       ai_run_id: data.ai_run_id,
       metadata: data.metadata as Json,
@@ -305,6 +489,24 @@ export class SupabaseService implements OnModuleInit {
     return data;
   }
 
+  /**
+   * Get an inbound message by its channel message id, scoped to the chat it came from
+   */
+  async getInboundMessageByChannelId(ref: ChannelMessageRef): Promise<Message | null> {
+    const { data, error } = await this.supabase
+      .from('messages')
+      .select('*')
+      .eq('direction', 'in')
+      .eq('channel', ref.channel)
+      .eq('channel_user_id', ref.channelUserId)
+      .eq('channel_message_id', ref.channelMessageId)
+      .limit(1)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data;
+  }
+
   async getConversationMessages(conversationId: string, limit = 20): Promise<(Message & { ai_message_feedback?: { id: string; rating: string; comment: string | null; suggested_response: string | null; created_at: string | null; users?: { id: string; name: string; avatar_url: string | null } | null }[] | null })[]> {
     const { data, error } = await this.supabase
       .from('messages')
@@ -331,6 +533,100 @@ export class SupabaseService implements OnModuleInit {
     return (data || []).reverse();
   }
 
+  /**
+   * Link a channel message id (WhatsApp wamid, Telegram message_id, ...) of a chat to an outbound message
+   */
+  async recordOutboundDelivery(messageId: string, ref: ChannelMessageRef): Promise<void> {
+    const { error } = await this.supabase.rpc('record_outbound_delivery', {
+      p_message_id: messageId,
+      p_channel: ref.channel,
+      p_channel_user_id: ref.channelUserId,
+      p_channel_message_id: ref.channelMessageId,
+    });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Apply a delivery receipt to the outbound message that owns the channel message id
+   * The status only moves forward, decided in the same UPDATE so concurrent receipts can't
+   * overwrite each other. Returns null if the id does not belong to any stored message
+   */
+  async updateMessageDeliveryStatus(
+    ref: ChannelMessageRef,
+    status: MessageDeliveryStatus,
+    at: string,
+    errorMessage?: string,
+  ): Promise<Message | null> {
+    const { data, error } = await this.supabase.rpc('apply_delivery_receipt', {
+      p_channel: ref.channel,
+      p_channel_user_id: ref.channelUserId,
+      p_channel_message_id: ref.channelMessageId,
+      p_status: status,
+      p_at: at,
+      p_error: errorMessage,
+    });
+
+    if (error) throw error;
+    return (data || [])[0] || null;
+  }
+
+  /**
+   * Get the delivery status of the latest outbound message in a conversation (null if never tracked)
+   */
+  async getLastOutboundDeliveryStatus(conversationId: string): Promise<MessageDeliveryStatus | null> {
+    const { data, error } = await this.supabase
+      .from('messages')
+      .select('delivery_status')
+      .eq('conversation_id', conversationId)
+      .eq('direction', 'out')
+      .neq('sender_type', 'system')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return (data?.delivery_status as MessageDeliveryStatus | null | undefined) || null;
+  }
+
+  /**
+   * Merge keys into a message's metadata (keeps existing keys)
+   */
+  async updateMessageMetadata(id: string, patch: Record<string, unknown>): Promise<void> {
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('messages')
+      .select('metadata')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const metadata = (existing?.metadata || {}) as Record<string, unknown>;
+    const { error } = await this.supabase
+      .from('messages')
+      .update({ metadata: { ...metadata, ...patch } as Json })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Voice notes of a lead held back from transcription until consent was given
+   */
+  async getVoiceNotesAwaitingConsent(leadId: string): Promise<Message[]> {
+    const { data, error } = await this.supabase
+      .from('messages')
+      .select('*')
+      .eq('lead_id', leadId)
+      .eq('direction', 'in')
+      .eq('media_type', 'audio')
+      .contains('metadata', { transcript_status: 'awaiting_consent' })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
   async markMessagesAsRead(conversationId: string): Promise<void> {
     const { error } = await this.supabase
       .from('messages')
@@ -511,6 +807,19 @@ export class SupabaseService implements OnModuleInit {
     return aiRun!;
   }
 
+  /**
+   * AI runs since the given time (latency / token / error columns only, for metrics)
+   */
+  async getAiRunsSince(since: string): Promise<Pick<AiRun, 'job_type' | 'model' | 'latency_ms' | 'tokens_used' | 'error'>[]> {
+    return this.fetchAllPages((from, to) => this.supabase
+      .from('ai_runs')
+      .select('job_type, model, latency_ms, tokens_used, error')
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+  }
+
   // ==================== FOLLOWUPS ====================
 
   async createFollowup(data: {
@@ -564,6 +873,21 @@ export class SupabaseService implements OnModuleInit {
     return count || 0;
   }
 
+  /**
+   * Statuses of follow-ups that changed since the given time (sent / failed / cancelled outcomes)
+   */
+  async getFollowupStatusesSince(since: string): Promise<string[]> {
+    const rows = await this.fetchAllPages((from, to) => this.supabase
+      .from('followups')
+      .select('status')
+      .gte('updated_at', since)
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    return rows.map((row) => row.status);
+  }
+
   async getPendingFollowups(): Promise<(Followup & { leads: Lead | null; conversations: Conversation | null })[]> {
     const now = new Date().toISOString();
     const { data, error } = await this.supabase
@@ -610,6 +934,27 @@ export class SupabaseService implements OnModuleInit {
     return followup!;
   }
 
+  /**
+   * Merge keys into a followup's metadata (keeps existing keys)
+   */
+  async updateFollowupMetadata(id: string, patch: Record<string, unknown>): Promise<void> {
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('followups')
+      .select('metadata')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const metadata = (existing?.metadata || {}) as Record<string, unknown>;
+    const { error } = await this.supabase
+      .from('followups')
+      .update({ metadata: { ...metadata, ...patch } as Json })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
   async cancelPendingFollowups(leadId: string): Promise<void> {
     const { error } = await this.supabase
       .from('followups')
@@ -652,6 +997,99 @@ export class SupabaseService implements OnModuleInit {
     return data?.created_at || null;
   }
 
+  /**
+   * Get the time of the lead's last inbound message across all conversations
+   */
+  async getLastInboundMessageAt(leadId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('messages')
+      .select('created_at')
+      .eq('lead_id', leadId)
+      .eq('direction', 'in')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data?.created_at || null;
+  }
+
+  /**
+   * Mark an outbound message as failed when its send job gave up (nothing reached the channel)
+   */
+  async recordOutboundSendFailure(messageId: string, errorMessage: string): Promise<void> {
+    const { error } = await this.supabase.rpc('record_outbound_send_failure', {
+      p_message_id: messageId,
+      p_error: errorMessage,
+    });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Record that a split reply was cut short - the stored content keeps only what the lead received
+   * (so the AI context matches the conversation) and the dropped parts move to metadata
+   */
+  async recordInterruptedReply(messageId: string, deliveredParts: string[], cancelledParts: string[]): Promise<void> {
+    const { data: message, error: fetchError } = await this.supabase
+      .from('messages')
+      .select('metadata')
+      .eq('id', messageId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const { error } = await this.supabase
+      .from('messages')
+      .update({
+        content: deliveredParts.join('\n\n'),
+        metadata: {
+          ...((message?.metadata as Record<string, unknown> | null) || {}),
+          reply_interrupted: {
+            delivered_parts: deliveredParts.length,
+            cancelled_parts: cancelledParts.length,
+            undelivered_content: cancelledParts.join('\n\n'),
+            interrupted_at: new Date().toISOString(),
+          },
+        } as Json,
+      })
+      .eq('id', messageId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Get the lead's most recent inbound message (tells whether a reply is answering stale context)
+   */
+  async getLatestInboundMessage(leadId: string): Promise<Pick<Message, 'id' | 'created_at'> | null> {
+    const { data, error } = await this.supabase
+      .from('messages')
+      .select('id, created_at')
+      .eq('lead_id', leadId)
+      .eq('direction', 'in')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data || null;
+  }
+
+  /**
+   * The lead's most recent messages across all conversations (oldest first)
+   */
+  async getLeadMessages(leadId: string, limit = 200): Promise<Message[]> {
+    const { data, error } = await this.supabase
+      .from('messages')
+      .select('*')
+      .eq('lead_id', leadId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).reverse();
+  }
+
   /**
    * Check if a lead has any photos
    */
@@ -696,6 +1134,7 @@ export class SupabaseService implements OnModuleInit {
     reason: string;
     reason_details?: string;
     triggered_by: string;
+    previous_status?: string; // Lead status to return to when the handoff is resolved
   }): Promise<Handoff> {
     const insertData: HandoffInsert = {
       lead_id: data.lead_id,
@@ -703,6 +1142,7 @@ export class SupabaseService implements OnModuleInit {
       reason: data.reason,
       reason_details: data.reason_details,
       triggered_by: data.triggered_by,
+      metadata: data.previous_status ? { previous_status: data.previous_status } : undefined,
     };
     
     const { data: handoff, error } = await this.supabase
@@ -715,22 +1155,85 @@ export class SupabaseService implements OnModuleInit {
     return handoff!;
   }
 
-  // ==================== PHOTO ASSETS ====================
+  async getHandoffs(options: {
+    open?: boolean;
+    assignedTo?: string;
+    limit?: number;
+  } = {}): Promise<Array<Handoff & { leads: Lead & { lead_profile: LeadProfile | null } }>> {
+    let query = this.supabase
+      .from('handoffs')
+      .select('*, leads(*, lead_profile(*))')
+      .order('created_at', { ascending: true })
+      .limit(options.limit || 50);
 
-  async createPhotoAsset(data: {
-    lead_id: string;
-    checklist_key?: string;
-    storage_path: string;
-    file_name?: string;
-    file_size?: number;
-    mime_type?: string;
-  }): Promise<PhotoAsset> {
-    const insertData: PhotoAssetInsert = {
-      lead_id: data.lead_id,
-      checklist_key: data.checklist_key,
-      storage_path: data.storage_path,
-      file_name: data.file_name,
-      file_size: data.file_size,
+    if (options.open !== undefined) {
+      query = options.open ? query.is('resolved_at', null) : query.not('resolved_at', 'is', null);
+    }
+    if (options.assignedTo) {
+      query = query.eq('assigned_to', options.assignedTo);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as any;
+  }
+
+  async getHandoffById(id: string): Promise<Handoff | null> {
+    const { data, error } = await this.supabase
+      .from('handoffs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data;
+  }
+
+  async getLeadHandoffs(leadId: string): Promise<Handoff[]> {
+    const { data, error } = await this.supabase
+      .from('handoffs')
+      .select('*')
+      .eq('lead_id', leadId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async updateHandoff(id: string, data: Partial<{
+    status: string;
+    assigned_to: string | null;
+    resolution_notes: string;
+    resolved_at: string;
+    metadata: Record<string, unknown>;
+  }>): Promise<Handoff> {
+    const { data: handoff, error } = await this.supabase
+      .from('handoffs')
+      .update({ ...data, updated_at: new Date().toISOString() } as HandoffUpdate)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return handoff!;
+  }
+
+  // ==================== PHOTO ASSETS ====================
+
+  async createPhotoAsset(data: {
+    lead_id: string;
+    checklist_key?: string;
+    storage_path: string;
+    file_name?: string;
+    file_size?: number;
+    mime_type?: string;
+  }): Promise<PhotoAsset> {
+    const insertData: PhotoAssetInsert = {
+      lead_id: data.lead_id,
+      checklist_key: data.checklist_key,
+      storage_path: data.storage_path,
+      file_name: data.file_name,
+      file_size: data.file_size,
       mime_type: data.mime_type,
     };
     
@@ -755,6 +1258,57 @@ export class SupabaseService implements OnModuleInit {
     return data || [];
   }
 
+  // ==================== MEDICAL DOCUMENTS ====================
+
+  async createMedicalDocument(data: {
+    lead_id: string;
+    message_id?: string;
+    storage_path: string;
+    file_name?: string;
+    file_size?: number;
+    mime_type?: string;
+  }): Promise<MedicalDocument> {
+    const { data: document, error } = await this.supabase
+      .from('medical_documents')
+      .insert({
+        ...data,
+        storage_bucket: 'lead-media-private',
+        extraction_status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return document as MedicalDocument;
+  }
+
+  async updateMedicalDocument(
+    id: string,
+    data: Partial<Pick<MedicalDocument, 'extraction_status' | 'extracted_text' | 'extracted_fields'>>,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('medical_documents')
+      .update({
+        ...data,
+        extracted_fields: data.extracted_fields as Json | undefined,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async getLeadDocuments(leadId: string): Promise<MedicalDocument[]> {
+    const { data, error } = await this.supabase
+      .from('medical_documents')
+      .select('*')
+      .eq('lead_id', leadId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as MedicalDocument[];
+  }
+
   // ==================== PHOTO CHECKLISTS ====================
 
   async getPhotoChecklist(treatmentCategory: string): Promise<PhotoChecklist[]> {
@@ -897,6 +1451,580 @@ export class SupabaseService implements OnModuleInit {
     return data || [];
   }
 
+  // ==================== DEAD LETTERS ====================
+
+  async createDeadLetter(data: {
+    queue: string;
+    job_id?: string;
+    job_name?: string;
+    payload: Record<string, unknown>;
+    error?: string;
+    attempts: number;
+    lead_id?: string;
+  }): Promise<DeadLetter> {
+    const { data: deadLetter, error } = await this.supabase
+      .from('dead_letter_jobs')
+      .insert({ ...data, payload: data.payload as Json, status: 'open' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return deadLetter as DeadLetter;
+  }
+
+  async getDeadLetters(options: {
+    status?: DeadLetterStatus;
+    queue?: string;
+    leadId?: string;
+    limit?: number;
+  } = {}): Promise<DeadLetter[]> {
+    let query = this.supabase
+      .from('dead_letter_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+    if (options.queue) {
+      query = query.eq('queue', options.queue);
+    }
+    if (options.leadId) {
+      query = query.eq('lead_id', options.leadId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as DeadLetter[];
+  }
+
+  async getDeadLetterById(id: string): Promise<DeadLetter | null> {
+    const { data, error } = await this.supabase
+      .from('dead_letter_jobs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data as DeadLetter | null;
+  }
+
+  async updateDeadLetter(
+    id: string,
+    data: Partial<Pick<DeadLetter, 'payload' | 'status' | 'replayed_job_id' | 'resolved_by' | 'resolved_at'>>,
+  ): Promise<DeadLetter> {
+    const { data: deadLetter, error } = await this.supabase
+      .from('dead_letter_jobs')
+      .update({ ...data, payload: data.payload as Json | undefined, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return deadLetter as DeadLetter;
+  }
+
+  // ==================== REPLY DRAFTS ====================
+
+  async createReplyDraft(data: {
+    lead_id: string;
+    conversation_id: string;
+    trigger_message_id?: string;
+    ai_run_id?: string;
+    draft_content: string;
+    review_reason: string;
+  }): Promise<ReplyDraft> {
+    const { data: draft, error } = await this.supabase
+      .from('ai_reply_drafts')
+      .insert({ ...data, status: 'pending' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return draft as ReplyDraft;
+  }
+
+  async getReplyDrafts(options: {
+    status?: ReplyDraftStatus;
+    leadId?: string;
+    limit?: number;
+  } = {}): Promise<Array<ReplyDraft & { leads: Lead & { lead_profile: LeadProfile | null } }>> {
+    let query = this.supabase
+      .from('ai_reply_drafts')
+      .select('*, leads(*, lead_profile(*))')
+      .order('created_at', { ascending: true })
+      .limit(options.limit || 50);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+    if (options.leadId) {
+      query = query.eq('lead_id', options.leadId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as Array<ReplyDraft & { leads: Lead & { lead_profile: LeadProfile | null } }>;
+  }
+
+  async getReplyDraftById(id: string): Promise<ReplyDraft | null> {
+    const { data, error } = await this.supabase
+      .from('ai_reply_drafts')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data as ReplyDraft | null;
+  }
+
+  async updateReplyDraft(id: string, data: Partial<Omit<ReplyDraft, 'id' | 'created_at'>>): Promise<ReplyDraft> {
+    const { data: draft, error } = await this.supabase
+      .from('ai_reply_drafts')
+      .update(data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return draft as ReplyDraft;
+  }
+
+  /**
+   * Review a draft only if it is still pending - the status check and the write are one UPDATE,
+   * so two reviewers can't both act on it. Returns null if someone else got there first
+   */
+  async claimPendingReplyDraft(
+    id: string,
+    data: Partial<Omit<ReplyDraft, 'id' | 'created_at'>>,
+  ): Promise<ReplyDraft | null> {
+    const { data: draft, error } = await this.supabase
+      .from('ai_reply_drafts')
+      .update(data)
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return draft as ReplyDraft | null;
+  }
+
+  /**
+   * Mark older pending drafts of a conversation as superseded (a newer AI reply replaces them)
+   */
+  async supersedePendingReplyDrafts(conversationId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('ai_reply_drafts')
+      .update({ status: 'superseded' })
+      .eq('conversation_id', conversationId)
+      .eq('status', 'pending');
+
+    if (error) throw error;
+  }
+
+  async createAiMessageFeedback(data: {
+    message_id: string;
+    user_id: string;
+    rating: 'good' | 'bad' | 'improvable';
+    comment?: string;
+    suggested_response?: string;
+  }): Promise<void> {
+    const { error } = await this.supabase
+      .from('ai_message_feedback')
+      .upsert({
+        message_id: data.message_id,
+        user_id: data.user_id,
+        rating: data.rating,
+        comment: data.comment || null,
+        suggested_response: data.suggested_response || null,
+      }, { onConflict: 'message_id,user_id' });
+
+    if (error) throw error;
+  }
+
+  // ==================== IDENTITY ====================
+
+  /**
+   * Leads with the identifiers used for cross-channel matching (merged duplicates excluded)
+   */
+  async getLeadIdentities(limit = 5000): Promise<Array<
+    Pick<Lead, 'id' | 'channel' | 'channel_user_id' | 'status' | 'created_at'> & {
+      lead_profile: Pick<LeadProfile, 'name' | 'phone' | 'email'> | null;
+    }
+  >> {
+    const { data, error } = await this.supabase
+      .from('leads')
+      .select('id, channel, channel_user_id, status, created_at, lead_profile(name, phone, email)')
+      .is('metadata->>merged_into', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as any;
+  }
+
+  /**
+   * Phone / email given in form submissions, keyed by the lead_id the form link carried
+   */
+  async getFormSubmissionIdentities(limit = 5000): Promise<Array<{
+    lead_id: string;
+    submission_data: Record<string, any>;
+  }>> {
+    const { data, error } = await this.supabase
+      .from('form_submissions')
+      .select('lead_id, submission_data')
+      .not('lead_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as Array<{ lead_id: string; submission_data: Record<string, any> }>;
+  }
+
+  /**
+   * Merge a duplicate lead into its primary lead in one transaction (merge_leads SQL function,
+   * see supabase/migrations). Returns the number of moved rows per table.
+   */
+  async mergeLeads(params: {
+    primaryLeadId: string;
+    secondaryLeadId: string;
+    tables: readonly string[];
+    leadUpdates: Record<string, unknown>;
+    profileUpdates: Record<string, unknown>;
+    mergedLead: Record<string, unknown>;
+    secondaryMetadata: Record<string, unknown>;
+    audit: {
+      user_id: string;
+      user_role: string;
+      old_value: Record<string, unknown>;
+      new_value: Record<string, unknown>;
+    };
+  }): Promise<Record<string, number>> {
+    const { data, error } = await this.supabase.rpc('merge_leads', {
+      p_primary_id: params.primaryLeadId,
+      p_secondary_id: params.secondaryLeadId,
+      p_tables: [...params.tables],
+      p_lead_updates: params.leadUpdates as Json,
+      p_profile_updates: params.profileUpdates as Json,
+      p_merged_lead: params.mergedLead as Json,
+      p_secondary_metadata: params.secondaryMetadata as Json,
+      p_audit: params.audit as Json,
+    });
+
+    if (error) throw error;
+    return (data || {}) as Record<string, number>;
+  }
+
+  // ==================== ANALYTICS ====================
+
+  /**
+   * Page through a query with .range() - PostgREST caps every response at 1000 rows.
+   * The query must have a stable order, otherwise pages can overlap or skip rows.
+   */
+  private async fetchAllPages<T>(
+    page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+    maxRows = Infinity,
+  ): Promise<T[]> {
+    const rows: T[] = [];
+
+    while (rows.length < maxRows) {
+      const size = Math.min(PAGE_SIZE, maxRows - rows.length);
+      const { data, error } = await page(rows.length, rows.length + size - 1);
+
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < size) break;
+    }
+
+    return rows;
+  }
+
+  /**
+   * Run a paginated query per chunk of ids - keeps the `in` filter short enough for the request URL
+   */
+  private async fetchAllForIds<T>(
+    ids: string[],
+    page: (chunk: string[], from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+  ): Promise<T[]> {
+    const rows: T[] = [];
+
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+      rows.push(...(await this.fetchAllPages((from, to) => page(chunk, from, to))));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Leads created in [from, to) with the columns reports break down by (merged duplicates excluded)
+   */
+  async getLeadsCreatedBetween(from: string, to: string, maxRows?: number): Promise<Array<
+    Pick<Lead, 'id' | 'channel' | 'language' | 'country' | 'treatment_category' | 'status' | 'created_at'> & {
+      lead_profile: Pick<LeadProfile, 'consent_given'> | null;
+    }
+  >> {
+    return this.fetchAllPages<any>((rangeFrom, rangeTo) => this.supabase
+      .from('leads')
+      .select('id, channel, language, country, treatment_category, status, created_at, lead_profile(consent_given)')
+      .gte('created_at', from)
+      .lt('created_at', to)
+      .is('metadata->>merged_into', null)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(rangeFrom, rangeTo), maxRows);
+  }
+
+  /**
+   * Status changes of the given leads, oldest first per lead
+   */
+  async getStatusHistoryForLeads(leadIds: string[]): Promise<
+    Pick<LeadStatusHistoryEntry, 'lead_id' | 'from_status' | 'to_status' | 'created_at'>[]
+  > {
+    return this.fetchAllForIds(leadIds, (chunk, from, to) => this.supabase
+      .from('lead_status_history')
+      .select('lead_id, from_status, to_status, created_at')
+      .in('lead_id', chunk)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+  }
+
+  /**
+   * Follow-ups of the given leads (send / response columns only)
+   */
+  async getFollowupsForLeads(leadIds: string[]): Promise<
+    Pick<Followup, 'lead_id' | 'status' | 'sent_at' | 'response_received'>[]
+  > {
+    return this.fetchAllForIds(leadIds, (chunk, from, to) => this.supabase
+      .from('followups')
+      .select('lead_id, status, sent_at, response_received')
+      .in('lead_id', chunk)
+      .order('id', { ascending: true })
+      .range(from, to));
+  }
+
+  /**
+   * Handoffs of the given leads
+   */
+  async getHandoffsForLeads(leadIds: string[]): Promise<
+    Pick<Handoff, 'lead_id' | 'created_at' | 'resolved_at'>[]
+  > {
+    return this.fetchAllForIds(leadIds, (chunk, from, to) => this.supabase
+      .from('handoffs')
+      .select('lead_id, created_at, resolved_at')
+      .in('lead_id', chunk)
+      .order('id', { ascending: true })
+      .range(from, to));
+  }
+
+  /**
+   * AI runs in [from, to) with the columns usage reports aggregate
+   */
+  async getAiRunsBetween(from: string, to: string, maxRows?: number): Promise<
+    Pick<AiRun, 'created_at' | 'lead_id' | 'job_type' | 'model' | 'prompt_version' | 'tokens_used' | 'latency_ms' | 'error'>[]
+  > {
+    return this.fetchAllPages((rangeFrom, rangeTo) => this.supabase
+      .from('ai_runs')
+      .select('created_at, lead_id, job_type, model, prompt_version, tokens_used, latency_ms, error')
+      .gte('created_at', from)
+      .lt('created_at', to)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(rangeFrom, rangeTo), maxRows);
+  }
+
+  /**
+   * All AI runs of the given leads (model / tokens only, for cost per lead)
+   */
+  async getAiRunsForLeads(leadIds: string[]): Promise<Pick<AiRun, 'lead_id' | 'model' | 'tokens_used'>[]> {
+    return this.fetchAllForIds(leadIds, (chunk, from, to) => this.supabase
+      .from('ai_runs')
+      .select('lead_id, model, tokens_used')
+      .in('lead_id', chunk)
+      .order('id', { ascending: true })
+      .range(from, to));
+  }
+
+  /**
+   * Leads moved into the given status in [from, to)
+   */
+  async getStatusChangesTo(status: string, from: string, to: string): Promise<
+    Pick<LeadStatusHistoryEntry, 'lead_id' | 'created_at'>[]
+  > {
+    return this.fetchAllPages((rangeFrom, rangeTo) => this.supabase
+      .from('lead_status_history')
+      .select('lead_id, created_at')
+      .eq('to_status', status)
+      .gte('created_at', from)
+      .lt('created_at', to)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(rangeFrom, rangeTo));
+  }
+
+  async createAiUsageAlert(data: {
+    alert_type: AiUsageAlertType;
+    value: number;
+    threshold: number;
+    details?: Record<string, unknown>;
+  }): Promise<AiUsageAlert> {
+    const { data: alert, error } = await this.supabase
+      .from('ai_usage_alerts')
+      .insert({ ...data, details: data.details as Json | undefined })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return alert as AiUsageAlert;
+  }
+
+  async getAiUsageAlerts(options: {
+    alertType?: AiUsageAlertType;
+    acknowledged?: boolean;
+    since?: string;
+    limit?: number;
+  } = {}): Promise<AiUsageAlert[]> {
+    let query = this.supabase
+      .from('ai_usage_alerts')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50);
+
+    if (options.alertType) {
+      query = query.eq('alert_type', options.alertType);
+    }
+    if (options.acknowledged !== undefined) {
+      query = options.acknowledged
+        ? query.not('acknowledged_at', 'is', null)
+        : query.is('acknowledged_at', null);
+    }
+    if (options.since) {
+      query = query.gte('created_at', options.since);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as AiUsageAlert[];
+  }
+
+  async acknowledgeAiUsageAlert(id: string, userId: string): Promise<AiUsageAlert | null> {
+    const { data, error } = await this.supabase
+      .from('ai_usage_alerts')
+      .update({ acknowledged_by: userId, acknowledged_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data as AiUsageAlert | null;
+  }
+
+  // ==================== AUDIT LOGS ====================
+
+  async createAuditLog(data: {
+    action: string;
+    entity_type: string;
+    entity_id?: string;
+    user_id?: string;
+    user_role?: string;
+    old_value?: Record<string, unknown>;
+    new_value?: Record<string, unknown>;
+    ip_address?: string;
+    user_agent?: string;
+  }): Promise<AuditLog> {
+    const insertData: AuditLogInsert = {
+      action: data.action,
+      entity_type: data.entity_type,
+      entity_id: data.entity_id,
+      user_id: data.user_id,
+      user_role: data.user_role,
+      old_value: data.old_value as Json,
+      new_value: data.new_value as Json,
+      ip_address: data.ip_address,
+      user_agent: data.user_agent,
+    };
+
+    const { data: auditLog, error } = await this.supabase
+      .from('audit_logs')
+      .insert(insertData)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return auditLog!;
+  }
+
+  // ==================== STATE MACHINE DEFINITIONS ====================
+
+  async getActiveStateMachineVersion(): Promise<StateMachineVersion | null> {
+    const { data, error } = await this.supabase
+      .from('state_machine_definitions')
+      .select('*')
+      .eq('is_active', true)
+      .order('version', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data as StateMachineVersion | null;
+  }
+
+  async getStateMachineVersions(limit = 50): Promise<StateMachineVersion[]> {
+    const { data, error } = await this.supabase
+      .from('state_machine_definitions')
+      .select('*')
+      .order('version', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as StateMachineVersion[];
+  }
+
+  async getStateMachineVersion(version: number): Promise<StateMachineVersion | null> {
+    const { data, error } = await this.supabase
+      .from('state_machine_definitions')
+      .select('*')
+      .eq('version', version)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data as StateMachineVersion | null;
+  }
+
+  async createStateMachineVersion(data: {
+    version: number;
+    definition: Record<string, unknown>;
+    notes?: string;
+    created_by?: string;
+  }): Promise<StateMachineVersion> {
+    const { data: version, error } = await this.supabase
+      .from('state_machine_definitions')
+      .insert({ ...data, definition: data.definition as Json, is_active: false })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return version as StateMachineVersion;
+  }
+
+  /**
+   * Make one version the live definition (all others are deactivated in the same transaction,
+   * activate_state_machine_version SQL function - see supabase/migrations)
+   */
+  async activateStateMachineVersion(id: string): Promise<StateMachineVersion> {
+    const { data, error } = await this.supabase.rpc('activate_state_machine_version', { p_id: id });
+
+    if (error) throw error;
+    const [version] = data || [];
+    if (!version) {
+      throw new Error(`State machine version not found: ${id}`);
+    }
+    return version as StateMachineVersion;
+  }
+
   // ==================== SYSTEM CONFIGS ====================
 
   async getConfig(key: string): Promise<Json | null> {
@@ -911,6 +2039,18 @@ export class SupabaseService implements OnModuleInit {
     return data?.config_value ?? null;
   }
 
+  /**
+   * Cheapest possible round-trip to the database (used by the health check)
+   */
+  async ping(): Promise<void> {
+    const { error } = await this.supabase
+      .from('system_configs')
+      .select('config_key')
+      .limit(1);
+
+    if (error) throw error;
+  }
+
   // ==================== NOTIFICATIONS ====================
 
   async createNotification(data: {
@@ -957,6 +2097,15 @@ export class SupabaseService implements OnModuleInit {
     return data;
   }
 
+  async downloadFile(bucket: string, path: string): Promise<Buffer> {
+    const { data, error } = await this.supabase.storage
+      .from(bucket)
+      .download(path);
+
+    if (error) throw error;
+    return Buffer.from(await data.arrayBuffer());
+  }
+
   async getSignedUrl(bucket: string, path: string, expiresIn = 900) {
     const { data, error } = await this.supabase.storage
       .from(bucket)
@@ -0,0 +1,38 @@
+import { AutopilotPause, getActiveAutopilotPause, isAutopilotPaused } from './autopilot.utils';
+
+const pause = (overrides: Partial<AutopilotPause> = {}): AutopilotPause => ({
+  paused: true,
+  paused_at: '2026-10-01T10:00:00.000Z',
+  paused_by: 'user-1',
+  reason: null,
+  until: null,
+  ...overrides,
+});
+
+describe('getActiveAutopilotPause', () => {
+  const now = new Date('2026-10-01T12:00:00.000Z');
+
+  it('returns a pause without an end date', () => {
+    const lead = { metadata: { autopilot: pause() } };
+    expect(getActiveAutopilotPause(lead, now)).toEqual(pause());
+  });
+
+  it('returns a pause until it expires', () => {
+    expect(getActiveAutopilotPause({ metadata: { autopilot: pause({ until: '2026-10-01T13:00:00.000Z' }) } }, now)).not.toBeNull();
+    expect(getActiveAutopilotPause({ metadata: { autopilot: pause({ until: '2026-10-01T12:00:00.000Z' }) } }, now)).toBeNull();
+  });
+
+  it('ignores resumed pauses and leads without one', () => {
+    expect(getActiveAutopilotPause({ metadata: { autopilot: pause({ paused: false }) } }, now)).toBeNull();
+    expect(getActiveAutopilotPause({ metadata: {} }, now)).toBeNull();
+    expect(getActiveAutopilotPause({ metadata: null }, now)).toBeNull();
+    expect(getActiveAutopilotPause({}, now)).toBeNull();
+  });
+});
+
+describe('isAutopilotPaused', () => {
+  it('reflects the active pause', () => {
+    expect(isAutopilotPaused({ metadata: { autopilot: pause() } })).toBe(true);
+    expect(isAutopilotPaused({ metadata: { autopilot: pause({ until: '2000-01-01T00:00:00.000Z' }) } })).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Autopilot Utilities
+ *
+ * A lead's autopilot can be paused by staff (leads.metadata.autopilot) so the AI
+ * stops drafting replies and follow-ups while a human is talking to the patient.
+ */
+
+export interface AutopilotPause {
+  paused: boolean;
+  paused_at: string;
+  paused_by: string;
+  paused_by_name?: string;
+  reason: string | null;
+  until: string | null; // null = paused until resumed manually
+}
+
+/**
+ * Get the lead's autopilot pause if it is currently in effect (expired pauses are ignored)
+ */
+export function getActiveAutopilotPause(
+  lead: { metadata?: unknown },
+  now: Date = new Date(),
+): AutopilotPause | null {
+  const metadata = lead.metadata as Record<string, unknown> | null | undefined;
+  const pause = metadata?.autopilot as AutopilotPause | undefined;
+
+  if (!pause?.paused) return null;
+  if (pause.until && new Date(pause.until).getTime() <= now.getTime()) return null;
+
+  return pause;
+}
+
+/**
+ * Check if the AI may act on a lead right now
+ */
+export function isAutopilotPaused(lead: { metadata?: unknown }): boolean {
+  return getActiveAutopilotPause(lead) !== null;
+}
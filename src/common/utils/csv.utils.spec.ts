@@ -0,0 +1,27 @@
+import { toCsv } from './csv.utils';
+
+describe('toCsv', () => {
+  it('renders a header line and rows in column order', () => {
+    expect(toCsv(['a', 'b'], [{ b: 2, a: 'x' }, { a: true, b: null }])).toBe('a,b\r\nx,2\r\ntrue,\r\n');
+  });
+
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv(['v'], [{ v: 'a,b' }, { v: 'say "hi"' }, { v: 'two\nlines' }])).toBe(
+      'v\r\n"a,b"\r\n"say ""hi"""\r\n"two\nlines"\r\n',
+    );
+  });
+
+  it('neutralises values a spreadsheet would run as formulas', () => {
+    expect(toCsv(['v'], [{ v: '=1+1' }, { v: '+90' }, { v: '-2' }, { v: '@SUM(A1)' }])).toBe(
+      "v\r\n'=1+1\r\n'+90\r\n'-2\r\n'@SUM(A1)\r\n",
+    );
+  });
+
+  it('leaves numbers untouched, negative ones included', () => {
+    expect(toCsv(['v'], [{ v: -2 }, { v: 0.5 }])).toBe('v\r\n-2\r\n0.5\r\n');
+  });
+
+  it('renders missing values as empty cells', () => {
+    expect(toCsv(['a', 'b'], [{ a: undefined }])).toBe('a,b\r\n,\r\n');
+  });
+});
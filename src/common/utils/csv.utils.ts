@@ -0,0 +1,32 @@
+/**
+ * CSV Utilities for Report Exports
+ *
+ * Builds RFC 4180 CSV from flat rows. Cells that a spreadsheet would evaluate as a
+ * formula (leading =, +, -, @) are prefixed with a quote, since some columns carry
+ * values that originally came from patients (country, language, ...).
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with the given column order (header line included)
+ */
+export function toCsv(columns: string[], rows: Array<Record<string, CsvValue>>): string {
+  const lines = [columns.map(escapeCell).join(',')];
+
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCell(row[column])).join(','));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
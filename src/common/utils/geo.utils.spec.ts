@@ -0,0 +1,45 @@
+import { distanceKm, reverseGeocode } from './geo.utils';
+
+describe('distanceKm', () => {
+  it('measures great-circle distance', () => {
+    // Istanbul - Ankara is ~350 km
+    expect(distanceKm(41.0082, 28.9784, 39.9334, 32.8597)).toBeCloseTo(350, -1);
+    expect(distanceKm(41, 29, 41, 29)).toBe(0);
+  });
+});
+
+describe('reverseGeocode', () => {
+  it('maps a pin to its country and nearest city', () => {
+    expect(reverseGeocode(41.04, 29.0)).toMatchObject({
+      countryCode: 'TR',
+      city: 'Istanbul',
+      timezone: 'Europe/Istanbul',
+    });
+  });
+
+  it('uses country borders rather than the nearest city across a border', () => {
+    // Aleppo is closer to Gaziantep, Damascus to Beirut
+    expect(reverseGeocode(36.2021, 37.1343)).toMatchObject({ countryCode: 'SY', city: 'Aleppo', timezone: 'Asia/Damascus' });
+    expect(reverseGeocode(33.5138, 36.2765)).toMatchObject({ countryCode: 'SY', city: 'Damascus' });
+    expect(reverseGeocode(37.0662, 37.3833)).toMatchObject({ countryCode: 'TR', city: 'Gaziantep' });
+  });
+
+  it('picks the timezone of the nearest city in multi-timezone countries', () => {
+    expect(reverseGeocode(34.05, -118.25)?.timezone).toBe('America/Los_Angeles');
+    expect(reverseGeocode(55.01, 82.94)?.timezone).toBe('Asia/Novosibirsk');
+  });
+
+  it('keeps the country but not the city when no known city is near', () => {
+    // Van, eastern Türkiye
+    const geo = reverseGeocode(38.5, 43.4);
+    expect(geo?.countryCode).toBe('TR');
+    expect(geo?.city).toBeNull();
+  });
+
+  it('returns null for invalid coordinates and pins at sea', () => {
+    expect(reverseGeocode(0, 0)).toBeNull();
+    expect(reverseGeocode(91, 10)).toBeNull();
+    expect(reverseGeocode(NaN, 10)).toBeNull();
+    expect(reverseGeocode(35, 18)).toBeNull(); // Ionian Sea
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Geo Utilities for Location Messages
+ *
+ * Offline reverse geocoding: the country comes from country boundary polygons
+ * (@rapideditor/country-coder), the city from a small built-in dataset, so a shared
+ * location pin can fill in the lead's country, city and timezone without
+ * calling an external geocoding API.
+ */
+
+import { iso1A2Code } from '@rapideditor/country-coder';
+import { getTimezoneFromCountry } from './timezone.utils';
+
+interface GeoCity {
+  name: string;
+  countryCode: string; // ISO 3166-1 alpha-2
+  lat: number;
+  lon: number;
+  timezone?: string; // Only set for countries spanning several timezones
+}
+
+export interface ReverseGeocodeResult {
+  countryCode: string;
+  city: string | null; // null when no known city of that country is near the pin
+  timezone: string | null;
+  distanceKm: number | null; // To the nearest known city of the country, null if it has none
+}
+
+// Pins further than this from the nearest known city keep the country but not the city
+const MAX_CITY_DISTANCE_KM = 100;
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Major cities in the regions our leads come from
+ */
+const WORLD_CITIES: GeoCity[] = [
+  // Türkiye
+  { name: 'Istanbul', countryCode: 'TR', lat: 41.0082, lon: 28.9784 },
+  { name: 'Ankara', countryCode: 'TR', lat: 39.9334, lon: 32.8597 },
+  { name: 'Izmir', countryCode: 'TR', lat: 38.4237, lon: 27.1428 },
+  { name: 'Antalya', countryCode: 'TR', lat: 36.8969, lon: 30.7133 },
+  { name: 'Bursa', countryCode: 'TR', lat: 40.1885, lon: 29.061 },
+  { name: 'Adana', countryCode: 'TR', lat: 37.0, lon: 35.3213 },
+  { name: 'Gaziantep', countryCode: 'TR', lat: 37.0662, lon: 37.3833 },
+  { name: 'Konya', countryCode: 'TR', lat: 37.8746, lon: 32.4932 },
+  { name: 'Trabzon', countryCode: 'TR', lat: 41.0027, lon: 39.7168 },
+  { name: 'Diyarbakir', countryCode: 'TR', lat: 37.9144, lon: 40.2306 },
+  { name: 'Erzurum', countryCode: 'TR', lat: 39.9055, lon: 41.2658 },
+  { name: 'Samsun', countryCode: 'TR', lat: 41.2867, lon: 36.33 },
+
+  // Western Europe
+  { name: 'London', countryCode: 'GB', lat: 51.5074, lon: -0.1278 },
+  { name: 'Manchester', countryCode: 'GB', lat: 53.4808, lon: -2.2426 },
+  { name: 'Birmingham', countryCode: 'GB', lat: 52.4862, lon: -1.8904 },
+  { name: 'Glasgow', countryCode: 'GB', lat: 55.8642, lon: -4.2518 },
+  { name: 'Dublin', countryCode: 'IE', lat: 53.3498, lon: -6.2603 },
+  { name: 'Paris', countryCode: 'FR', lat: 48.8566, lon: 2.3522 },
+  { name: 'Lyon', countryCode: 'FR', lat: 45.764, lon: 4.8357 },
+  { name: 'Marseille', countryCode: 'FR', lat: 43.2965, lon: 5.3698 },
+  { name: 'Toulouse', countryCode: 'FR', lat: 43.6047, lon: 1.4442 },
+  { name: 'Lille', countryCode: 'FR', lat: 50.6292, lon: 3.0573 },
+  { name: 'Brussels', countryCode: 'BE', lat: 50.8503, lon: 4.3517 },
+  { name: 'Amsterdam', countryCode: 'NL', lat: 52.3676, lon: 4.9041 },
+  { name: 'Rotterdam', countryCode: 'NL', lat: 51.9244, lon: 4.4777 },
+  { name: 'Berlin', countryCode: 'DE', lat: 52.52, lon: 13.405 },
+  { name: 'Hamburg', countryCode: 'DE', lat: 53.5511, lon: 9.9937 },
+  { name: 'Munich', countryCode: 'DE', lat: 48.1351, lon: 11.582 },
+  { name: 'Cologne', countryCode: 'DE', lat: 50.9375, lon: 6.9603 },
+  { name: 'Frankfurt', countryCode: 'DE', lat: 50.1109, lon: 8.6821 },
+  { name: 'Stuttgart', countryCode: 'DE', lat: 48.7758, lon: 9.1829 },
+  { name: 'Vienna', countryCode: 'AT', lat: 48.2082, lon: 16.3738 },
+  { name: 'Zurich', countryCode: 'CH', lat: 47.3769, lon: 8.5417 },
+  { name: 'Geneva', countryCode: 'CH', lat: 46.2044, lon: 6.1432 },
+  { name: 'Madrid', countryCode: 'ES', lat: 40.4168, lon: -3.7038 },
+  { name: 'Barcelona', countryCode: 'ES', lat: 41.3851, lon: 2.1734 },
+  { name: 'Seville', countryCode: 'ES', lat: 37.3891, lon: -5.9845 },
+  { name: 'Lisbon', countryCode: 'PT', lat: 38.7223, lon: -9.1393 },
+  { name: 'Porto', countryCode: 'PT', lat: 41.1579, lon: -8.6291 },
+  { name: 'Rome', countryCode: 'IT', lat: 41.9028, lon: 12.4964 },
+  { name: 'Milan', countryCode: 'IT', lat: 45.4642, lon: 9.19 },
+  { name: 'Naples', countryCode: 'IT', lat: 40.8518, lon: 14.2681 },
+
+  // Northern / Central / Eastern Europe
+  { name: 'Copenhagen', countryCode: 'DK', lat: 55.6761, lon: 12.5683 },
+  { name: 'Stockholm', countryCode: 'SE', lat: 59.3293, lon: 18.0686 },
+  { name: 'Gothenburg', countryCode: 'SE', lat: 57.7089, lon: 11.9746 },
+  { name: 'Oslo', countryCode: 'NO', lat: 59.9139, lon: 10.7522 },
+  { name: 'Helsinki', countryCode: 'FI', lat: 60.1699, lon: 24.9384 },
+  { name: 'Warsaw', countryCode: 'PL', lat: 52.2297, lon: 21.0122 },
+  { name: 'Krakow', countryCode: 'PL', lat: 50.0647, lon: 19.945 },
+  { name: 'Prague', countryCode: 'CZ', lat: 50.0755, lon: 14.4378 },
+  { name: 'Budapest', countryCode: 'HU', lat: 47.4979, lon: 19.0402 },
+  { name: 'Bucharest', countryCode: 'RO', lat: 44.4268, lon: 26.1025 },
+  { name: 'Athens', countryCode: 'GR', lat: 37.9838, lon: 23.7275 },
+  { name: 'Thessaloniki', countryCode: 'GR', lat: 40.6401, lon: 22.9444 },
+  { name: 'Kyiv', countryCode: 'UA', lat: 50.4501, lon: 30.5234 },
+  { name: 'Odesa', countryCode: 'UA', lat: 46.4825, lon: 30.7233 },
+  { name: 'Kharkiv', countryCode: 'UA', lat: 49.9935, lon: 36.2304 },
+
+  // Russia (several timezones)
+  { name: 'Moscow', countryCode: 'RU', lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' },
+  { name: 'Saint Petersburg', countryCode: 'RU', lat: 59.9311, lon: 30.3609, timezone: 'Europe/Moscow' },
+  { name: 'Kazan', countryCode: 'RU', lat: 55.7961, lon: 49.1064, timezone: 'Europe/Moscow' },
+  { name: 'Krasnodar', countryCode: 'RU', lat: 45.0355, lon: 38.9753, timezone: 'Europe/Moscow' },
+  { name: 'Samara', countryCode: 'RU', lat: 53.1959, lon: 50.1002, timezone: 'Europe/Samara' },
+  { name: 'Yekaterinburg', countryCode: 'RU', lat: 56.8389, lon: 60.6057, timezone: 'Asia/Yekaterinburg' },
+  { name: 'Novosibirsk', countryCode: 'RU', lat: 55.0084, lon: 82.9357, timezone: 'Asia/Novosibirsk' },
+  { name: 'Krasnoyarsk', countryCode: 'RU', lat: 56.0153, lon: 92.8932, timezone: 'Asia/Krasnoyarsk' },
+  { name: 'Irkutsk', countryCode: 'RU', lat: 52.2869, lon: 104.305, timezone: 'Asia/Irkutsk' },
+  { name: 'Vladivostok', countryCode: 'RU', lat: 43.1155, lon: 131.8855, timezone: 'Asia/Vladivostok' },
+
+  // Middle East
+  { name: 'Riyadh', countryCode: 'SA', lat: 24.7136, lon: 46.6753 },
+  { name: 'Jeddah', countryCode: 'SA', lat: 21.4858, lon: 39.1925 },
+  { name: 'Mecca', countryCode: 'SA', lat: 21.3891, lon: 39.8579 },
+  { name: 'Medina', countryCode: 'SA', lat: 24.5247, lon: 39.5692 },
+  { name: 'Dammam', countryCode: 'SA', lat: 26.4207, lon: 50.0888 },
+  { name: 'Dubai', countryCode: 'AE', lat: 25.2048, lon: 55.2708 },
+  { name: 'Abu Dhabi', countryCode: 'AE', lat: 24.4539, lon: 54.3773 },
+  { name: 'Sharjah', countryCode: 'AE', lat: 25.3463, lon: 55.4209 },
+  { name: 'Doha', countryCode: 'QA', lat: 25.2854, lon: 51.531 },
+  { name: 'Kuwait City', countryCode: 'KW', lat: 29.3759, lon: 47.9774 },
+  { name: 'Manama', countryCode: 'BH', lat: 26.2285, lon: 50.586 },
+  { name: 'Muscat', countryCode: 'OM', lat: 23.588, lon: 58.3829 },
+  { name: 'Amman', countryCode: 'JO', lat: 31.9454, lon: 35.9284 },
+  { name: 'Beirut', countryCode: 'LB', lat: 33.8938, lon: 35.5018 },
+  { name: 'Damascus', countryCode: 'SY', lat: 33.5138, lon: 36.2765 },
+  { name: 'Aleppo', countryCode: 'SY', lat: 36.2021, lon: 37.1343 },
+  { name: 'Homs', countryCode: 'SY', lat: 34.7324, lon: 36.7137 },
+  { name: 'Latakia', countryCode: 'SY', lat: 35.5317, lon: 35.7901 },
+  { name: 'Baghdad', countryCode: 'IQ', lat: 33.3152, lon: 44.3661 },
+  { name: 'Erbil', countryCode: 'IQ', lat: 36.1911, lon: 44.0092 },
+  { name: 'Basra', countryCode: 'IQ', lat: 30.5085, lon: 47.7804 },
+  { name: 'Tehran', countryCode: 'IR', lat: 35.6892, lon: 51.389 },
+  { name: 'Tabriz', countryCode: 'IR', lat: 38.0962, lon: 46.2738 },
+  { name: 'Tel Aviv', countryCode: 'IL', lat: 32.0853, lon: 34.7818 },
+
+  // North Africa
+  { name: 'Cairo', countryCode: 'EG', lat: 30.0444, lon: 31.2357 },
+  { name: 'Alexandria', countryCode: 'EG', lat: 31.2001, lon: 29.9187 },
+  { name: 'Tripoli', countryCode: 'LY', lat: 32.8872, lon: 13.1913 },
+  { name: 'Benghazi', countryCode: 'LY', lat: 32.1194, lon: 20.0868 },
+  { name: 'Tunis', countryCode: 'TN', lat: 36.8065, lon: 10.1815 },
+  { name: 'Algiers', countryCode: 'DZ', lat: 36.7538, lon: 3.0588 },
+  { name: 'Oran', countryCode: 'DZ', lat: 35.6971, lon: -0.6308 },
+  { name: 'Casablanca', countryCode: 'MA', lat: 33.5731, lon: -7.5898 },
+  { name: 'Rabat', countryCode: 'MA', lat: 34.0209, lon: -6.8416 },
+  { name: 'Marrakesh', countryCode: 'MA', lat: 31.6295, lon: -7.9811 },
+
+  // Sub-Saharan Africa
+  { name: 'Lagos', countryCode: 'NG', lat: 6.5244, lon: 3.3792 },
+  { name: 'Nairobi', countryCode: 'KE', lat: -1.2921, lon: 36.8219 },
+  { name: 'Johannesburg', countryCode: 'ZA', lat: -26.2041, lon: 28.0473 },
+  { name: 'Cape Town', countryCode: 'ZA', lat: -33.9249, lon: 18.4241 },
+
+  // Americas (several timezones)
+  { name: 'New York', countryCode: 'US', lat: 40.7128, lon: -74.006, timezone: 'America/New_York' },
+  { name: 'Miami', countryCode: 'US', lat: 25.7617, lon: -80.1918, timezone: 'America/New_York' },
+  { name: 'Chicago', countryCode: 'US', lat: 41.8781, lon: -87.6298, timezone: 'America/Chicago' },
+  { name: 'Houston', countryCode: 'US', lat: 29.7604, lon: -95.3698, timezone: 'America/Chicago' },
+  { name: 'Denver', countryCode: 'US', lat: 39.7392, lon: -104.9903, timezone: 'America/Denver' },
+  { name: 'Los Angeles', countryCode: 'US', lat: 34.0522, lon: -118.2437, timezone: 'America/Los_Angeles' },
+  { name: 'Seattle', countryCode: 'US', lat: 47.6062, lon: -122.3321, timezone: 'America/Los_Angeles' },
+  { name: 'Toronto', countryCode: 'CA', lat: 43.6532, lon: -79.3832, timezone: 'America/Toronto' },
+  { name: 'Montreal', countryCode: 'CA', lat: 45.5017, lon: -73.5673, timezone: 'America/Toronto' },
+  { name: 'Vancouver', countryCode: 'CA', lat: 49.2827, lon: -123.1207, timezone: 'America/Vancouver' },
+  { name: 'Mexico City', countryCode: 'MX', lat: 19.4326, lon: -99.1332, timezone: 'America/Mexico_City' },
+  { name: 'Sao Paulo', countryCode: 'BR', lat: -23.5505, lon: -46.6333, timezone: 'America/Sao_Paulo' },
+  { name: 'Buenos Aires', countryCode: 'AR', lat: -34.6037, lon: -58.3816 },
+  { name: 'Bogota', countryCode: 'CO', lat: 4.711, lon: -74.0721 },
+  { name: 'Santiago', countryCode: 'CL', lat: -33.4489, lon: -70.6693 },
+
+  // Asia Pacific
+  { name: 'Karachi', countryCode: 'PK', lat: 24.8607, lon: 67.0011 },
+  { name: 'Lahore', countryCode: 'PK', lat: 31.5204, lon: 74.3587 },
+  { name: 'Delhi', countryCode: 'IN', lat: 28.7041, lon: 77.1025 },
+  { name: 'Mumbai', countryCode: 'IN', lat: 19.076, lon: 72.8777 },
+  { name: 'Singapore', countryCode: 'SG', lat: 1.3521, lon: 103.8198 },
+  { name: 'Kuala Lumpur', countryCode: 'MY', lat: 3.139, lon: 101.6869 },
+  { name: 'Jakarta', countryCode: 'ID', lat: -6.2088, lon: 106.8456 },
+  { name: 'Sydney', countryCode: 'AU', lat: -33.8688, lon: 151.2093, timezone: 'Australia/Sydney' },
+  { name: 'Melbourne', countryCode: 'AU', lat: -37.8136, lon: 144.9631, timezone: 'Australia/Melbourne' },
+  { name: 'Perth', countryCode: 'AU', lat: -31.9505, lon: 115.8605, timezone: 'Australia/Perth' },
+];
+
+/**
+ * Great-circle distance between two points in kilometres (haversine)
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Reverse geocode a location pin
+ * The country is the one whose borders contain the pin; the city (and the timezone of
+ * multi-timezone countries) is the nearest known city inside that country.
+ * Returns null for invalid coordinates or pins outside every country (sea)
+ */
+export function reverseGeocode(latitude: number, longitude: number): ReverseGeocodeResult | null {
+  if (
+    !Number.isFinite(latitude) || !Number.isFinite(longitude)
+    || Math.abs(latitude) > 90 || Math.abs(longitude) > 180
+    || (latitude === 0 && longitude === 0) // Missing coordinates default to 0,0
+  ) {
+    return null;
+  }
+
+  const countryCode = iso1A2Code([longitude, latitude]);
+  if (!countryCode) {
+    return null;
+  }
+
+  let nearest: GeoCity | null = null;
+  let nearestDistance = Infinity;
+
+  for (const city of WORLD_CITIES) {
+    if (city.countryCode !== countryCode) continue;
+
+    const distance = distanceKm(latitude, longitude, city.lat, city.lon);
+    if (distance < nearestDistance) {
+      nearest = city;
+      nearestDistance = distance;
+    }
+  }
+
+  return {
+    countryCode,
+    city: nearest && nearestDistance <= MAX_CITY_DISTANCE_KM ? nearest.name : null,
+    timezone: nearest?.timezone || getTimezoneFromCountry(countryCode),
+    distanceKm: nearest ? Math.round(nearestDistance) : null,
+  };
+}
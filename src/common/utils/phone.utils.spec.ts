@@ -0,0 +1,54 @@
+import { inferCountryFromPhone, SUPPORTED_LANGUAGES } from './phone.utils';
+
+describe('inferCountryFromPhone', () => {
+  it('accepts +, 00 and bare WhatsApp id formats', () => {
+    for (const phone of ['+905551234567', '00905551234567', '905551234567', '+90 555 123 45 67']) {
+      expect(inferCountryFromPhone(phone)).toEqual({
+        countryCode: 'TR',
+        callingCode: '90',
+        timezone: 'Europe/Istanbul',
+        language: 'tr',
+        timezoneAmbiguous: false,
+      });
+    }
+  });
+
+  it('prefers the longest matching calling code', () => {
+    expect(inferCountryFromPhone('+971501234567')?.countryCode).toBe('AE');
+    expect(inferCountryFromPhone('+963944123456')?.countryCode).toBe('SY');
+    expect(inferCountryFromPhone('+447700900123')?.countryCode).toBe('GB');
+  });
+
+  it('splits the shared +1 and +7 calling codes', () => {
+    expect(inferCountryFromPhone('+14165551234')?.countryCode).toBe('CA');
+    expect(inferCountryFromPhone('+12125551234')?.countryCode).toBe('US');
+    expect(inferCountryFromPhone('+77012345678')?.countryCode).toBe('KZ');
+    expect(inferCountryFromPhone('+79161234567')?.countryCode).toBe('RU');
+  });
+
+  it('leaves the timezone empty for countries spanning several timezones', () => {
+    const inference = inferCountryFromPhone('+12125551234');
+    expect(inference?.timezone).toBeNull();
+    expect(inference?.timezoneAmbiguous).toBe(true);
+  });
+
+  it('only infers languages we have templates for, falling back to en', () => {
+    expect(inferCountryFromPhone('+966501234567')?.language).toBe('ar');
+    expect(inferCountryFromPhone('+33612345678')?.language).toBe('fr');
+    expect(inferCountryFromPhone('+4915123456789')?.language).toBe('en');
+    expect(inferCountryFromPhone('+393123456789')?.language).toBe('en');
+    expect(inferCountryFromPhone('+34612345678')?.language).toBe('en');
+
+    for (const phone of ['+4915123456789', '+79161234567', '+989121234567', '+5511912345678']) {
+      expect(SUPPORTED_LANGUAGES).toContain(inferCountryFromPhone(phone)?.language);
+    }
+  });
+
+  it('returns null for missing, local or unknown numbers', () => {
+    expect(inferCountryFromPhone(null)).toBeNull();
+    expect(inferCountryFromPhone('')).toBeNull();
+    expect(inferCountryFromPhone('5551234')).toBeNull();
+    expect(inferCountryFromPhone('+1234567890123456')).toBeNull();
+    expect(inferCountryFromPhone('+999123456789')).toBeNull();
+  });
+});
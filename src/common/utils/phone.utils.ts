@@ -0,0 +1,181 @@
+/**
+ * Phone Number Utilities for Lead Country Inference
+ *
+ * Parses the E.164 calling code of a lead's phone number to pre-fill country,
+ * timezone and language before the AI has extracted them from the conversation.
+ */
+
+import { COUNTRY_TIMEZONE_MAP } from './timezone.utils';
+
+export interface PhoneCountryInference {
+  countryCode: string; // ISO 3166-1 alpha-2
+  callingCode: string; // Without '+', e.g. '90'
+  timezone: string | null; // null when the country spans several timezones
+  language: string; // One of SUPPORTED_LANGUAGES
+  timezoneAmbiguous: boolean;
+}
+
+/**
+ * E.164 calling codes for the countries we see leads from
+ * ('1' and '7' are shared and resolved separately)
+ */
+const CALLING_CODE_TO_COUNTRY: Record<string, string> = {
+  // Europe
+  '90': 'TR',
+  '44': 'GB',
+  '49': 'DE',
+  '33': 'FR',
+  '39': 'IT',
+  '34': 'ES',
+  '31': 'NL',
+  '32': 'BE',
+  '43': 'AT',
+  '41': 'CH',
+  '48': 'PL',
+  '420': 'CZ',
+  '46': 'SE',
+  '47': 'NO',
+  '45': 'DK',
+  '358': 'FI',
+  '353': 'IE',
+  '351': 'PT',
+  '30': 'GR',
+  '40': 'RO',
+  '36': 'HU',
+  '380': 'UA',
+
+  // Middle East
+  '966': 'SA',
+  '971': 'AE',
+  '974': 'QA',
+  '965': 'KW',
+  '973': 'BH',
+  '968': 'OM',
+  '962': 'JO',
+  '961': 'LB',
+  '963': 'SY',
+  '972': 'IL',
+  '964': 'IQ',
+  '98': 'IR',
+
+  // Africa
+  '20': 'EG',
+  '212': 'MA',
+  '213': 'DZ',
+  '216': 'TN',
+  '218': 'LY',
+  '27': 'ZA',
+  '234': 'NG',
+  '254': 'KE',
+
+  // Americas
+  '52': 'MX',
+  '55': 'BR',
+  '54': 'AR',
+  '57': 'CO',
+  '56': 'CL',
+
+  // Asia Pacific
+  '61': 'AU',
+  '64': 'NZ',
+  '81': 'JP',
+  '82': 'KR',
+  '86': 'CN',
+  '852': 'HK',
+  '65': 'SG',
+  '60': 'MY',
+  '66': 'TH',
+  '84': 'VN',
+  '63': 'PH',
+  '62': 'ID',
+  '91': 'IN',
+  '92': 'PK',
+};
+
+/**
+ * Canadian area codes (everything else under +1 is treated as US)
+ */
+const CANADA_AREA_CODES = new Set([
+  '204', '226', '236', '249', '250', '263', '289', '306', '343', '354', '365', '367', '368',
+  '382', '403', '416', '418', '428', '431', '437', '438', '450', '468', '474', '506', '514',
+  '519', '548', '579', '581', '584', '587', '604', '613', '639', '647', '672', '683', '705',
+  '709', '742', '753', '778', '780', '782', '807', '819', '825', '867', '873', '879', '902', '905',
+]);
+
+/**
+ * Countries spanning several timezones - the calling code alone can't tell which one
+ */
+export const MULTI_TIMEZONE_COUNTRIES = new Set([
+  'US', 'CA', 'MX', 'BR', 'RU', 'KZ', 'AU', 'ID',
+]);
+
+/**
+ * Languages our message templates (KVKK, flow selection, follow-ups) are written in
+ */
+export const SUPPORTED_LANGUAGES = ['tr', 'en', 'ar', 'fr'] as const;
+
+// Countries missing here (de, it, es, ... speakers) start in English
+const FALLBACK_LANGUAGE = 'en';
+
+/**
+ * Default conversation language per country (ISO 639-1), limited to SUPPORTED_LANGUAGES
+ */
+export const COUNTRY_DEFAULT_LANGUAGE: Record<string, typeof SUPPORTED_LANGUAGES[number]> = {
+  'TR': 'tr',
+  'FR': 'fr', 'BE': 'fr', 'MA': 'fr', 'DZ': 'fr', 'TN': 'fr',
+  'SA': 'ar', 'AE': 'ar', 'QA': 'ar', 'KW': 'ar', 'BH': 'ar', 'OM': 'ar',
+  'JO': 'ar', 'LB': 'ar', 'SY': 'ar', 'IQ': 'ar', 'EG': 'ar', 'LY': 'ar',
+};
+
+/**
+ * Resolve the country for the shared +1 (NANP) and +7 calling codes
+ */
+function resolveSharedCallingCode(digits: string): { countryCode: string; callingCode: string } | null {
+  if (digits.startsWith('1') && digits.length === 11) {
+    return { countryCode: CANADA_AREA_CODES.has(digits.slice(1, 4)) ? 'CA' : 'US', callingCode: '1' };
+  }
+
+  if (digits.startsWith('7') && digits.length === 11) {
+    // Kazakhstan numbers start with +7 6xx / +7 7xx
+    return { countryCode: ['6', '7'].includes(digits[1]) ? 'KZ' : 'RU', callingCode: '7' };
+  }
+
+  return null;
+}
+
+/**
+ * Infer country, timezone and language from an E.164 phone number
+ * Accepts '+905551234567', '905551234567' or '00905551234567' (WhatsApp ids have no '+')
+ */
+export function inferCountryFromPhone(phone: string | null | undefined): PhoneCountryInference | null {
+  if (!phone) return null;
+
+  let digits = phone.replace(/[^\d]/g, '');
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  }
+
+  // E.164 numbers are at most 15 digits; anything much shorter is a local number
+  if (digits.length < 8 || digits.length > 15) return null;
+
+  let match = resolveSharedCallingCode(digits);
+
+  // Calling codes are prefix-free, so the longest matching prefix wins
+  for (let length = 3; !match && length >= 2; length--) {
+    const countryCode = CALLING_CODE_TO_COUNTRY[digits.slice(0, length)];
+    if (countryCode) {
+      match = { countryCode, callingCode: digits.slice(0, length) };
+    }
+  }
+
+  if (!match) return null;
+
+  const timezoneAmbiguous = MULTI_TIMEZONE_COUNTRIES.has(match.countryCode);
+
+  return {
+    ...match,
+    timezone: timezoneAmbiguous ? null : COUNTRY_TIMEZONE_MAP[match.countryCode] || null,
+    language: COUNTRY_DEFAULT_LANGUAGE[match.countryCode] || FALLBACK_LANGUAGE,
+    timezoneAmbiguous,
+  };
+}
@@ -0,0 +1,35 @@
+import { calculateTypingDelay, splitMessageIntoParts } from './reply-parts.utils';
+
+describe('splitMessageIntoParts', () => {
+  it('splits on the delimiter and drops empty parts', () => {
+    expect(splitMessageIntoParts('Hello! ||| How can I help? |||  ')).toEqual(['Hello!', 'How can I help?']);
+  });
+
+  it('keeps a reply without the delimiter as one part', () => {
+    expect(splitMessageIntoParts('  Just one message ')).toEqual(['Just one message']);
+  });
+});
+
+describe('calculateTypingDelay', () => {
+  const noVariation = () => 0.5;
+
+  it('sends the first part right away', () => {
+    expect(calculateTypingDelay('Hello', 0)).toBe(0);
+  });
+
+  it('waits by length, clamped to 2-15 seconds', () => {
+    expect(calculateTypingDelay('Hi', 1, noVariation)).toBe(2000);
+    expect(calculateTypingDelay('x'.repeat(40), 1, noVariation)).toBe(3000);
+    expect(calculateTypingDelay('x'.repeat(1000), 1, noVariation)).toBe(15000);
+  });
+
+  it('adds thinking time to long parts', () => {
+    expect(calculateTypingDelay('x'.repeat(120), 1, noVariation)).toBe(1000 + 120 * 50 + 2000);
+  });
+
+  it('varies by at most 20%', () => {
+    const base = 1000 + 60 * 50;
+    expect(calculateTypingDelay('x'.repeat(60), 1, () => 0)).toBe(base * 0.8);
+    expect(calculateTypingDelay('x'.repeat(60), 1, () => 1)).toBe(base * 1.2);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Reply Part Utilities
+ *
+ * AI replies separate chat bubbles with "|||". Every part is queued as its own
+ * channel-send job, delayed by a simulated typing time.
+ */
+
+const PART_DELIMITER = '|||';
+
+const BASE_DELAY_MS = 1000;   // Minimum base delay (1 second)
+const MS_PER_CHAR = 50;       // ~50ms per character (simulates typing)
+const MAX_DELAY_MS = 15000;   // Maximum delay (15 seconds)
+const MIN_DELAY_MS = 2000;    // Minimum practical delay (2 seconds)
+const LONG_PART_CHARS = 100;  // Longer parts get extra "thinking" time
+const LONG_PART_EXTRA_MS = 2000;
+
+/**
+ * Split a reply into its parts (a reply without the delimiter is one part)
+ */
+export function splitMessageIntoParts(message: string): string[] {
+  const parts = message.split(PART_DELIMITER)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+
+  if (parts.length <= 1) {
+    return [message.trim()];
+  }
+
+  return parts;
+}
+
+/**
+ * Typing delay before a part goes out: the first part is sent right away, later ones
+ * wait by length with ±20% variation, clamped to 2-15 seconds
+ */
+export function calculateTypingDelay(
+  message: string,
+  messageIndex: number,
+  random: () => number = Math.random,
+): number {
+  if (messageIndex === 0) {
+    return 0;
+  }
+
+  const charCount = message.length;
+  let delay = BASE_DELAY_MS + charCount * MS_PER_CHAR;
+
+  // Random variation (±20%) for natural feel
+  const variation = delay * 0.2;
+  delay += random() * variation * 2 - variation;
+
+  if (charCount > LONG_PART_CHARS) {
+    delay += LONG_PART_EXTRA_MS;
+  }
+
+  return Math.round(Math.max(MIN_DELAY_MS, Math.min(MAX_DELAY_MS, delay)));
+}
@@ -45,6 +45,7 @@ export const COUNTRY_TIMEZONE_MAP: Record<string, string> = {
   'OM': 'Asia/Muscat',
   'JO': 'Asia/Amman',
   'LB': 'Asia/Beirut',
+  'SY': 'Asia/Damascus',
   'IL': 'Asia/Jerusalem',
   'IQ': 'Asia/Baghdad',
   'IR': 'Asia/Tehran',
@@ -118,6 +119,7 @@ export const COUNTRY_NAME_TO_CODE: Record<string, string> = {
   'iran': 'IR',
   'ürdün': 'JO',
   'lübnan': 'LB',
+  'suriye': 'SY',
   'israil': 'IL',
   'fas': 'MA',
   'cezayir': 'DZ',
@@ -194,6 +196,7 @@ export const COUNTRY_NAME_TO_CODE: Record<string, string> = {
   'iraq': 'IQ',
   'jordan': 'JO',
   'lebanon': 'LB',
+  'syria': 'SY',
   'israel': 'IL',
   'morocco': 'MA',
   'algeria': 'DZ',
@@ -213,6 +216,7 @@ export const COUNTRY_NAME_TO_CODE: Record<string, string> = {
   'العراق': 'IQ',
   'الأردن': 'JO',
   'لبنان': 'LB',
+  'سوريا': 'SY',
   'المغرب': 'MA',
   'الجزائر': 'DZ',
   'تونس': 'TN',
@@ -237,6 +241,7 @@ export const COUNTRY_NAME_TO_CODE: Record<string, string> = {
   'roumanie': 'RO',
   'hongrie': 'HU',
   'turquie': 'TR',
+  'syrie': 'SY',
   'arabie saoudite': 'SA',
   'émirats arabes unis': 'AE',
   'égypte': 'EG',
@@ -250,7 +255,7 @@ export const COUNTRY_NAME_TO_CODE: Record<string, string> = {
  * Countries that observe Friday as a weekend day (Islamic countries)
  */
 export const FRIDAY_WEEKEND_COUNTRIES = new Set([
-  'SA', 'AE', 'QA', 'KW', 'BH', 'OM', 'EG', 'IQ', 'JO', 'LY', 'DZ',
+  'SA', 'AE', 'QA', 'KW', 'BH', 'OM', 'EG', 'IQ', 'JO', 'LY', 'DZ', 'SY',
 ]);
 
 /**
@@ -2,9 +2,11 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
+import { RedisIoAdapter } from './modules/webhooks/redis-io.adapter';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Raw body is kept for webhook signature verification (HMAC over the exact bytes received)
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Global validation pipe
   app.useGlobalPipes(
@@ -15,6 +17,11 @@ async function bootstrap() {
     }),
   );
 
+  // Web chat rooms are shared between instances through Redis
+  const redisIoAdapter = new RedisIoAdapter(app);
+  await redisIoAdapter.connectToRedis();
+  app.useWebSocketAdapter(redisIoAdapter);
+
   // CORS
   app.enableCors({
     origin: process.env.CORS_ORIGIN || '*',
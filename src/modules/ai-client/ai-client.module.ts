@@ -3,11 +3,13 @@ import { AiClientService } from './ai-client.service';
 import { AiWorkerProcessor } from './ai-worker.processor';
 import { WebhooksModule } from '../webhooks/webhooks.module';
 import { PhotosModule } from '../photos/photos.module';
+import { DraftReviewsModule } from '../draft-reviews/draft-reviews.module';
 
 @Module({
   imports: [
     forwardRef(() => WebhooksModule),
     forwardRef(() => PhotosModule),
+    DraftReviewsModule,
   ],
   providers: [AiClientService, AiWorkerProcessor],
   exports: [AiClientService],
@@ -64,6 +64,8 @@ export interface FollowupAnalysisRequest {
     hasPhotos?: boolean;
     // Timezone context for smart scheduling
     timezone?: string;
+    // What happened to our last message (from delivery / read receipts)
+    lastMessageEngagement?: 'read_unanswered' | 'delivered_unanswered' | 'undelivered';
   };
   lastUserResponseAt?: string;
   followupCount: number;
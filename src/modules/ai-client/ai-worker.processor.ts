@@ -9,10 +9,17 @@ import {
   LeadProfile,
   Message,
 } from '../../common/supabase/supabase.service';
-import { AiJobPayload } from '../../common/queue/queue.service';
-import { TelegramAdapter } from '../webhooks/adapters/telegram.adapter';
+import { AiJobPayload, QueueService } from '../../common/queue/queue.service';
+import { DeadLetterService } from '../../common/queue/dead-letter.service';
+import { MetricsService } from '../../common/metrics/metrics.service';
 import { WhatsappAdapter } from '../webhooks/adapters/whatsapp.adapter';
+import { InstagramAdapter } from '../webhooks/adapters/instagram.adapter';
+import { WebChatAdapter } from '../webhooks/adapters/web-chat.adapter';
 import { PhotosService } from '../photos/photos.service';
+import { getCountryCode, getTimezoneFromCountry } from '../../common/utils/timezone.utils';
+import { isAutopilotPaused } from '../../common/utils/autopilot.utils';
+import { calculateTypingDelay, splitMessageIntoParts } from '../../common/utils/reply-parts.utils';
+import { DraftReviewsService } from '../draft-reviews/draft-reviews.service';
 
 @Injectable()
 export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
@@ -24,12 +31,18 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
     private readonly configService: ConfigService,
     private readonly aiClientService: AiClientService,
     private readonly supabase: SupabaseService,
-    @Inject(forwardRef(() => TelegramAdapter))
-    private readonly telegramAdapter: TelegramAdapter,
     @Inject(forwardRef(() => WhatsappAdapter))
     private readonly whatsappAdapter: WhatsappAdapter,
+    @Inject(forwardRef(() => InstagramAdapter))
+    private readonly instagramAdapter: InstagramAdapter,
+    @Inject(forwardRef(() => WebChatAdapter))
+    private readonly webChatAdapter: WebChatAdapter,
     @Inject(forwardRef(() => PhotosService))
     private readonly photosService: PhotosService,
+    private readonly draftReviewsService: DraftReviewsService,
+    private readonly queueService: QueueService,
+    private readonly deadLetters: DeadLetterService,
+    private readonly metrics: MetricsService,
   ) {
     this.telegramBotToken = this.configService.get<string>('TELEGRAM_BOT_TOKEN', '');
   }
@@ -88,10 +101,13 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
 
     this.worker.on('completed', (job) => {
       this.logger.log(`AI job completed: ${job.id}`);
+      this.metrics.observeJobDuration('ai-processing', job, 'completed');
     });
 
     this.worker.on('failed', (job, err) => {
       this.logger.error(`AI job failed: ${job?.id}`, err);
+      this.metrics.observeJobDuration('ai-processing', job, 'failed');
+      this.deadLetters.recordFailedJob('ai-processing', job, err);
     });
 
     this.logger.log('AI Worker processor started');
@@ -118,6 +134,17 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
         throw new Error(`Lead not found: ${leadId}`);
       }
 
+      // Jobs queued before a handoff must not answer over the human agent
+      if (lead.status === 'HANDOFF_HUMAN') {
+        this.logger.log(`Lead ${leadId} is handed off to a human agent, skipping AI job ${job.id}`);
+        return;
+      }
+
+      if (isAutopilotPaused(lead)) {
+        this.logger.log(`⏸️ Autopilot paused for lead ${leadId}, skipping AI job ${job.id}`);
+        return;
+      }
+
       // Format messages for AI
       const formattedMessages = messages.map((m: Message) => {
         let content = m.content || '';
@@ -129,8 +156,12 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
           content = '[User sent a video]';
         } else if (!content && m.media_type === 'document') {
           content = '[User sent a document]';
-        } else if (!content && m.media_type === 'voice') {
-          content = '[User sent a voice message]';
+        } else if (m.media_type === 'audio') {
+          // Voice notes carry their transcript in metadata
+          const transcript = (m.metadata as { transcript?: { text?: string } } | null)?.transcript?.text;
+          content = transcript
+            ? `[Voice message] ${transcript}`
+            : content || '[User sent a voice message]';
         } else if (!content && m.media_type) {
           content = `[User sent media: ${m.media_type}]`;
         }
@@ -140,7 +171,9 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
           content,
           timestamp: m.created_at || '',
         };
-      });
+      })
+        // Replies interrupted before their first part went out never reached the lead
+        .filter((m) => m.content);
 
       // Call AI service
       const startTime = Date.now();
@@ -198,6 +231,8 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
           readyForDoctor: aiResponse.data.readyForDoctor,
           agentName: aiResponse.data.agentName,
           isGreeting: aiResponse.data.isGreeting,
+          promptVersion,
+          replyTo: job.data.replyTo,
         });
       }
     } catch (error: unknown) {
@@ -220,12 +255,19 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
     readyForDoctor?: boolean;
     agentName?: string;
     isGreeting?: boolean;
+    promptVersion?: string;
+    replyTo?: AiJobPayload['replyTo'];
   }): Promise<void> {
     // This would typically call the orchestrator service
     // For now, we'll handle it inline
 
-    const lead = await this.supabase.getLeadById(data.leadId);
-    if (!lead) return;
+    const storedLead = await this.supabase.getLeadById(data.leadId);
+    if (!storedLead) return;
+
+    // A merged duplicate's message is answered on the channel it came from, not the primary's
+    const lead = data.replyTo
+      ? { ...storedLead, channel: data.replyTo.channel, channel_user_id: data.replyTo.channelUserId }
+      : storedLead;
 
     // Update lead with extracted data
     const updateData: Record<string, unknown> = {};
@@ -261,12 +303,16 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
       }
       if (data.extraction.country) {
         updateData.country = data.extraction.country;
+
+        // A stated country overrides the phone-number guess, so its timezone must follow
+        if (getCountryCode(String(data.extraction.country)) !== getCountryCode(lead.country)) {
+          updateData.timezone = getTimezoneFromCountry(String(data.extraction.country));
+        }
       }
     }
 
     // Check if ready for doctor evaluation (all medical history collected)
     if (data.readyForDoctor) {
-      updateData.status = 'READY_FOR_DOCTOR';
       this.logger.log(`🩺 Lead ${data.leadId} is ready for doctor evaluation - all medical history collected`);
       
       // Add tag if no photos
@@ -279,7 +325,14 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
       await this.sendDoctorReadyNotification(data.leadId, lead);
     }
 
-    if (Object.keys(updateData).length > 0) {
+    if (data.readyForDoctor) {
+      await this.supabase.updateLeadStatus(
+        data.leadId,
+        'READY_FOR_DOCTOR',
+        { event: 'MEDICAL_COMPLETE', actor: 'ai', reason: 'All medical history collected' },
+        updateData,
+      );
+    } else if (Object.keys(updateData).length > 0) {
       await this.supabase.updateLead(data.leadId, updateData);
     }
 
@@ -288,6 +341,29 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
       // Check if this is a photo request - handle template logic
       const isPhotoRequest = this.isPhotoRequestMessage(data.replyDraft, lead.language || 'en');
       const treatmentCategory = (data.extraction?.treatment_category as string) || lead.treatment_category;
+
+      // The patient wrote again while we were thinking - the next job answers the whole burst
+      if (await this.isSuperseded(data.leadId, data.messageId)) {
+        return;
+      }
+
+      // Draft-approval mode: the reply waits in the review queue before anything (photo template included) goes out
+      const reviewReason = await this.draftReviewsService.getReviewReason(
+        { treatment_category: treatmentCategory, desire_band: lead.desire_band },
+        data.promptVersion,
+      );
+      if (reviewReason) {
+        await this.draftReviewsService.holdDraft({
+          leadId: data.leadId,
+          conversationId: data.conversationId,
+          triggerMessageId: data.messageId,
+          aiRunId: data.aiRunId,
+          content: data.replyDraft,
+          reviewReason,
+        });
+        return;
+      }
+
       const photoTemplateSent = await this.wasPhotoTemplateSent(data.leadId);
       
       this.logger.log(`📸 Photo request check: isPhotoRequest=${isPhotoRequest}, treatmentCategory=${treatmentCategory}, templateSent=${photoTemplateSent}`);
@@ -297,7 +373,7 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
         this.logger.log(`📸 Sending photo template for lead ${data.leadId} - AI message will be SKIPPED`);
         
         const templateSent = await this.sendTemplateImageIfAvailable(
-          lead.channel as 'whatsapp' | 'telegram' | 'web',
+          lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
           lead.channel_user_id,
           treatmentCategory,
           lead.language || 'en',
@@ -318,7 +394,11 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
           });
           
           // Update lead status to waiting for photos
-          await this.supabase.updateLead(data.leadId, { status: 'WAITING_PHOTOS' });
+          await this.supabase.updateLeadStatus(data.leadId, 'WAITING_PHOTOS', {
+            event: 'PHOTO_TEMPLATE_SENT',
+            actor: 'ai',
+            reason: `Photo template sent for ${treatmentCategory}`,
+          });
           
           this.logger.log(`✅ Template sent for lead ${data.leadId} - returning without AI message`);
           return; // CRITICAL: Exit here to prevent AI message
@@ -343,11 +423,13 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
         return; // Don't send AI message asking for photos again
       }
       
-      // Split message into parts for human-like conversation
-      const messageParts = this.splitMessageIntoParts(data.replyDraft);
+      // Split message into parts for human-like conversation (email replies go out as one message)
+      const messageParts = lead.channel === 'email'
+        ? [data.replyDraft]
+        : splitMessageIntoParts(data.replyDraft);
       const fullMessageContent = messageParts.join('\n\n'); // Store full message in DB for history
       
-      await this.supabase.createMessage({
+      const replyMessage = await this.supabase.createMessage({
         conversation_id: data.conversationId,
         lead_id: data.leadId,
         direction: 'out',
@@ -356,39 +438,43 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
         ai_run_id: data.aiRunId,
       });
 
-      // Send message parts via the appropriate channel with SMART delays
+      // Queue each part with a typing delay - the channel-send worker retries failed sends and
+      // dead-letters them, and a new inbound message pulls the parts that are still waiting
       if (lead.channel_user_id) {
+        let cumulativeDelay = 0;
+
+        // Web widget renders a typing indicator until the next part arrives
+        if (lead.channel === 'web') {
+          this.webChatAdapter.sendTypingIndicator(lead.channel_user_id);
+        }
+
         for (let i = 0; i < messageParts.length; i++) {
-          const part = messageParts[i];
-          
-          // Calculate and wait for typing delay (except first message)
-          if (i > 0) {
-            const typingDelay = this.calculateTypingDelay(part, i);
-            this.logger.debug(`⏳ Waiting ${typingDelay}ms before sending part ${i + 1}/${messageParts.length} (${part.length} chars)`);
-            await this.delay(typingDelay);
-          }
-          
-          try {
-            if (lead.channel === 'telegram') {
-              await this.telegramAdapter.sendMessage({
-                channel: 'telegram',
-                channelUserId: lead.channel_user_id,
-                content: part,
-              });
-            } else if (lead.channel === 'whatsapp') {
-              await this.whatsappAdapter.sendMessage({
-                channel: 'whatsapp',
-                channelUserId: lead.channel_user_id,
-                content: part,
-              });
-            }
-            this.logger.debug(`✅ Sent part ${i + 1}/${messageParts.length}`);
-          } catch (sendError) {
-            this.logger.error(`Failed to send reply part ${i + 1} via ${lead.channel}:`, sendError);
-          }
+          cumulativeDelay += calculateTypingDelay(messageParts[i], i);
+
+          await this.queueService.addChannelSendJob({
+            channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
+            channelUserId: lead.channel_user_id,
+            content: messageParts[i],
+            delay: cumulativeDelay,
+            metadata: {
+              language: lead.language || 'en',
+              hasMoreParts: i < messageParts.length - 1,
+              messageId: replyMessage.id,
+              replyId: replyMessage.id,
+              partIndex: i,
+            },
+          });
         }
-        
-        this.logger.log(`📤 ${messageParts.length} message part(s) sent to ${lead.channel_user_id}`);
+
+        if (messageParts.length > 1) {
+          await this.queueService.trackInFlightReply(
+            data.leadId,
+            { replyId: replyMessage.id, parts: messageParts },
+            cumulativeDelay,
+          );
+        }
+
+        this.logger.log(`📤 ${messageParts.length} message part(s) queued for ${lead.channel_user_id}`);
       }
 
       this.logger.log(`Reply saved for lead ${data.leadId}`);
@@ -396,12 +482,17 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
 
     // Handle handoff
     if (data.shouldHandoff) {
-      await this.supabase.updateLead(data.leadId, { status: 'HANDOFF_HUMAN' });
+      await this.supabase.updateLeadStatus(data.leadId, 'HANDOFF_HUMAN', {
+        event: 'HANDOFF_REQUESTED',
+        actor: 'ai',
+        reason: data.handoffReason || 'other',
+      });
       await this.supabase.createHandoff({
         lead_id: data.leadId,
         conversation_id: data.conversationId,
         reason: data.handoffReason || 'other',
         triggered_by: 'ai',
+        previous_status: lead.status,
       });
       this.logger.log(`Handoff created for lead ${data.leadId}`);
     }
@@ -452,66 +543,16 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Calculate realistic typing delay based on message length.
-   * Simulates human typing speed with natural variation.
-   * 
-   * @param message - The message content
-   * @param messageIndex - Index of message in sequence (0 = first)
-   * @returns Delay in milliseconds
-   */
-  private calculateTypingDelay(message: string, messageIndex: number): number {
-    // Constants for delay calculation
-    const BASE_DELAY_MS = 1000;           // Minimum base delay (1 second)
-    const MS_PER_CHAR = 50;               // ~50ms per character (simulates typing)
-    const MAX_DELAY_MS = 15000;           // Maximum delay (15 seconds)
-    const MIN_DELAY_MS = 2000;            // Minimum practical delay (2 seconds)
-    
-    // First message has no delay (send immediately)
-    if (messageIndex === 0) {
-      return 0;
-    }
-    
-    // Calculate base delay from message length
-    const charCount = message.length;
-    let delay = BASE_DELAY_MS + (charCount * MS_PER_CHAR);
-    
-    // Add random variation (±20%) for natural feel
-    const variation = delay * 0.2;
-    const randomOffset = (Math.random() * variation * 2) - variation;
-    delay += randomOffset;
-    
-    // Add extra "thinking" time for longer/complex messages
-    if (charCount > 100) {
-      delay += 2000; // Extra 2 seconds for complex messages
-    }
-    
-    // Clamp to min/max bounds
-    delay = Math.max(MIN_DELAY_MS, Math.min(MAX_DELAY_MS, delay));
-    
-    return Math.round(delay);
-  }
-
-  /**
-   * Split a message into multiple parts for human-like conversation.
-   * Messages are split by the "|||" delimiter.
+   * Check whether the lead wrote after the message this job answers
+   * The newer message queued its own debounced reply job (which sees the whole burst), so the
+   * current reply is dropped instead of answering stale context.
    */
-  private splitMessageIntoParts(message: string): string[] {
-    const parts = message.split('|||')
-      .map(part => part.trim())
-      .filter(part => part.length > 0);
-    
-    if (parts.length <= 1) {
-      return [message.trim()];
-    }
-    
-    return parts;
-  }
+  private async isSuperseded(leadId: string, messageId: string): Promise<boolean> {
+    const latest = await this.supabase.getLatestInboundMessage(leadId);
+    if (!latest || latest.id === messageId) return false;
 
-  /**
-   * Helper to create a delay between messages
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    this.logger.log(`🔁 Lead ${leadId} sent a new message, reply to ${messageId} cancelled in favour of the re-queued reply`);
+    return true;
   }
 
   private mapExtractionToProfile(extraction: Record<string, unknown>): Record<string, unknown> {
@@ -656,7 +697,7 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
    * Send template image to user if available for their treatment category
    */
   private async sendTemplateImageIfAvailable(
-    channel: 'whatsapp' | 'telegram' | 'web',
+    channel: 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
     channelUserId: string,
     treatmentCategory: string,
     language: string,
@@ -696,6 +737,18 @@ export class AiWorkerProcessor implements OnModuleInit, OnModuleDestroy {
           this.logger.log(`✅ Template image sent via WhatsApp for ${treatmentCategory} to ${channelUserId}`);
           return true;
         }
+
+        if (channel === 'instagram') {
+          await this.instagramAdapter.sendMessage({
+            channel: 'instagram',
+            channelUserId,
+            content: caption,
+            mediaUrl: templateUrl,
+            mediaType: 'image',
+          });
+          this.logger.log(`✅ Template image sent via Instagram for ${treatmentCategory} to ${channelUserId}`);
+          return true;
+        }
       }
       
       this.logger.warn(`⚠️ No template image available for ${treatmentCategory}/${language} on channel ${channel}`);
@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Headers,
+  Res,
+  ParseUUIDPipe,
+  BadRequestException,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiHeader, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { Response } from 'express';
+import {
+  AiUsageService,
+  AiUsageDimension,
+  AI_USAGE_DIMENSIONS,
+  AiUsageReport,
+} from './ai-usage.service';
+import { AiUsageAlertType } from '../../common/supabase/supabase.service';
+import { AuthService, User } from '../auth/auth.service';
+
+@ApiTags('analytics')
+@Controller('analytics/ai')
+export class AiUsageController {
+  constructor(
+    private readonly aiUsageService: AiUsageService,
+    private readonly authService: AuthService,
+  ) {}
+
+  private async getAdminUser(authHeader: string): Promise<User> {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('No token provided');
+    }
+    const user = await this.authService.validateToken(authHeader.substring(7));
+
+    if (user.role !== 'admin') {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return user;
+  }
+
+  @Get('usage')
+  @ApiOperation({ summary: 'AI runs, tokens, estimated cost, p50/p95 latency and error rate (admin only)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiQuery({ name: 'from', required: false, description: 'ISO date, default: 30 days ago' })
+  @ApiQuery({ name: 'to', required: false, description: 'ISO date (inclusive day), default: now' })
+  @ApiQuery({ name: 'group_by', required: false, description: `Comma separated: ${AI_USAGE_DIMENSIONS.join(', ')} (default: day)` })
+  @ApiQuery({ name: 'format', required: false, enum: ['json', 'csv'] })
+  async getUsage(
+    @Headers('authorization') authHeader: string,
+    @Res({ passthrough: true }) res: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('group_by') groupBy?: string,
+    @Query('format') format?: string,
+  ): Promise<AiUsageReport | string> {
+    await this.getAdminUser(authHeader);
+
+    if (format && format !== 'json' && format !== 'csv') {
+      throw new BadRequestException('format must be json or csv');
+    }
+
+    const dimensions = (groupBy || 'day').split(',').map((value) => value.trim()).filter(Boolean);
+    const invalid = dimensions.filter((value) => !AI_USAGE_DIMENSIONS.includes(value as AiUsageDimension));
+    if (invalid.length > 0) {
+      throw new BadRequestException(`group_by must be one of: ${AI_USAGE_DIMENSIONS.join(', ')}`);
+    }
+
+    const report = await this.aiUsageService.getUsage({ from, to }, [...new Set(dimensions)] as AiUsageDimension[]);
+
+    if (format !== 'csv') {
+      return report;
+    }
+
+    const filename = `ai-usage-${report.group_by.join('-')}_${report.from.slice(0, 10)}_${report.to.slice(0, 10)}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    return this.aiUsageService.usageToCsv(report);
+  }
+
+  @Get('cost-per-conversion')
+  @ApiOperation({ summary: 'Estimated AI cost per lead converted in the range (admin only)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiQuery({ name: 'from', required: false, description: 'ISO date, default: 30 days ago' })
+  @ApiQuery({ name: 'to', required: false, description: 'ISO date (inclusive day), default: now' })
+  async getCostPerConversion(
+    @Headers('authorization') authHeader: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    await this.getAdminUser(authHeader);
+    return this.aiUsageService.getCostPerConversion({ from, to });
+  }
+
+  @Get('alerts')
+  @ApiOperation({ summary: 'Daily spend / error rate alerts (unacknowledged by default, admin only)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiQuery({ name: 'type', required: false, enum: ['daily_spend', 'error_rate'] })
+  @ApiQuery({ name: 'acknowledged', required: false, type: Boolean })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getAlerts(
+    @Headers('authorization') authHeader: string,
+    @Query('type') alertType?: AiUsageAlertType,
+    @Query('acknowledged') acknowledged?: string,
+    @Query('limit') limit?: number,
+  ) {
+    await this.getAdminUser(authHeader);
+    return this.aiUsageService.getAlerts({
+      alertType,
+      acknowledged: acknowledged === 'true',
+      limit: limit ? parseInt(String(limit), 10) : undefined,
+    });
+  }
+
+  @Post('alerts/:id/acknowledge')
+  @ApiOperation({ summary: 'Acknowledge an AI usage alert' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async acknowledgeAlert(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+  ) {
+    const user = await this.getAdminUser(authHeader);
+    return this.aiUsageService.acknowledgeAlert(id, user.id);
+  }
+}
@@ -0,0 +1,383 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  SupabaseService,
+  AiRun,
+  AiUsageAlert,
+  AiUsageAlertType,
+} from '../../common/supabase/supabase.service';
+import { MetricsService } from '../../common/metrics/metrics.service';
+import { toCsv } from '../../common/utils/csv.utils';
+import { AnalyticsService, AnalyticsFilters, AnalyticsRange } from './analytics.service';
+
+export type AiUsageDimension = 'day' | 'model' | 'prompt_version' | 'job_type';
+
+export const AI_USAGE_DIMENSIONS: AiUsageDimension[] = ['day', 'model', 'prompt_version', 'job_type'];
+
+/**
+ * Model prices stored in system_configs under 'ai_model_pricing'
+ * Prices are per million tokens. ai_runs only records the total token count, so input
+ * and output tokens share one blended price. A key also prices dated variants of the
+ * model ('gpt-4o' prices 'gpt-4o-2024-08-06'); the longest matching key wins.
+ */
+export interface AiModelPricingConfig {
+  currency?: string;
+  models?: Record<string, number>;
+  default_per_million_tokens?: number; // Used for models without their own price
+}
+
+/**
+ * Alert thresholds stored in system_configs under 'ai_alert_thresholds' (unset = no alert)
+ */
+export interface AiAlertThresholds {
+  daily_spend?: number; // Estimated spend of the current UTC day, in the pricing currency
+  error_rate?: number; // 0..1, over the trailing window
+  error_rate_window_minutes?: number;
+  error_rate_min_runs?: number; // Don't alert on a handful of runs
+}
+
+export interface AiUsageRow {
+  group: Partial<Record<AiUsageDimension, string>>;
+  runs: number;
+  errors: number;
+  error_rate: number | null;
+  tokens: number;
+  estimated_cost: number;
+  p50_latency_ms: number | null;
+  p95_latency_ms: number | null;
+}
+
+export interface AiUsageReport extends AnalyticsRange {
+  currency: string;
+  group_by: AiUsageDimension[];
+  truncated: boolean;
+  unpriced_models: string[]; // Runs of these models are not part of estimated_cost
+  totals: AiUsageRow;
+  rows: AiUsageRow[];
+}
+
+export interface AiCostPerConversionReport extends AnalyticsRange {
+  currency: string;
+  conversions: number;
+  converted_leads_cost: number; // Every AI run of the leads converted in the range
+  cost_per_converted_lead: number | null;
+  total_spend: number; // Every AI run in the range
+  spend_per_conversion: number | null;
+  unpriced_models: string[];
+}
+
+type UsageRun = Pick<AiRun, 'created_at' | 'model' | 'prompt_version' | 'job_type' | 'tokens_used' | 'latency_ms' | 'error'>;
+
+// Cache the pricing / threshold configs loaded from system_configs
+const CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+const DEFAULT_CURRENCY = 'USD';
+const DEFAULT_ERROR_RATE_WINDOW_MINUTES = 60;
+const DEFAULT_ERROR_RATE_MIN_RUNS = 20;
+const MAX_USAGE_RUNS = 100000;
+
+@Injectable()
+export class AiUsageService {
+  private readonly logger = new Logger(AiUsageService.name);
+  private readonly configCache = new Map<string, { value: Record<string, unknown>; loadedAt: number }>();
+
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly analyticsService: AnalyticsService,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  // ==================== REPORTS ====================
+
+  /**
+   * Runs, tokens, estimated cost, latency percentiles and error rate of the AI runs in the range
+   */
+  async getUsage(filters: Pick<AnalyticsFilters, 'from' | 'to'>, groupBy: AiUsageDimension[]): Promise<AiUsageReport> {
+    const range = this.analyticsService.resolveRange(filters);
+    const [fetchedRuns, pricing] = await Promise.all([
+      this.supabase.getAiRunsBetween(range.from, range.to, MAX_USAGE_RUNS + 1),
+      this.getPricing(),
+    ]);
+
+    // The extra row tells a range that exactly fills the limit apart from a cut off one
+    const truncated = fetchedRuns.length > MAX_USAGE_RUNS;
+    if (truncated) {
+      this.logger.warn(`⚠️ AI usage report ${range.from} - ${range.to} hit the ${MAX_USAGE_RUNS} run limit`);
+    }
+    const runs = fetchedRuns.slice(0, MAX_USAGE_RUNS);
+
+    const groups = new Map<string, { group: AiUsageRow['group']; runs: UsageRun[] }>();
+    for (const run of runs) {
+      const group = this.groupOf(run, groupBy);
+      const key = JSON.stringify(group);
+      if (!groups.has(key)) groups.set(key, { group, runs: [] });
+      groups.get(key)!.runs.push(run);
+    }
+
+    return {
+      ...range,
+      currency: pricing.currency || DEFAULT_CURRENCY,
+      group_by: groupBy,
+      truncated,
+      unpriced_models: this.getUnpricedModels(runs, pricing),
+      totals: this.buildUsageRow({}, runs, pricing),
+      rows: [...groups.values()]
+        .map(({ group, runs: groupRuns }) => this.buildUsageRow(group, groupRuns, pricing))
+        .sort((a, b) => this.compareGroups(a.group, b.group, groupBy)),
+    };
+  }
+
+  /**
+   * AI spend per lead that converted in the range
+   * converted_leads_cost follows those leads over their whole life (runs before the range
+   * included); spend_per_conversion spreads everything spent in the range over the conversions.
+   */
+  async getCostPerConversion(filters: Pick<AnalyticsFilters, 'from' | 'to'>): Promise<AiCostPerConversionReport> {
+    const range = this.analyticsService.resolveRange(filters);
+    const [conversions, rangeRuns, pricing] = await Promise.all([
+      this.supabase.getStatusChangesTo('CONVERTED', range.from, range.to),
+      this.supabase.getAiRunsBetween(range.from, range.to),
+      this.getPricing(),
+    ]);
+
+    const convertedLeadIds = [...new Set(conversions.map((change) => change.lead_id))];
+    const convertedRuns = convertedLeadIds.length > 0
+      ? await this.supabase.getAiRunsForLeads(convertedLeadIds)
+      : [];
+
+    const convertedLeadsCost = this.sumCost(convertedRuns, pricing);
+    const totalSpend = this.sumCost(rangeRuns, pricing);
+    const count = convertedLeadIds.length;
+
+    return {
+      ...range,
+      currency: pricing.currency || DEFAULT_CURRENCY,
+      conversions: count,
+      converted_leads_cost: convertedLeadsCost,
+      cost_per_converted_lead: count > 0 ? this.round(convertedLeadsCost / count) : null,
+      total_spend: totalSpend,
+      spend_per_conversion: count > 0 ? this.round(totalSpend / count) : null,
+      unpriced_models: this.getUnpricedModels([...convertedRuns, ...rangeRuns], pricing),
+    };
+  }
+
+  usageToCsv(report: AiUsageReport): string {
+    const columns = [
+      ...report.group_by,
+      'runs',
+      'errors',
+      'error_rate',
+      'tokens',
+      'estimated_cost',
+      'p50_latency_ms',
+      'p95_latency_ms',
+    ];
+
+    return toCsv(columns, report.rows.map(({ group, ...row }) => ({ ...group, ...row })));
+  }
+
+  // ==================== ALERTS ====================
+
+  async getAlerts(options: { alertType?: AiUsageAlertType; acknowledged?: boolean; limit?: number } = {}): Promise<AiUsageAlert[]> {
+    return this.supabase.getAiUsageAlerts(options);
+  }
+
+  async acknowledgeAlert(id: string, userId: string): Promise<AiUsageAlert> {
+    const alert = await this.supabase.acknowledgeAiUsageAlert(id, userId);
+    if (!alert) {
+      throw new NotFoundException(`AI usage alert not found: ${id}`);
+    }
+    return alert;
+  }
+
+  /**
+   * Raise an alert when today's spend or the recent error rate crosses its threshold
+   * Each alert fires at most once per UTC day (spend) or per window (error rate).
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async checkAlerts(): Promise<void> {
+    try {
+      const thresholds = await this.getThresholds();
+
+      if (typeof thresholds.daily_spend === 'number') {
+        await this.checkDailySpend(thresholds.daily_spend);
+      }
+      if (typeof thresholds.error_rate === 'number') {
+        await this.checkErrorRate(thresholds.error_rate, thresholds);
+      }
+    } catch (error) {
+      this.logger.error('Failed to check AI usage alerts:', error);
+    }
+  }
+
+  private async checkDailySpend(threshold: number): Promise<void> {
+    const now = new Date();
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+
+    const existing = await this.supabase.getAiUsageAlerts({ alertType: 'daily_spend', since: dayStart, limit: 1 });
+    if (existing.length > 0) return;
+
+    const [runs, pricing] = await Promise.all([
+      this.supabase.getAiRunsBetween(dayStart, now.toISOString()),
+      this.getPricing(),
+    ]);
+
+    const spend = this.sumCost(runs, pricing);
+    if (spend < threshold) return;
+
+    await this.raiseAlert('daily_spend', spend, threshold, {
+      day: dayStart.slice(0, 10),
+      currency: pricing.currency || DEFAULT_CURRENCY,
+      runs: runs.length,
+      unpriced_models: this.getUnpricedModels(runs, pricing),
+    });
+  }
+
+  private async checkErrorRate(threshold: number, thresholds: AiAlertThresholds): Promise<void> {
+    const windowMinutes = thresholds.error_rate_window_minutes || DEFAULT_ERROR_RATE_WINDOW_MINUTES;
+    const minRuns = thresholds.error_rate_min_runs ?? DEFAULT_ERROR_RATE_MIN_RUNS;
+    const since = new Date(Date.now() - windowMinutes * 60 * 1000).toISOString();
+
+    const existing = await this.supabase.getAiUsageAlerts({ alertType: 'error_rate', since, limit: 1 });
+    if (existing.length > 0) return;
+
+    const runs = await this.supabase.getAiRunsSince(since);
+    if (runs.length === 0 || runs.length < minRuns) return;
+
+    const errors = runs.filter((run) => run.error).length;
+    const errorRate = this.round(errors / runs.length);
+    if (errorRate < threshold) return;
+
+    await this.raiseAlert('error_rate', errorRate, threshold, {
+      window_minutes: windowMinutes,
+      runs: runs.length,
+      errors,
+    });
+  }
+
+  private async raiseAlert(
+    alertType: AiUsageAlertType,
+    value: number,
+    threshold: number,
+    details: Record<string, unknown>,
+  ): Promise<void> {
+    await this.supabase.createAiUsageAlert({ alert_type: alertType, value, threshold, details });
+    this.metrics.incrementCounter('sales_agent_ai_alerts_total', 'AI usage alerts raised', { type: alertType });
+    this.logger.warn(`🚨 AI ${alertType} alert: ${value} crossed threshold ${threshold} (${JSON.stringify(details)})`);
+  }
+
+  // ==================== HELPERS ====================
+
+  private buildUsageRow(
+    group: AiUsageRow['group'],
+    runs: Array<Pick<AiRun, 'model' | 'tokens_used' | 'latency_ms' | 'error'>>,
+    pricing: AiModelPricingConfig,
+  ): AiUsageRow {
+    const errors = runs.filter((run) => run.error).length;
+    const latencies = runs
+      .map((run) => run.latency_ms)
+      .filter((latency): latency is number => typeof latency === 'number')
+      .sort((a, b) => a - b);
+
+    return {
+      group,
+      runs: runs.length,
+      errors,
+      error_rate: runs.length > 0 ? this.round(errors / runs.length) : null,
+      tokens: runs.reduce((sum, run) => sum + (run.tokens_used || 0), 0),
+      estimated_cost: this.sumCost(runs, pricing),
+      p50_latency_ms: this.quantile(latencies, 0.5),
+      p95_latency_ms: this.quantile(latencies, 0.95),
+    };
+  }
+
+  private groupOf(run: UsageRun, groupBy: AiUsageDimension[]): AiUsageRow['group'] {
+    const group: AiUsageRow['group'] = {};
+    for (const dimension of groupBy) {
+      group[dimension] = dimension === 'day'
+        ? (run.created_at || '').slice(0, 10) || 'unknown'
+        : run[dimension] || 'unknown';
+    }
+    return group;
+  }
+
+  private compareGroups(a: AiUsageRow['group'], b: AiUsageRow['group'], groupBy: AiUsageDimension[]): number {
+    for (const dimension of groupBy) {
+      const order = (a[dimension] || '').localeCompare(b[dimension] || '');
+      if (order !== 0) return order;
+    }
+    return 0;
+  }
+
+  private sumCost(runs: Array<Pick<AiRun, 'model' | 'tokens_used'>>, pricing: AiModelPricingConfig): number {
+    let cost = 0;
+    for (const run of runs) {
+      const price = this.getModelPrice(run.model, pricing);
+      if (price !== null) cost += ((run.tokens_used || 0) / 1_000_000) * price;
+    }
+    return this.round(cost);
+  }
+
+  private getUnpricedModels(runs: Array<Pick<AiRun, 'model'>>, pricing: AiModelPricingConfig): string[] {
+    const models = new Set<string>();
+    for (const run of runs) {
+      if (this.getModelPrice(run.model, pricing) === null) models.add(run.model || 'unknown');
+    }
+    return [...models].sort();
+  }
+
+  /**
+   * Price per million tokens of a model (exact key, else the longest key the name starts with)
+   */
+  private getModelPrice(model: string | null, pricing: AiModelPricingConfig): number | null {
+    const prices = pricing.models || {};
+
+    if (model && typeof prices[model] === 'number') return prices[model];
+
+    const prefix = model
+      ? Object.keys(prices)
+        .filter((key) => model.startsWith(key) && typeof prices[key] === 'number')
+        .sort((a, b) => b.length - a.length)[0]
+      : undefined;
+    if (prefix) return prices[prefix];
+
+    return typeof pricing.default_per_million_tokens === 'number' ? pricing.default_per_million_tokens : null;
+  }
+
+  private async getPricing(): Promise<AiModelPricingConfig> {
+    return this.getConfigObject<AiModelPricingConfig>('ai_model_pricing');
+  }
+
+  private async getThresholds(): Promise<AiAlertThresholds> {
+    return this.getConfigObject<AiAlertThresholds>('ai_alert_thresholds');
+  }
+
+  private async getConfigObject<T extends object>(key: string): Promise<T> {
+    const cached = this.configCache.get(key);
+    if (cached && Date.now() - cached.loadedAt < CONFIG_CACHE_TTL_MS) {
+      return cached.value as T;
+    }
+
+    let value: Record<string, unknown> = {};
+    try {
+      const config = await this.supabase.getConfig(key);
+      if (config && typeof config === 'object' && !Array.isArray(config)) {
+        value = config as Record<string, unknown>;
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to load ${key} from system_configs`, error);
+    }
+
+    this.configCache.set(key, { value, loadedAt: Date.now() });
+    return value as T;
+  }
+
+  private quantile(sorted: number[], quantile: number): number | null {
+    if (sorted.length === 0) return null;
+    return sorted[Math.min(sorted.length - 1, Math.ceil(quantile * sorted.length) - 1)];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Headers,
+  Res,
+  BadRequestException,
+  UnauthorizedException,
+  applyDecorators,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiHeader, ApiQuery } from '@nestjs/swagger';
+import { Response } from 'express';
+import {
+  AnalyticsService,
+  AnalyticsDimension,
+  AnalyticsFilters,
+  ANALYTICS_DIMENSIONS,
+  FunnelReport,
+  TimeInStageReport,
+  DropOffReport,
+} from './analytics.service';
+import { AuthService, User } from '../auth/auth.service';
+
+// Roles allowed to see reports
+const ANALYTICS_ROLES = ['sales_agent', 'admin'];
+
+type ReportFormat = 'json' | 'csv';
+
+/**
+ * Shared filter query params of every report
+ */
+const ApiAnalyticsQueries = () =>
+  applyDecorators(
+    ApiHeader({ name: 'Authorization', description: 'Bearer token' }),
+    ApiQuery({ name: 'from', required: false, description: 'Lead created from (ISO date, default: 30 days ago)' }),
+    ApiQuery({ name: 'to', required: false, description: 'Lead created until (ISO date, inclusive day, default: now)' }),
+    ApiQuery({ name: 'channel', required: false }),
+    ApiQuery({ name: 'language', required: false }),
+    ApiQuery({ name: 'country', required: false }),
+    ApiQuery({ name: 'treatment', required: false }),
+    ApiQuery({ name: 'format', required: false, enum: ['json', 'csv'] }),
+  );
+
+@ApiTags('analytics')
+@Controller('analytics')
+export class AnalyticsController {
+  constructor(
+    private readonly analyticsService: AnalyticsService,
+    private readonly authService: AuthService,
+  ) {}
+
+  @Get('funnel')
+  @ApiOperation({ summary: 'Conversion funnel (new → consent → qualifying → photos → doctor → sales → converted)' })
+  @ApiAnalyticsQueries()
+  @ApiQuery({ name: 'group_by', required: false, enum: ANALYTICS_DIMENSIONS })
+  async getFunnel(
+    @Headers('authorization') authHeader: string,
+    @Res({ passthrough: true }) res: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('channel') channel?: string,
+    @Query('language') language?: string,
+    @Query('country') country?: string,
+    @Query('treatment') treatment?: string,
+    @Query('group_by') groupBy?: AnalyticsDimension,
+    @Query('format') format?: ReportFormat,
+  ): Promise<FunnelReport | string> {
+    await this.getAnalyticsUser(authHeader);
+    const csv = this.isCsv(format);
+
+    if (groupBy && !ANALYTICS_DIMENSIONS.includes(groupBy)) {
+      throw new BadRequestException(`group_by must be one of: ${ANALYTICS_DIMENSIONS.join(', ')}`);
+    }
+
+    const filters: AnalyticsFilters = { from, to, channel, language, country, treatment_category: treatment };
+    const report = await this.analyticsService.getFunnel(filters, groupBy);
+
+    return csv
+      ? this.sendCsv(res, `funnel-${groupBy || 'all'}`, report, this.analyticsService.funnelToCsv(report))
+      : report;
+  }
+
+  @Get('time-in-stage')
+  @ApiOperation({ summary: 'Median / p90 / average hours leads spent in each status' })
+  @ApiAnalyticsQueries()
+  async getTimeInStage(
+    @Headers('authorization') authHeader: string,
+    @Res({ passthrough: true }) res: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('channel') channel?: string,
+    @Query('language') language?: string,
+    @Query('country') country?: string,
+    @Query('treatment') treatment?: string,
+    @Query('format') format?: ReportFormat,
+  ): Promise<TimeInStageReport | string> {
+    await this.getAnalyticsUser(authHeader);
+    const csv = this.isCsv(format);
+
+    const filters: AnalyticsFilters = { from, to, channel, language, country, treatment_category: treatment };
+    const report = await this.analyticsService.getTimeInStage(filters);
+
+    return csv
+      ? this.sendCsv(res, 'time-in-stage', report, this.analyticsService.timeInStageToCsv(report))
+      : report;
+  }
+
+  @Get('drop-off')
+  @ApiOperation({ summary: 'Funnel and drop-off rates per weekly cohort of new leads' })
+  @ApiAnalyticsQueries()
+  async getDropOff(
+    @Headers('authorization') authHeader: string,
+    @Res({ passthrough: true }) res: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('channel') channel?: string,
+    @Query('language') language?: string,
+    @Query('country') country?: string,
+    @Query('treatment') treatment?: string,
+    @Query('format') format?: ReportFormat,
+  ): Promise<DropOffReport | string> {
+    await this.getAnalyticsUser(authHeader);
+    const csv = this.isCsv(format);
+
+    const filters: AnalyticsFilters = { from, to, channel, language, country, treatment_category: treatment };
+    const report = await this.analyticsService.getWeeklyDropOff(filters);
+
+    return csv
+      ? this.sendCsv(res, 'drop-off', report, this.analyticsService.dropOffToCsv(report))
+      : report;
+  }
+
+  private async getAnalyticsUser(authHeader: string): Promise<User> {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('Authorization token required');
+    }
+
+    const user = await this.authService.validateToken(authHeader.substring(7));
+    if (!ANALYTICS_ROLES.includes(user.role)) {
+      throw new ForbiddenException('Only sales agents and admins can access analytics');
+    }
+
+    return user;
+  }
+
+  private isCsv(format?: ReportFormat): boolean {
+    if (format && format !== 'json' && format !== 'csv') {
+      throw new BadRequestException('format must be json or csv');
+    }
+    return format === 'csv';
+  }
+
+  private sendCsv(res: Response, report: string, range: { from: string; to: string }, csv: string): string {
+    const filename = `${report}_${range.from.slice(0, 10)}_${range.to.slice(0, 10)}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    return csv;
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsService } from './analytics.service';
+import { AiUsageController } from './ai-usage.controller';
+import { AiUsageService } from './ai-usage.service';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [AnalyticsController, AiUsageController],
+  providers: [AnalyticsService, AiUsageService],
+})
+export class AnalyticsModule {}
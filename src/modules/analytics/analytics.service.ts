@@ -0,0 +1,458 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { SupabaseService } from '../../common/supabase/supabase.service';
+import { toCsv, CsvValue } from '../../common/utils/csv.utils';
+
+export type AnalyticsDimension = 'channel' | 'language' | 'country' | 'treatment_category';
+
+export const ANALYTICS_DIMENSIONS: AnalyticsDimension[] = ['channel', 'language', 'country', 'treatment_category'];
+
+export type FunnelStage = 'new' | 'consent' | 'qualifying' | 'photos' | 'doctor' | 'sales' | 'converted';
+
+export const FUNNEL_STAGES: FunnelStage[] = ['new', 'consent', 'qualifying', 'photos', 'doctor', 'sales', 'converted'];
+
+export interface AnalyticsFilters {
+  from?: string; // Lead created_at, inclusive (ISO date or timestamp)
+  to?: string; // Lead created_at, exclusive; a plain date includes that whole day
+  channel?: string;
+  language?: string;
+  country?: string;
+  treatment_category?: string;
+}
+
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
+
+export interface FunnelStageCount {
+  stage: FunnelStage;
+  leads: number;
+  rate_from_previous: number | null;
+  rate_from_start: number | null;
+  drop_off_rate: number | null; // Share of the previous stage that never got here
+}
+
+export interface FunnelGroup {
+  key: string;
+  leads: number;
+  stages: FunnelStageCount[];
+  leads_with_handoff: number;
+  followups_sent: number;
+  followups_answered: number;
+}
+
+export interface FunnelReport extends AnalyticsRange {
+  group_by: AnalyticsDimension | null;
+  truncated: boolean;
+  overall: FunnelGroup;
+  groups: FunnelGroup[];
+}
+
+export interface StageDuration {
+  status: string;
+  stage: FunnelStage | null; // null for side statuses (WAITING_FOR_USER, DORMANT, HANDOFF_HUMAN)
+  completed_stays: number;
+  open_stays: number; // Leads currently sitting in the status (not part of the durations)
+  median_hours: number | null;
+  p90_hours: number | null;
+  average_hours: number | null;
+}
+
+export interface TimeInStageReport extends AnalyticsRange {
+  truncated: boolean;
+  statuses: StageDuration[];
+}
+
+export interface DropOffReport extends AnalyticsRange {
+  truncated: boolean;
+  weeks: FunnelGroup[]; // key = week start (Monday, UTC) of lead creation
+}
+
+interface CohortLead {
+  id: string;
+  created_at: string;
+  status: string;
+  consent_given: boolean;
+  dimensions: Record<AnalyticsDimension, string | null>;
+  history: Array<{ from_status: string | null; to_status: string; created_at: string }>;
+}
+
+interface Cohort {
+  range: AnalyticsRange;
+  truncated: boolean;
+  leads: CohortLead[];
+  followups: Map<string, { sent: number; answered: number }>;
+  handoffLeads: Set<string>;
+}
+
+// Funnel stage each status stands for (side statuses have none)
+const STATUS_STAGE: Record<string, FunnelStage> = {
+  NEW: 'new',
+  WAITING_CONSENT: 'new',
+  QUALIFYING: 'qualifying',
+  WAITING_FORM: 'qualifying',
+  WAITING_PHOTOS: 'photos',
+  PHOTO_REQUESTED: 'photos',
+  PHOTO_COLLECTING: 'photos',
+  PHOTO_QA_FIX: 'photos',
+  READY_FOR_DOCTOR: 'doctor',
+  READY_FOR_SALES: 'sales',
+  SALES_PRICED: 'sales',
+  CONVERTED: 'converted',
+};
+
+// Nothing leaves these statuses, so a stay in them has no duration
+const TERMINAL_STATUSES = new Set(['CONVERTED', 'CLOSED']);
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const MAX_COHORT_LEADS = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class AnalyticsService {
+  private readonly logger = new Logger(AnalyticsService.name);
+
+  constructor(private readonly supabase: SupabaseService) {}
+
+  // ==================== REPORTS ====================
+
+  /**
+   * Conversion funnel of the leads created in the range, optionally broken down by a dimension
+   * A lead counts for every stage up to the furthest one it reached (photos are optional,
+   * so a lead that went straight to the doctor still passes the photo stage).
+   */
+  async getFunnel(filters: AnalyticsFilters, groupBy?: AnalyticsDimension): Promise<FunnelReport> {
+    const cohort = await this.loadCohort(filters);
+
+    const groups = new Map<string, CohortLead[]>();
+    if (groupBy) {
+      for (const lead of cohort.leads) {
+        const key = lead.dimensions[groupBy] || 'unknown';
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(lead);
+      }
+    }
+
+    return {
+      ...cohort.range,
+      group_by: groupBy || null,
+      truncated: cohort.truncated,
+      overall: this.buildFunnelGroup('all', cohort.leads, cohort),
+      groups: [...groups.entries()]
+        .map(([key, leads]) => this.buildFunnelGroup(key, leads, cohort))
+        .sort((a, b) => b.leads - a.leads),
+    };
+  }
+
+  /**
+   * How long the leads created in the range stayed in each status (from the status history)
+   */
+  async getTimeInStage(filters: AnalyticsFilters): Promise<TimeInStageReport> {
+    const cohort = await this.loadCohort(filters, false);
+
+    const durations = new Map<string, number[]>();
+    const openStays = new Map<string, number>();
+
+    for (const lead of cohort.leads) {
+      // Leads are created without a history row, so the first stay starts at created_at
+      let status = lead.history[0]?.from_status || lead.status;
+      let enteredAt = new Date(lead.created_at).getTime();
+
+      for (const change of lead.history) {
+        const changedAt = new Date(change.created_at).getTime();
+        if (!durations.has(status)) durations.set(status, []);
+        durations.get(status)!.push(Math.max(0, changedAt - enteredAt));
+        status = change.to_status;
+        enteredAt = changedAt;
+      }
+
+      if (!TERMINAL_STATUSES.has(status)) {
+        openStays.set(status, (openStays.get(status) || 0) + 1);
+      }
+    }
+
+    const statusOrder = Object.keys(STATUS_STAGE);
+    const statuses = [...new Set([...durations.keys(), ...openStays.keys()])]
+      .filter((status) => !TERMINAL_STATUSES.has(status))
+      .sort((a, b) => this.orderIndex(statusOrder, a) - this.orderIndex(statusOrder, b) || a.localeCompare(b));
+
+    return {
+      ...cohort.range,
+      truncated: cohort.truncated,
+      statuses: statuses.map((status) => {
+        const sorted = (durations.get(status) || []).sort((a, b) => a - b);
+        return {
+          status,
+          stage: STATUS_STAGE[status] || null,
+          completed_stays: sorted.length,
+          open_stays: openStays.get(status) || 0,
+          median_hours: this.toHours(this.quantile(sorted, 0.5)),
+          p90_hours: this.toHours(this.quantile(sorted, 0.9)),
+          average_hours: sorted.length > 0
+            ? this.toHours(sorted.reduce((sum, value) => sum + value, 0) / sorted.length)
+            : null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Funnel per weekly cohort (week of lead creation), to see where drop-off changes over time
+   */
+  async getWeeklyDropOff(filters: AnalyticsFilters): Promise<DropOffReport> {
+    const cohort = await this.loadCohort(filters);
+
+    const weeks = new Map<string, CohortLead[]>();
+    for (const lead of cohort.leads) {
+      const week = this.weekStart(lead.created_at);
+      if (!weeks.has(week)) weeks.set(week, []);
+      weeks.get(week)!.push(lead);
+    }
+
+    return {
+      ...cohort.range,
+      truncated: cohort.truncated,
+      weeks: [...weeks.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([week, leads]) => this.buildFunnelGroup(week, leads, cohort)),
+    };
+  }
+
+  // ==================== CSV EXPORT ====================
+
+  funnelToCsv(report: FunnelReport): string {
+    const columns = [
+      report.group_by || 'group',
+      'leads',
+      ...FUNNEL_STAGES.flatMap((stage) => [stage, `${stage}_rate`]),
+      'leads_with_handoff',
+      'followups_sent',
+      'followups_answered',
+    ];
+
+    const rows = [report.overall, ...report.groups].map((group) => ({
+      [report.group_by || 'group']: group.key,
+      leads: group.leads,
+      ...this.stageColumns(group, (count) => ({ '': count.leads, _rate: count.rate_from_start })),
+      leads_with_handoff: group.leads_with_handoff,
+      followups_sent: group.followups_sent,
+      followups_answered: group.followups_answered,
+    }));
+
+    return toCsv(columns, rows);
+  }
+
+  timeInStageToCsv(report: TimeInStageReport): string {
+    const columns = ['status', 'stage', 'completed_stays', 'open_stays', 'median_hours', 'p90_hours', 'average_hours'];
+    return toCsv(columns, report.statuses.map((row) => ({ ...row })));
+  }
+
+  dropOffToCsv(report: DropOffReport): string {
+    const columns = [
+      'week_start',
+      'leads',
+      ...FUNNEL_STAGES.flatMap((stage) => [stage, `${stage}_drop_off`]),
+    ];
+
+    const rows = report.weeks.map((week) => ({
+      week_start: week.key,
+      leads: week.leads,
+      ...this.stageColumns(week, (count) => ({ '': count.leads, _drop_off: count.drop_off_rate })),
+    }));
+
+    return toCsv(columns, rows);
+  }
+
+  /**
+   * Date range of a report (defaults to the last 30 days, capped at MAX_RANGE_DAYS)
+   */
+  resolveRange(filters: Pick<AnalyticsFilters, 'from' | 'to'>): AnalyticsRange {
+    const to = filters.to ? this.parseDate(filters.to, 'to', true) : new Date();
+    const from = filters.from ? this.parseDate(filters.from, 'from') : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (from.getTime() >= to.getTime()) {
+      throw new BadRequestException('"from" must be before "to"');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+    }
+
+    return { from: from.toISOString(), to: to.toISOString() };
+  }
+
+  // ==================== HELPERS ====================
+
+  private async loadCohort(filters: AnalyticsFilters, withActivity = true): Promise<Cohort> {
+    const range = this.resolveRange(filters);
+
+    // One extra row tells a cohort that exactly fills the limit apart from a cut off one
+    const fetchedLeads = await this.supabase.getLeadsCreatedBetween(range.from, range.to, MAX_COHORT_LEADS + 1);
+
+    const truncated = fetchedLeads.length > MAX_COHORT_LEADS;
+    if (truncated) {
+      this.logger.warn(`⚠️ Analytics cohort ${range.from} - ${range.to} hit the ${MAX_COHORT_LEADS} lead limit`);
+    }
+    const rawLeads = fetchedLeads.slice(0, MAX_COHORT_LEADS);
+
+    const leads = new Map<string, CohortLead>();
+    for (const lead of rawLeads) {
+      const dimensions: Record<AnalyticsDimension, string | null> = {
+        channel: lead.channel,
+        language: lead.language,
+        country: lead.country,
+        treatment_category: lead.treatment_category,
+      };
+
+      const matches = ANALYTICS_DIMENSIONS.every((dimension) => {
+        const wanted = filters[dimension];
+        return !wanted || (dimensions[dimension] || '').toLowerCase() === wanted.toLowerCase();
+      });
+      if (!matches || !lead.created_at) continue;
+
+      leads.set(lead.id, {
+        id: lead.id,
+        created_at: lead.created_at,
+        status: lead.status,
+        consent_given: lead.lead_profile?.consent_given === true,
+        dimensions,
+        history: [],
+      });
+    }
+
+    const leadIds = [...leads.keys()];
+    const [history, followups, handoffs] = await Promise.all([
+      this.supabase.getStatusHistoryForLeads(leadIds),
+      withActivity ? this.supabase.getFollowupsForLeads(leadIds) : Promise.resolve([]),
+      withActivity ? this.supabase.getHandoffsForLeads(leadIds) : Promise.resolve([]),
+    ]);
+
+    for (const change of history) {
+      leads.get(change.lead_id)?.history.push(change);
+    }
+
+    const followupsByLead = new Map<string, { sent: number; answered: number }>();
+    for (const followup of followups) {
+      if (!leads.has(followup.lead_id) || !followup.sent_at) continue;
+      const counts = followupsByLead.get(followup.lead_id) || { sent: 0, answered: 0 };
+      counts.sent++;
+      if (followup.response_received) counts.answered++;
+      followupsByLead.set(followup.lead_id, counts);
+    }
+
+    return {
+      range,
+      truncated,
+      leads: [...leads.values()],
+      followups: followupsByLead,
+      handoffLeads: new Set(handoffs.map((handoff) => handoff.lead_id).filter((id) => leads.has(id))),
+    };
+  }
+
+  private buildFunnelGroup(key: string, leads: CohortLead[], cohort: Cohort): FunnelGroup {
+    const reached = FUNNEL_STAGES.map(() => 0);
+    let followupsSent = 0;
+    let followupsAnswered = 0;
+
+    for (const lead of leads) {
+      const furthest = this.getFurthestStageIndex(lead);
+      for (let i = 0; i <= furthest; i++) reached[i]++;
+
+      const followups = cohort.followups.get(lead.id);
+      followupsSent += followups?.sent || 0;
+      followupsAnswered += followups?.answered || 0;
+    }
+
+    return {
+      key,
+      leads: leads.length,
+      stages: FUNNEL_STAGES.map((stage, i) => {
+        const rateFromPrevious = i === 0 ? null : this.ratio(reached[i], reached[i - 1]);
+        return {
+          stage,
+          leads: reached[i],
+          rate_from_previous: rateFromPrevious,
+          rate_from_start: this.ratio(reached[i], reached[0]),
+          drop_off_rate: rateFromPrevious === null ? null : this.round(1 - rateFromPrevious, 4),
+        };
+      }),
+      leads_with_handoff: leads.filter((lead) => cohort.handoffLeads.has(lead.id)).length,
+      followups_sent: followupsSent,
+      followups_answered: followupsAnswered,
+    };
+  }
+
+  /**
+   * Index of the furthest funnel stage the lead ever reached (current status or any status in its history)
+   * Reaching qualifying implies consent was given, even for leads from before consent was recorded.
+   */
+  private getFurthestStageIndex(lead: CohortLead): number {
+    const statuses = [lead.status, ...lead.history.flatMap((change) => [change.from_status, change.to_status])];
+
+    let furthest = lead.consent_given ? FUNNEL_STAGES.indexOf('consent') : 0;
+    for (const status of statuses) {
+      const stage = status ? STATUS_STAGE[status] : undefined;
+      if (stage) furthest = Math.max(furthest, FUNNEL_STAGES.indexOf(stage));
+    }
+
+    return furthest;
+  }
+
+  private stageColumns(
+    group: FunnelGroup,
+    columnsFor: (count: FunnelStageCount) => Record<string, CsvValue>,
+  ): Record<string, CsvValue> {
+    const columns: Record<string, CsvValue> = {};
+    for (const count of group.stages) {
+      for (const [suffix, value] of Object.entries(columnsFor(count))) {
+        columns[`${count.stage}${suffix}`] = value;
+      }
+    }
+    return columns;
+  }
+
+  private parseDate(value: string, name: string, endOfDay = false): Date {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid "${name}" date: ${value}`);
+    }
+
+    // A plain date as the upper bound means "up to and including that day"
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return new Date(date.getTime() + DAY_MS);
+    }
+
+    return date;
+  }
+
+  private weekStart(timestamp: string): string {
+    const date = new Date(timestamp);
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday));
+    return monday.toISOString().slice(0, 10);
+  }
+
+  private quantile(sorted: number[], quantile: number): number | null {
+    if (sorted.length === 0) return null;
+    return sorted[Math.min(sorted.length - 1, Math.ceil(quantile * sorted.length) - 1)];
+  }
+
+  private toHours(ms: number | null): number | null {
+    return ms === null ? null : this.round(ms / HOUR_MS, 2);
+  }
+
+  private ratio(part: number, whole: number): number | null {
+    return whole > 0 ? this.round(part / whole, 4) : null;
+  }
+
+  private round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+
+  private orderIndex(order: string[], value: string): number {
+    const index = order.indexOf(value);
+    return index === -1 ? order.length : index;
+  }
+}
@@ -3,24 +3,63 @@ import {
   Get,
   Param,
   Post,
+  Body,
   Query,
+  Headers,
   Logger,
   ParseUUIDPipe,
   BadRequestException,
+  UnauthorizedException,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
-import { ConversationsService } from './conversations.service';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiParam, ApiQuery, ApiHeader, ApiConsumes } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsString, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+import { ConversationsService, AgentAttachment } from './conversations.service';
+import { AuthService, User } from '../auth/auth.service';
 
 const OptionalUUIDPipe = new ParseUUIDPipe({
   exceptionFactory: () => new BadRequestException('Invalid UUID format'),
 });
 
+// Largest attachment agents can send (WhatsApp caps images at 5MB, documents higher)
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+class SendAgentMessageDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(4096)
+  content?: string;
+
+  @IsOptional()
+  @IsString()
+  quick_reply_key?: string;
+
+  // Multipart forms send booleans as strings
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  reopen_with_template?: boolean;
+}
+
 @ApiTags('conversations')
 @Controller('conversations')
 export class ConversationsController {
   private readonly logger = new Logger(ConversationsController.name);
 
-  constructor(private readonly conversationsService: ConversationsService) {}
+  constructor(
+    private readonly conversationsService: ConversationsService,
+    private readonly authService: AuthService,
+  ) {}
+
+  private async getUser(authHeader: string): Promise<User> {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('No token provided');
+    }
+    return this.authService.validateToken(authHeader.substring(7));
+  }
 
   @Get()
   @ApiOperation({ summary: 'Get all conversations' })
@@ -31,6 +70,18 @@ export class ConversationsController {
     );
   }
 
+  @Get('quick-replies')
+  @ApiOperation({ summary: 'Get quick-reply snippets for agent messages' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiQuery({ name: 'language', required: false, type: String })
+  async getQuickReplies(
+    @Headers('authorization') authHeader: string,
+    @Query('language') language?: string,
+  ) {
+    await this.getUser(authHeader);
+    return this.conversationsService.getQuickReplies(language);
+  }
+
   @Get('lead/:leadId')
   @ApiOperation({ summary: 'Get conversations by lead ID' })
   @ApiParam({ name: 'leadId', type: String })
@@ -59,6 +110,27 @@ export class ConversationsController {
     );
   }
 
+  @Post(':id/messages')
+  @ApiOperation({ summary: 'Send a message to the lead as the logged-in user' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_ATTACHMENT_BYTES } }))
+  async sendMessage(
+    @Param('id', OptionalUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+    @Body() dto: SendAgentMessageDto,
+    @UploadedFile() file?: AgentAttachment,
+  ) {
+    const user = await this.getUser(authHeader);
+    return this.conversationsService.sendAgentMessage(id, user, {
+      content: dto.content,
+      quickReplyKey: dto.quick_reply_key,
+      attachment: file,
+      reopenWithTemplate: dto.reopen_with_template,
+    });
+  }
+
   @Post(':id/close')
   @ApiOperation({ summary: 'Close conversation' })
   @ApiParam({ name: 'id', type: String })
@@ -1,11 +1,13 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { ConversationsService } from './conversations.service';
 import { ConversationsController } from './conversations.controller';
+import { AuthModule } from '../auth/auth.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
+  imports: [AuthModule, forwardRef(() => WebhooksModule)],
   controllers: [ConversationsController],
   providers: [ConversationsService],
   exports: [ConversationsService],
 })
 export class ConversationsModule {}
-
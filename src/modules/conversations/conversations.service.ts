@@ -1,11 +1,66 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
-import { SupabaseService } from '../../common/supabase/supabase.service';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  SupabaseService,
+  MessageDeliveryFields,
+  Message,
+  Lead,
+  LeadProfile,
+} from '../../common/supabase/supabase.service';
+import { QueueService } from '../../common/queue/queue.service';
+import { VoiceTranscript } from '../transcription/transcription.service';
+import { WhatsappTemplatesService } from '../webhooks/whatsapp-templates.service';
+import { User } from '../auth/auth.service';
+
+/**
+ * Canned reply agents can send from the dashboard (system_configs 'quick_replies')
+ * Content may use {{name}} (lead) and {{agent_name}} (sending user) placeholders.
+ */
+export interface QuickReply {
+  key: string;
+  title: string;
+  content: string;
+  language?: string; // Omitted = usable for every language
+}
+
+export interface AgentAttachment {
+  buffer: Buffer;
+  originalname?: string;
+  mimetype: string;
+  size: number;
+}
+
+// Attachments agents may send - images go out as photos, the rest as documents
+const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+// Channels fetch the attachment from storage when the send job runs
+const ATTACHMENT_URL_EXPIRY_SECONDS = 24 * 60 * 60;
 
 @Injectable()
 export class ConversationsService {
   private readonly logger = new Logger(ConversationsService.name);
 
-  constructor(private readonly supabase: SupabaseService) {}
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly queueService: QueueService,
+    @Inject(forwardRef(() => WhatsappTemplatesService))
+    private readonly whatsappTemplates: WhatsappTemplatesService,
+  ) {}
 
   async findAll(limit = 50) {
     const { data, error } = await this.supabase.client
@@ -50,7 +105,20 @@ export class ConversationsService {
   }
 
   async getMessages(conversationId: string, limit = 50) {
-    return this.supabase.getConversationMessages(conversationId, limit);
+    const messages = await this.supabase.getConversationMessages(conversationId, limit);
+
+    // Surface delivery receipts (sent / delivered / read / failed) and voice note transcripts
+    return messages.map((message) => {
+      const metadata = message.metadata as Record<string, unknown> | null;
+      const transcript = metadata?.transcript as VoiceTranscript | undefined;
+      const delivery = message as Message & Partial<MessageDeliveryFields>;
+      return {
+        ...message,
+        delivery_status: delivery.delivery_status || null,
+        delivery_updated_at: delivery.delivery_updated_at || null,
+        transcript: transcript?.text || null,
+      };
+    });
   }
 
   async getActiveConversation(leadId: string) {
@@ -63,5 +131,182 @@ export class ConversationsService {
       is_active: false,
     });
   }
-}
 
+  /**
+   * Get quick-reply snippets, optionally only those usable for a language
+   */
+  async getQuickReplies(language?: string): Promise<QuickReply[]> {
+    const config = await this.supabase.getConfig('quick_replies');
+    const quickReplies = Array.isArray(config) ? (config as unknown as QuickReply[]) : [];
+
+    return language
+      ? quickReplies.filter((reply) => !reply.language || reply.language === language)
+      : quickReplies;
+  }
+
+  /**
+   * Send a message to the lead as the logged-in user (text, quick reply and/or attachment)
+   * Goes through the channel send queue like every other outbound message.
+   */
+  async sendAgentMessage(
+    conversationId: string,
+    user: User,
+    input: {
+      content?: string;
+      quickReplyKey?: string;
+      attachment?: AgentAttachment;
+      reopenWithTemplate?: boolean;
+    },
+  ): Promise<Message> {
+    const conversation = await this.supabase.getConversationById(conversationId);
+    if (!conversation) {
+      throw new NotFoundException(`Conversation not found: ${conversationId}`);
+    }
+
+    const lead = await this.supabase.getLeadById(conversation.lead_id);
+    if (!lead?.channel_user_id) {
+      throw new BadRequestException('Lead has no channel to reply on');
+    }
+
+    // Free-form messages can't reach WhatsApp users after 24h of silence - only a template can
+    if (lead.channel === 'whatsapp' && !(await this.whatsappTemplates.isServiceWindowOpen(lead.id))) {
+      if (!input.reopenWithTemplate) {
+        throw new ConflictException(
+          'WhatsApp 24h service window is closed - set reopen_with_template to send a re-engagement template',
+        );
+      }
+      return this.sendReengagementTemplate(conversation.id, lead, user);
+    }
+
+    let content = input.content?.trim() || '';
+    let quickReply: QuickReply | undefined;
+    if (!content && input.quickReplyKey) {
+      quickReply = await this.findQuickReply(input.quickReplyKey, lead.language || 'en');
+      content = this.renderQuickReply(quickReply, {
+        name: lead.lead_profile?.name,
+        agent_name: user.name,
+      });
+    }
+
+    if (!content && !input.attachment) {
+      throw new BadRequestException('Message needs content, a quick reply or an attachment');
+    }
+
+    const media = input.attachment
+      ? await this.uploadAttachment(lead.id, input.attachment)
+      : null;
+
+    const message = await this.supabase.createMessage({
+      conversation_id: conversation.id,
+      lead_id: lead.id,
+      direction: 'out',
+      content: content || undefined,
+      media_type: media?.mediaType,
+      media_url: media?.storagePath,
+      sender_type: 'agent',
+      metadata: {
+        agent_id: user.id,
+        agent_name: user.name,
+        ...(quickReply ? { quick_reply_key: quickReply.key } : {}),
+        ...(media ? { attachment: { bucket: 'lead-media-private', file_name: media.fileName, mime_type: media.mimeType } } : {}),
+      },
+    });
+
+    await this.queueService.addChannelSendJob({
+      channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
+      channelUserId: lead.channel_user_id,
+      content,
+      mediaUrl: media?.signedUrl,
+      mediaType: media?.mediaType,
+      metadata: {
+        language: lead.language || 'en',
+        messageId: message.id,
+      },
+    });
+
+    this.logger.log(`👤 ${user.email} sent a message to lead ${lead.id}${media ? ` with ${media.mediaType}` : ''}`);
+    return message;
+  }
+
+  private async sendReengagementTemplate(
+    conversationId: string,
+    lead: Lead & { lead_profile: LeadProfile | null },
+    user: User,
+  ): Promise<Message> {
+    const result = await this.whatsappTemplates.sendForLead(lead, 'reengagement');
+    if (!result) {
+      throw new BadRequestException(`No WhatsApp re-engagement template registered for ${lead.language || 'en'}`);
+    }
+
+    const message = await this.supabase.createMessage({
+      conversation_id: conversationId,
+      lead_id: lead.id,
+      direction: 'out',
+      content: result.renderedBody,
+      sender_type: 'agent',
+      metadata: {
+        agent_id: user.id,
+        agent_name: user.name,
+        whatsapp_template: { name: result.template.name, language: result.template.language },
+      },
+    });
+
+    // Link the wamid for delivery / read receipts, like every other outbound message
+    if (result.messageId && lead.channel_user_id) {
+      await this.supabase.recordOutboundDelivery(message.id, {
+        channel: 'whatsapp',
+        channelUserId: lead.channel_user_id,
+        channelMessageId: result.messageId,
+      }).catch((error) => {
+        // Already sent - don't fail the request (and invite a resend) because of tracking
+        this.logger.warn(`Could not link ${result.messageId} to message ${message.id}`, error);
+      });
+    }
+
+    this.logger.log(`📨 ${user.email} reopened the WhatsApp window for lead ${lead.id} with ${result.template.name}`);
+    return message;
+  }
+
+  private async findQuickReply(key: string, language: string): Promise<QuickReply> {
+    const candidates = (await this.getQuickReplies()).filter((reply) => reply.key === key);
+    const quickReply = candidates.find((reply) => reply.language === language)
+      || candidates.find((reply) => !reply.language)
+      || candidates.find((reply) => reply.language === 'en');
+
+    if (!quickReply) {
+      throw new BadRequestException(`Quick reply not found: ${key}`);
+    }
+    return quickReply;
+  }
+
+  private renderQuickReply(quickReply: QuickReply, values: Record<string, string | null | undefined>): string {
+    return quickReply.content
+      .replace(/\{\{(\w+)\}\}/g, (_, slot: string) => values[slot] || '')
+      .replace(/ {2,}/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Store an agent attachment and get a URL the channel can fetch it from
+   */
+  private async uploadAttachment(leadId: string, attachment: AgentAttachment) {
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(attachment.mimetype)) {
+      throw new BadRequestException(`Unsupported attachment type: ${attachment.mimetype}`);
+    }
+
+    const extension = attachment.originalname?.split('.').pop()?.toLowerCase()
+      || attachment.mimetype.split('/').pop();
+    const storagePath = `leads/${leadId}/agent/${uuidv4()}.${extension}`;
+
+    await this.supabase.uploadFile('lead-media-private', storagePath, attachment.buffer, attachment.mimetype);
+    const signedUrl = await this.supabase.getSignedUrl('lead-media-private', storagePath, ATTACHMENT_URL_EXPIRY_SECONDS);
+
+    return {
+      storagePath,
+      signedUrl,
+      fileName: attachment.originalname,
+      mimeType: attachment.mimetype,
+      mediaType: attachment.mimetype.startsWith('image/') ? 'image' : 'document',
+    };
+  }
+}
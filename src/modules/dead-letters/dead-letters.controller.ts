@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Headers,
+  ParseUUIDPipe,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiHeader, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { IsObject } from 'class-validator';
+import { DeadLetterService } from '../../common/queue/dead-letter.service';
+import { DeadLetterStatus } from '../../common/supabase/supabase.service';
+import { AuthService, User } from '../auth/auth.service';
+
+class UpdateDeadLetterDto {
+  @IsObject()
+  payload: Record<string, unknown>;
+}
+
+@ApiTags('dead-letters')
+@Controller('dead-letters')
+export class DeadLettersController {
+  constructor(
+    private readonly deadLetterService: DeadLetterService,
+    private readonly authService: AuthService,
+  ) {}
+
+  private async getAdminUser(authHeader: string): Promise<User> {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('No token provided');
+    }
+    const user = await this.authService.validateToken(authHeader.substring(7));
+
+    if (user.role !== 'admin') {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return user;
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List jobs that failed after all retries (open by default, admin only)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiQuery({ name: 'status', required: false, enum: ['open', 'replayed', 'discarded'] })
+  @ApiQuery({ name: 'queue', required: false, enum: ['channel-send', 'ai-processing', 'inbound-messages'] })
+  @ApiQuery({ name: 'lead_id', required: false, type: String })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async list(
+    @Headers('authorization') authHeader: string,
+    @Query('status') status?: DeadLetterStatus,
+    @Query('queue') queue?: string,
+    @Query('lead_id') leadId?: string,
+    @Query('limit') limit?: number,
+  ) {
+    await this.getAdminUser(authHeader);
+    return this.deadLetterService.list({
+      status,
+      queue,
+      leadId,
+      limit: limit ? parseInt(String(limit), 10) : undefined,
+    });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Inspect a dead-lettered job (payload, error, attempts)' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async get(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+  ) {
+    await this.getAdminUser(authHeader);
+    return this.deadLetterService.get(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Edit the payload of a dead-lettered job before replaying it' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+    @Body() dto: UpdateDeadLetterDto,
+  ) {
+    await this.getAdminUser(authHeader);
+    return this.deadLetterService.updatePayload(id, dto.payload);
+  }
+
+  @Post(':id/replay')
+  @ApiOperation({ summary: 'Put a dead-lettered job back on its queue' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async replay(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+  ) {
+    const user = await this.getAdminUser(authHeader);
+    return this.deadLetterService.replay(id, user.id);
+  }
+
+  @Post(':id/discard')
+  @ApiOperation({ summary: 'Discard a dead-lettered job' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async discard(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+  ) {
+    const user = await this.getAdminUser(authHeader);
+    return this.deadLetterService.discard(id, user.id);
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { DeadLettersController } from './dead-letters.controller';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [DeadLettersController],
+})
+export class DeadLettersModule {}
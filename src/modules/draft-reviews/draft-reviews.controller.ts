@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Headers,
+  ParseUUIDPipe,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiHeader, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, MinLength } from 'class-validator';
+import { DraftReviewsService } from './draft-reviews.service';
+import { AuthService, User } from '../auth/auth.service';
+import { ReplyDraftStatus } from '../../common/supabase/supabase.service';
+
+// Roles allowed to review AI replies before they reach the lead
+const REVIEWER_ROLES = ['sales_agent', 'doctor', 'admin'];
+
+class ApproveDraftDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  content?: string;
+}
+
+class RejectDraftDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+@ApiTags('draft-reviews')
+@Controller('draft-reviews')
+export class DraftReviewsController {
+  constructor(
+    private readonly draftReviewsService: DraftReviewsService,
+    private readonly authService: AuthService,
+  ) {}
+
+  private async getReviewerUser(authHeader: string): Promise<User> {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('No token provided');
+    }
+    const user = await this.authService.validateToken(authHeader.substring(7));
+
+    if (!REVIEWER_ROLES.includes(user.role)) {
+      throw new ForbiddenException('Only sales agents, doctors and admins can review AI replies');
+    }
+
+    return user;
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List AI reply drafts (pending review by default)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiQuery({ name: 'status', required: false, enum: ['pending', 'approved', 'edited', 'rejected', 'superseded'] })
+  @ApiQuery({ name: 'lead_id', required: false, type: String })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async listDrafts(
+    @Headers('authorization') authHeader: string,
+    @Query('status') status?: ReplyDraftStatus,
+    @Query('lead_id') leadId?: string,
+    @Query('limit') limit?: number,
+  ) {
+    await this.getReviewerUser(authHeader);
+    return this.draftReviewsService.listDrafts({
+      status,
+      leadId,
+      limit: limit ? parseInt(String(limit), 10) : undefined,
+    });
+  }
+
+  @Post(':id/approve')
+  @ApiOperation({ summary: 'Approve a draft (optionally edited) and send it to the lead' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async approve(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+    @Body() dto: ApproveDraftDto,
+  ) {
+    const user = await this.getReviewerUser(authHeader);
+    return this.draftReviewsService.approve(id, user, dto.content);
+  }
+
+  @Post(':id/reject')
+  @ApiOperation({ summary: 'Reject a draft so it is never sent' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async reject(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+    @Body() dto: RejectDraftDto,
+  ) {
+    const user = await this.getReviewerUser(authHeader);
+    return this.draftReviewsService.reject(id, user, dto.reason);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { DraftReviewsController } from './draft-reviews.controller';
+import { DraftReviewsService } from './draft-reviews.service';
+import { AuthModule } from '../auth/auth.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+
+@Module({
+  imports: [AuthModule, forwardRef(() => WebhooksModule)],
+  controllers: [DraftReviewsController],
+  providers: [DraftReviewsService],
+  exports: [DraftReviewsService],
+})
+export class DraftReviewsModule {}
@@ -0,0 +1,293 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  forwardRef,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  SupabaseService,
+  Lead,
+  Message,
+  ReplyDraft,
+  ReplyDraftStatus,
+} from '../../common/supabase/supabase.service';
+import { QueueService } from '../../common/queue/queue.service';
+import { User } from '../auth/auth.service';
+import { WhatsappTemplatesService } from '../webhooks/whatsapp-templates.service';
+import { isAutopilotPaused } from '../../common/utils/autopilot.utils';
+import { calculateTypingDelay, splitMessageIntoParts } from '../../common/utils/reply-parts.utils';
+
+/**
+ * Review mode stored in system_configs under 'draft_review'
+ * Any matching rule sends the AI reply to the review queue instead of the lead.
+ */
+export interface DraftReviewConfig {
+  review_all?: boolean;
+  treatment_categories?: string[];
+  desire_bands?: string[];
+  prompt_versions?: string[];
+}
+
+// Cache the review config loaded from system_configs
+const REVIEW_CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+@Injectable()
+export class DraftReviewsService {
+  private readonly logger = new Logger(DraftReviewsService.name);
+  private cachedConfig: DraftReviewConfig | null = null;
+  private cachedAt = 0;
+
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly queueService: QueueService,
+    @Inject(forwardRef(() => WhatsappTemplatesService))
+    private readonly whatsappTemplates: WhatsappTemplatesService,
+  ) {}
+
+  /**
+   * Get the review mode config (review is off when nothing is configured)
+   */
+  async getConfig(): Promise<DraftReviewConfig> {
+    if (this.cachedConfig && Date.now() - this.cachedAt < REVIEW_CONFIG_CACHE_TTL_MS) {
+      return this.cachedConfig;
+    }
+
+    let config: DraftReviewConfig = {};
+    try {
+      const value = await this.supabase.getConfig('draft_review');
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        config = value as DraftReviewConfig;
+      }
+    } catch (error) {
+      this.logger.warn('Failed to load draft review config from system_configs, review disabled', error);
+    }
+
+    this.cachedConfig = config;
+    this.cachedAt = Date.now();
+    return config;
+  }
+
+  /**
+   * Why an AI reply for this lead must be reviewed before sending (null = send directly)
+   */
+  async getReviewReason(
+    lead: Pick<Lead, 'treatment_category' | 'desire_band'>,
+    promptVersion?: string,
+  ): Promise<string | null> {
+    const config = await this.getConfig();
+
+    if (config.review_all) {
+      return 'review_all';
+    }
+    if (lead.treatment_category && config.treatment_categories?.includes(lead.treatment_category)) {
+      return `treatment_category:${lead.treatment_category}`;
+    }
+    if (lead.desire_band && config.desire_bands?.includes(lead.desire_band)) {
+      return `desire_band:${lead.desire_band}`;
+    }
+    if (promptVersion && config.prompt_versions?.includes(promptVersion)) {
+      return `prompt_version:${promptVersion}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Park an AI reply in the review queue instead of sending it
+   * An older pending draft of the same conversation is superseded - it answers a stale context.
+   */
+  async holdDraft(data: {
+    leadId: string;
+    conversationId: string;
+    triggerMessageId?: string;
+    aiRunId?: string;
+    content: string;
+    reviewReason: string;
+  }): Promise<ReplyDraft> {
+    await this.supabase.supersedePendingReplyDrafts(data.conversationId);
+
+    const draft = await this.supabase.createReplyDraft({
+      lead_id: data.leadId,
+      conversation_id: data.conversationId,
+      trigger_message_id: data.triggerMessageId,
+      ai_run_id: data.aiRunId,
+      draft_content: data.content,
+      review_reason: data.reviewReason,
+    });
+
+    await this.supabase.createNotification({
+      type: 'reply_draft_pending',
+      lead_id: data.leadId,
+      title: 'AI reply waiting for review',
+      body: data.content.slice(0, 200),
+      data: { draft_id: draft.id, review_reason: data.reviewReason },
+    });
+
+    this.logger.log(`📝 AI reply for lead ${data.leadId} held for review (${data.reviewReason})`);
+    return draft;
+  }
+
+  /**
+   * List drafts with their lead (pending ones by default, oldest first)
+   */
+  async listDrafts(options: { status?: ReplyDraftStatus; leadId?: string; limit?: number } = {}) {
+    return this.supabase.getReplyDrafts({
+      status: options.status || 'pending',
+      leadId: options.leadId,
+      limit: options.limit,
+    });
+  }
+
+  /**
+   * Approve a draft (optionally edited) and queue it for delivery
+   * Edits are recorded as AI feedback so the corrected reply feeds the training data.
+   */
+  async approve(draftId: string, user: User, editedContent?: string): Promise<Message> {
+    const draft = await this.getPendingDraft(draftId);
+    const content = editedContent?.trim() || draft.draft_content;
+    const edited = content !== draft.draft_content;
+
+    const lead = await this.supabase.getLeadById(draft.lead_id);
+    if (!lead?.channel_user_id) {
+      throw new BadRequestException('Lead has no channel to reply on');
+    }
+
+    // The lead may have moved on while the draft waited in the queue
+    if (lead.status === 'HANDOFF_HUMAN') {
+      throw new ConflictException('Lead is handed off to a human agent - reply from the conversation instead');
+    }
+    if (isAutopilotPaused(lead)) {
+      throw new ConflictException('Autopilot is paused for this lead - reply from the conversation instead');
+    }
+    if (lead.channel === 'whatsapp' && !(await this.whatsappTemplates.isServiceWindowOpen(lead.id))) {
+      throw new ConflictException('WhatsApp 24h service window is closed - the draft can no longer be sent');
+    }
+
+    const reviewedAt = new Date().toISOString();
+
+    // Claim the draft before anything is sent - a concurrent approve / reject gets a 409
+    await this.claimDraft(draft.id, {
+      status: edited ? 'edited' : 'approved',
+      final_content: content,
+      reviewed_by: user.id,
+      reviewed_at: reviewedAt,
+    });
+
+    // Same split as a normal AI reply (email replies go out as one message)
+    const messageParts = lead.channel === 'email' ? [content] : splitMessageIntoParts(content);
+
+    let message: Message;
+    try {
+      message = await this.supabase.createMessage({
+        conversation_id: draft.conversation_id,
+        lead_id: lead.id,
+        direction: 'out',
+        content: messageParts.join('\n\n'),
+        sender_type: 'ai',
+        ai_run_id: draft.ai_run_id || undefined,
+        metadata: {
+          draft_review: {
+            draft_id: draft.id,
+            edited,
+            reviewed_by: user.id,
+            reviewed_at: reviewedAt,
+            ...(edited ? { original_draft: draft.draft_content } : {}),
+          },
+        },
+      });
+    } catch (error) {
+      // Nothing was sent - put the draft back in the queue
+      await this.supabase.updateReplyDraft(draft.id, {
+        status: 'pending',
+        final_content: null,
+        reviewed_by: null,
+        reviewed_at: null,
+      });
+      throw error;
+    }
+
+    let cumulativeDelay = 0;
+    for (let i = 0; i < messageParts.length; i++) {
+      cumulativeDelay += calculateTypingDelay(messageParts[i], i);
+
+      await this.queueService.addChannelSendJob({
+        channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
+        channelUserId: lead.channel_user_id,
+        content: messageParts[i],
+        delay: cumulativeDelay,
+        metadata: {
+          language: lead.language || 'en',
+          hasMoreParts: i < messageParts.length - 1,
+          messageId: message.id,
+          replyId: message.id,
+          partIndex: i,
+        },
+      });
+    }
+
+    if (messageParts.length > 1) {
+      await this.queueService.trackInFlightReply(
+        lead.id,
+        { replyId: message.id, parts: messageParts },
+        cumulativeDelay,
+      );
+    }
+
+    await this.supabase.updateReplyDraft(draft.id, { sent_message_id: message.id });
+
+    if (edited) {
+      await this.supabase.createAiMessageFeedback({
+        message_id: message.id,
+        user_id: user.id,
+        rating: 'improvable',
+        comment: `Edited during draft review. Original draft: ${draft.draft_content}`,
+        suggested_response: content,
+      });
+    }
+
+    this.logger.log(`✅ Draft ${draft.id} ${edited ? 'edited and approved' : 'approved'} by ${user.email}`);
+    return message;
+  }
+
+  /**
+   * Reject a draft - nothing is sent to the lead
+   */
+  async reject(draftId: string, user: User, reason?: string): Promise<ReplyDraft> {
+    const draft = await this.getPendingDraft(draftId);
+
+    const rejected = await this.claimDraft(draft.id, {
+      status: 'rejected',
+      rejection_reason: reason || null,
+      reviewed_by: user.id,
+      reviewed_at: new Date().toISOString(),
+    });
+
+    this.logger.log(`🚫 Draft ${draft.id} rejected by ${user.email}`);
+    return rejected;
+  }
+
+  private async claimDraft(
+    draftId: string,
+    data: Partial<Omit<ReplyDraft, 'id' | 'created_at'>>,
+  ): Promise<ReplyDraft> {
+    const claimed = await this.supabase.claimPendingReplyDraft(draftId, data);
+    if (!claimed) {
+      throw new ConflictException('Draft was already reviewed by someone else');
+    }
+    return claimed;
+  }
+
+  private async getPendingDraft(draftId: string): Promise<ReplyDraft> {
+    const draft = await this.supabase.getReplyDraftById(draftId);
+    if (!draft) {
+      throw new NotFoundException(`Draft not found: ${draftId}`);
+    }
+    if (draft.status !== 'pending') {
+      throw new BadRequestException(`Draft is already ${draft.status}`);
+    }
+    return draft;
+  }
+}
@@ -12,12 +12,17 @@ import { QueueService } from '../../common/queue/queue.service';
 import { FollowupsService, AiFollowupDecision } from './followups.service';
 import { WhatsappAdapter } from '../webhooks/adapters/whatsapp.adapter';
 import { TelegramAdapter } from '../webhooks/adapters/telegram.adapter';
+import { InstagramAdapter } from '../webhooks/adapters/instagram.adapter';
+import { WebChatAdapter } from '../webhooks/adapters/web-chat.adapter';
+import { EmailAdapter } from '../webhooks/adapters/email.adapter';
+import { WhatsappTemplatesService } from '../webhooks/whatsapp-templates.service';
 import { AiClientService } from '../ai-client/ai-client.service';
 import { 
   getTimezoneFromCountry, 
   getMessagingWindowStatus,
   getCountryCode,
 } from '../../common/utils/timezone.utils';
+import { getActiveAutopilotPause } from '../../common/utils/autopilot.utils';
 
 interface FollowupWithRelations extends Followup {
   leads: (Lead & { lead_profile: LeadProfile | null }) | null;
@@ -35,6 +40,10 @@ export class FollowupsScheduler {
     private readonly followupsService: FollowupsService,
     private readonly whatsappAdapter: WhatsappAdapter,
     private readonly telegramAdapter: TelegramAdapter,
+    private readonly instagramAdapter: InstagramAdapter,
+    private readonly webChatAdapter: WebChatAdapter,
+    private readonly emailAdapter: EmailAdapter,
+    private readonly whatsappTemplates: WhatsappTemplatesService,
     private readonly aiClientService: AiClientService,
   ) {}
 
@@ -78,6 +87,20 @@ export class FollowupsScheduler {
         return;
       }
 
+      // Staff paused the AI for this lead - wait for the pause to expire, or drop if open-ended
+      const autopilotPause = getActiveAutopilotPause(lead);
+      if (autopilotPause) {
+        if (autopilotPause.until) {
+          const waitHours = (new Date(autopilotPause.until).getTime() - Date.now()) / (1000 * 60 * 60);
+          await this.followupsService.rescheduleFollowupWithTimezone(followup.id, lead.id, waitHours);
+          this.logger.log(`⏸️ Follow-up for lead ${lead.id} postponed until autopilot resumes (${autopilotPause.until})`);
+        } else {
+          await this.supabase.updateFollowup(followup.id, { status: 'cancelled' });
+          this.logger.log(`⏸️ Follow-up for lead ${lead.id} cancelled, autopilot is paused`);
+        }
+        return;
+      }
+
       // ════════════════════════════════════════════════════════════════════
       // 🌍 TIMEZONE CHECK: Don't send during sleeping hours
       // ════════════════════════════════════════════════════════════════════
@@ -168,6 +191,7 @@ export class FollowupsScheduler {
     const followupCount = await this.supabase.getUnansweredFollowupCount(lead.id);
     const lastUserResponseAt = await this.supabase.getLastUserResponseAt(conversation.id);
     const hasPhotos = await this.supabase.hasPhotos(lead.id);
+    const lastMessageEngagement = await this.getLastMessageEngagement(lead, conversation);
     
     // Format messages for AI
     const formattedMessages = conversationMessages.map((m) => ({
@@ -192,6 +216,7 @@ export class FollowupsScheduler {
         profile: lead.lead_profile || undefined,
         hasPhotos: hasPhotos,
         timezone: timezone || undefined,
+        lastMessageEngagement: lastMessageEngagement || undefined,
       },
       lastUserResponseAt: lastUserResponseAt || undefined,
       followupCount: followupCount,
@@ -213,6 +238,7 @@ export class FollowupsScheduler {
       `strategy=${decision.followupStrategy}, ` +
       `shouldFollowup=${decision.shouldFollowup}, ` +
       `confidence=${decision.confidence}, ` +
+      `engagement=${lastMessageEngagement || 'unknown'}, ` +
       `reasoning="${decision.reasoning}"`
     );
 
@@ -256,12 +282,41 @@ export class FollowupsScheduler {
     }
   }
 
+  /**
+   * Classify the silence after our last message using delivery / read receipts
+   * A lead who read and ignored us is treated differently from one who never received it
+   */
+  private async getLastMessageEngagement(
+    lead: Lead,
+    conversation: Conversation,
+  ): Promise<'read_unanswered' | 'delivered_unanswered' | 'undelivered' | null> {
+    const status = await this.supabase.getLastOutboundDeliveryStatus(conversation.id);
+
+    switch (status) {
+      case 'read':
+        return 'read_unanswered';
+      case 'delivered':
+        return 'delivered_unanswered';
+      case 'failed':
+        return 'undelivered';
+      case 'sent':
+        // Only WhatsApp reports delivery, elsewhere 'sent' is as far as we can see
+        return lead.channel === 'whatsapp' ? 'undelivered' : null;
+      default:
+        return null;
+    }
+  }
+
   private async handleGiveUp(
     followup: FollowupWithRelations,
     lead: Lead,
     reasoning: string,
   ): Promise<void> {
-    await this.supabase.updateLead(lead.id, { status: 'DORMANT' });
+    await this.supabase.updateLeadStatus(lead.id, 'DORMANT', {
+      event: 'MAX_FOLLOWUPS_REACHED',
+      actor: 'ai',
+      reason: reasoning,
+    });
     await this.supabase.updateFollowup(followup.id, { status: 'cancelled' });
     await this.supabase.cancelPendingFollowups(lead.id);
     this.logger.log(`AI decided to give up on lead ${lead.id}: ${reasoning}`);
@@ -273,7 +328,11 @@ export class FollowupsScheduler {
     conversation: Conversation,
     escalationReason: string | null,
   ): Promise<void> {
-    await this.supabase.updateLead(lead.id, { status: 'HANDOFF_HUMAN' });
+    await this.supabase.updateLeadStatus(lead.id, 'HANDOFF_HUMAN', {
+      event: 'HANDOFF_REQUESTED',
+      actor: 'ai',
+      reason: escalationReason || 'Follow-up escalation',
+    });
     await this.supabase.updateFollowup(followup.id, { status: 'cancelled' });
     
     // Create handoff record
@@ -283,6 +342,7 @@ export class FollowupsScheduler {
       reason: 'ai_followup_escalation',
       reason_details: escalationReason || 'AI determined human attention is needed',
       triggered_by: 'ai',
+      previous_status: lead.status,
     });
     
     this.logger.log(`AI escalated lead ${lead.id} to human: ${escalationReason}`);
@@ -298,10 +358,24 @@ export class FollowupsScheduler {
 
   private async sendFollowupMessage(
     followup: FollowupWithRelations,
-    lead: Lead,
+    lead: Lead & { lead_profile: LeadProfile | null },
     conversation: Conversation,
     message: string,
   ): Promise<void> {
+    // Outside WhatsApp's 24h service window only approved templates can be delivered
+    if (await this.isWhatsappWindowClosed(lead)) {
+      const templateMessage = await this.sendWhatsappTemplateFollowup(followup, lead, conversation);
+      if (!templateMessage) return;
+
+      await this.followupsService.markAsSent(followup.id, templateMessage.id);
+      await this.supabase.updateLeadStatus(lead.id, 'WAITING_FOR_USER', {
+        event: 'FOLLOWUP_SENT',
+        actor: 'system',
+        reason: 'WhatsApp template follow-up sent',
+      });
+      return;
+    }
+
     // Split message into parts for human-like conversation
     const messageParts = this.splitMessageIntoParts(message);
     const fullMessageContent = messageParts.join('\n\n');
@@ -327,18 +401,46 @@ export class FollowupsScheduler {
           await this.delay(MESSAGE_DELAY_MS);
         }
         
+        let channelMessageId: string | undefined;
+
         if (lead.channel === 'whatsapp' && lead.channel_user_id) {
-          await this.whatsappAdapter.sendMessage({
+          channelMessageId = await this.whatsappAdapter.sendMessage({
             channel: 'whatsapp',
             channelUserId: lead.channel_user_id,
             content: part,
           });
         } else if (lead.channel === 'telegram' && lead.channel_user_id) {
-          await this.telegramAdapter.sendMessage({
+          channelMessageId = await this.telegramAdapter.sendMessage({
             channel: 'telegram',
             channelUserId: lead.channel_user_id,
             content: part,
           });
+        } else if (lead.channel === 'instagram' && lead.channel_user_id) {
+          channelMessageId = await this.instagramAdapter.sendMessage({
+            channel: 'instagram',
+            channelUserId: lead.channel_user_id,
+            content: part,
+          });
+        } else if (lead.channel === 'web' && lead.channel_user_id) {
+          channelMessageId = await this.webChatAdapter.sendMessage({
+            channel: 'web',
+            channelUserId: lead.channel_user_id,
+            content: part,
+          });
+        } else if (lead.channel === 'email' && lead.channel_user_id) {
+          channelMessageId = await this.emailAdapter.sendMessage({
+            channel: 'email',
+            channelUserId: lead.channel_user_id,
+            content: part,
+          });
+        }
+
+        if (channelMessageId && lead.channel_user_id) {
+          await this.supabase.recordOutboundDelivery(savedMessage.id, {
+            channel: lead.channel,
+            channelUserId: lead.channel_user_id,
+            channelMessageId,
+          });
         }
       }
     } catch (error) {
@@ -349,11 +451,66 @@ export class FollowupsScheduler {
 
     // Mark followup as sent
     await this.followupsService.markAsSent(followup.id, savedMessage.id);
-    await this.supabase.updateLead(lead.id, { status: 'WAITING_FOR_USER' });
+    await this.supabase.updateLeadStatus(lead.id, 'WAITING_FOR_USER', { event: 'FOLLOWUP_SENT', actor: 'ai' });
     
     this.logger.log(`AI follow-up sent to lead ${lead.id}: ${messageParts.length} part(s)`);
   }
 
+  /**
+   * Check if a WhatsApp lead's 24h customer-service window has closed
+   */
+  private async isWhatsappWindowClosed(lead: Lead): Promise<boolean> {
+    if (lead.channel !== 'whatsapp' || !lead.channel_user_id) return false;
+    return !(await this.whatsappTemplates.isServiceWindowOpen(lead.id));
+  }
+
+  /**
+   * Send the followup as an approved WhatsApp template and store the rendered body
+   * Returns null (and closes the followup) when it could not be sent
+   */
+  private async sendWhatsappTemplateFollowup(
+    followup: FollowupWithRelations,
+    lead: Lead & { lead_profile: LeadProfile | null },
+    conversation: Conversation,
+  ): Promise<Message | null> {
+    let result: Awaited<ReturnType<WhatsappTemplatesService['sendForLead']>>;
+
+    try {
+      result = await this.whatsappTemplates.sendForLead(lead, 'followup', followup.id);
+    } catch (error) {
+      this.logger.error(`Failed to send WhatsApp template followup for lead ${lead.id}:`, error);
+      await this.supabase.updateFollowup(followup.id, { status: 'failed' });
+      return null;
+    }
+
+    if (!result) {
+      this.logger.warn(`No WhatsApp followup template available, cancelling followup ${followup.id}`);
+      await this.supabase.updateFollowup(followup.id, { status: 'cancelled' });
+      return null;
+    }
+
+    this.logger.log(`📨 Lead ${lead.id} is outside the 24h window, sent template ${result.template.name}`);
+
+    const savedMessage = await this.supabase.createMessage({
+      conversation_id: conversation.id,
+      lead_id: lead.id,
+      direction: 'out',
+      content: result.renderedBody,
+      sender_type: 'ai',
+      metadata: { whatsapp_template: result.template.name },
+    });
+
+    if (result.messageId && lead.channel_user_id) {
+      await this.supabase.recordOutboundDelivery(savedMessage.id, {
+        channel: 'whatsapp',
+        channelUserId: lead.channel_user_id,
+        channelMessageId: result.messageId,
+      });
+    }
+
+    return savedMessage;
+  }
+
   /**
    * Split a message into multiple parts for human-like conversation.
    * Messages are split by the "|||" delimiter.
@@ -386,56 +543,93 @@ export class FollowupsScheduler {
     lead: Lead & { lead_profile: LeadProfile | null },
     conversation: Conversation,
   ): Promise<void> {
-    // Get conversation messages for AI context
-    const conversationMessages = await this.supabase.getConversationMessages(conversation.id, 10);
-      
-    // Generate AI-powered follow-up message
-    let message: string;
-    
-    try {
-      message = await this.generateAiFollowupMessage(
-        lead,
-        conversationMessages,
-        followup.attempt_number,
-      );
-      this.logger.log(`AI generated followup message for lead ${lead.id}`);
-    } catch (aiError) {
-      // Fallback to template message if AI fails
-      this.logger.warn(`AI followup generation failed, using template: ${aiError}`);
-      message = this.followupsService.getFollowupMessage(
-        lead.language || 'en',
-        followup.attempt_number,
-      );
-    }
+    let savedMessage: Message;
 
-    // Save the message to database
-    const savedMessage: Message = await this.supabase.createMessage({
-      conversation_id: conversation.id,
-      lead_id: lead.id,
-      direction: 'out',
-      content: message,
-      sender_type: 'ai',
-    });
+    if (await this.isWhatsappWindowClosed(lead)) {
+      // Outside WhatsApp's 24h service window only approved templates can be delivered
+      const templateMessage = await this.sendWhatsappTemplateFollowup(followup, lead, conversation);
+      if (!templateMessage) return;
+      savedMessage = templateMessage;
+    } else {
+      // Get conversation messages for AI context
+      const conversationMessages = await this.supabase.getConversationMessages(conversation.id, 10);
 
-    // Send via appropriate channel
-    try {
-      if (lead.channel === 'whatsapp' && lead.channel_user_id) {
-        await this.whatsappAdapter.sendMessage({
-          channel: 'whatsapp',
-          channelUserId: lead.channel_user_id,
-          content: message,
-        });
-      } else if (lead.channel === 'telegram' && lead.channel_user_id) {
-        await this.telegramAdapter.sendMessage({
-          channel: 'telegram',
-          channelUserId: lead.channel_user_id,
-          content: message,
-        });
+      // Generate AI-powered follow-up message
+      let message: string;
+
+      try {
+        message = await this.generateAiFollowupMessage(
+          lead,
+          conversationMessages,
+          followup.attempt_number,
+        );
+        this.logger.log(`AI generated followup message for lead ${lead.id}`);
+      } catch (aiError) {
+        // Fallback to template message if AI fails
+        this.logger.warn(`AI followup generation failed, using template: ${aiError}`);
+        message = this.followupsService.getFollowupMessage(
+          lead.language || 'en',
+          followup.attempt_number,
+        );
+      }
+
+      // Save the message to database
+      savedMessage = await this.supabase.createMessage({
+        conversation_id: conversation.id,
+        lead_id: lead.id,
+        direction: 'out',
+        content: message,
+        sender_type: 'ai',
+      });
+
+      // Send via appropriate channel
+      try {
+        let channelMessageId: string | undefined;
+
+        if (lead.channel === 'whatsapp' && lead.channel_user_id) {
+          channelMessageId = await this.whatsappAdapter.sendMessage({
+            channel: 'whatsapp',
+            channelUserId: lead.channel_user_id,
+            content: message,
+          });
+        } else if (lead.channel === 'telegram' && lead.channel_user_id) {
+          channelMessageId = await this.telegramAdapter.sendMessage({
+            channel: 'telegram',
+            channelUserId: lead.channel_user_id,
+            content: message,
+          });
+        } else if (lead.channel === 'instagram' && lead.channel_user_id) {
+          channelMessageId = await this.instagramAdapter.sendMessage({
+            channel: 'instagram',
+            channelUserId: lead.channel_user_id,
+            content: message,
+          });
+        } else if (lead.channel === 'web' && lead.channel_user_id) {
+          channelMessageId = await this.webChatAdapter.sendMessage({
+            channel: 'web',
+            channelUserId: lead.channel_user_id,
+            content: message,
+          });
+        } else if (lead.channel === 'email' && lead.channel_user_id) {
+          channelMessageId = await this.emailAdapter.sendMessage({
+            channel: 'email',
+            channelUserId: lead.channel_user_id,
+            content: message,
+          });
+        }
+
+        if (channelMessageId && lead.channel_user_id) {
+          await this.supabase.recordOutboundDelivery(savedMessage.id, {
+            channel: lead.channel,
+            channelUserId: lead.channel_user_id,
+            channelMessageId,
+          });
+        }
+      } catch (error) {
+        this.logger.error(`Failed to send followup via ${lead.channel}:`, error);
+        await this.supabase.updateFollowup(followup.id, { status: 'failed' });
+        return;
       }
-    } catch (error) {
-      this.logger.error(`Failed to send followup via ${lead.channel}:`, error);
-      await this.supabase.updateFollowup(followup.id, { status: 'failed' });
-      return;
     }
 
     // Mark followup as sent
@@ -444,10 +638,14 @@ export class FollowupsScheduler {
     // Update lead status and schedule next followup if needed
     const settings = await this.followupsService.getSettings();
     if (followup.attempt_number >= settings.max_attempts) {
-      await this.supabase.updateLead(lead.id, { status: 'DORMANT' });
+      await this.supabase.updateLeadStatus(lead.id, 'DORMANT', {
+        event: 'MAX_FOLLOWUPS_REACHED',
+        actor: 'system',
+        reason: `No response after ${followup.attempt_number} follow-ups`,
+      });
       this.logger.log(`Lead ${lead.id} moved to DORMANT after max followups`);
     } else {
-      await this.supabase.updateLead(lead.id, { status: 'WAITING_FOR_USER' });
+      await this.supabase.updateLeadStatus(lead.id, 'WAITING_FOR_USER', { event: 'FOLLOWUP_SENT', actor: 'system' });
       
       // Schedule next followup attempt
       const nextAttempt = followup.attempt_number + 1;
@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Headers,
+  ParseUUIDPipe,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiHeader, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsUUID, MinLength } from 'class-validator';
+import { HandoffsService } from './handoffs.service';
+import { AuthService, User } from '../auth/auth.service';
+
+// Roles allowed to take over conversations from the AI
+const AGENT_ROLES = ['sales_agent', 'admin'];
+
+class AssignHandoffDto {
+  @IsOptional()
+  @IsUUID()
+  assignee_id?: string;
+}
+
+class AgentMessageDto {
+  @IsString()
+  @MinLength(1)
+  content: string;
+}
+
+class ResolveHandoffDto {
+  @IsString()
+  @MinLength(1)
+  resolution_notes: string;
+}
+
+@ApiTags('handoffs')
+@Controller('handoffs')
+export class HandoffsController {
+  constructor(
+    private readonly handoffsService: HandoffsService,
+    private readonly authService: AuthService,
+  ) {}
+
+  private async getAgentUser(authHeader: string): Promise<User> {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('No token provided');
+    }
+    const user = await this.authService.validateToken(authHeader.substring(7));
+
+    if (!AGENT_ROLES.includes(user.role)) {
+      throw new ForbiddenException('Only sales agents and admins can handle handoffs');
+    }
+
+    return user;
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List handoffs (open by default)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiQuery({ name: 'status', required: false, enum: ['open', 'resolved'] })
+  @ApiQuery({ name: 'mine', required: false, type: Boolean })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async listHandoffs(
+    @Headers('authorization') authHeader: string,
+    @Query('status') status?: string,
+    @Query('mine') mine?: string,
+    @Query('limit') limit?: number,
+  ) {
+    const user = await this.getAgentUser(authHeader);
+    return this.handoffsService.listHandoffs({
+      open: status !== 'resolved',
+      assignedTo: mine === 'true' ? user.id : undefined,
+      limit: limit ? parseInt(String(limit), 10) : undefined,
+    });
+  }
+
+  @Post(':id/assign')
+  @ApiOperation({ summary: 'Claim a handoff (or assign it to another agent)' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async assign(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+    @Body() dto: AssignHandoffDto,
+  ) {
+    const user = await this.getAgentUser(authHeader);
+    return this.handoffsService.assign(id, user, dto.assignee_id);
+  }
+
+  @Post(':id/messages')
+  @ApiOperation({ summary: 'Send a message to the lead as the human agent' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async sendMessage(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+    @Body() dto: AgentMessageDto,
+  ) {
+    const user = await this.getAgentUser(authHeader);
+    return this.handoffsService.sendAgentMessage(id, user, dto.content);
+  }
+
+  @Post(':id/resolve')
+  @ApiOperation({ summary: 'Resolve a handoff and return the lead to the AI' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async resolve(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+    @Body() dto: ResolveHandoffDto,
+  ) {
+    const user = await this.getAgentUser(authHeader);
+    return this.handoffsService.resolve(id, user, dto.resolution_notes);
+  }
+}
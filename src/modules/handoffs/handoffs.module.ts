@@ -0,0 +1,13 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { HandoffsController } from './handoffs.controller';
+import { HandoffsService } from './handoffs.service';
+import { AuthModule } from '../auth/auth.module';
+import { OrchestratorModule } from '../orchestrator/orchestrator.module';
+
+@Module({
+  imports: [AuthModule, forwardRef(() => OrchestratorModule)],
+  controllers: [HandoffsController],
+  providers: [HandoffsService],
+  exports: [HandoffsService],
+})
+export class HandoffsModule {}
@@ -0,0 +1,157 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { SupabaseService, Handoff, Message } from '../../common/supabase/supabase.service';
+import { QueueService } from '../../common/queue/queue.service';
+import { StateMachineService, LeadStatus } from '../orchestrator/state-machine.service';
+import { User } from '../auth/auth.service';
+
+@Injectable()
+export class HandoffsService {
+  private readonly logger = new Logger(HandoffsService.name);
+
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly queueService: QueueService,
+    private readonly stateMachine: StateMachineService,
+  ) {}
+
+  /**
+   * List handoffs with their lead (open ones by default, oldest first)
+   */
+  async listHandoffs(options: { open?: boolean; assignedTo?: string; limit?: number } = {}) {
+    return this.supabase.getHandoffs({
+      open: options.open ?? true,
+      assignedTo: options.assignedTo,
+      limit: options.limit,
+    });
+  }
+
+  /**
+   * Assign a handoff to an agent (defaults to the requesting user)
+   */
+  async assign(handoffId: string, user: User, assigneeId?: string): Promise<Handoff> {
+    const handoff = await this.getOpenHandoff(handoffId);
+    const assignTo = assigneeId || user.id;
+
+    // Taking over a colleague's conversation is reserved for admins
+    if (handoff.assigned_to && handoff.assigned_to !== assignTo && user.role !== 'admin') {
+      throw new ForbiddenException('Handoff is already assigned to another agent');
+    }
+
+    const updated = await this.supabase.updateHandoff(handoff.id, {
+      assigned_to: assignTo,
+      status: 'assigned',
+    });
+
+    this.logger.log(`🙋 Handoff ${handoff.id} assigned to ${assignTo} by ${user.email}`);
+    return updated;
+  }
+
+  /**
+   * Send a message to the lead as the human agent (claims the handoff if nobody owns it yet)
+   */
+  async sendAgentMessage(handoffId: string, user: User, content: string): Promise<Message> {
+    let handoff = await this.getOpenHandoff(handoffId);
+
+    if (!handoff.assigned_to) {
+      handoff = await this.assign(handoff.id, user);
+    } else if (handoff.assigned_to !== user.id && user.role !== 'admin') {
+      throw new ForbiddenException('Only the assigned agent can reply to this lead');
+    }
+
+    const lead = await this.supabase.getLeadById(handoff.lead_id);
+    if (!lead?.channel_user_id) {
+      throw new BadRequestException('Lead has no channel to reply on');
+    }
+
+    const conversation = handoff.conversation_id
+      ? { id: handoff.conversation_id }
+      : await this.supabase.getActiveConversation(lead.id);
+    if (!conversation) {
+      throw new BadRequestException('Lead has no active conversation');
+    }
+
+    const message = await this.supabase.createMessage({
+      conversation_id: conversation.id,
+      lead_id: lead.id,
+      direction: 'out',
+      content,
+      sender_type: 'agent',
+      metadata: {
+        agent_id: user.id,
+        agent_name: user.name,
+        handoff_id: handoff.id,
+      },
+    });
+
+    await this.queueService.addChannelSendJob({
+      channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
+      channelUserId: lead.channel_user_id,
+      content,
+      metadata: {
+        language: lead.language || 'en',
+        messageId: message.id,
+      },
+    });
+
+    this.logger.log(`👤 Agent ${user.email} replied to lead ${lead.id} (handoff ${handoff.id})`);
+    return message;
+  }
+
+  /**
+   * Resolve a handoff and give the lead back to the AI at the status it had before
+   */
+  async resolve(handoffId: string, user: User, resolutionNotes: string): Promise<Handoff> {
+    const handoff = await this.getOpenHandoff(handoffId);
+
+    if (handoff.assigned_to && handoff.assigned_to !== user.id && user.role !== 'admin') {
+      throw new ForbiddenException('Only the assigned agent can resolve this handoff');
+    }
+
+    const resolved = await this.supabase.updateHandoff(handoff.id, {
+      status: 'resolved',
+      resolution_notes: resolutionNotes,
+      resolved_at: new Date().toISOString(),
+      assigned_to: handoff.assigned_to || user.id,
+    });
+
+    const lead = await this.supabase.getLeadById(handoff.lead_id);
+
+    // The lead may have been moved on manually (e.g. converted) while the agent was talking
+    if (lead?.status === 'HANDOFF_HUMAN') {
+      const previousStatus = (handoff.metadata as Record<string, unknown> | null)?.previous_status as LeadStatus | undefined;
+      const result = this.stateMachine.transition('HANDOFF_HUMAN', 'HANDOFF_RESOLVED', {
+        lead: { status: 'HANDOFF_HUMAN' },
+        handoff: { previousStatus },
+      });
+
+      if (result.success && result.newState) {
+        await this.supabase.updateLeadStatus(lead.id, result.newState, {
+          event: 'HANDOFF_RESOLVED',
+          actor: 'user',
+          actor_id: user.id,
+          reason: resolutionNotes,
+        });
+        this.logger.log(`🤖 Lead ${lead.id} returned to ${result.newState} after handoff ${handoff.id}`);
+      }
+    }
+
+    return resolved;
+  }
+
+  private async getOpenHandoff(handoffId: string): Promise<Handoff> {
+    const handoff = await this.supabase.getHandoffById(handoffId);
+    if (!handoff) {
+      throw new NotFoundException(`Handoff not found: ${handoffId}`);
+    }
+    if (handoff.resolved_at) {
+      throw new BadRequestException('Handoff is already resolved');
+    }
+    return handoff;
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Headers,
+  Logger,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiHeader, ApiQuery, ApiBody } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { IdentityService } from './identity.service';
+import { AuthService, User } from '../auth/auth.service';
+
+class MergeLeadsDto {
+  @IsUUID()
+  primary_lead_id: string;
+
+  @IsUUID()
+  secondary_lead_id: string;
+}
+
+@ApiTags('identity')
+@Controller('identity')
+export class IdentityController {
+  private readonly logger = new Logger(IdentityController.name);
+
+  constructor(
+    private readonly identityService: IdentityService,
+    private readonly authService: AuthService,
+  ) {}
+
+  private async getAdminUser(authHeader: string): Promise<User> {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('No token provided');
+    }
+    const user = await this.authService.validateToken(authHeader.substring(7));
+
+    if (user.role !== 'admin') {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return user;
+  }
+
+  @Get('merge-candidates')
+  @ApiOperation({ summary: 'List leads that look like the same person across channels (admin only)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getMergeCandidates(
+    @Headers('authorization') authHeader: string,
+    @Query('limit') limit?: number,
+  ) {
+    await this.getAdminUser(authHeader);
+    return this.identityService.getMergeCandidates(limit ? parseInt(String(limit), 10) : 100);
+  }
+
+  @Post('merge')
+  @ApiOperation({ summary: 'Merge a duplicate lead into another lead (admin only)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        primary_lead_id: { type: 'string', description: 'Lead that is kept' },
+        secondary_lead_id: { type: 'string', description: 'Duplicate lead merged into the primary' },
+      },
+      required: ['primary_lead_id', 'secondary_lead_id'],
+    },
+  })
+  async mergeLeads(
+    @Headers('authorization') authHeader: string,
+    @Body() dto: MergeLeadsDto,
+  ) {
+    const admin = await this.getAdminUser(authHeader);
+    this.logger.log(`Admin ${admin.email} merging lead ${dto.secondary_lead_id} into ${dto.primary_lead_id}`);
+    return this.identityService.mergeLeads(dto.primary_lead_id, dto.secondary_lead_id, admin);
+  }
+}
@@ -0,0 +1,300 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService, Lead, LeadProfile } from '../../common/supabase/supabase.service';
+import { User } from '../auth/auth.service';
+
+export type IdentityMatchType = 'phone' | 'email' | 'form_lead_id';
+
+export interface MergeCandidateLead {
+  id: string;
+  channel: string;
+  channel_user_id: string | null;
+  status: string;
+  name: string | null;
+  created_at: string | null;
+}
+
+export interface MergeCandidate {
+  primary: MergeCandidateLead; // Suggested survivor (the oldest lead)
+  secondary: MergeCandidateLead;
+  matched_on: IdentityMatchType[];
+}
+
+export interface MergeResult {
+  primary_lead_id: string;
+  secondary_lead_id: string;
+  moved: Record<string, number>;
+  profile_fields_filled: string[];
+}
+
+// Tables whose rows follow the lead when it is merged (profile is merged field by field)
+const MERGED_TABLES = [
+  'conversations',
+  'messages',
+  'photo_assets',
+  'medical_documents',
+  'followups',
+  'doctor_comments',
+  'handoffs',
+  'lead_status_history',
+  'ai_reply_drafts',
+  'dead_letter_jobs',
+] as const;
+
+// Phones are compared on their last digits so '+90 555 ...', '0555 ...' and WhatsApp ids match
+const PHONE_MATCH_DIGITS = 10;
+const MIN_PHONE_DIGITS = 8;
+
+const LEAD_FILL_FIELDS = ['country', 'timezone', 'language', 'treatment_category'] as const;
+
+@Injectable()
+export class IdentityService {
+  private readonly logger = new Logger(IdentityService.name);
+
+  constructor(private readonly supabase: SupabaseService) {}
+
+  /**
+   * Find leads that look like the same person (same phone / email / form submission)
+   */
+  async getMergeCandidates(limit = 100): Promise<MergeCandidate[]> {
+    const [leads, formSubmissions] = await Promise.all([
+      this.supabase.getLeadIdentities(),
+      this.supabase.getFormSubmissionIdentities(),
+    ]);
+
+    const leadsById = new Map(leads.map((lead) => [lead.id, lead]));
+    const index = new Map<string, { type: IdentityMatchType; leadIds: Set<string> }>();
+
+    const addKey = (key: string | null, type: IdentityMatchType, leadId: string) => {
+      if (!key || !leadsById.has(leadId)) return;
+      const entry = index.get(key) || { type, leadIds: new Set<string>() };
+      entry.leadIds.add(leadId);
+      index.set(key, entry);
+    };
+
+    for (const lead of leads) {
+      const isPhoneChannel = lead.channel === 'whatsapp';
+      addKey(this.phoneKey(lead.lead_profile?.phone), 'phone', lead.id);
+      addKey(this.phoneKey(isPhoneChannel ? lead.channel_user_id : null), 'phone', lead.id);
+      addKey(this.emailKey(lead.lead_profile?.email), 'email', lead.id);
+      addKey(this.emailKey(lead.channel === 'email' ? lead.channel_user_id : null), 'email', lead.id);
+    }
+
+    // The form link carries lead_id, so its phone / email ties that lead to the others
+    const formKeys: Array<{ key: string | null; leadId: string }> = [];
+    for (const submission of formSubmissions) {
+      const data = submission.submission_data || {};
+      formKeys.push(
+        { key: this.phoneKey(data.phone || data.personal_info?.phone), leadId: submission.lead_id },
+        { key: this.emailKey(data.email || data.personal_info?.email), leadId: submission.lead_id },
+      );
+    }
+
+    const candidates = new Map<string, MergeCandidate>();
+
+    const addPairs = (leadIds: string[], matchType: IdentityMatchType) => {
+      for (let i = 0; i < leadIds.length; i++) {
+        for (let j = i + 1; j < leadIds.length; j++) {
+          const [primary, secondary] = [leadsById.get(leadIds[i])!, leadsById.get(leadIds[j])!]
+            .sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+          const pairKey = `${primary.id}|${secondary.id}`;
+
+          const candidate = candidates.get(pairKey) || {
+            primary: this.toCandidateLead(primary),
+            secondary: this.toCandidateLead(secondary),
+            matched_on: [],
+          };
+          if (!candidate.matched_on.includes(matchType)) {
+            candidate.matched_on.push(matchType);
+          }
+          candidates.set(pairKey, candidate);
+        }
+      }
+    };
+
+    for (const { type, leadIds } of index.values()) {
+      if (leadIds.size > 1) addPairs([...leadIds], type);
+    }
+
+    for (const { key, leadId } of formKeys) {
+      const matches = key ? index.get(key) : undefined;
+      if (!matches) continue;
+      const others = [...matches.leadIds].filter((id) => id !== leadId);
+      for (const otherId of others) {
+        addPairs([leadId, otherId], 'form_lead_id');
+      }
+    }
+
+    return [...candidates.values()]
+      .sort((a, b) => b.matched_on.length - a.matched_on.length)
+      .slice(0, limit);
+  }
+
+  /**
+   * Merge the secondary lead into the primary one
+   * History, photos, documents, followups and comments move to the primary lead,
+   * empty profile fields are filled from the secondary profile, and the secondary lead
+   * stays behind as a redirect so its channel identity keeps resolving to the primary.
+   */
+  async mergeLeads(primaryLeadId: string, secondaryLeadId: string, actor: User): Promise<MergeResult> {
+    if (primaryLeadId === secondaryLeadId) {
+      throw new BadRequestException('Cannot merge a lead into itself');
+    }
+
+    const [primary, secondary] = await Promise.all([
+      this.getLeadOrThrow(primaryLeadId),
+      this.getLeadOrThrow(secondaryLeadId),
+    ]);
+
+    if (this.getMergedInto(primary) || this.getMergedInto(secondary)) {
+      throw new BadRequestException('One of the leads has already been merged');
+    }
+
+    this.logger.log(`🔗 Merging lead ${secondary.id} (${secondary.channel}) into ${primary.id} (${primary.channel})`);
+
+    const profileUpdates = this.getProfileFills(primary, secondary);
+
+    // Fill lead-level gaps and keep the union of tags
+    const leadUpdates: Record<string, unknown> = {};
+    for (const field of LEAD_FILL_FIELDS) {
+      if (!primary[field] && secondary[field]) {
+        leadUpdates[field] = secondary[field];
+      }
+    }
+    const tags = [...new Set([...(this.getTags(primary)), ...(this.getTags(secondary))])];
+    if (tags.length > this.getTags(primary).length) {
+      leadUpdates.tags = tags;
+    }
+
+    const mergedAt = new Date().toISOString();
+
+    // All writes run in one transaction, so a failed merge leaves both leads untouched
+    let moved: Record<string, number>;
+    try {
+      moved = await this.supabase.mergeLeads({
+        primaryLeadId: primary.id,
+        secondaryLeadId: secondary.id,
+        tables: MERGED_TABLES,
+        leadUpdates,
+        profileUpdates,
+        mergedLead: {
+          lead_id: secondary.id,
+          channel: secondary.channel,
+          channel_user_id: secondary.channel_user_id,
+          merged_at: mergedAt,
+        },
+        secondaryMetadata: {
+          merged_into: primary.id,
+          merged_at: mergedAt,
+          merged_by: actor.id,
+        },
+        audit: {
+          user_id: actor.id,
+          user_role: actor.role,
+          old_value: {
+            secondary_lead: {
+              id: secondary.id,
+              channel: secondary.channel,
+              channel_user_id: secondary.channel_user_id,
+              status: secondary.status,
+              created_at: secondary.created_at,
+            },
+            secondary_profile: (secondary.lead_profile || null) as Record<string, unknown> | null,
+          },
+          new_value: {
+            profile_fields_filled: Object.keys(profileUpdates),
+            lead_fields_filled: Object.keys(leadUpdates),
+          },
+        },
+      });
+    } catch (error) {
+      // Raised by merge_leads when another merge got there first
+      if ((error as { code?: string })?.code === 'P0001') {
+        throw new BadRequestException('One of the leads has already been merged');
+      }
+      throw error;
+    }
+
+    this.logger.log(`✅ Lead ${secondary.id} merged into ${primary.id}: ${JSON.stringify(moved)}`);
+
+    return {
+      primary_lead_id: primary.id,
+      secondary_lead_id: secondary.id,
+      moved,
+      profile_fields_filled: Object.keys(profileUpdates),
+    };
+  }
+
+  /**
+   * Secondary profile values for fields the primary profile doesn't have yet
+   */
+  private getProfileFills(
+    primary: Lead & { lead_profile: LeadProfile | null },
+    secondary: Lead & { lead_profile: LeadProfile | null },
+  ): Record<string, unknown> {
+    if (!secondary.lead_profile) return {};
+
+    const primaryProfile = (primary.lead_profile || {}) as Record<string, unknown>;
+    const updates: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries(secondary.lead_profile)) {
+      if (['lead_id', 'created_at', 'updated_at'].includes(field)) continue;
+      if (value === null || value === undefined || value === '') continue;
+      if (primaryProfile[field] !== null && primaryProfile[field] !== undefined && primaryProfile[field] !== '') continue;
+      updates[field] = value;
+    }
+
+    return updates;
+  }
+
+  private async getLeadOrThrow(leadId: string): Promise<Lead & { lead_profile: LeadProfile | null }> {
+    try {
+      return await this.supabase.getLeadById(leadId);
+    } catch {
+      throw new NotFoundException(`Lead not found: ${leadId}`);
+    }
+  }
+
+  private getMergedInto(lead: Lead): string | null {
+    const mergedInto = (lead.metadata as Record<string, unknown> | null)?.merged_into;
+    return typeof mergedInto === 'string' ? mergedInto : null;
+  }
+
+  private getTags(lead: Lead): string[] {
+    const tags = (lead as Lead & { tags?: string[] | null }).tags;
+    return Array.isArray(tags) ? tags : [];
+  }
+
+  private toCandidateLead(lead: {
+    id: string;
+    channel: string;
+    channel_user_id: string | null;
+    status: string;
+    created_at: string | null;
+    lead_profile: { name: string | null } | null;
+  }): MergeCandidateLead {
+    return {
+      id: lead.id,
+      channel: lead.channel,
+      channel_user_id: lead.channel_user_id,
+      status: lead.status,
+      name: lead.lead_profile?.name || null,
+      created_at: lead.created_at,
+    };
+  }
+
+  private phoneKey(phone: string | null | undefined): string | null {
+    const digits = (phone || '').replace(/[^\d]/g, '');
+    if (digits.length < MIN_PHONE_DIGITS) return null;
+    return `phone:${digits.slice(-PHONE_MATCH_DIGITS)}`;
+  }
+
+  private emailKey(email: string | null | undefined): string | null {
+    const normalized = (email || '').trim().toLowerCase();
+    return normalized.includes('@') ? `email:${normalized}` : null;
+  }
+}
@@ -14,12 +14,13 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiQuery, ApiParam, ApiHeader, ApiBody } from '@nestjs/swagger';
-import { LeadsService, DoctorApprovalDto, SalesPriceDto } from './leads.service';
-import { AuthService } from '../auth/auth.service';
+import { LeadsService, DoctorApprovalDto, SalesPriceDto, AutopilotPauseDto } from './leads.service';
+import { AuthService, User } from '../auth/auth.service';
 
 // Roles allowed to approve leads
 const DOCTOR_ROLES = ['doctor', 'admin'];
 const SALES_ROLES = ['sales_agent', 'admin'];
+const AUTOPILOT_ROLES = ['sales_agent', 'doctor', 'admin'];
 
 // Custom UUID pipe that handles "null" string gracefully
 const OptionalUUIDPipe = new ParseUUIDPipe({
@@ -102,6 +103,13 @@ export class LeadsController {
     return this.leadsService.getLeadPhotos(id);
   }
 
+  @Get(':id/documents')
+  @ApiOperation({ summary: 'Get lead medical documents (lab results, reports)' })
+  @ApiParam({ name: 'id', type: String })
+  async getDocuments(@Param('id', OptionalUUIDPipe) id: string) {
+    return this.leadsService.getLeadDocuments(id);
+  }
+
   @Get(':id/photo-progress')
   @ApiOperation({ summary: 'Get lead photo progress' })
   @ApiParam({ name: 'id', type: String })
@@ -109,14 +117,31 @@ export class LeadsController {
     return this.leadsService.getLeadPhotoProgress(id);
   }
 
+  @Get(':id/timeline')
+  @ApiOperation({ summary: 'Get lead timeline (status changes, messages, photos, comments, handoffs) in chronological order' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getTimeline(
+    @Param('id', OptionalUUIDPipe) id: string,
+    @Query('limit') limit?: number,
+  ) {
+    return this.leadsService.getTimeline(id, limit ? parseInt(String(limit), 10) : undefined);
+  }
+
   @Patch(':id/status')
-  @ApiOperation({ summary: 'Update lead status' })
+  @ApiOperation({ summary: 'Update lead status (recorded in the status history with the caller as actor)' })
   @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token', required: false })
   async updateStatus(
     @Param('id', OptionalUUIDPipe) id: string,
     @Body('status') status: string,
+    @Body('reason') reason?: string,
+    @Headers('authorization') authHeader?: string,
   ) {
-    return this.leadsService.updateStatus(id, status);
+    const user = authHeader?.startsWith('Bearer ')
+      ? await this.authService.validateToken(authHeader.substring(7))
+      : undefined;
+    return this.leadsService.updateStatus(id, status, user, reason);
   }
 
   @Patch(':id/score')
@@ -129,6 +154,55 @@ export class LeadsController {
     return this.leadsService.updateDesireScore(id, score);
   }
 
+  // ==================== AUTOPILOT ====================
+
+  @Post(':id/autopilot/pause')
+  @ApiOperation({ summary: 'Pause AI replies and follow-ups for a lead' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token', required: true })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string', description: 'Why the AI is paused' },
+        until: { type: 'string', description: 'ISO date to resume automatically (optional)' },
+      },
+    },
+  })
+  async pauseAutopilot(
+    @Param('id', OptionalUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+    @Body() dto: AutopilotPauseDto,
+  ) {
+    const user = await this.getAutopilotUser(authHeader);
+    return this.leadsService.pauseAutopilot(id, user, dto);
+  }
+
+  @Post(':id/autopilot/resume')
+  @ApiOperation({ summary: 'Resume AI replies and follow-ups for a lead' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token', required: true })
+  async resumeAutopilot(
+    @Param('id', OptionalUUIDPipe) id: string,
+    @Headers('authorization') authHeader: string,
+  ) {
+    const user = await this.getAutopilotUser(authHeader);
+    return this.leadsService.resumeAutopilot(id, user);
+  }
+
+  private async getAutopilotUser(authHeader: string): Promise<User> {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('Authorization token required');
+    }
+
+    const user = await this.authService.validateToken(authHeader.substring(7));
+    if (!AUTOPILOT_ROLES.includes(user.role)) {
+      throw new ForbiddenException('Only sales agents, doctors and admins can control the autopilot');
+    }
+
+    return user;
+  }
+
   // ==================== DOCTOR APPROVAL ====================
 
   @Post(':id/doctor-approve')
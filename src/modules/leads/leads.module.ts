@@ -3,9 +3,10 @@ import { LeadsService } from './leads.service';
 import { LeadsController } from './leads.controller';
 import { AuthModule } from '../auth/auth.module';
 import { ZohoCrmModule } from '../zoho-crm/zoho-crm.module';
+import { OrchestratorModule } from '../orchestrator/orchestrator.module';
 
 @Module({
-  imports: [AuthModule, forwardRef(() => ZohoCrmModule)],
+  imports: [AuthModule, forwardRef(() => ZohoCrmModule), forwardRef(() => OrchestratorModule)],
   controllers: [LeadsController],
   providers: [LeadsService],
   exports: [LeadsService],
@@ -5,8 +5,12 @@ import {
   LeadProfile,
   PhotoAsset,
   PhotoChecklist,
+  MedicalDocument,
 } from '../../common/supabase/supabase.service';
 import { ZohoCrmService } from '../zoho-crm/zoho-crm.service';
+import { StateMachineService, LeadStatus } from '../orchestrator/state-machine.service';
+import { User } from '../auth/auth.service';
+import { AutopilotPause, getActiveAutopilotPause } from '../../common/utils/autopilot.utils';
 
 export interface LeadWithProfile extends Lead {
   lead_profile?: LeadProfile | null;
@@ -23,6 +27,11 @@ export interface SalesPriceDto {
   sync_to_zoho?: boolean;  // Optional flag to trigger CRM sync
 }
 
+export interface AutopilotPauseDto {
+  reason?: string;
+  until?: string; // ISO date, omit to pause until resumed manually
+}
+
 export interface DoctorComment {
   id: string;
   comment: string;
@@ -35,6 +44,21 @@ export interface DoctorComment {
   };
 }
 
+export type TimelineItemType =
+  | 'status_change'
+  | 'message'
+  | 'photo'
+  | 'comment'
+  | 'handoff_opened'
+  | 'handoff_resolved';
+
+export interface TimelineItem {
+  type: TimelineItemType;
+  at: string;
+  id: string;
+  data: Record<string, unknown>;
+}
+
 @Injectable()
 export class LeadsService {
   private readonly logger = new Logger(LeadsService.name);
@@ -43,6 +67,8 @@ export class LeadsService {
     private readonly supabase: SupabaseService,
     @Inject(forwardRef(() => ZohoCrmService))
     private readonly zohoCrmService: ZohoCrmService,
+    @Inject(forwardRef(() => StateMachineService))
+    private readonly stateMachine: StateMachineService,
   ) {}
 
   async findAll(options: {
@@ -94,8 +120,13 @@ export class LeadsService {
     return this.supabase.getLeadsByStatus(status, limit) as Promise<LeadWithProfile[]>;
   }
 
-  async updateStatus(id: string, status: string): Promise<LeadWithProfile> {
-    await this.supabase.updateLead(id, { status });
+  async updateStatus(id: string, status: string, actor?: User, reason?: string): Promise<LeadWithProfile> {
+    await this.findById(id);
+    await this.supabase.updateLeadStatus(id, status, {
+      actor: 'user',
+      actor_id: actor?.id,
+      reason: reason || 'Manual status change',
+    });
     return this.findById(id);
   }
 
@@ -104,6 +135,66 @@ export class LeadsService {
     return this.findById(id);
   }
 
+  // ==================== AUTOPILOT ====================
+
+  /**
+   * Stop the AI from replying / following up on a lead (inbound messages are still stored)
+   */
+  async pauseAutopilot(id: string, user: User, dto: AutopilotPauseDto): Promise<AutopilotPause> {
+    const lead = await this.findById(id);
+
+    if (dto.until && !(new Date(dto.until).getTime() > Date.now())) {
+      throw new BadRequestException('until must be a future date');
+    }
+
+    const pause: AutopilotPause = {
+      paused: true,
+      paused_at: new Date().toISOString(),
+      paused_by: user.id,
+      paused_by_name: user.name,
+      reason: dto.reason || null,
+      until: dto.until ? new Date(dto.until).toISOString() : null,
+    };
+
+    await this.supabase.updateLead(id, {
+      metadata: { ...((lead.metadata as Record<string, unknown> | null) || {}), autopilot: pause },
+    });
+    await this.supabase.createAuditLog({
+      action: 'autopilot_paused',
+      entity_type: 'lead',
+      entity_id: id,
+      user_id: user.id,
+      user_role: user.role,
+      new_value: { ...pause },
+    });
+
+    this.logger.log(`⏸️ Autopilot paused for lead ${id} by ${user.email}${pause.until ? ` until ${pause.until}` : ''}`);
+    return pause;
+  }
+
+  /**
+   * Hand the lead back to the AI
+   */
+  async resumeAutopilot(id: string, user: User): Promise<{ paused: false }> {
+    const lead = await this.findById(id);
+    const metadata = (lead.metadata as Record<string, unknown> | null) || {};
+    const previousPause = getActiveAutopilotPause(lead);
+
+    const { autopilot: _autopilot, ...rest } = metadata;
+    await this.supabase.updateLead(id, { metadata: rest });
+    await this.supabase.createAuditLog({
+      action: 'autopilot_resumed',
+      entity_type: 'lead',
+      entity_id: id,
+      user_id: user.id,
+      user_role: user.role,
+      old_value: previousPause ? { ...previousPause } : undefined,
+    });
+
+    this.logger.log(`▶️ Autopilot resumed for lead ${id} by ${user.email}`);
+    return { paused: false };
+  }
+
   async getLeadPhotos(id: string): Promise<(PhotoAsset & { signed_url?: string })[]> {
     const photos = await this.supabase.getLeadPhotos(id);
     
@@ -128,6 +219,28 @@ export class LeadsService {
     return photosWithUrls;
   }
 
+  async getLeadDocuments(id: string): Promise<(MedicalDocument & { signed_url?: string })[]> {
+    const documents = await this.supabase.getLeadDocuments(id);
+
+    // Generate signed URLs for each document
+    return Promise.all(
+      documents.map(async (document) => {
+        try {
+          const { data } = await this.supabase.client.storage
+            .from(document.storage_bucket)
+            .createSignedUrl(document.storage_path, 3600); // 1 hour expiry
+
+          return {
+            ...document,
+            signed_url: data?.signedUrl || undefined,
+          };
+        } catch {
+          return document;
+        }
+      })
+    );
+  }
+
   async getLeadPhotoProgress(id: string): Promise<{
     checklist: PhotoChecklist[];
     uploaded: PhotoAsset[];
@@ -185,11 +298,147 @@ export class LeadsService {
     return stats;
   }
 
+  // ==================== TIMELINE ====================
+
+  /**
+   * Status changes, messages, photos, comments and handoffs of a lead as one chronological feed
+   * Only the most recent `limit` items are returned (still oldest first).
+   */
+  async getTimeline(id: string, limit = 300): Promise<TimelineItem[]> {
+    await this.findById(id);
+
+    const [history, messages, photos, comments, handoffs] = await Promise.all([
+      this.supabase.getLeadStatusHistory(id),
+      this.supabase.getLeadMessages(id, limit),
+      this.supabase.getLeadPhotos(id),
+      this.getTimelineComments(id),
+      this.supabase.getLeadHandoffs(id),
+    ]);
+
+    const items: TimelineItem[] = [];
+
+    for (const entry of history) {
+      items.push({
+        type: 'status_change',
+        at: entry.created_at,
+        id: entry.id,
+        data: {
+          from: entry.from_status,
+          to: entry.to_status,
+          event: entry.event,
+          actor: entry.actor,
+          actor_id: entry.actor_id,
+          reason: entry.reason,
+        },
+      });
+    }
+
+    for (const message of messages) {
+      if (!message.created_at) continue;
+      items.push({
+        type: 'message',
+        at: message.created_at,
+        id: message.id,
+        data: {
+          direction: message.direction,
+          sender_type: message.sender_type,
+          content: message.content,
+          media_type: message.media_type,
+          conversation_id: message.conversation_id,
+        },
+      });
+    }
+
+    for (const photo of photos) {
+      const at = photo.uploaded_at || photo.created_at;
+      if (!at) continue;
+      items.push({
+        type: 'photo',
+        at,
+        id: photo.id,
+        data: {
+          checklist_key: photo.checklist_key,
+          quality_score: photo.quality_score,
+          is_verified: photo.is_verified,
+        },
+      });
+    }
+
+    for (const comment of comments) {
+      items.push({
+        type: 'comment',
+        at: comment.created_at,
+        id: comment.id,
+        data: {
+          comment: comment.comment,
+          comment_type: comment.comment_type,
+          author: comment.users?.name || null,
+          author_role: comment.users?.role || null,
+        },
+      });
+    }
+
+    for (const handoff of handoffs) {
+      if (handoff.created_at) {
+        items.push({
+          type: 'handoff_opened',
+          at: handoff.created_at,
+          id: handoff.id,
+          data: {
+            reason: handoff.reason,
+            reason_details: handoff.reason_details,
+            triggered_by: handoff.triggered_by,
+          },
+        });
+      }
+      if (handoff.resolved_at) {
+        items.push({
+          type: 'handoff_resolved',
+          at: handoff.resolved_at,
+          id: handoff.id,
+          data: {
+            assigned_to: handoff.assigned_to,
+            resolution_notes: handoff.resolution_notes,
+          },
+        });
+      }
+    }
+
+    return items
+      .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+      .slice(-limit);
+  }
+
+  private async getTimelineComments(leadId: string): Promise<DoctorComment[]> {
+    const { data, error } = await this.supabase.client
+      .from('doctor_comments')
+      .select(`
+        id,
+        comment,
+        comment_type,
+        is_pinned,
+        created_at,
+        users (
+          name,
+          role
+        )
+      `)
+      .eq('lead_id', leadId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      this.logger.error('Error fetching comments for timeline:', error);
+      throw error;
+    }
+
+    return data as DoctorComment[];
+  }
+
   // ==================== DOCTOR APPROVAL ====================
 
   /**
    * Doctor approves a lead and sends it to sales department
-   * Status: READY_FOR_DOCTOR -> READY_FOR_SALES
+   * Status: READY_FOR_DOCTOR -> READY_FOR_SALES (DOCTOR_APPROVED transition of the live state machine)
    */
   async doctorApprove(
     leadId: string,
@@ -200,9 +449,10 @@ export class LeadsService {
     const lead = await this.findById(leadId);
 
     // Validate lead is in correct status
-    if (lead.status !== 'READY_FOR_DOCTOR') {
+    const nextStatus = this.stateMachine.getNextState(lead.status as LeadStatus, 'DOCTOR_APPROVED');
+    if (!nextStatus) {
       throw new BadRequestException(
-        `Lead must be in READY_FOR_DOCTOR status to approve. Current status: ${lead.status}`,
+        `Lead can't be approved by a doctor in its current status: ${lead.status}`,
       );
     }
 
@@ -212,14 +462,16 @@ export class LeadsService {
     }
 
     // Update lead with doctor approval (only treatment recommendations, no price)
-    const updateData: Record<string, unknown> = {
-      status: 'READY_FOR_SALES',
-      doctor_approved_by: doctorId,
-      doctor_approved_at: new Date().toISOString(),
-      treatment_recommendations: dto.treatment_recommendations.trim(),
-    };
-
-    await this.supabase.updateLead(leadId, updateData);
+    await this.supabase.updateLeadStatus(
+      leadId,
+      nextStatus,
+      { event: 'DOCTOR_APPROVED', actor: 'user', actor_id: doctorId },
+      {
+        doctor_approved_by: doctorId,
+        doctor_approved_at: new Date().toISOString(),
+        treatment_recommendations: dto.treatment_recommendations.trim(),
+      },
+    );
 
     // Create sales notification
     await this.createSalesNotification(leadId, lead);
@@ -297,9 +549,10 @@ export class LeadsService {
     const lead = await this.findById(leadId);
 
     // Validate lead is in correct status
-    if (lead.status !== 'READY_FOR_SALES') {
+    const nextStatus = this.stateMachine.getNextState(lead.status as LeadStatus, 'SALES_PRICE_SUBMITTED');
+    if (!nextStatus) {
       throw new BadRequestException(
-        `Lead must be in READY_FOR_SALES status to submit price. Current status: ${lead.status}`,
+        `Price can't be submitted for a lead in its current status: ${lead.status}`,
       );
     }
 
@@ -311,15 +564,24 @@ export class LeadsService {
       throw new BadRequestException('Minimum price cannot be greater than maximum price');
     }
 
-    // Update lead with price information and change status to SALES_PRICED
-    await this.supabase.updateLead(leadId, {
-      status: 'SALES_PRICED',
-      estimated_price_min: dto.estimated_price_min,
-      estimated_price_max: dto.estimated_price_max,
-      price_currency: dto.price_currency,
-      sales_price_set_by: salesAgentId,
-      sales_price_set_at: new Date().toISOString(),
-    });
+    // Update lead with price information and change status (SALES_PRICED by default)
+    await this.supabase.updateLeadStatus(
+      leadId,
+      nextStatus,
+      {
+        event: 'SALES_PRICE_SUBMITTED',
+        actor: 'user',
+        actor_id: salesAgentId,
+        reason: `${dto.estimated_price_min}-${dto.estimated_price_max} ${dto.price_currency}`,
+      },
+      {
+        estimated_price_min: dto.estimated_price_min,
+        estimated_price_max: dto.estimated_price_max,
+        price_currency: dto.price_currency,
+        sales_price_set_by: salesAgentId,
+        sales_price_set_at: new Date().toISOString(),
+      },
+    );
 
     this.logger.log(`Sales price submitted for lead ${leadId} by agent ${salesAgentId}`);
 
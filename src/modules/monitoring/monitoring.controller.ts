@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Headers,
+  UnauthorizedException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiTags, ApiOperation, ApiHeader } from '@nestjs/swagger';
+import { MonitoringService, HealthReport } from './monitoring.service';
+
+@ApiTags('monitoring')
+@Controller()
+export class MonitoringController {
+  constructor(
+    private readonly monitoringService: MonitoringService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get('metrics')
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  @ApiOperation({ summary: 'Prometheus metrics (queues, job durations, AI runs, webhook ingress, follow-ups)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer METRICS_TOKEN (when configured)', required: false })
+  async getMetrics(@Headers('authorization') authHeader: string): Promise<string> {
+    // Scrapers send a static bearer token; without one configured the endpoint is open
+    const metricsToken = this.configService.get<string>('METRICS_TOKEN');
+    if (metricsToken && authHeader !== `Bearer ${metricsToken}`) {
+      throw new UnauthorizedException('Invalid metrics token');
+    }
+
+    return this.monitoringService.getMetrics();
+  }
+
+  @Get('health')
+  @ApiOperation({ summary: 'Health of Redis, Supabase and the AI worker (503 when the instance is unusable)' })
+  async getHealth(): Promise<HealthReport> {
+    const report = await this.monitoringService.getHealth();
+
+    if (report.status === 'down') {
+      throw new ServiceUnavailableException(report);
+    }
+
+    return report;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { MonitoringController } from './monitoring.controller';
+import { MonitoringService } from './monitoring.service';
+import { AiClientModule } from '../ai-client/ai-client.module';
+
+@Module({
+  imports: [AiClientModule],
+  controllers: [MonitoringController],
+  providers: [MonitoringService],
+})
+export class MonitoringModule {}
@@ -0,0 +1,217 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+import { SupabaseService } from '../../common/supabase/supabase.service';
+import { QueueService } from '../../common/queue/queue.service';
+import { MetricsService, GaugeSample } from '../../common/metrics/metrics.service';
+import { AiClientService } from '../ai-client/ai-client.service';
+
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface DependencyCheck {
+  status: 'up' | 'down';
+  latency_ms: number;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checks: {
+    redis: DependencyCheck;
+    supabase: DependencyCheck;
+    ai_worker: DependencyCheck;
+  };
+  timestamp: string;
+}
+
+const QUEUE_STATES = ['waiting', 'active', 'delayed', 'prioritized', 'completed', 'failed', 'paused'] as const;
+
+const LATENCY_QUANTILES = [0.5, 0.95, 0.99];
+
+// A dependency that hangs counts as down (ioredis queues commands while reconnecting)
+const HEALTH_CHECK_TIMEOUT_MS = 3000;
+
+@Injectable()
+export class MonitoringService {
+  private readonly logger = new Logger(MonitoringService.name);
+  private readonly windowMinutes: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly supabase: SupabaseService,
+    private readonly queueService: QueueService,
+    private readonly metrics: MetricsService,
+    private readonly aiClientService: AiClientService,
+  ) {
+    this.windowMinutes = Number(this.configService.get<string>('METRICS_WINDOW_MINUTES', '15'));
+  }
+
+  // ==================== METRICS ====================
+
+  /**
+   * Prometheus exposition: process counters / histograms plus queue and database gauges
+   * Gauges read shared state (Redis, Supabase), so every replica reports the same values.
+   */
+  async getMetrics(): Promise<string> {
+    const sections = [this.metrics.render()];
+
+    const collectors: Array<[string, () => Promise<string>]> = [
+      ['queues', () => this.renderQueueMetrics()],
+      ['ai_runs', () => this.renderAiRunMetrics()],
+      ['followups', () => this.renderFollowupMetrics()],
+    ];
+
+    // One unavailable source shouldn't blank the whole scrape
+    for (const [source, collect] of collectors) {
+      try {
+        sections.push(await collect());
+      } catch (error) {
+        this.logger.error(`Failed to collect ${source} metrics`, error);
+        sections.push(this.metrics.renderGauge(
+          'sales_agent_metrics_collection_error',
+          'Metric source that could not be collected in this scrape',
+          [{ labels: { source }, value: 1 }],
+        ));
+      }
+    }
+
+    return sections.filter(Boolean).join('\n') + '\n';
+  }
+
+  private async renderQueueMetrics(): Promise<string> {
+    const queues: Queue[] = [
+      this.queueService.getAiQueue(),
+      this.queueService.getFollowupQueue(),
+      this.queueService.getChannelQueue(),
+      ...this.queueService.getInboundQueues(),
+    ];
+
+    const samples: GaugeSample[] = [];
+    for (const queue of queues) {
+      const counts = await queue.getJobCounts(...QUEUE_STATES);
+      for (const state of QUEUE_STATES) {
+        samples.push({ labels: { queue: queue.name, state }, value: counts[state] || 0 });
+      }
+    }
+
+    return this.metrics.renderGauge('sales_agent_queue_jobs', 'Jobs per queue and state', samples);
+  }
+
+  private async renderAiRunMetrics(): Promise<string> {
+    const runs = await this.supabase.getAiRunsSince(this.getWindowStart());
+    const window = `${this.windowMinutes}m`;
+
+    const byJobType = new Map<string, { success: number; error: number; latencies: number[] }>();
+    const tokens = new Map<string, GaugeSample>();
+
+    for (const run of runs) {
+      const stats = byJobType.get(run.job_type) || { success: 0, error: 0, latencies: [] };
+      stats[run.error ? 'error' : 'success']++;
+      if (run.latency_ms !== null) stats.latencies.push(run.latency_ms / 1000);
+      byJobType.set(run.job_type, stats);
+
+      const model = run.model || 'unknown';
+      const key = `${run.job_type}|${model}`;
+      const sample = tokens.get(key) || { labels: { job_type: run.job_type, model, window }, value: 0 };
+      sample.value += run.tokens_used || 0;
+      tokens.set(key, sample);
+    }
+
+    const runSamples: GaugeSample[] = [];
+    const latencySamples: GaugeSample[] = [];
+    for (const [jobType, stats] of byJobType) {
+      runSamples.push(
+        { labels: { job_type: jobType, outcome: 'success', window }, value: stats.success },
+        { labels: { job_type: jobType, outcome: 'error', window }, value: stats.error },
+      );
+
+      const sorted = stats.latencies.sort((a, b) => a - b);
+      if (sorted.length === 0) continue;
+      for (const quantile of LATENCY_QUANTILES) {
+        const index = Math.min(sorted.length - 1, Math.ceil(quantile * sorted.length) - 1);
+        latencySamples.push({ labels: { job_type: jobType, quantile: String(quantile), window }, value: sorted[index] });
+      }
+    }
+
+    return [
+      this.metrics.renderGauge('sales_agent_ai_runs', 'AI runs in the trailing window (from ai_runs)', runSamples),
+      this.metrics.renderGauge('sales_agent_ai_latency_seconds', 'AI run latency quantiles in the trailing window', latencySamples),
+      this.metrics.renderGauge('sales_agent_ai_tokens', 'Tokens used by AI runs in the trailing window', [...tokens.values()]),
+    ].join('\n');
+  }
+
+  private async renderFollowupMetrics(): Promise<string> {
+    const statuses = await this.supabase.getFollowupStatusesSince(this.getWindowStart());
+    const window = `${this.windowMinutes}m`;
+
+    const counts = new Map<string, number>();
+    for (const status of statuses) {
+      counts.set(status, (counts.get(status) || 0) + 1);
+    }
+
+    return this.metrics.renderGauge(
+      'sales_agent_followups',
+      'Follow-ups that reached each status in the trailing window',
+      [...counts].map(([status, value]) => ({ labels: { status, window }, value })),
+    );
+  }
+
+  private getWindowStart(): string {
+    return new Date(Date.now() - this.windowMinutes * 60 * 1000).toISOString();
+  }
+
+  // ==================== HEALTH ====================
+
+  /**
+   * Check Redis, Supabase and the AI worker
+   * Redis / Supabase being down makes the instance unusable; without the AI worker it still
+   * receives and stores messages, so that only degrades it.
+   */
+  async getHealth(): Promise<HealthReport> {
+    const [redis, supabase, aiWorker] = await Promise.all([
+      this.check(() => this.queueService.ping()),
+      this.check(() => this.supabase.ping()),
+      this.check(async () => {
+        if (!(await this.aiClientService.healthCheck())) {
+          throw new Error('AI worker health endpoint did not report ok');
+        }
+      }),
+    ]);
+
+    let status: HealthStatus = 'ok';
+    if (redis.status === 'down' || supabase.status === 'down') {
+      status = 'down';
+    } else if (aiWorker.status === 'down') {
+      status = 'degraded';
+    }
+
+    return {
+      status,
+      checks: { redis, supabase, ai_worker: aiWorker },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async check(probe: () => Promise<void>): Promise<DependencyCheck> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await Promise.race([
+        probe(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timed out after ${HEALTH_CHECK_TIMEOUT_MS}ms`)), HEALTH_CHECK_TIMEOUT_MS);
+        }),
+      ]);
+      return { status: 'up', latency_ms: Date.now() - startedAt };
+    } catch (error) {
+      return {
+        status: 'down',
+        latency_ms: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
+import { Worker, Job } from 'bullmq';
+import { ConfigService } from '@nestjs/config';
+import IORedis from 'ioredis';
+import { OrchestratorService } from './orchestrator.service';
+import { QueueService, InboundMessagePayload } from '../../common/queue/queue.service';
+import { DeadLetterService } from '../../common/queue/dead-letter.service';
+import { MetricsService } from '../../common/metrics/metrics.service';
+
+// A failed message is retried in place: the partition waits for it, so the user's later messages
+// can't overtake it (a BullMQ retry would put the job behind them)
+const INBOUND_ATTEMPTS = 5;
+const INBOUND_RETRY_DELAY_MS = 2000;
+
+@Injectable()
+export class InboundMessageProcessor implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(InboundMessageProcessor.name);
+  private workers: Worker<InboundMessagePayload>[] = [];
+  private connection!: IORedis;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly queueService: QueueService,
+    private readonly orchestratorService: OrchestratorService,
+    private readonly deadLetters: DeadLetterService,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  async onModuleInit() {
+    // Support both REDIS_URL (Railway) and individual host/port/password config
+    const redisUrl = this.configService.get<string>('REDIS_URL');
+
+    if (redisUrl) {
+      this.connection = new IORedis(redisUrl, {
+        maxRetriesPerRequest: null,
+        enableReadyCheck: false,
+        retryStrategy: (times) => {
+          if (times > 3) {
+            this.logger.error('Redis connection failed after 3 retries');
+            return null;
+          }
+          return Math.min(times * 200, 2000);
+        },
+      });
+    } else {
+      const redisHost = this.configService.get<string>('REDIS_HOST', 'localhost');
+      const redisPort = this.configService.get<number>('REDIS_PORT', 6379);
+      const redisPassword = this.configService.get<string>('REDIS_PASSWORD');
+
+      this.connection = new IORedis({
+        host: redisHost,
+        port: redisPort,
+        password: redisPassword || undefined,
+        maxRetriesPerRequest: null,
+      });
+    }
+
+    this.connection.on('connect', () => {
+      this.logger.log('Inbound Worker connected to Redis');
+    });
+
+    this.connection.on('error', (err) => {
+      this.logger.error('Inbound Worker Redis connection error:', err);
+    });
+
+    // One worker per partition, one job at a time - a user's messages are handled in arrival order
+    for (const name of this.queueService.getInboundQueueNames()) {
+      const worker = new Worker<InboundMessagePayload>(
+        name,
+        async (job: Job<InboundMessagePayload>) => {
+          return this.processJob(job);
+        },
+        {
+          connection: this.connection,
+          concurrency: 1,
+        },
+      );
+
+      worker.on('completed', (job) => {
+        this.metrics.observeJobDuration('inbound-messages', job, 'completed');
+      });
+
+      worker.on('failed', (job, err) => {
+        this.logger.error(`Inbound job failed: ${job?.id} (attempt ${job?.attemptsMade})`, err);
+        this.metrics.observeJobDuration('inbound-messages', job, 'failed');
+        this.handleFinalFailure(job, err);
+      });
+
+      this.workers.push(worker);
+    }
+
+    this.logger.log(`Inbound Worker processor started (${this.workers.length} partitions)`);
+  }
+
+  async onModuleDestroy() {
+    await Promise.all(this.workers.map((worker) => worker.close()));
+    await this.connection?.quit();
+  }
+
+  /**
+   * Once the job failed (after its in-place retries), free the message's idempotency key (a redelivery by the channel
+   * is processed again) and dead-letter the job so it can be replayed
+   */
+  private async handleFinalFailure(job: Job<InboundMessagePayload> | undefined, err: Error): Promise<void> {
+    if (!job) return;
+
+    try {
+      await this.queueService.releaseInboundMessage(job.data.message);
+    } catch (error) {
+      this.logger.error(`Could not release idempotency key of inbound job ${job.id}`, error);
+    }
+
+    await this.deadLetters.recordFailedJob('inbound-messages', job, err);
+  }
+
+  private async processJob(job: Job<InboundMessagePayload>): Promise<void> {
+    const { message } = job.data;
+
+    this.logger.log(`Processing inbound job: ${job.id} from ${message.channel}:${message.channelUserId}`);
+
+    // Retries are safe - the orchestrator resumes a stored message it didn't finish processing
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.orchestratorService.handleIncomingMessage({
+          ...message,
+          timestamp: new Date(message.timestamp),
+        });
+        return;
+      } catch (error) {
+        if (attempt >= INBOUND_ATTEMPTS) throw error;
+
+        const delay = INBOUND_RETRY_DELAY_MS * 2 ** (attempt - 1);
+        this.logger.warn(`Inbound job ${job.id} failed (attempt ${attempt}/${INBOUND_ATTEMPTS}), retrying in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
@@ -1,7 +1,24 @@
-import { Controller, Post, Body, Get, HttpCode, HttpStatus, Logger } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBody } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Body,
+  Get,
+  Param,
+  Query,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseIntPipe,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBody, ApiHeader, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { IsObject, IsOptional, IsString, IsBoolean } from 'class-validator';
 import { OrchestratorService } from './orchestrator.service';
 import { StateMachineService } from './state-machine.service';
+import { StateMachineDefinition } from './state-machine.definition';
+import { AuthService, User } from '../auth/auth.service';
 
 class ProcessAiResponseDto {
   leadId: string;
@@ -14,6 +31,20 @@ class ProcessAiResponseDto {
   desireScore?: number;
   shouldHandoff?: boolean;
   handoffReason?: string;
+  promptVersion?: string;
+}
+
+class PublishStateMachineDto {
+  @IsObject()
+  definition: StateMachineDefinition;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  activate?: boolean;
 }
 
 @ApiTags('orchestrator')
@@ -24,8 +55,22 @@ export class OrchestratorController {
   constructor(
     private readonly orchestratorService: OrchestratorService,
     private readonly stateMachineService: StateMachineService,
+    private readonly authService: AuthService,
   ) {}
 
+  private async getAdminUser(authHeader: string): Promise<User> {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('No token provided');
+    }
+    const user = await this.authService.validateToken(authHeader.substring(7));
+
+    if (user.role !== 'admin') {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return user;
+  }
+
   @Post('ai-response')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Process AI response and send reply' })
@@ -37,9 +82,49 @@ export class OrchestratorController {
   }
 
   @Get('state-graph')
-  @ApiOperation({ summary: 'Get state machine graph' })
+  @ApiOperation({ summary: 'Get the live state machine definition (version, states, events, transitions, graph)' })
   getStateGraph() {
-    return this.stateMachineService.getStateGraph();
+    return this.stateMachineService.getLiveDefinition();
+  }
+
+  @Get('state-machine/versions')
+  @ApiOperation({ summary: 'List stored state machine versions (admin only)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async listStateMachineVersions(
+    @Headers('authorization') authHeader: string,
+    @Query('limit') limit?: number,
+  ) {
+    await this.getAdminUser(authHeader);
+    return this.stateMachineService.listVersions(limit ? parseInt(String(limit), 10) : undefined);
+  }
+
+  @Post('state-machine/versions')
+  @ApiOperation({ summary: 'Publish a new state machine version - validated before it is stored (admin only)' })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  @ApiBody({ type: PublishStateMachineDto })
+  async publishStateMachineVersion(
+    @Headers('authorization') authHeader: string,
+    @Body() dto: PublishStateMachineDto,
+  ) {
+    const user = await this.getAdminUser(authHeader);
+    return this.stateMachineService.publishVersion(dto.definition, user, {
+      notes: dto.notes,
+      activate: dto.activate,
+    });
+  }
+
+  @Post('state-machine/versions/:version/activate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Make a stored state machine version live (admin only)' })
+  @ApiParam({ name: 'version', type: Number })
+  @ApiHeader({ name: 'Authorization', description: 'Bearer token' })
+  async activateStateMachineVersion(
+    @Param('version', ParseIntPipe) version: number,
+    @Headers('authorization') authHeader: string,
+  ) {
+    const user = await this.getAdminUser(authHeader);
+    return this.stateMachineService.activateVersion(version, user);
   }
 }
 
@@ -2,6 +2,7 @@ import { Module, forwardRef } from '@nestjs/common';
 import { OrchestratorService } from './orchestrator.service';
 import { OrchestratorController } from './orchestrator.controller';
 import { StateMachineService } from './state-machine.service';
+import { InboundMessageProcessor } from './inbound-message.processor';
 import { LeadsModule } from '../leads/leads.module';
 import { ConversationsModule } from '../conversations/conversations.module';
 import { MessagesModule } from '../messages/messages.module';
@@ -10,6 +11,9 @@ import { FollowupsModule } from '../followups/followups.module';
 import { PhotosModule } from '../photos/photos.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { WebhooksModule } from '../webhooks/webhooks.module';
+import { TranscriptionModule } from '../transcription/transcription.module';
+import { DraftReviewsModule } from '../draft-reviews/draft-reviews.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
@@ -21,9 +25,12 @@ import { WebhooksModule } from '../webhooks/webhooks.module';
     forwardRef(() => PhotosModule),
     forwardRef(() => NotificationsModule),
     forwardRef(() => WebhooksModule),
+    TranscriptionModule,
+    DraftReviewsModule,
+    AuthModule,
   ],
   controllers: [OrchestratorController],
-  providers: [OrchestratorService, StateMachineService],
+  providers: [OrchestratorService, StateMachineService, InboundMessageProcessor],
   exports: [OrchestratorService, StateMachineService],
 })
 export class OrchestratorModule {}
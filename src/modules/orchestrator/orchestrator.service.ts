@@ -9,7 +9,7 @@ import {
   Conversation,
   Message,
 } from '../../common/supabase/supabase.service';
-import { QueueService } from '../../common/queue/queue.service';
+import { QueueService, AiJobPayload } from '../../common/queue/queue.service';
 import { StateMachineService, LeadStatus } from './state-machine.service';
 import { NormalizedMessage } from '../webhooks/interfaces/normalized-message.interface';
 import { PhotosService } from '../photos/photos.service';
@@ -17,24 +17,35 @@ import { PhotoAnalyzerService } from '../photos/photo-analyzer.service';
 import { DoctorNotificationsService } from '../notifications/doctor-notifications.service';
 import { TelegramAdapter } from '../webhooks/adapters/telegram.adapter';
 import { WhatsappAdapter } from '../webhooks/adapters/whatsapp.adapter';
+import { InstagramAdapter } from '../webhooks/adapters/instagram.adapter';
+import { WebChatAdapter } from '../webhooks/adapters/web-chat.adapter';
+import { EmailAdapter } from '../webhooks/adapters/email.adapter';
+import { TranscriptionService, VoiceTranscript } from '../transcription/transcription.service';
+import { MedicalDocumentsService } from '../photos/medical-documents.service';
+import { reverseGeocode } from '../../common/utils/geo.utils';
+import { inferCountryFromPhone } from '../../common/utils/phone.utils';
+import { getCountryCode, getTimezoneFromCountry } from '../../common/utils/timezone.utils';
+import { getActiveAutopilotPause, isAutopilotPaused } from '../../common/utils/autopilot.utils';
+import { calculateTypingDelay, splitMessageIntoParts } from '../../common/utils/reply-parts.utils';
+import { DraftReviewsService } from '../draft-reviews/draft-reviews.service';
+
+// Voice note of a lead without consent, kept in storage until it may be transcribed (messages.metadata.voice_note)
+interface HeldVoiceNote {
+  storage_path: string;
+  mime_type: string;
+}
 
 @Injectable()
 export class OrchestratorService {
   private readonly logger = new Logger(OrchestratorService.name);
   private readonly telegramBotToken: string;
   
-  // Photo debounce tracking: leadId -> { timeout, conversationId, messageId, language }
-  private photoDebounceMap: Map<string, {
-    timeout: NodeJS.Timeout;
-    conversationId: string;
-    messageId: string;
-    language: string;
-    photoCount: number;
-  }> = new Map();
-  
   // Debounce delay in milliseconds (wait for more photos)
   private readonly PHOTO_DEBOUNCE_DELAY = 5000; // 5 seconds
 
+  // Coalescing window for consecutive text messages (0 = reply to every message)
+  private readonly textCoalesceWindowMs: number;
+
   // Virtual agent names by language for personalized greetings
   private readonly AGENT_NAMES: Record<string, string[]> = {
     tr: ['Ayşe', 'Zeynep', 'Elif', 'Merve', 'Selin', 'Deniz', 'Ece', 'Ceren', 'Büşra', 'Gizem'],
@@ -63,20 +74,37 @@ export class OrchestratorService {
     private readonly telegramAdapter: TelegramAdapter,
     @Inject(forwardRef(() => WhatsappAdapter))
     private readonly whatsappAdapter: WhatsappAdapter,
+    @Inject(forwardRef(() => InstagramAdapter))
+    private readonly instagramAdapter: InstagramAdapter,
+    @Inject(forwardRef(() => WebChatAdapter))
+    private readonly webChatAdapter: WebChatAdapter,
+    @Inject(forwardRef(() => EmailAdapter))
+    private readonly emailAdapter: EmailAdapter,
+    private readonly transcription: TranscriptionService,
+    @Inject(forwardRef(() => MedicalDocumentsService))
+    private readonly medicalDocuments: MedicalDocumentsService,
+    private readonly draftReviews: DraftReviewsService,
   ) {
     this.telegramBotToken = this.configService.get<string>('TELEGRAM_BOT_TOKEN', '');
     this.kvkkLinkUrl = this.configService.get<string>('KVKK_LINK_URL', 'https://naturalclinic.com/kvkk');
     this.patientFormUrl = this.configService.get<string>('PATIENT_FORM_URL', 'https://health-form-six.vercel.app');
+    this.textCoalesceWindowMs = Number(this.configService.get<string>('TEXT_COALESCE_WINDOW_MS', '4000'));
   }
 
   async handleIncomingMessage(message: NormalizedMessage): Promise<void> {
     this.logger.log(`Handling incoming message from ${message.channel}:${message.channelUserId}`);
 
     try {
-      // 1. Check for duplicate message (idempotency)
-      const existingMessage = await this.supabase.getMessageByChannelId(message.channelMessageId);
+      // 1. Check for duplicate message (idempotency) - message ids are only unique per chat
+      // A message stored by an attempt that failed halfway is resumed instead of dropped
+      const existingMessage = await this.supabase.getInboundMessageByChannelId(message);
       if (existingMessage) {
-        this.logger.debug(`Duplicate message detected: ${message.channelMessageId}`);
+        const metadata = existingMessage.metadata as Record<string, unknown> | null;
+        if (metadata?.inbound_status !== 'processing') {
+          this.logger.debug(`Duplicate message detected: ${message.channelMessageId}`);
+          return;
+        }
+        await this.resumeStoredMessage(message, existingMessage);
         return;
       }
 
@@ -102,8 +130,11 @@ export class OrchestratorService {
         throw new Error('Failed to create or retrieve lead');
       }
 
-      // 3. Find or create active conversation
-      let conversation: Conversation | null = await this.supabase.getActiveConversation(lead.id);
+      // 3. Find or create active conversation (email replies follow their thread)
+      let conversation: Conversation | null = message.email
+        ? await this.resolveEmailConversation(lead.id, message.email)
+        : null;
+      conversation = conversation || await this.supabase.getActiveConversation(lead.id);
       
       if (!conversation) {
         conversation = await this.supabase.createConversation({
@@ -113,6 +144,18 @@ export class OrchestratorService {
         this.logger.log(`New conversation created: ${conversation.id}`);
       }
 
+      // 3.5 Transcribe voice notes so the AI sees what was said - the audio only goes to the
+      // speech-to-text provider once the lead consented, until then it is held in storage
+      let transcript: VoiceTranscript | null = null;
+      let heldVoiceNote: HeldVoiceNote | null = null;
+      if (message.mediaType === 'audio' && message.mediaUrl) {
+        if (lead.lead_profile?.consent_given === true) {
+          transcript = await this.transcribeVoiceNote(message, lead.language || message.senderLanguage);
+        } else {
+          heldVoiceNote = await this.holdVoiceNote(lead.id, message);
+        }
+      }
+
       // 4. Save the incoming message
       const savedMessage: Message = await this.supabase.createMessage({
         conversation_id: conversation.id,
@@ -122,154 +165,349 @@ export class OrchestratorService {
         media_type: message.mediaType,
         media_url: message.mediaUrl,
         sender_type: 'patient',
+        channel: message.channel,
+        channel_user_id: message.channelUserId,
         channel_message_id: message.channelMessageId,
         metadata: {
           senderName: message.senderName,
           senderPhone: message.senderPhone,
           location: message.location,
+          ...(transcript && { transcript }),
+          ...(heldVoiceNote && { voice_note: heldVoiceNote, transcript_status: 'awaiting_consent' }),
+          inbound_status: 'processing',
         },
       });
 
       this.logger.log(`Message saved: ${savedMessage.id}`);
 
-      // 4.5 If message contains an image, save it to photo_assets
-      if (message.mediaType === 'image' && message.mediaUrl) {
-        try {
-          await this.processAndSavePhoto(lead.id, message);
-          this.logger.log(`Photo saved for lead: ${lead.id}`);
-        } catch (photoError) {
-          this.logger.error('Error saving photo:', photoError);
-          // Continue processing even if photo save fails
-        }
+      await this.finishStoredMessage(message, lead, conversation, savedMessage);
+    } catch (error) {
+      this.logger.error('Error handling incoming message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pick up a stored message whose earlier attempt failed after saving it
+   */
+  private async resumeStoredMessage(message: NormalizedMessage, savedMessage: Message): Promise<void> {
+    const lead = await this.supabase.getLeadById(savedMessage.lead_id);
+    const conversation = await this.supabase.getConversationById(savedMessage.conversation_id);
+    if (!conversation) {
+      throw new Error(`Conversation of message ${savedMessage.id} not found`);
+    }
+
+    this.logger.log(`Resuming interrupted message ${savedMessage.id} for lead ${lead.id}`);
+    await this.finishStoredMessage(message, lead, conversation, savedMessage);
+  }
+
+  /**
+   * Run the steps after saving an inbound message, then mark it processed
+   * Until the mark is written a retry of the job resumes here instead of skipping the message.
+   */
+  private async finishStoredMessage(
+    message: NormalizedMessage,
+    lead: Lead & { lead_profile: LeadProfile | null },
+    conversation: Conversation,
+    savedMessage: Message,
+  ): Promise<void> {
+    await this.processStoredMessage(message, lead, conversation, savedMessage);
+    await this.supabase.updateMessageMetadata(savedMessage.id, { inbound_status: 'processed' });
+  }
+
+  private async processStoredMessage(
+    message: NormalizedMessage,
+    lead: Lead & { lead_profile: LeadProfile | null },
+    conversation: Conversation,
+    savedMessage: Message,
+  ): Promise<void> {
+    // 4.1 The patient interrupted - hold back the reply parts that haven't gone out yet
+    await this.cancelInFlightReply(lead.id);
+
+    if (message.email) {
+      await this.emailAdapter.recordInboundThread(conversation, message.email);
+    }
+
+    // 4.5 If message contains an image, save it to photo_assets
+    if (message.mediaType === 'image' && message.mediaUrl) {
+      try {
+        await this.processAndSavePhoto(lead.id, message);
+        this.logger.log(`Photo saved for lead: ${lead.id}`);
+      } catch (photoError) {
+        this.logger.error('Error saving photo:', photoError);
+        // Continue processing even if photo save fails
       }
+    }
 
-      // Get current status
-      const currentStatus = lead.status as LeadStatus;
+    // 4.5b Documents (lab results, surgery reports) go to medical_documents
+    if (message.mediaType === 'document' && message.mediaUrl) {
+      try {
+        await this.processAndSaveDocument(lead.id, savedMessage.id, message);
+      } catch (documentError) {
+        this.logger.error('Error saving document:', documentError);
+        // Continue processing even if document save fails
+      }
+    }
 
-      // 4.6 Update lead language if detected from message (do this early)
-      const detectedLanguage = message.senderLanguage;
-      if (detectedLanguage && detectedLanguage !== lead.language) {
-        await this.supabase.updateLead(lead.id, { language: detectedLanguage });
-        this.logger.log(`Lead language updated to: ${detectedLanguage}`);
+    // 4.5c Location pins tell us the lead's country, city and timezone
+    if (message.location) {
+      try {
+        await this.applySharedLocation(lead, message.location);
+      } catch (locationError) {
+        this.logger.error('Error applying shared location:', locationError);
       }
-      const messageLanguage = detectedLanguage || lead.language || 'en';
+    }
+
+    // Get current status
+    const currentStatus = lead.status as LeadStatus;
+
+    // 4.6 Update lead language if detected from message (do this early)
+    const detectedLanguage = message.senderLanguage;
+    if (detectedLanguage && detectedLanguage !== lead.language) {
+      await this.supabase.updateLead(lead.id, { language: detectedLanguage });
+      this.logger.log(`Lead language updated to: ${detectedLanguage}`);
+    }
+    const messageLanguage = detectedLanguage || lead.language || 'en';
+
+    // Autopilot paused by staff - keep the message, let the team know, but don't answer
+    const autopilotPause = getActiveAutopilotPause(lead);
+    if (autopilotPause) {
+      this.logger.log(`⏸️ Autopilot paused for lead ${lead.id}, message stored without AI reply`);
+      await this.supabase.createNotification({
+        type: 'autopilot_paused_message',
+        lead_id: lead.id,
+        title: `New message from ${lead.lead_profile?.name || message.senderName || 'lead'} (autopilot paused)`,
+        body: message.content || `[${message.mediaType}]`,
+        data: {
+          conversation_id: conversation.id,
+          message_id: savedMessage.id,
+          paused_by: autopilotPause.paused_by,
+        },
+      });
+      return;
+    }
 
-      // ═══════════════════════════════════════════════════════════════════════
-      // 4.7 KVKK CONSENT CHECK - Must happen BEFORE any AI processing
-      // ═══════════════════════════════════════════════════════════════════════
+    // ═══════════════════════════════════════════════════════════════════════
+    // 4.7 KVKK CONSENT CHECK - Must happen BEFORE any AI processing
+    // ═══════════════════════════════════════════════════════════════════════
+    
+    // Check if this is a NEW lead that needs KVKK consent
+    if (currentStatus === 'NEW' && !lead.lead_profile?.consent_given) {
+      this.logger.log(`New lead ${lead.id} needs KVKK consent - sending consent message`);
       
-      // Check if this is a NEW lead that needs KVKK consent
-      if (currentStatus === 'NEW' && !lead.lead_profile?.consent_given) {
-        this.logger.log(`New lead ${lead.id} needs KVKK consent - sending consent message`);
-        
-        // Send KVKK consent message with buttons
-        await this.sendKvkkConsentMessage(lead);
-        
-        // Update status to waiting consent
-        await this.supabase.updateLead(lead.id, { status: 'WAITING_CONSENT' });
-        this.logger.log(`Lead ${lead.id} status updated to WAITING_CONSENT`);
-        
-        // Don't queue AI job - wait for consent response
-        return;
-      }
+      // Send KVKK consent message with buttons
+      await this.sendKvkkConsentMessage(lead);
+      
+      // Update status to waiting consent
+      await this.supabase.updateLeadStatus(lead.id, 'WAITING_CONSENT', {
+        event: 'CONSENT_REQUESTED',
+        actor: 'system',
+        reason: 'KVKK consent message sent',
+      });
+      this.logger.log(`Lead ${lead.id} status updated to WAITING_CONSENT`);
+      
+      // Don't queue AI job - wait for consent response
+      return;
+    }
 
-      // Check if lead is waiting for consent
-      if (currentStatus === 'WAITING_CONSENT') {
-        // Check if user is trying to give consent via text (e.g., "evet", "yes", "onaylıyorum")
-        const consentKeywords = ['evet', 'yes', 'onaylıyorum', 'kabul', 'accept', 'tamam', 'ok', 'okay', 'onay'];
-        const declineKeywords = ['hayır', 'no', 'reddet', 'istemiyorum', 'decline', 'reject'];
-        
-        const lowerContent = (message.content || '').toLowerCase().trim();
-        
-        if (consentKeywords.some(kw => lowerContent.includes(kw))) {
-          // User gave consent via text
-          this.logger.log(`Lead ${lead.id} gave consent via text message`);
-          await this.handleConsentResponse(lead.id, conversation.id, true, lead);
-          return;
-        }
-        
-        if (declineKeywords.some(kw => lowerContent.includes(kw))) {
-          // User declined consent via text
-          this.logger.log(`Lead ${lead.id} declined consent via text message`);
-          await this.handleConsentResponse(lead.id, conversation.id, false, lead);
-          return;
-        }
-        
-        // User sent something else while waiting for consent - remind them
-        const reminderMessages: Record<string, string> = {
-          tr: 'Devam edebilmemiz için KVKK onayınıza ihtiyacımız var. Lütfen yukarıdaki butonu kullanarak onaylayın veya "Evet" yazın. 🙏',
-          en: 'We need your consent to continue. Please use the button above to confirm or type "Yes". 🙏',
-          ar: 'نحتاج موافقتك للمتابعة. يرجى استخدام الزر أعلاه للتأكيد أو اكتب "نعم". 🙏',
-          fr: 'Nous avons besoin de votre consentement pour continuer. Veuillez utiliser le bouton ci-dessus ou tapez "Oui". 🙏',
-        };
-        
-        await this.queueService.addChannelSendJob({
-          channel: lead.channel as 'whatsapp' | 'telegram' | 'web',
-          channelUserId: lead.channel_user_id!,
-          content: reminderMessages[messageLanguage] || reminderMessages.en,
-        });
-        
-        this.logger.log(`Lead ${lead.id} is waiting for consent, sent reminder`);
+    // Check if lead is waiting for consent
+    if (currentStatus === 'WAITING_CONSENT') {
+      // Check if user is trying to give consent via text (e.g., "evet", "yes", "onaylıyorum")
+      const consentKeywords = ['evet', 'yes', 'onaylıyorum', 'kabul', 'accept', 'tamam', 'ok', 'okay', 'onay'];
+      const declineKeywords = ['hayır', 'no', 'reddet', 'istemiyorum', 'decline', 'reject'];
+      
+      const lowerContent = (message.content || '').toLowerCase().trim();
+      
+      if (consentKeywords.some(kw => lowerContent.includes(kw))) {
+        // User gave consent via text
+        this.logger.log(`Lead ${lead.id} gave consent via text message`);
+        await this.handleConsentResponse(lead.id, conversation.id, true, lead);
         return;
       }
-
-      // ═══════════════════════════════════════════════════════════════════════
-      // 5. Handle state transition (for non-consent states)
-      // ═══════════════════════════════════════════════════════════════════════
-      const newStatus = this.determineNewStatus(currentStatus, message);
       
-      if (newStatus !== currentStatus) {
-        await this.supabase.updateLead(lead.id, { status: newStatus });
-        this.logger.log(`Lead status updated: ${currentStatus} -> ${newStatus}`);
+      if (declineKeywords.some(kw => lowerContent.includes(kw))) {
+        // User declined consent via text
+        this.logger.log(`Lead ${lead.id} declined consent via text message`);
+        await this.handleConsentResponse(lead.id, conversation.id, false, lead);
+        return;
       }
+      
+      // User sent something else while waiting for consent - remind them
+      const reminderMessages: Record<string, string> = {
+        tr: 'Devam edebilmemiz için KVKK onayınıza ihtiyacımız var. Lütfen yukarıdaki butonu kullanarak onaylayın veya "Evet" yazın. 🙏',
+        en: 'We need your consent to continue. Please use the button above to confirm or type "Yes". 🙏',
+        ar: 'نحتاج موافقتك للمتابعة. يرجى استخدام الزر أعلاه للتأكيد أو اكتب "نعم". 🙏',
+        fr: 'Nous avons besoin de votre consentement pour continuer. Veuillez utiliser le bouton ci-dessus ou tapez "Oui". 🙏',
+      };
+      
+      await this.queueService.addChannelSendJob({
+        channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
+        channelUserId: lead.channel_user_id!,
+        content: reminderMessages[messageLanguage] || reminderMessages.en,
+      });
+      
+      this.logger.log(`Lead ${lead.id} is waiting for consent, sent reminder`);
+      return;
+    }
 
-      // 6. Queue AI processing (with debounce for photos)
-      if (message.mediaType === 'image') {
-        // For photo messages, use debounce to batch multiple photos
-        await this.queueAiJobWithPhotoDebounce(
-          lead.id,
-          conversation.id,
-          savedMessage.id,
-          messageLanguage,
-        );
-      } else {
-        // For non-photo messages, queue immediately
-        await this.queueService.addAiJob({
-          jobType: 'ANALYZE_AND_DRAFT_REPLY',
-          leadId: lead.id,
-          conversationId: conversation.id,
-          messageId: savedMessage.id,
-          language: messageLanguage,
-          contextWindow: 20,
-        });
-        this.logger.log(`AI job queued for lead: ${lead.id}`);
-      }
+    // A human agent owns the conversation - the AI stays quiet until the handoff is resolved
+    if (currentStatus === 'HANDOFF_HUMAN') {
+      this.logger.log(`Lead ${lead.id} is handed off to a human agent, AI paused`);
+      return;
+    }
 
-    } catch (error) {
-      this.logger.error('Error handling incoming message:', error);
-      throw error;
+    // ═══════════════════════════════════════════════════════════════════════
+    // 5. Handle state transition (for non-consent states)
+    // ═══════════════════════════════════════════════════════════════════════
+    const newStatus = this.determineNewStatus(currentStatus, message);
+    
+    if (newStatus !== currentStatus) {
+      await this.supabase.updateLeadStatus(lead.id, newStatus, {
+        event: message.mediaType === 'image' ? 'PHOTO_RECEIVED' : 'MESSAGE_RECEIVED',
+        actor: 'system',
+      });
+      this.logger.log(`Lead status updated: ${currentStatus} -> ${newStatus}`);
+    }
+
+    // 6. Queue AI processing (debounced, so bursts of photos / short texts get a single reply)
+    // The reply goes back to the identity that wrote, also when it was merged into another lead
+    const replyTo: AiJobPayload['replyTo'] = { channel: message.channel, channelUserId: message.channelUserId };
+    if (message.mediaType === 'image') {
+      await this.queueAiReplyWithDebounce(
+        lead.id,
+        conversation.id,
+        savedMessage.id,
+        messageLanguage,
+        this.PHOTO_DEBOUNCE_DELAY,
+        replyTo,
+      );
+    } else if (this.textCoalesceWindowMs > 0) {
+      await this.queueAiReplyWithDebounce(
+        lead.id,
+        conversation.id,
+        savedMessage.id,
+        messageLanguage,
+        this.textCoalesceWindowMs,
+        replyTo,
+      );
+    } else {
+      await this.queueService.addAiJob({
+        jobType: 'ANALYZE_AND_DRAFT_REPLY',
+        leadId: lead.id,
+        conversationId: conversation.id,
+        messageId: savedMessage.id,
+        language: messageLanguage,
+        contextWindow: 20,
+        replyTo,
+      });
+      this.logger.log(`AI job queued for lead: ${lead.id}`);
+    }
+  }
+
+  /**
+   * Open (or resume) a web chat session - creates the lead on first visit
+   * The KVKK consent flow starts with the visitor's first message, as on other channels
+   */
+  async startWebSession(
+    sessionId: string,
+    senderName?: string,
+    language?: string,
+  ): Promise<Lead & { lead_profile: LeadProfile | null }> {
+    const existingLead = await this.supabase.getLeadByChannelUser('web', sessionId);
+    if (existingLead) {
+      return existingLead;
+    }
+
+    const newLead = await this.createNewLead({
+      channel: 'web',
+      channelMessageId: `web_session_${sessionId}`,
+      channelUserId: sessionId,
+      senderName,
+      mediaType: 'text',
+      timestamp: new Date(),
+    });
+
+    if (language) {
+      await this.supabase.updateLead(newLead.id, { language });
     }
+
+    this.logger.log(`New web chat lead created: ${newLead.id} (session ${sessionId})`);
+    return this.supabase.getLeadById(newLead.id);
   }
 
   private async createNewLead(message: NormalizedMessage): Promise<Lead> {
+    // Pre-fill country / timezone / language from the phone's calling code (WhatsApp ids are phone numbers)
+    const phoneInference = inferCountryFromPhone(
+      message.senderPhone || (message.channel === 'whatsapp' ? message.channelUserId : null),
+    );
+
     // Create lead
     const lead = await this.supabase.createLead({
       channel: message.channel,
       channel_user_id: message.channelUserId,
       source: `${message.channel}_organic`,
+      ...(phoneInference && {
+        country: phoneInference.countryCode,
+        timezone: phoneInference.timezone || undefined,
+        language: phoneInference.language,
+        metadata: {
+          country_inference: {
+            source: 'phone_calling_code',
+            calling_code: phoneInference.callingCode,
+            country: phoneInference.countryCode,
+            timezone_ambiguous: phoneInference.timezoneAmbiguous,
+            inferred_at: new Date().toISOString(),
+          },
+        },
+      }),
     });
 
+    if (phoneInference) {
+      this.logger.log(
+        `📞 Lead ${lead.id} country inferred from +${phoneInference.callingCode}: ${phoneInference.countryCode}` +
+        (phoneInference.timezoneAmbiguous ? ' (timezone ambiguous)' : ` (${phoneInference.timezone})`),
+      );
+    }
+
     // Create initial profile if we have sender info
-    if (message.senderName || message.senderPhone) {
+    if (message.senderName || message.senderPhone || message.channel === 'email') {
       await this.supabase.upsertLeadProfile(lead.id, {
         name: message.senderName,
         phone: message.senderPhone,
+        email: message.channel === 'email' ? message.channelUserId : undefined,
       });
     }
 
     return lead;
   }
 
+  /**
+   * Map an email reply to the conversation of the message it replies to (In-Reply-To, then References)
+   * Each id is matched against the conversations' email threads (every Message-ID we sent or received),
+   * then against stored messages
+   */
+  private async resolveEmailConversation(
+    leadId: string,
+    email: NonNullable<NormalizedMessage['email']>,
+  ): Promise<Conversation | null> {
+    const candidateIds = [email.inReplyTo, ...[...(email.references || [])].reverse()]
+      .filter((id): id is string => !!id);
+
+    for (const candidateId of candidateIds) {
+      const threadConversation = await this.supabase.getConversationByEmailMessageId(leadId, candidateId);
+      if (threadConversation) {
+        return threadConversation;
+      }
+
+      const parentMessage = await this.supabase.getMessageByChannelId(candidateId);
+      if (parentMessage && parentMessage.lead_id === leadId) {
+        return this.supabase.getConversationById(parentMessage.conversation_id);
+      }
+    }
+
+    return null;
+  }
+
   private determineNewStatus(currentStatus: LeadStatus, message: NormalizedMessage): LeadStatus {
     // If lead is dormant or waiting and they respond, move to qualifying
     if (currentStatus === 'DORMANT' || currentStatus === 'WAITING_FOR_USER') {
@@ -324,6 +562,7 @@ export class OrchestratorService {
       toxicity?: boolean;
       toxicity_reason?: string | null;
     };
+    promptVersion?: string;  // Prompt version that produced the reply (draft review rules)
   }): Promise<void> {
     this.logger.log(`Processing AI response for lead: ${data.leadId}`);
 
@@ -333,6 +572,11 @@ export class OrchestratorService {
         throw new Error(`Lead not found: ${data.leadId}`);
       }
 
+      if (isAutopilotPaused(lead)) {
+        this.logger.log(`⏸️ Autopilot paused for lead ${data.leadId}, AI response not sent`);
+        return;
+      }
+
       // Check for toxicity - trigger handoff if detected
       if (data.sentiment?.toxicity) {
         this.logger.warn(`Toxicity detected for lead ${data.leadId}: ${data.sentiment.toxicity_reason}`);
@@ -408,6 +652,10 @@ export class OrchestratorService {
           consent_version: data.consentGiven ? '1.0' : undefined,
         });
         this.logger.log(`Consent status updated for lead ${data.leadId}: ${data.consentGiven}`);
+
+        if (data.consentGiven) {
+          await this.processHeldMedia(data.leadId, lead.language || 'en');
+        }
       }
 
       // Update photo status
@@ -442,12 +690,16 @@ export class OrchestratorService {
         // Check if country was detected
         if (data.extraction.country) {
           updateData.country = data.extraction.country;
+
+          // A stated country overrides the phone-number guess, so its timezone must follow
+          if (getCountryCode(String(data.extraction.country)) !== getCountryCode(lead.country)) {
+            updateData.timezone = getTimezoneFromCountry(String(data.extraction.country));
+          }
         }
       }
 
       // Check if ready for doctor evaluation (all medical history collected - photos optional)
       if (data.readyForDoctor) {
-        updateData.status = 'READY_FOR_DOCTOR';
         this.logger.log(`Lead ${data.leadId} is ready for doctor evaluation - all medical history collected`);
         
         // Add tag if no photos
@@ -457,7 +709,14 @@ export class OrchestratorService {
         }
       }
 
-      if (Object.keys(updateData).length > 0) {
+      if (data.readyForDoctor) {
+        await this.supabase.updateLeadStatus(
+          data.leadId,
+          'READY_FOR_DOCTOR',
+          { event: 'MEDICAL_COMPLETE', actor: 'ai', reason: 'All medical history collected' },
+          updateData,
+        );
+      } else if (Object.keys(updateData).length > 0) {
         await this.supabase.updateLead(data.leadId, updateData);
       }
 
@@ -466,6 +725,29 @@ export class OrchestratorService {
         // Check if this is a photo request - handle template logic
         const isPhotoRequest = this.isPhotoRequestMessage(data.replyDraft, lead.language || 'en');
         const treatmentCategory = lead.treatment_category;
+
+        // The patient wrote again meanwhile - that message's debounced job answers the whole burst
+        const latestInbound = await this.supabase.getLatestInboundMessage(data.leadId);
+        if (latestInbound && latestInbound.id !== data.messageId) {
+          this.logger.log(`🔁 Lead ${data.leadId} sent a new message, reply to ${data.messageId} dropped`);
+          return;
+        }
+
+        // Draft-approval mode: hold the reply for human review before anything (photo template included)
+        // goes out - no follow-up until it is sent
+        const reviewReason = await this.draftReviews.getReviewReason(lead, data.promptVersion);
+        if (reviewReason) {
+          await this.draftReviews.holdDraft({
+            leadId: data.leadId,
+            conversationId: data.conversationId,
+            triggerMessageId: data.messageId,
+            aiRunId: data.aiRunId,
+            content: data.replyDraft,
+            reviewReason,
+          });
+          return;
+        }
+
         const photoTemplateSent = await this.wasPhotoTemplateSent(data.leadId);
         
         // ═══════════════════════════════════════════════════════════════════════
@@ -481,7 +763,7 @@ export class OrchestratorService {
           
           // Send template image only
           const templateSent = await this.sendTemplateImageIfAvailable(
-            lead.channel as 'whatsapp' | 'telegram' | 'web',
+            lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
             lead.channel_user_id!,
             treatmentCategory,
             lead.language || 'en',
@@ -502,7 +784,11 @@ export class OrchestratorService {
             });
             
             // Update lead status
-            await this.supabase.updateLead(data.leadId, { status: 'WAITING_PHOTOS' });
+            await this.supabase.updateLeadStatus(data.leadId, 'WAITING_PHOTOS', {
+              event: 'PHOTO_TEMPLATE_SENT',
+              actor: 'ai',
+              reason: `Photo template sent for ${treatmentCategory}`,
+            });
             
             // DON'T send AI message - template is enough
             // Schedule follow-up and return IMMEDIATELY
@@ -566,8 +852,10 @@ export class OrchestratorService {
           return; // Don't send AI message asking for photos again
         }
 
-        // Split message into parts for human-like conversation
-        const messageParts = this.splitMessageIntoParts(data.replyDraft);
+        // Split message into parts for human-like conversation (email replies go out as one message)
+        const messageParts = lead.channel === 'email'
+          ? [data.replyDraft]
+          : splitMessageIntoParts(data.replyDraft);
         const fullMessageContent = messageParts.join('\n\n'); // Store full message in DB for history
         
         // Save the complete message to database (joined for readability in history)
@@ -583,24 +871,43 @@ export class OrchestratorService {
         // Queue each message part with SMART delay for human-like delivery
         // Delay is calculated based on message length to simulate typing
         let cumulativeDelay = 0;
+
+        // Web widget renders a typing indicator until the next part arrives
+        if (lead.channel === 'web' && lead.channel_user_id) {
+          this.webChatAdapter.sendTypingIndicator(lead.channel_user_id);
+        }
         
         for (let i = 0; i < messageParts.length; i++) {
           const part = messageParts[i];
           
           // Calculate typing delay based on message length
-          const typingDelay = this.calculateTypingDelay(part, i);
+          const typingDelay = calculateTypingDelay(part, i);
           cumulativeDelay += typingDelay;
           
           await this.queueService.addChannelSendJob({
-            channel: lead.channel as 'whatsapp' | 'telegram' | 'web',
+            channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
             channelUserId: lead.channel_user_id!,
             content: part,
             delay: cumulativeDelay,
+            metadata: {
+              hasMoreParts: i < messageParts.length - 1,
+              messageId: replyMessage.id,
+              replyId: replyMessage.id,
+              partIndex: i,
+            },
           });
           
           this.logger.debug(`Message part ${i + 1}/${messageParts.length} queued with ${cumulativeDelay}ms cumulative delay`);
         }
 
+        if (messageParts.length > 1) {
+          await this.queueService.trackInFlightReply(
+            data.leadId,
+            { replyId: replyMessage.id, parts: messageParts },
+            cumulativeDelay,
+          );
+        }
+
         this.logger.log(`${messageParts.length} message part(s) queued for sending: ${replyMessage.id}`);
       }
 
@@ -733,8 +1040,15 @@ export class OrchestratorService {
   private async handleHandoff(leadId: string, conversationId: string, reason: string): Promise<void> {
     this.logger.log(`Initiating handoff for lead: ${leadId}, reason: ${reason}`);
 
+    // Get lead for channel info (and the status to return to after the handoff)
+    const lead = await this.supabase.getLeadById(leadId);
+
     // Update lead status
-    await this.supabase.updateLead(leadId, { status: 'HANDOFF_HUMAN' });
+    await this.supabase.updateLeadStatus(leadId, 'HANDOFF_HUMAN', {
+      event: 'HANDOFF_REQUESTED',
+      actor: 'ai',
+      reason,
+    });
 
     // Create handoff record
     await this.supabase.createHandoff({
@@ -742,10 +1056,9 @@ export class OrchestratorService {
       conversation_id: conversationId,
       reason: reason,
       triggered_by: 'ai',
+      previous_status: lead?.status,
     });
 
-    // Get lead for channel info
-    const lead = await this.supabase.getLeadById(leadId);
     if (lead) {
       // Send handoff message to user
       const handoffMessage = this.getHandoffMessage(lead.language || 'en');
@@ -759,7 +1072,7 @@ export class OrchestratorService {
       });
 
       await this.queueService.addChannelSendJob({
-        channel: lead.channel as 'whatsapp' | 'telegram' | 'web',
+        channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
         channelUserId: lead.channel_user_id!,
         content: handoffMessage,
       });
@@ -805,10 +1118,15 @@ export class OrchestratorService {
           consent_at: new Date().toISOString(),
           consent_version: '1.0',
         });
+        await this.processHeldMedia(leadId, language);
         
         // Update status to qualifying if not already past that stage
         if (lead.status === 'NEW' || lead.status === 'WAITING_CONSENT') {
-          await this.supabase.updateLead(leadId, { status: 'QUALIFYING' });
+          await this.supabase.updateLeadStatus(leadId, 'QUALIFYING', {
+            event: 'CONSENT_GIVEN',
+            actor: 'system',
+            reason: 'Consent given (returning lead)',
+          });
         }
         return;
       }
@@ -823,6 +1141,7 @@ export class OrchestratorService {
         consent_version: '1.0',
         agent_name: agentName,
       });
+      await this.processHeldMedia(leadId, language);
 
       this.logger.log(`Consent given by lead ${leadId}, assigned agent: ${agentName}`);
 
@@ -836,13 +1155,13 @@ export class OrchestratorService {
 
       const messageGenerator = chatMessages[language] || chatMessages.en;
       await this.queueService.addChannelSendJob({
-        channel: lead.channel as 'whatsapp' | 'telegram' | 'web',
+        channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
         channelUserId: lead.channel_user_id!,
         content: messageGenerator(agentName),
       });
 
       // Update status to qualifying
-      await this.supabase.updateLead(leadId, { status: 'QUALIFYING' });
+      await this.supabase.updateLeadStatus(leadId, 'QUALIFYING', { event: 'CONSENT_GIVEN', actor: 'system' });
       this.logger.log(`Lead ${leadId} consent given, starting qualification`);
     } else {
       // User declined consent
@@ -859,7 +1178,7 @@ export class OrchestratorService {
       };
 
       await this.queueService.addChannelSendJob({
-        channel: lead.channel as 'whatsapp' | 'telegram' | 'web',
+        channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
         channelUserId: lead.channel_user_id!,
         content: declineMessages[language] || declineMessages.en,
       });
@@ -894,13 +1213,13 @@ export class OrchestratorService {
       };
 
       await this.queueService.addChannelSendJob({
-        channel: lead.channel as 'whatsapp' | 'telegram' | 'web',
+        channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
         channelUserId: lead.channel_user_id!,
         content: formMessages[language] || formMessages.en,
       });
 
       // Update status
-      await this.supabase.updateLead(leadId, { status: 'WAITING_FORM' });
+      await this.supabase.updateLeadStatus(leadId, 'WAITING_FORM', { event: 'FLOW_SELECTED_FORM', actor: 'system' });
       this.logger.log(`Lead ${leadId} chose form flow, link sent`);
     } else {
       // Continue with chat - send greeting and start qualification
@@ -912,13 +1231,13 @@ export class OrchestratorService {
       };
 
       await this.queueService.addChannelSendJob({
-        channel: lead.channel as 'whatsapp' | 'telegram' | 'web',
+        channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
         channelUserId: lead.channel_user_id!,
         content: chatMessages[language] || chatMessages.en,
       });
 
       // Update status to qualifying
-      await this.supabase.updateLead(leadId, { status: 'QUALIFYING' });
+      await this.supabase.updateLeadStatus(leadId, 'QUALIFYING', { event: 'FLOW_SELECTED_CHAT', actor: 'system' });
       this.logger.log(`Lead ${leadId} chose chat flow, starting qualification`);
     }
   }
@@ -943,7 +1262,7 @@ export class OrchestratorService {
 
     // Queue flow selection with special flag
     await this.queueService.addChannelSendJob({
-      channel: lead.channel as 'whatsapp' | 'telegram' | 'web',
+      channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
       channelUserId: lead.channel_user_id!,
       content: flowMessages[language] || flowMessages.en,
       metadata: {
@@ -1013,10 +1332,24 @@ export class OrchestratorService {
           this.kvkkLinkUrl,
         );
         this.logger.log(`KVKK consent message sent via WhatsApp for lead ${lead.id}`);
+      } else if (lead.channel === 'instagram') {
+        await this.instagramAdapter.sendKvkkConsentMessage(
+          channelUserId,
+          language,
+          this.kvkkLinkUrl,
+        );
+        this.logger.log(`KVKK consent message sent via Instagram for lead ${lead.id}`);
+      } else if (lead.channel === 'web') {
+        await this.webChatAdapter.sendKvkkConsentMessage(
+          channelUserId,
+          language,
+          this.kvkkLinkUrl,
+        );
+        this.logger.log(`KVKK consent message sent via web chat for lead ${lead.id}`);
       } else {
         // Fallback for web or other channels - use queue
         await this.queueService.addChannelSendJob({
-          channel: lead.channel as 'whatsapp' | 'telegram' | 'web',
+          channel: lead.channel as 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
           channelUserId,
           content: '', 
           metadata: {
@@ -1034,18 +1367,19 @@ export class OrchestratorService {
   }
 
   /**
-   * Handle consent response from Telegram/WhatsApp callback button
+   * Handle consent response from Telegram/Instagram/web callback button
    * Called by webhooks service when user presses consent button
    */
   async handleCallbackConsentResponse(
     channelUserId: string,
     consentGiven: boolean,
     language: string,
+    channel: 'telegram' | 'instagram' | 'web' = 'telegram',
   ): Promise<void> {
-    this.logger.log(`Handling callback consent response: ${consentGiven} for user ${channelUserId}`);
+    this.logger.log(`Handling ${channel} callback consent response: ${consentGiven} for user ${channelUserId}`);
 
     // Find lead by channel_user_id
-    const lead = await this.supabase.getLeadByChannelUser('telegram', channelUserId);
+    const lead = await this.supabase.getLeadByChannelUser(channel, channelUserId);
     
     if (!lead) {
       this.logger.error(`Lead not found for channel_user_id: ${channelUserId}`);
@@ -1057,12 +1391,13 @@ export class OrchestratorService {
     if (!conversation) {
       conversation = await this.supabase.createConversation({
         lead_id: lead.id,
-        channel: 'telegram',
+        channel,
       });
     }
 
+    const effectiveLanguage = language || lead.language || 'en';
+
     if (consentGiven) {
-      const effectiveLanguage = language || lead.language || 'en';
       
       // Check if agent name already assigned (prevents duplicate greetings)
       const existingAgentName = (lead.lead_profile as any)?.agent_name;
@@ -1076,13 +1411,16 @@ export class OrchestratorService {
           consent_at: new Date().toISOString(),
           consent_version: '1.0',
         });
+        await this.processHeldMedia(lead.id, effectiveLanguage);
         
         // Update status if not already past QUALIFYING
         if (lead.status === 'NEW' || lead.status === 'WAITING_CONSENT') {
-          await this.supabase.updateLead(lead.id, { 
-            status: 'QUALIFYING',
-            language: effectiveLanguage,
-          });
+          await this.supabase.updateLeadStatus(
+            lead.id,
+            'QUALIFYING',
+            { event: 'CONSENT_GIVEN', actor: 'system', reason: 'Consent given (returning lead)' },
+            { language: effectiveLanguage },
+          );
         }
         return;
       }
@@ -1097,12 +1435,15 @@ export class OrchestratorService {
         consent_version: '1.0',
         agent_name: agentName,
       });
+      await this.processHeldMedia(lead.id, effectiveLanguage);
 
       // Update lead status
-      await this.supabase.updateLead(lead.id, { 
-        status: 'QUALIFYING',
-        language: effectiveLanguage,
-      });
+      await this.supabase.updateLeadStatus(
+        lead.id,
+        'QUALIFYING',
+        { event: 'CONSENT_GIVEN', actor: 'system' },
+        { language: effectiveLanguage },
+      );
 
       this.logger.log(`Consent given by lead ${lead.id}, assigned agent: ${agentName}`);
 
@@ -1115,11 +1456,7 @@ export class OrchestratorService {
       };
 
       const messageGenerator = chatMessages[effectiveLanguage] || chatMessages.en;
-      await this.telegramAdapter.sendMessage({
-        channel: 'telegram',
-        channelUserId,
-        content: messageGenerator(agentName),
-      });
+      await this.sendCallbackReply(channel, channelUserId, messageGenerator(agentName));
     } else {
       // User declined consent - stay in WAITING_CONSENT but allow general chat
       await this.supabase.upsertLeadProfile(lead.id, {
@@ -1134,29 +1471,30 @@ export class OrchestratorService {
         fr: 'Nous comprenons. Sans consentement, nous ne pouvons pas collecter d\'informations personnelles, mais nous pouvons répondre à vos questions générales. Comment puis-je vous aider?',
       };
 
-      await this.telegramAdapter.sendMessage({
-        channel: 'telegram',
+      await this.sendCallbackReply(
+        channel,
         channelUserId,
-        content: declineMessages[language] || declineMessages.en,
-      });
+        declineMessages[effectiveLanguage] || declineMessages.en,
+      );
 
       this.logger.log(`Consent declined by lead ${lead.id}`);
     }
   }
 
   /**
-   * Handle flow selection from Telegram/WhatsApp callback button
+   * Handle flow selection from Telegram/Instagram/web callback button
    * Called by webhooks service when user presses form/chat button
    */
   async handleCallbackFlowSelection(
     channelUserId: string,
     selectedFlow: 'form' | 'chat',
     language: string,
+    channel: 'telegram' | 'instagram' | 'web' = 'telegram',
   ): Promise<void> {
-    this.logger.log(`Handling callback flow selection: ${selectedFlow} for user ${channelUserId}`);
+    this.logger.log(`Handling ${channel} callback flow selection: ${selectedFlow} for user ${channelUserId}`);
 
     // Find lead by channel_user_id
-    const lead = await this.supabase.getLeadByChannelUser('telegram', channelUserId);
+    const lead = await this.supabase.getLeadByChannelUser(channel, channelUserId);
     
     if (!lead) {
       this.logger.error(`Lead not found for channel_user_id: ${channelUserId}`);
@@ -1168,16 +1506,18 @@ export class OrchestratorService {
       preferred_flow: selectedFlow,
     } as any);
 
+    const effectiveLanguage = language || lead.language || 'en';
+
     if (selectedFlow === 'form') {
       // Send form link via adapter (with button)
-      await this.telegramAdapter.sendFormLinkMessage(
+      await this.getCallbackAdapter(channel).sendFormLinkMessage(
         channelUserId,
-        language || lead.language || 'en',
-        `${this.patientFormUrl}?lead_id=${lead.id}&lang=${language || lead.language || 'en'}`,
+        effectiveLanguage,
+        `${this.patientFormUrl}?lead_id=${lead.id}&lang=${effectiveLanguage}`,
       );
 
       // Update status
-      await this.supabase.updateLead(lead.id, { status: 'WAITING_FORM' });
+      await this.supabase.updateLeadStatus(lead.id, 'WAITING_FORM', { event: 'FLOW_SELECTED_FORM', actor: 'system' });
       this.logger.log(`Lead ${lead.id} chose form flow, link sent`);
     } else {
       // Continue with chat - send greeting and start qualification
@@ -1188,18 +1528,37 @@ export class OrchestratorService {
         fr: 'Super! Continuons à discuter. 😊\n\nTout d\'abord, quel traitement vous intéresse?',
       };
 
-      await this.telegramAdapter.sendMessage({
-        channel: 'telegram',
+      await this.sendCallbackReply(
+        channel,
         channelUserId,
-        content: chatMessages[language] || chatMessages.en,
-      });
+        chatMessages[effectiveLanguage] || chatMessages.en,
+      );
 
       // Update status to qualifying
-      await this.supabase.updateLead(lead.id, { status: 'QUALIFYING' });
+      await this.supabase.updateLeadStatus(lead.id, 'QUALIFYING', { event: 'FLOW_SELECTED_CHAT', actor: 'system' });
       this.logger.log(`Lead ${lead.id} chose chat flow, starting qualification`);
     }
   }
 
+  /**
+   * Send a plain text reply on the channel a callback button was pressed on
+   */
+  private async sendCallbackReply(
+    channel: 'telegram' | 'instagram' | 'web',
+    channelUserId: string,
+    content: string,
+  ): Promise<void> {
+    await this.getCallbackAdapter(channel).sendMessage({ channel, channelUserId, content });
+  }
+
+  private getCallbackAdapter(
+    channel: 'telegram' | 'instagram' | 'web',
+  ): TelegramAdapter | InstagramAdapter | WebChatAdapter {
+    if (channel === 'instagram') return this.instagramAdapter;
+    if (channel === 'web') return this.webChatAdapter;
+    return this.telegramAdapter;
+  }
+
   /**
    * Check if photo template was already sent
    */
@@ -1226,66 +1585,6 @@ export class OrchestratorService {
     return names[Math.floor(Math.random() * names.length)];
   }
 
-  /**
-   * Calculate realistic typing delay based on message length.
-   * Simulates human typing speed with natural variation.
-   * 
-   * @param message - The message content
-   * @param messageIndex - Index of message in sequence (0 = first)
-   * @returns Delay in milliseconds
-   */
-  private calculateTypingDelay(message: string, messageIndex: number): number {
-    // Constants for delay calculation
-    const BASE_DELAY_MS = 1000;           // Minimum base delay (1 second)
-    const MS_PER_CHAR = 50;               // ~50ms per character (simulates typing)
-    const MAX_DELAY_MS = 15000;           // Maximum delay (15 seconds)
-    const MIN_DELAY_MS = 2000;            // Minimum practical delay (2 seconds)
-    
-    // First message has no delay (send immediately)
-    if (messageIndex === 0) {
-      return 0;
-    }
-    
-    // Calculate base delay from message length
-    const charCount = message.length;
-    let delay = BASE_DELAY_MS + (charCount * MS_PER_CHAR);
-    
-    // Add random variation (±20%) for natural feel
-    const variation = delay * 0.2;
-    const randomOffset = (Math.random() * variation * 2) - variation;
-    delay += randomOffset;
-    
-    // Add extra "thinking" time for longer/complex messages
-    if (charCount > 100) {
-      delay += 2000; // Extra 2 seconds for complex messages
-    }
-    
-    // Clamp to min/max bounds
-    delay = Math.max(MIN_DELAY_MS, Math.min(MAX_DELAY_MS, delay));
-    
-    return Math.round(delay);
-  }
-
-  /**
-   * Split a message into multiple parts for human-like conversation.
-   * Messages are split by the "|||" delimiter.
-   * This makes conversations feel more natural as humans typically
-   * send multiple short messages instead of one long one.
-   */
-  private splitMessageIntoParts(message: string): string[] {
-    // Split by ||| delimiter
-    const parts = message.split('|||')
-      .map(part => part.trim())
-      .filter(part => part.length > 0);
-    
-    // If no delimiter found or only one part, return as single message
-    if (parts.length <= 1) {
-      return [message.trim()];
-    }
-    
-    return parts;
-  }
-
   /**
    * Check if a message is EXPLICITLY requesting photos from the user.
    * 
@@ -1373,7 +1672,7 @@ export class OrchestratorService {
    * Supports both file system and Supabase Storage sources
    */
   private async sendTemplateImageIfAvailable(
-    channel: 'whatsapp' | 'telegram' | 'web',
+    channel: 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email',
     channelUserId: string,
     treatmentCategory: string,
     language: string,
@@ -1408,6 +1707,18 @@ export class OrchestratorService {
           this.logger.log(`✅ Template image sent via WhatsApp for ${treatmentCategory} to ${channelUserId}`);
           return true;
         }
+
+        if (channel === 'instagram') {
+          await this.instagramAdapter.sendMessage({
+            channel: 'instagram',
+            channelUserId,
+            content: caption,
+            mediaUrl: templateUrl,
+            mediaType: 'image',
+          });
+          this.logger.log(`✅ Template image sent via Instagram for ${treatmentCategory} to ${channelUserId}`);
+          return true;
+        }
       }
 
       // Strategy 3: If no local file and no URL, try to upload from local and get URL
@@ -1533,6 +1844,178 @@ export class OrchestratorService {
     return langCaptions[treatmentCategory] || langCaptions.default;
   }
 
+  /**
+   * Download and transcribe a voice note (null if STT is disabled or anything fails)
+   */
+  private async transcribeVoiceNote(
+    message: NormalizedMessage,
+    languageHint?: string,
+  ): Promise<VoiceTranscript | null> {
+    if (!this.transcription.isEnabled()) return null;
+
+    const audio = await this.downloadInboundMedia(message);
+    if (!audio) return null;
+
+    return this.transcription.transcribe(audio.buffer, this.getVoiceNoteMimeType(message, audio.mimeType), languageHint);
+  }
+
+  /**
+   * Keep a voice note of a lead without consent in private storage, so it can be transcribed later
+   */
+  private async holdVoiceNote(leadId: string, message: NormalizedMessage): Promise<HeldVoiceNote | null> {
+    if (!this.transcription.isEnabled()) return null;
+
+    const audio = await this.downloadInboundMedia(message);
+    if (!audio) return null;
+
+    const mimeType = this.getVoiceNoteMimeType(message, audio.mimeType);
+    const subtype = mimeType.split(';')[0].split('/')[1];
+    const storagePath = `leads/${leadId}/voice/${uuidv4()}.${subtype === 'mp4' ? 'm4a' : subtype}`;
+    await this.supabase.uploadFile('lead-media-private', storagePath, audio.buffer, mimeType);
+
+    this.logger.log(`🎙️ Voice note of lead ${leadId} held until consent: ${storagePath}`);
+    return { storage_path: storagePath, mime_type: mimeType };
+  }
+
+  // Telegram serves files as octet-stream, voice notes are OGG/Opus (Instagram sends MP4 audio)
+  private getVoiceNoteMimeType(message: NormalizedMessage, mimeType: string): string {
+    if (mimeType.startsWith('audio/')) return mimeType;
+    return message.channel === 'instagram' ? 'audio/mp4' : 'audio/ogg';
+  }
+
+  /**
+   * Run the processing held back while the lead had not consented yet
+   * Failures are logged - consent itself must not fail because of them
+   */
+  private async processHeldMedia(leadId: string, language: string): Promise<void> {
+    await this.transcribeHeldVoiceNotes(leadId, language).catch((error) => {
+      this.logger.error(`Failed to transcribe held voice notes for lead ${leadId}:`, error);
+    });
+    await this.medicalDocuments.extractPendingDocuments(leadId).catch((error) => {
+      this.logger.error(`Failed to extract pending documents for lead ${leadId}:`, error);
+    });
+  }
+
+  private async transcribeHeldVoiceNotes(leadId: string, language: string): Promise<void> {
+    const messages = await this.supabase.getVoiceNotesAwaitingConsent(leadId);
+
+    for (const heldMessage of messages) {
+      const voiceNote = (heldMessage.metadata as { voice_note?: HeldVoiceNote } | null)?.voice_note;
+      if (!voiceNote) continue;
+
+      const audio = await this.supabase.downloadFile('lead-media-private', voiceNote.storage_path);
+      const transcript = await this.transcription.transcribe(audio, voiceNote.mime_type, language);
+
+      await this.supabase.updateMessageMetadata(heldMessage.id, {
+        transcript_status: transcript ? 'transcribed' : 'failed',
+        ...(transcript && { transcript }),
+      });
+    }
+
+    if (messages.length > 0) {
+      this.logger.log(`🎙️ Transcribed ${messages.length} held voice note(s) for lead ${leadId}`);
+    }
+  }
+
+  /**
+   * Store a document (lab results, reports) and fill medical history from its text once the lead consented
+   */
+  private async processAndSaveDocument(leadId: string, messageId: string, message: NormalizedMessage): Promise<void> {
+    const file = await this.downloadInboundMedia(message);
+    if (!file) {
+      this.logger.warn('Could not download document file');
+      return;
+    }
+
+    const lead = await this.supabase.getLeadById(leadId);
+    await this.medicalDocuments.saveDocument(
+      lead,
+      { buffer: file.buffer, fileName: message.fileName, mimeType: file.mimeType },
+      messageId,
+    );
+  }
+
+  /**
+   * Fill country, city and timezone from a shared location pin (offline reverse geocoding)
+   * Only empty fields are filled - values the lead or an agent already set are kept
+   */
+  private async applySharedLocation(
+    lead: Lead,
+    location: { latitude: number; longitude: number },
+  ): Promise<void> {
+    const leadId = lead.id;
+    const geo = reverseGeocode(location.latitude, location.longitude);
+    if (!geo) {
+      this.logger.debug(`No country found for ${location.latitude},${location.longitude}`);
+      return;
+    }
+
+    const current = await this.supabase.getLeadById(leadId);
+    const fillCountry = !current.country;
+    const fillTimezone = !current.timezone && !!geo.timezone;
+    const fillCity = !!geo.city && !current.lead_profile?.city;
+
+    if (fillCountry || fillTimezone) {
+      const metadata = (current.metadata as Record<string, unknown> | null) || {};
+      await this.supabase.updateLead(leadId, {
+        ...(fillCountry && { country: geo.countryCode }),
+        ...(fillTimezone && { timezone: geo.timezone as string }),
+        metadata: {
+          ...metadata,
+          country_inference: {
+            source: 'location_pin',
+            country: geo.countryCode,
+            timezone_ambiguous: false,
+            inferred_at: new Date().toISOString(),
+          },
+        },
+      });
+    }
+
+    if (fillCity) {
+      await this.supabase.upsertLeadProfile(leadId, { city: geo.city as string });
+    }
+
+    this.logger.log(`📍 Location for lead ${leadId}: ${geo.city || '-'}, ${geo.countryCode} (${geo.timezone})`);
+  }
+
+  /**
+   * Download inbound media from its channel (null if unavailable or the download fails)
+   */
+  private async downloadInboundMedia(
+    message: NormalizedMessage,
+  ): Promise<{ buffer: Buffer; mimeType: string } | null> {
+    if (!message.mediaUrl) return null;
+
+    try {
+      let media: { buffer: Buffer; mimeType: string } | null = null;
+
+      if (message.channel === 'whatsapp') {
+        media = await this.whatsappAdapter.downloadMedia(message.mediaUrl);
+      } else if (message.channel === 'telegram') {
+        media = await this.telegramAdapter.downloadFile(message.mediaUrl);
+      } else if (message.channel === 'instagram') {
+        media = {
+          buffer: await this.instagramAdapter.downloadMedia(message.mediaUrl),
+          mimeType: 'application/octet-stream',
+        };
+      } else if (message.channel === 'email') {
+        const buffer = await this.emailAdapter.getAttachmentBuffer(message);
+        media = buffer ? { buffer, mimeType: 'application/octet-stream' } : null;
+      }
+
+      // Prefer the type reported in the message over generic download headers
+      if (media && message.mimeType) {
+        media.mimeType = message.mimeType;
+      }
+
+      return media;
+    } catch (error) {
+      this.logger.error(`Failed to download ${message.mediaType} from ${message.channel}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Send photo via Telegram
    */
@@ -1586,6 +2069,12 @@ export class OrchestratorService {
         this.logger.error('Failed to download Telegram photo:', error);
         throw error;
       }
+    } else if (message.channel === 'instagram') {
+      // Instagram attachments are already direct CDN URLs
+      fileUrl = fileId;
+      fileBuffer = await this.instagramAdapter.downloadMedia(fileUrl);
+    } else if (message.channel === 'email') {
+      fileBuffer = await this.emailAdapter.getAttachmentBuffer(message);
     }
 
     if (!fileBuffer) {
@@ -1692,7 +2181,11 @@ export class OrchestratorService {
                             profile?.has_chronic_disease !== undefined;
 
       if (hasMedicalInfo) {
-        await this.supabase.updateLead(leadId, { status: 'READY_FOR_DOCTOR' });
+        await this.supabase.updateLeadStatus(leadId, 'READY_FOR_DOCTOR', {
+          event: 'PHOTOS_COMPLETE',
+          actor: 'system',
+          reason: 'All required photos received and medical history complete',
+        });
         
         // Create doctor notification
         await this.doctorNotifications.createReadyForDoctorNotification(
@@ -1716,52 +2209,53 @@ export class OrchestratorService {
     }
   }
 
-  private async queueAiJobWithPhotoDebounce(
+  /**
+   * Pull the unsent parts of the lead's split reply and trim the stored reply to what was delivered
+   */
+  private async cancelInFlightReply(leadId: string): Promise<void> {
+    try {
+      const cancelled = await this.queueService.cancelInFlightReply(leadId);
+      if (!cancelled) return;
+
+      await this.supabase.recordInterruptedReply(
+        cancelled.replyId,
+        cancelled.deliveredParts,
+        cancelled.cancelledParts,
+      );
+      this.logger.log(`✂️ Lead ${leadId} interrupted reply ${cancelled.replyId}, ${cancelled.cancelledParts.length} part(s) not sent`);
+    } catch (error) {
+      // Worst case the rest of the old reply still goes out
+      this.logger.warn(`Could not cancel in-flight reply for lead ${leadId}`, error);
+    }
+  }
+
+  /**
+   * Queue the AI reply as a delayed job keyed by lead
+   * Each new message pushes the job back and points it at the latest message, so a burst gets one
+   * reply - the debounce lives in Redis, surviving restarts and shared by all replicas.
+   */
+  private async queueAiReplyWithDebounce(
     leadId: string,
     conversationId: string,
     messageId: string,
     language: string,
+    delay: number,
+    replyTo?: AiJobPayload['replyTo'],
   ): Promise<void> {
-    const existingDebounce = this.photoDebounceMap.get(leadId);
-
-    if (existingDebounce) {
-      // Clear existing timeout and update with new message info
-      clearTimeout(existingDebounce.timeout);
-      existingDebounce.photoCount += 1;
-      existingDebounce.messageId = messageId; // Use latest message ID
-      this.logger.log(`Photo debounce updated for lead ${leadId}, count: ${existingDebounce.photoCount}`);
-    }
-
-    const photoCount = existingDebounce?.photoCount ?? 1;
-
-    // Set new timeout
-    const timeout = setTimeout(async () => {
-      this.photoDebounceMap.delete(leadId);
-      
-      this.logger.log(`Photo debounce triggered for lead ${leadId}, processing ${photoCount} photo(s)`);
-      
-      // Queue the AI job after debounce delay
-      await this.queueService.addAiJob({
+    await this.queueService.addDebouncedAiReplyJob(
+      {
         jobType: 'ANALYZE_AND_DRAFT_REPLY',
         leadId,
         conversationId,
-        messageId,
+        messageId, // Latest message wins
         language,
         contextWindow: 20,
-      });
-      
-      this.logger.log(`AI job queued for lead ${leadId} after photo debounce`);
-    }, this.PHOTO_DEBOUNCE_DELAY);
-
-    this.photoDebounceMap.set(leadId, {
-      timeout,
-      conversationId,
-      messageId,
-      language,
-      photoCount,
-    });
+        replyTo,
+      },
+      delay,
+    );
 
-    this.logger.log(`Photo debounce set for lead ${leadId}, waiting ${this.PHOTO_DEBOUNCE_DELAY}ms for more photos`);
+    this.logger.log(`AI reply debounced for lead ${leadId}, waiting ${delay}ms for more messages`);
   }
 
   private async scheduleFollowupIfNeeded(leadId: string, conversationId: string): Promise<void> {
@@ -1830,6 +2324,11 @@ export class OrchestratorService {
         return;
       }
 
+      if (isAutopilotPaused(lead)) {
+        this.logger.log(`⏸️ Autopilot paused for lead ${leadId}, no follow-up scheduled`);
+        return;
+      }
+
       // Count previous follow-ups
       const previousFollowups = await this.supabase.getFollowupCount(leadId);
       
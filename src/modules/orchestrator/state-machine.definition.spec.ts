@@ -0,0 +1,79 @@
+import {
+  DEFAULT_STATE_MACHINE,
+  StateMachineDefinition,
+  validateStateMachineDefinition,
+} from './state-machine.definition';
+
+const clone = (): StateMachineDefinition => JSON.parse(JSON.stringify(DEFAULT_STATE_MACHINE));
+
+describe('validateStateMachineDefinition', () => {
+  it('accepts the built-in definition', () => {
+    expect(validateStateMachineDefinition(DEFAULT_STATE_MACHINE)).toEqual([]);
+  });
+
+  it('rejects a definition without its arrays', () => {
+    expect(validateStateMachineDefinition({ initial_state: 'NEW' } as StateMachineDefinition)).toEqual([
+      'Definition must have states, events and transitions arrays',
+    ]);
+  });
+
+  it('rejects duplicate states and events and an unknown initial state', () => {
+    const definition = clone();
+    definition.states.push({ name: 'NEW', description: 'Again' });
+    definition.events.push('MESSAGE_RECEIVED');
+    definition.initial_state = 'START';
+
+    const errors = validateStateMachineDefinition(definition);
+    expect(errors).toContain('Duplicate state: NEW');
+    expect(errors).toContain('Events must be unique');
+    expect(errors).toContain('Initial state START is not defined');
+  });
+
+  it('keeps the states and events the application relies on', () => {
+    const definition = clone();
+    definition.events = definition.events.filter((event) => event !== 'DOCTOR_APPROVED');
+    definition.transitions = definition.transitions.filter((transition) => transition.event !== 'DOCTOR_APPROVED');
+
+    expect(validateStateMachineDefinition(definition)).toContain(
+      'Event DOCTOR_APPROVED is used by the application and can\'t be removed',
+    );
+  });
+
+  it('rejects transitions with unknown states, events or guards', () => {
+    const definition = clone();
+    definition.transitions.push(
+      { from: ['NOWHERE'], to: 'QUALIFYING', event: 'MESSAGE_RECEIVED' },
+      { from: ['QUALIFYING'], to: 'SOMEWHERE', event: 'MESSAGE_RECEIVED' },
+      { from: ['QUALIFYING'], to: 'QUALIFYING', event: 'UNDECLARED' },
+      { from: ['QUALIFYING'], to: 'QUALIFYING', event: 'MESSAGE_RECEIVED', guard: '!no_such_guard' },
+    );
+    const first = DEFAULT_STATE_MACHINE.transitions.length;
+
+    const errors = validateStateMachineDefinition(definition);
+    expect(errors).toContain(`Transition #${first} (MESSAGE_RECEIVED) starts from unknown state NOWHERE`);
+    expect(errors).toContain(`Transition #${first + 1} (MESSAGE_RECEIVED) targets unknown state SOMEWHERE`);
+    expect(errors).toContain(`Transition #${first + 2} (UNDECLARED) uses undeclared event`);
+    expect(errors).toContain(`Transition #${first + 3} (MESSAGE_RECEIVED) uses unknown guard !no_such_guard`);
+  });
+
+  it('rejects transitions leaving a terminal state', () => {
+    const definition = clone();
+    definition.transitions.push({ from: ['CLOSED'], to: 'QUALIFYING', event: 'MESSAGE_RECEIVED' });
+
+    expect(validateStateMachineDefinition(definition)).toContain(
+      `Transition #${DEFAULT_STATE_MACHINE.transitions.length} (MESSAGE_RECEIVED) leaves terminal state CLOSED`,
+    );
+  });
+
+  it('rejects unused events, unreachable states and dead ends', () => {
+    const definition = clone();
+    definition.events.push('NEVER_FIRED');
+    definition.states.push({ name: 'ISLAND', description: 'Nothing leads here' });
+    definition.transitions = definition.transitions.filter((transition) => !transition.from.includes('DORMANT'));
+
+    const errors = validateStateMachineDefinition(definition);
+    expect(errors).toContain('Event NEVER_FIRED is not used by any transition');
+    expect(errors).toContain('State ISLAND is unreachable from NEW');
+    expect(errors).toContain('State DORMANT has no outgoing transitions (mark it terminal or add one)');
+  });
+});
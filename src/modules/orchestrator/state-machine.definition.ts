@@ -0,0 +1,290 @@
+/**
+ * State Machine Definitions
+ *
+ * Transitions are plain data so they can be versioned in `state_machine_definitions` and
+ * edited by admins. Conditions are referenced by guard name ('!' negates) and resolved
+ * against the code-side guard registry below.
+ */
+
+import { LeadStatus, LeadEvent, StateContext } from './state-machine.service';
+
+export interface StateDefinition {
+  name: string;
+  description: string;
+  terminal?: boolean; // No outgoing transitions allowed (CONVERTED, CLOSED)
+}
+
+export interface TransitionDefinition {
+  from: string[];
+  to: string;
+  event: string;
+  guard?: string; // Guard name from STATE_GUARDS, '!name' for the negation
+}
+
+export interface StateMachineDefinition {
+  initial_state: string;
+  states: StateDefinition[];
+  events: string[];
+  transitions: TransitionDefinition[];
+}
+
+type StateGuard = (context: StateContext, transition: TransitionDefinition) => boolean;
+
+/**
+ * Conditions a transition can reference by name
+ */
+export const STATE_GUARDS: Record<string, StateGuard> = {
+  consent_given: (ctx) => ctx.lead.consent_given === true,
+  has_treatment_category: (ctx) => !!ctx.lead.treatment_category,
+  medical_complete: (ctx) => ctx.medical?.isComplete === true,
+  photos_incomplete: (ctx) => !!ctx.photos && ctx.photos.count < ctx.photos.required,
+  photos_complete: (ctx) => !!ctx.photos && ctx.photos.count >= ctx.photos.required,
+  photos_need_fix: (ctx) => !!ctx.photos && (!!ctx.photos.hasQualityIssues || (ctx.photos.missingAngles?.length ?? 0) > 0),
+  returns_to_previous_status: (ctx, transition) => ctx.handoff?.previousStatus === transition.to,
+};
+
+/**
+ * Statuses and events the application code sets or fires directly - a definition can't drop them
+ */
+const CORE_STATES: LeadStatus[] = [
+  'NEW', 'WAITING_CONSENT', 'QUALIFYING', 'WAITING_FORM', 'WAITING_PHOTOS',
+  'PHOTO_REQUESTED', 'PHOTO_COLLECTING', 'PHOTO_QA_FIX',
+  'READY_FOR_DOCTOR', 'READY_FOR_SALES', 'SALES_PRICED', 'WAITING_FOR_USER', 'DORMANT',
+  'HANDOFF_HUMAN', 'CONVERTED', 'CLOSED',
+];
+
+const CORE_EVENTS: LeadEvent[] = ['HANDOFF_RESOLVED', 'DOCTOR_APPROVED', 'SALES_PRICE_SUBMITTED'];
+
+// Statuses a lead can return to once a human agent resolves its handoff
+const HANDOFF_RETURN_STATUSES: LeadStatus[] = [
+  'NEW', 'WAITING_CONSENT', 'QUALIFYING', 'WAITING_FORM', 'WAITING_PHOTOS',
+  'PHOTO_REQUESTED', 'PHOTO_COLLECTING', 'PHOTO_QA_FIX',
+  'READY_FOR_DOCTOR', 'READY_FOR_SALES', 'SALES_PRICED', 'WAITING_FOR_USER', 'DORMANT',
+];
+
+const CLOSABLE_STATUSES: LeadStatus[] = [
+  'NEW', 'QUALIFYING', 'PHOTO_REQUESTED', 'PHOTO_COLLECTING', 'PHOTO_QA_FIX', 'READY_FOR_DOCTOR',
+  'READY_FOR_SALES', 'SALES_PRICED', 'WAITING_FOR_USER', 'DORMANT', 'HANDOFF_HUMAN',
+];
+
+/**
+ * Built-in definition (version 0) - used until an admin activates a stored version
+ */
+export const DEFAULT_STATE_MACHINE: StateMachineDefinition = {
+  initial_state: 'NEW',
+
+  states: [
+    { name: 'NEW', description: 'New lead - initial contact' },
+    { name: 'WAITING_CONSENT', description: 'Waiting for KVKK/GDPR consent approval' },
+    { name: 'QUALIFYING', description: 'Gathering information (treatment, concerns, timeline, medical history)' },
+    { name: 'WAITING_FORM', description: 'User chose form flow, waiting for form submission' },
+    { name: 'WAITING_PHOTOS', description: 'Photo template sent, waiting for photos' },
+    { name: 'PHOTO_REQUESTED', description: 'Photos requested (optional)' },
+    { name: 'PHOTO_COLLECTING', description: 'Receiving and validating photos' },
+    { name: 'PHOTO_QA_FIX', description: 'Photos need fixes (quality issues or missing angles)' },
+    { name: 'READY_FOR_DOCTOR', description: 'All medical info collected, ready for doctor (photos optional)' },
+    { name: 'READY_FOR_SALES', description: 'Doctor approved, waiting for sales offer' },
+    { name: 'SALES_PRICED', description: 'Sales set the price range, offer ready for the patient' },
+    { name: 'WAITING_FOR_USER', description: 'Waiting for user to respond' },
+    { name: 'DORMANT', description: 'User inactive after multiple follow-ups' },
+    { name: 'HANDOFF_HUMAN', description: 'Transferred to human agent' },
+    { name: 'CONVERTED', description: 'Lead converted to customer', terminal: true },
+    { name: 'CLOSED', description: 'Lead closed', terminal: true },
+  ],
+
+  events: [
+    'MESSAGE_RECEIVED', 'CONSENT_REQUESTED', 'CONSENT_GIVEN', 'CONSENT_DECLINED',
+    'FLOW_SELECTED_FORM', 'FLOW_SELECTED_CHAT', 'FORM_SUBMITTED',
+    'PHOTO_RECEIVED', 'PHOTO_TEMPLATE_SENT', 'QUALIFYING_COMPLETE', 'MEDICAL_COMPLETE',
+    'PHOTOS_COMPLETE', 'PHOTOS_DECLINED', 'PHOTOS_NEED_FIX', 'PHOTOS_FIXED', 'MEDICAL_RISK_DETECTED',
+    'FOLLOWUP_SENT', 'MAX_FOLLOWUPS_REACHED', 'HANDOFF_REQUESTED', 'HANDOFF_RESOLVED',
+    'DOCTOR_APPROVED', 'SALES_PRICE_SUBMITTED', 'SALES_OFFER_SENT', 'CONVERTED',
+    'CLOSED_BY_USER', 'CLOSED_BY_ADMIN',
+  ],
+
+  transitions: [
+    // ═══════════════════════════════════════════════════════════════════════
+    // NEW V1 FLOW: NEW -> CONSENT -> FLOW_SELECTION -> FORM/CHAT
+    // ═══════════════════════════════════════════════════════════════════════
+    { from: ['NEW'], to: 'WAITING_CONSENT', event: 'CONSENT_REQUESTED' },
+    { from: ['WAITING_CONSENT'], to: 'QUALIFYING', event: 'CONSENT_GIVEN' },
+    // Declined consent stays at waiting (can still chat generally)
+    { from: ['WAITING_CONSENT'], to: 'WAITING_CONSENT', event: 'CONSENT_DECLINED' },
+    { from: ['QUALIFYING'], to: 'WAITING_FORM', event: 'FLOW_SELECTED_FORM' },
+    { from: ['QUALIFYING'], to: 'QUALIFYING', event: 'FLOW_SELECTED_CHAT' },
+    { from: ['WAITING_FORM'], to: 'READY_FOR_DOCTOR', event: 'FORM_SUBMITTED' },
+    { from: ['QUALIFYING'], to: 'WAITING_PHOTOS', event: 'PHOTO_TEMPLATE_SENT' },
+    { from: ['WAITING_PHOTOS'], to: 'PHOTO_COLLECTING', event: 'PHOTO_RECEIVED' },
+    // Medical risk detected - create notification but stay in flow
+    { from: ['QUALIFYING', 'PHOTO_COLLECTING', 'WAITING_PHOTOS'], to: 'READY_FOR_DOCTOR', event: 'MEDICAL_RISK_DETECTED' },
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // LEGACY NEW LEAD FLOW (backwards compatible)
+    // ═══════════════════════════════════════════════════════════════════════
+    { from: ['NEW'], to: 'QUALIFYING', event: 'MESSAGE_RECEIVED', guard: 'consent_given' },
+    { from: ['NEW'], to: 'WAITING_CONSENT', event: 'MESSAGE_RECEIVED', guard: '!consent_given' },
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // QUALIFYING FLOW
+    // ═══════════════════════════════════════════════════════════════════════
+    { from: ['QUALIFYING', 'WAITING_FOR_USER'], to: 'QUALIFYING', event: 'MESSAGE_RECEIVED' },
+    { from: ['DORMANT'], to: 'QUALIFYING', event: 'MESSAGE_RECEIVED' },
+    { from: ['QUALIFYING'], to: 'PHOTO_REQUESTED', event: 'QUALIFYING_COMPLETE', guard: 'has_treatment_category' },
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // PHOTO-OPTIONAL FLOW (Photos are not required)
+    // ═══════════════════════════════════════════════════════════════════════
+    { from: ['QUALIFYING'], to: 'READY_FOR_DOCTOR', event: 'MEDICAL_COMPLETE', guard: 'medical_complete' },
+    { from: ['QUALIFYING', 'PHOTO_REQUESTED'], to: 'READY_FOR_DOCTOR', event: 'PHOTOS_DECLINED', guard: 'medical_complete' },
+    { from: ['PHOTO_REQUESTED'], to: 'QUALIFYING', event: 'PHOTOS_DECLINED', guard: '!medical_complete' },
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // PHOTO COLLECTION FLOW (for users who choose to send photos)
+    // ═══════════════════════════════════════════════════════════════════════
+    { from: ['PHOTO_REQUESTED'], to: 'PHOTO_COLLECTING', event: 'PHOTO_RECEIVED' },
+    // Photo received during qualifying (user sends without being asked)
+    { from: ['QUALIFYING'], to: 'PHOTO_COLLECTING', event: 'PHOTO_RECEIVED' },
+    { from: ['PHOTO_COLLECTING'], to: 'PHOTO_COLLECTING', event: 'PHOTO_RECEIVED', guard: 'photos_incomplete' },
+    { from: ['PHOTO_COLLECTING'], to: 'PHOTO_QA_FIX', event: 'PHOTOS_NEED_FIX', guard: 'photos_need_fix' },
+    { from: ['PHOTO_QA_FIX'], to: 'PHOTO_COLLECTING', event: 'PHOTO_RECEIVED' },
+    { from: ['PHOTO_QA_FIX'], to: 'PHOTO_QA_FIX', event: 'PHOTOS_NEED_FIX' },
+    { from: ['PHOTO_QA_FIX'], to: 'READY_FOR_DOCTOR', event: 'PHOTOS_FIXED' },
+    { from: ['PHOTO_COLLECTING'], to: 'READY_FOR_DOCTOR', event: 'PHOTOS_COMPLETE', guard: 'photos_complete' },
+    { from: ['PHOTO_COLLECTING'], to: 'READY_FOR_DOCTOR', event: 'MEDICAL_COMPLETE', guard: 'medical_complete' },
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // DOCTOR & SALES FLOW
+    // ═══════════════════════════════════════════════════════════════════════
+    { from: ['READY_FOR_DOCTOR'], to: 'READY_FOR_SALES', event: 'DOCTOR_APPROVED' },
+    { from: ['READY_FOR_SALES'], to: 'SALES_PRICED', event: 'SALES_PRICE_SUBMITTED' },
+    { from: ['READY_FOR_SALES', 'SALES_PRICED'], to: 'CONVERTED', event: 'SALES_OFFER_SENT' },
+    { from: ['HANDOFF_HUMAN', 'READY_FOR_SALES', 'SALES_PRICED'], to: 'CONVERTED', event: 'CONVERTED' },
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // FOLLOW-UP & DORMANCY FLOW
+    // ═══════════════════════════════════════════════════════════════════════
+    { from: ['QUALIFYING', 'PHOTO_REQUESTED', 'PHOTO_COLLECTING', 'PHOTO_QA_FIX'], to: 'WAITING_FOR_USER', event: 'FOLLOWUP_SENT' },
+    { from: ['WAITING_FOR_USER'], to: 'DORMANT', event: 'MAX_FOLLOWUPS_REACHED' },
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // HANDOFF FLOW
+    // ═══════════════════════════════════════════════════════════════════════
+    {
+      from: ['QUALIFYING', 'PHOTO_REQUESTED', 'PHOTO_COLLECTING', 'PHOTO_QA_FIX', 'WAITING_FOR_USER', 'READY_FOR_DOCTOR'],
+      to: 'HANDOFF_HUMAN',
+      event: 'HANDOFF_REQUESTED',
+    },
+    // Agent resolves handoff -> Back to where the lead was before the handoff
+    ...HANDOFF_RETURN_STATUSES.map((status): TransitionDefinition => ({
+      from: ['HANDOFF_HUMAN'],
+      to: status,
+      event: 'HANDOFF_RESOLVED',
+      guard: 'returns_to_previous_status',
+    })),
+    // Previous status unknown (older handoffs) -> Continue qualifying
+    { from: ['HANDOFF_HUMAN'], to: 'QUALIFYING', event: 'HANDOFF_RESOLVED' },
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // CLOSE FLOW
+    // ═══════════════════════════════════════════════════════════════════════
+    { from: CLOSABLE_STATUSES, to: 'CLOSED', event: 'CLOSED_BY_USER' },
+    { from: CLOSABLE_STATUSES, to: 'CLOSED', event: 'CLOSED_BY_ADMIN' },
+  ],
+};
+
+/**
+ * Validate a definition before it is stored or activated (empty array = valid)
+ * Checks references, guard names, reachability from the initial state and dead ends.
+ */
+export function validateStateMachineDefinition(definition: StateMachineDefinition): string[] {
+  const errors: string[] = [];
+
+  if (!definition || !Array.isArray(definition.states) || !Array.isArray(definition.events) || !Array.isArray(definition.transitions)) {
+    return ['Definition must have states, events and transitions arrays'];
+  }
+
+  const states = new Set<string>();
+  for (const state of definition.states) {
+    if (!state?.name) {
+      errors.push('Every state needs a name');
+    } else if (states.has(state.name)) {
+      errors.push(`Duplicate state: ${state.name}`);
+    } else {
+      states.add(state.name);
+    }
+  }
+
+  const events = new Set(definition.events);
+  if (events.size !== definition.events.length) {
+    errors.push('Events must be unique');
+  }
+
+  if (!states.has(definition.initial_state)) {
+    errors.push(`Initial state ${definition.initial_state} is not defined`);
+  }
+
+  for (const state of CORE_STATES.filter((name) => !states.has(name))) {
+    errors.push(`State ${state} is used by the application and can't be removed`);
+  }
+  for (const event of CORE_EVENTS.filter((name) => !events.has(name))) {
+    errors.push(`Event ${event} is used by the application and can't be removed`);
+  }
+
+  const terminal = new Set(definition.states.filter((state) => state?.terminal).map((state) => state.name));
+  const outgoing = new Map<string, Set<string>>();
+  const usedEvents = new Set<string>();
+
+  definition.transitions.forEach((transition, i) => {
+    const label = `Transition #${i} (${transition?.event})`;
+
+    if (!Array.isArray(transition?.from) || transition.from.length === 0) {
+      errors.push(`${label} needs at least one source state`);
+      return;
+    }
+
+    for (const from of transition.from) {
+      if (!states.has(from)) errors.push(`${label} starts from unknown state ${from}`);
+      if (terminal.has(from)) errors.push(`${label} leaves terminal state ${from}`);
+
+      const targets = outgoing.get(from) || new Set<string>();
+      targets.add(transition.to);
+      outgoing.set(from, targets);
+    }
+
+    if (!states.has(transition.to)) errors.push(`${label} targets unknown state ${transition.to}`);
+    if (!events.has(transition.event)) errors.push(`${label} uses undeclared event`);
+    if (transition.guard && !STATE_GUARDS[transition.guard.replace(/^!/, '')]) {
+      errors.push(`${label} uses unknown guard ${transition.guard}`);
+    }
+
+    usedEvents.add(transition.event);
+  });
+
+  for (const event of events) {
+    if (!usedEvents.has(event)) errors.push(`Event ${event} is not used by any transition`);
+  }
+
+  // Every state must be reachable from the initial state...
+  const reachable = new Set<string>([definition.initial_state]);
+  const pending = [definition.initial_state];
+  while (pending.length > 0) {
+    for (const next of outgoing.get(pending.pop()!) || []) {
+      if (!reachable.has(next)) {
+        reachable.add(next);
+        pending.push(next);
+      }
+    }
+  }
+
+  for (const state of states) {
+    if (!reachable.has(state)) {
+      errors.push(`State ${state} is unreachable from ${definition.initial_state}`);
+    }
+    // ...and only terminal states may be dead ends
+    if (!terminal.has(state) && !outgoing.has(state)) {
+      errors.push(`State ${state} has no outgoing transitions (mark it terminal or add one)`);
+    }
+  }
+
+  return errors;
+}
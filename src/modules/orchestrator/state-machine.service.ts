@@ -1,20 +1,39 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SupabaseService, StateMachineVersion } from '../../common/supabase/supabase.service';
+import { User } from '../auth/auth.service';
+import {
+  StateMachineDefinition,
+  TransitionDefinition,
+  DEFAULT_STATE_MACHINE,
+  STATE_GUARDS,
+  validateStateMachineDefinition,
+} from './state-machine.definition';
 
 /**
  * Lead Status Enum
  * 
- * Flow (with photos): NEW → QUALIFYING → PHOTO_REQUESTED → PHOTO_COLLECTING → READY_FOR_DOCTOR → READY_FOR_SALES → CONVERTED
- * Flow (without photos): NEW → QUALIFYING → READY_FOR_DOCTOR → READY_FOR_SALES → CONVERTED
+ * Flow (with photos): NEW → QUALIFYING → PHOTO_REQUESTED → PHOTO_COLLECTING → READY_FOR_DOCTOR → READY_FOR_SALES → SALES_PRICED → CONVERTED
+ * Flow (without photos): NEW → QUALIFYING → READY_FOR_DOCTOR → READY_FOR_SALES → SALES_PRICED → CONVERTED
  * 
  * Alternative paths:
  * - PHOTO_COLLECTING → PHOTO_QA_FIX (if photos are incomplete/poor quality)
  * - QUALIFYING → READY_FOR_DOCTOR (if user declines photos but medical info complete)
  * - Any → HANDOFF_HUMAN (if human intervention needed)
+ * - HANDOFF_HUMAN → previous status (when the agent resolves the handoff)
  * - Any → WAITING_FOR_USER (if waiting for user response)
  * - WAITING_FOR_USER → DORMANT (if max follow-ups reached)
  * - Any → CLOSED (if user declines or admin closes)
  * 
  * Note: Photos are OPTIONAL. Lead can proceed to doctor without photos.
+ * The transitions themselves live in state-machine.definition.ts (built-in) or the
+ * active row of `state_machine_definitions`.
  */
 export type LeadStatus =
   | 'NEW'                  // Initial state - first contact
@@ -27,6 +46,7 @@ export type LeadStatus =
   | 'PHOTO_QA_FIX'         // Photos received but need fixes (incomplete/poor quality)
   | 'READY_FOR_DOCTOR'     // All medical info collected, ready for doctor (photos optional)
   | 'READY_FOR_SALES'      // Doctor approved, waiting for sales to create offer
+  | 'SALES_PRICED'         // Sales set the price range
   | 'WAITING_FOR_USER'     // Waiting for user to respond
   | 'DORMANT'              // User hasn't responded after max follow-ups
   | 'HANDOFF_HUMAN'        // Transferred to human agent
@@ -56,20 +76,15 @@ export type LeadEvent =
   | 'FOLLOWUP_SENT'           // Follow-up message sent
   | 'MAX_FOLLOWUPS_REACHED'   // No response after max follow-ups
   | 'HANDOFF_REQUESTED'       // Human handoff requested
+  | 'HANDOFF_RESOLVED'        // Human agent resolved the handoff, AI takes over again
   | 'DOCTOR_APPROVED'         // Doctor approved the case
+  | 'SALES_PRICE_SUBMITTED'   // Sales submitted the price range
   | 'SALES_OFFER_SENT'        // Sales sent offer to user
   | 'CONVERTED'               // Lead converted
   | 'CLOSED_BY_USER'          // User requested to close
   | 'CLOSED_BY_ADMIN';        // Admin closed the lead
 
-interface StateTransition {
-  from: LeadStatus[];
-  to: LeadStatus;
-  event: LeadEvent;
-  condition?: (context: StateContext) => boolean;
-}
-
-interface StateContext {
+export interface StateContext {
   lead: {
     status: LeadStatus;
     treatment_category?: string;
@@ -95,298 +110,159 @@ interface StateContext {
     sent: number;
     max: number;
   };
+  handoff?: {
+    previousStatus?: LeadStatus | null;
+  };
+}
+
+export interface LiveStateMachine extends StateMachineDefinition {
+  version: number; // 0 = built-in definition
+  source: 'built-in' | 'database';
+  graph: Record<string, string[]>;
 }
 
 @Injectable()
-export class StateMachineService {
+export class StateMachineService implements OnModuleInit {
   private readonly logger = new Logger(StateMachineService.name);
+  private definition: StateMachineDefinition = DEFAULT_STATE_MACHINE;
+  private version = 0;
 
-  // Define all valid state transitions
-  private readonly transitions: StateTransition[] = [
-    // ═══════════════════════════════════════════════════════════════════════
-    // NEW V1 FLOW: NEW -> CONSENT -> FLOW_SELECTION -> FORM/CHAT
-    // ═══════════════════════════════════════════════════════════════════════
-
-    // New lead receives first message -> Wait for consent
-    {
-      from: ['NEW'],
-      to: 'WAITING_CONSENT',
-      event: 'CONSENT_REQUESTED',
-    },
-
-    // User gives consent -> Move to qualifying
-    {
-      from: ['WAITING_CONSENT'],
-      to: 'QUALIFYING',
-      event: 'CONSENT_GIVEN',
-    },
-
-    // User declines consent -> Stay at waiting (can still chat generally)
-    {
-      from: ['WAITING_CONSENT'],
-      to: 'WAITING_CONSENT',
-      event: 'CONSENT_DECLINED',
-    },
-
-    // User selects form flow
-    {
-      from: ['QUALIFYING'],
-      to: 'WAITING_FORM',
-      event: 'FLOW_SELECTED_FORM',
-    },
-
-    // User selects chat flow - stay in qualifying
-    {
-      from: ['QUALIFYING'],
-      to: 'QUALIFYING',
-      event: 'FLOW_SELECTED_CHAT',
-    },
-
-    // Form submitted via webhook
-    {
-      from: ['WAITING_FORM'],
-      to: 'READY_FOR_DOCTOR',
-      event: 'FORM_SUBMITTED',
-    },
-
-    // Photo template sent -> waiting for photos
-    {
-      from: ['QUALIFYING'],
-      to: 'WAITING_PHOTOS',
-      event: 'PHOTO_TEMPLATE_SENT',
-    },
-
-    // Photo received while waiting for photos
-    {
-      from: ['WAITING_PHOTOS'],
-      to: 'PHOTO_COLLECTING',
-      event: 'PHOTO_RECEIVED',
-    },
-
-    // Medical risk detected - create notification but stay in flow
-    {
-      from: ['QUALIFYING', 'PHOTO_COLLECTING', 'WAITING_PHOTOS'],
-      to: 'READY_FOR_DOCTOR',
-      event: 'MEDICAL_RISK_DETECTED',
-    },
-
-    // ═══════════════════════════════════════════════════════════════════════
-    // LEGACY NEW LEAD FLOW (backwards compatible)
-    // ═══════════════════════════════════════════════════════════════════════
-    
-    // New lead receives first message (legacy - skip consent if already given)
-    {
-      from: ['NEW'],
-      to: 'QUALIFYING',
-      event: 'MESSAGE_RECEIVED',
-      condition: (ctx) => ctx.lead.consent_given === true,
-    },
-
-    // New lead without consent
-    {
-      from: ['NEW'],
-      to: 'WAITING_CONSENT',
-      event: 'MESSAGE_RECEIVED',
-      condition: (ctx) => ctx.lead.consent_given !== true,
-    },
-
-    // ═══════════════════════════════════════════════════════════════════════
-    // QUALIFYING FLOW
-    // ═══════════════════════════════════════════════════════════════════════
-
-    // Qualifying lead receives message (continues qualifying)
-    {
-      from: ['QUALIFYING', 'WAITING_FOR_USER'],
-      to: 'QUALIFYING',
-      event: 'MESSAGE_RECEIVED',
-    },
-
-    // Dormant lead comes back
-    {
-      from: ['DORMANT'],
-      to: 'QUALIFYING',
-      event: 'MESSAGE_RECEIVED',
-    },
-
-    // Qualifying complete, request photos (optional path)
-    {
-      from: ['QUALIFYING'],
-      to: 'PHOTO_REQUESTED',
-      event: 'QUALIFYING_COMPLETE',
-      condition: (ctx) => !!ctx.lead.treatment_category,
-    },
-
-    // ═══════════════════════════════════════════════════════════════════════
-    // PHOTO-OPTIONAL FLOW (NEW - Photos are not required)
-    // ═══════════════════════════════════════════════════════════════════════
-
-    // Medical info complete without photos -> Ready for doctor
-    {
-      from: ['QUALIFYING'],
-      to: 'READY_FOR_DOCTOR',
-      event: 'MEDICAL_COMPLETE',
-      condition: (ctx) => ctx.medical?.isComplete === true,
-    },
-
-    // User declines photos but has medical info -> Ready for doctor
-    {
-      from: ['QUALIFYING', 'PHOTO_REQUESTED'],
-      to: 'READY_FOR_DOCTOR',
-      event: 'PHOTOS_DECLINED',
-      condition: (ctx) => ctx.medical?.isComplete === true,
-    },
-
-    // User declines photos but medical not complete -> Stay in qualifying
-    {
-      from: ['PHOTO_REQUESTED'],
-      to: 'QUALIFYING',
-      event: 'PHOTOS_DECLINED',
-      condition: (ctx) => ctx.medical?.isComplete !== true,
-    },
-
-    // ═══════════════════════════════════════════════════════════════════════
-    // PHOTO COLLECTION FLOW (for users who choose to send photos)
-    // ═══════════════════════════════════════════════════════════════════════
-
-    // First photo received after request
-    {
-      from: ['PHOTO_REQUESTED'],
-      to: 'PHOTO_COLLECTING',
-      event: 'PHOTO_RECEIVED',
-    },
-
-    // Photo received during qualifying (user sends without being asked)
-    {
-      from: ['QUALIFYING'],
-      to: 'PHOTO_COLLECTING',
-      event: 'PHOTO_RECEIVED',
-    },
-
-    // More photos received (still collecting)
-    {
-      from: ['PHOTO_COLLECTING'],
-      to: 'PHOTO_COLLECTING',
-      event: 'PHOTO_RECEIVED',
-      condition: (ctx) => ctx.photos!.count < ctx.photos!.required,
-    },
-
-    // Photos received but need fixes (quality issues or missing angles)
-    {
-      from: ['PHOTO_COLLECTING'],
-      to: 'PHOTO_QA_FIX',
-      event: 'PHOTOS_NEED_FIX',
-      condition: (ctx) => ctx.photos!.hasQualityIssues || (ctx.photos!.missingAngles?.length ?? 0) > 0,
-    },
-
-    // User sends fixed photos
-    {
-      from: ['PHOTO_QA_FIX'],
-      to: 'PHOTO_COLLECTING',
-      event: 'PHOTO_RECEIVED',
-    },
-
-    // After fix, still needs more fixes
-    {
-      from: ['PHOTO_QA_FIX'],
-      to: 'PHOTO_QA_FIX',
-      event: 'PHOTOS_NEED_FIX',
-    },
-
-    // Fixed photos are now complete
-    {
-      from: ['PHOTO_QA_FIX'],
-      to: 'READY_FOR_DOCTOR',
-      event: 'PHOTOS_FIXED',
-    },
-
-    // All photos complete and valid
-    {
-      from: ['PHOTO_COLLECTING'],
-      to: 'READY_FOR_DOCTOR',
-      event: 'PHOTOS_COMPLETE',
-      condition: (ctx) => ctx.photos!.count >= ctx.photos!.required,
-    },
-
-    // Medical complete while collecting photos -> Ready for doctor
-    {
-      from: ['PHOTO_COLLECTING'],
-      to: 'READY_FOR_DOCTOR',
-      event: 'MEDICAL_COMPLETE',
-      condition: (ctx) => ctx.medical?.isComplete === true,
-    },
-
-    // ═══════════════════════════════════════════════════════════════════════
-    // DOCTOR & SALES FLOW
-    // ═══════════════════════════════════════════════════════════════════════
-
-    // Doctor approves -> Goes to sales
-    {
-      from: ['READY_FOR_DOCTOR'],
-      to: 'READY_FOR_SALES',
-      event: 'DOCTOR_APPROVED',
-    },
-
-    // Sales sends offer -> Converted
-    {
-      from: ['READY_FOR_SALES'],
-      to: 'CONVERTED',
-      event: 'SALES_OFFER_SENT',
-    },
-
-    // Lead converts (from various states)
-    {
-      from: ['HANDOFF_HUMAN', 'READY_FOR_SALES'],
-      to: 'CONVERTED',
-      event: 'CONVERTED',
-    },
-
-    // ═══════════════════════════════════════════════════════════════════════
-    // FOLLOW-UP & DORMANCY FLOW
-    // ═══════════════════════════════════════════════════════════════════════
-
-    // Any active state can wait for user
-    {
-      from: ['QUALIFYING', 'PHOTO_REQUESTED', 'PHOTO_COLLECTING', 'PHOTO_QA_FIX'],
-      to: 'WAITING_FOR_USER',
-      event: 'FOLLOWUP_SENT',
-    },
-
-    // Max follow-ups reached -> Dormant
-    {
-      from: ['WAITING_FOR_USER'],
-      to: 'DORMANT',
-      event: 'MAX_FOLLOWUPS_REACHED',
-    },
-
-    // ═══════════════════════════════════════════════════════════════════════
-    // HANDOFF FLOW
-    // ═══════════════════════════════════════════════════════════════════════
-
-    // Handoff from any active state
-    {
-      from: ['QUALIFYING', 'PHOTO_REQUESTED', 'PHOTO_COLLECTING', 'PHOTO_QA_FIX', 'WAITING_FOR_USER', 'READY_FOR_DOCTOR'],
-      to: 'HANDOFF_HUMAN',
-      event: 'HANDOFF_REQUESTED',
-    },
-
-    // ═══════════════════════════════════════════════════════════════════════
-    // CLOSE FLOW
-    // ═══════════════════════════════════════════════════════════════════════
-
-    // Close from any state (by user)
-    {
-      from: ['NEW', 'QUALIFYING', 'PHOTO_REQUESTED', 'PHOTO_COLLECTING', 'PHOTO_QA_FIX', 'READY_FOR_DOCTOR', 'READY_FOR_SALES', 'WAITING_FOR_USER', 'DORMANT', 'HANDOFF_HUMAN'],
-      to: 'CLOSED',
-      event: 'CLOSED_BY_USER',
-    },
-    
-    // Close from any state (by admin)
-    {
-      from: ['NEW', 'QUALIFYING', 'PHOTO_REQUESTED', 'PHOTO_COLLECTING', 'PHOTO_QA_FIX', 'READY_FOR_DOCTOR', 'READY_FOR_SALES', 'WAITING_FOR_USER', 'DORMANT', 'HANDOFF_HUMAN'],
-      to: 'CLOSED',
-      event: 'CLOSED_BY_ADMIN',
-    },
-  ];
+  constructor(private readonly supabase: SupabaseService) {}
+
+  async onModuleInit() {
+    const errors = validateStateMachineDefinition(DEFAULT_STATE_MACHINE);
+    if (errors.length > 0) {
+      throw new Error(`Built-in state machine definition is invalid: ${errors.join('; ')}`);
+    }
+
+    await this.reloadDefinition();
+  }
+
+  // ==================== DEFINITIONS ====================
+
+  /**
+   * Pick up the active stored definition (runs every minute so all instances follow an activation)
+   * An invalid or unreadable definition never replaces the one in use.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async reloadDefinition(): Promise<void> {
+    try {
+      const active = await this.supabase.getActiveStateMachineVersion();
+
+      if (!active) {
+        if (this.version !== 0) {
+          this.logger.warn('No active state machine version, falling back to built-in definition');
+          this.apply(DEFAULT_STATE_MACHINE, 0);
+        }
+        return;
+      }
+
+      if (active.version === this.version) return;
+
+      const definition = active.definition as unknown as StateMachineDefinition;
+      const errors = validateStateMachineDefinition(definition);
+      if (errors.length > 0) {
+        this.logger.error(`State machine v${active.version} is invalid, keeping v${this.version}: ${errors.join('; ')}`);
+        return;
+      }
+
+      this.apply(definition, active.version);
+    } catch (error) {
+      this.logger.error('Failed to load state machine definition:', error);
+    }
+  }
+
+  /**
+   * The definition currently in use, with the event graph per state
+   */
+  getLiveDefinition(): LiveStateMachine {
+    return {
+      version: this.version,
+      source: this.version === 0 ? 'built-in' : 'database',
+      ...this.definition,
+      graph: this.getStateGraph(),
+    };
+  }
+
+  async listVersions(limit?: number): Promise<StateMachineVersion[]> {
+    return this.supabase.getStateMachineVersions(limit);
+  }
+
+  /**
+   * Store a new version (numbered after the latest one), optionally activating it right away
+   */
+  async publishVersion(
+    definition: StateMachineDefinition,
+    user: User,
+    options: { notes?: string; activate?: boolean } = {},
+  ): Promise<StateMachineVersion> {
+    this.assertValid(definition);
+
+    const [latest] = await this.supabase.getStateMachineVersions(1);
+    const created = await this.supabase.createStateMachineVersion({
+      version: (latest?.version ?? 0) + 1,
+      definition: definition as unknown as Record<string, unknown>,
+      notes: options.notes,
+      created_by: user.id,
+    });
+
+    await this.supabase.createAuditLog({
+      action: 'state_machine_published',
+      entity_type: 'state_machine',
+      entity_id: created.id,
+      user_id: user.id,
+      user_role: user.role,
+      new_value: { version: created.version, notes: options.notes || null },
+    });
+
+    this.logger.log(`🗺️ State machine v${created.version} published by ${user.email}`);
+
+    return options.activate ? this.activateVersion(created.version, user) : created;
+  }
+
+  /**
+   * Make a stored version live on this instance now (others pick it up within a minute)
+   */
+  async activateVersion(version: number, user: User): Promise<StateMachineVersion> {
+    const stored = await this.supabase.getStateMachineVersion(version);
+    if (!stored) {
+      throw new NotFoundException(`State machine version not found: ${version}`);
+    }
+
+    const definition = stored.definition as unknown as StateMachineDefinition;
+    this.assertValid(definition);
+
+    const activated = await this.supabase.activateStateMachineVersion(stored.id);
+    const previousVersion = this.version;
+    this.apply(definition, activated.version);
+
+    await this.supabase.createAuditLog({
+      action: 'state_machine_activated',
+      entity_type: 'state_machine',
+      entity_id: activated.id,
+      user_id: user.id,
+      user_role: user.role,
+      old_value: { version: previousVersion },
+      new_value: { version: activated.version },
+    });
+
+    return activated;
+  }
+
+  private assertValid(definition: StateMachineDefinition): void {
+    const errors = validateStateMachineDefinition(definition);
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid state machine definition', errors });
+    }
+  }
+
+  private apply(definition: StateMachineDefinition, version: number): void {
+    this.definition = definition;
+    this.version = version;
+    this.logger.log(`🗺️ State machine v${version} loaded (${definition.states.length} states, ${definition.transitions.length} transitions)`);
+  }
+
+  // ==================== TRANSITIONS ====================
 
   /**
    * Check if a transition is valid
@@ -402,7 +278,7 @@ export class StateMachineService {
   getNextState(from: LeadStatus, event: LeadEvent, context?: StateContext): LeadStatus | null {
     const transition = this.findTransition(from, event, context);
     if (transition) {
-      return transition.to;
+      return transition.to as LeadStatus;
     }
     return null;
   }
@@ -413,9 +289,9 @@ export class StateMachineService {
   getPossibleEvents(from: LeadStatus): LeadEvent[] {
     const events = new Set<LeadEvent>();
     
-    for (const transition of this.transitions) {
+    for (const transition of this.definition.transitions) {
       if (transition.from.includes(from)) {
-        events.add(transition.event);
+        events.add(transition.event as LeadEvent);
       }
     }
 
@@ -447,12 +323,12 @@ export class StateMachineService {
     };
   }
 
-  private findTransition(from: LeadStatus, event: LeadEvent, context?: StateContext): StateTransition | null {
-    for (const transition of this.transitions) {
+  private findTransition(from: LeadStatus, event: LeadEvent, context?: StateContext): TransitionDefinition | null {
+    for (const transition of this.definition.transitions) {
       if (transition.from.includes(from) && transition.event === event) {
-        // Check condition if present
-        if (transition.condition) {
-          if (context && transition.condition(context)) {
+        // Check guard if present (guarded transitions need a context)
+        if (transition.guard) {
+          if (context && this.checkGuard(transition, context)) {
             return transition;
           }
         } else {
@@ -463,21 +339,20 @@ export class StateMachineService {
     return null;
   }
 
+  private checkGuard(transition: TransitionDefinition, context: StateContext): boolean {
+    const negated = transition.guard!.startsWith('!');
+    const guard = STATE_GUARDS[transition.guard!.replace(/^!/, '')];
+    return negated ? !guard(context, transition) : guard(context, transition);
+  }
+
   /**
    * Get a visual representation of the state machine for debugging
    */
   getStateGraph(): Record<LeadStatus, LeadEvent[]> {
     const graph: Record<string, LeadEvent[]> = {};
 
-    const allStates: LeadStatus[] = [
-      'NEW', 'WAITING_CONSENT', 'QUALIFYING', 'WAITING_FORM', 'WAITING_PHOTOS',
-      'PHOTO_REQUESTED', 'PHOTO_COLLECTING', 'PHOTO_QA_FIX',
-      'READY_FOR_DOCTOR', 'READY_FOR_SALES', 'WAITING_FOR_USER', 'DORMANT', 
-      'HANDOFF_HUMAN', 'CONVERTED', 'CLOSED'
-    ];
-
-    for (const state of allStates) {
-      graph[state] = this.getPossibleEvents(state);
+    for (const state of this.definition.states) {
+      graph[state.name] = this.getPossibleEvents(state.name as LeadStatus);
     }
 
     return graph as Record<LeadStatus, LeadEvent[]>;
@@ -487,24 +362,7 @@ export class StateMachineService {
    * Get human-readable state description
    */
   getStateDescription(status: LeadStatus): string {
-    const descriptions: Record<LeadStatus, string> = {
-      'NEW': 'New lead - initial contact',
-      'WAITING_CONSENT': 'Waiting for KVKK/GDPR consent approval',
-      'QUALIFYING': 'Gathering information (treatment, concerns, timeline, medical history)',
-      'WAITING_FORM': 'User chose form flow, waiting for form submission',
-      'WAITING_PHOTOS': 'Photo template sent, waiting for photos',
-      'PHOTO_REQUESTED': 'Photos requested (optional)',
-      'PHOTO_COLLECTING': 'Receiving and validating photos',
-      'PHOTO_QA_FIX': 'Photos need fixes (quality issues or missing angles)',
-      'READY_FOR_DOCTOR': 'All medical info collected, ready for doctor (photos optional)',
-      'READY_FOR_SALES': 'Doctor approved, waiting for sales offer',
-      'WAITING_FOR_USER': 'Waiting for user to respond',
-      'DORMANT': 'User inactive after multiple follow-ups',
-      'HANDOFF_HUMAN': 'Transferred to human agent',
-      'CONVERTED': 'Lead converted to customer',
-      'CLOSED': 'Lead closed',
-    };
-    return descriptions[status] || 'Unknown status';
+    return this.definition.states.find((state) => state.name === status)?.description || 'Unknown status';
   }
 
   /**
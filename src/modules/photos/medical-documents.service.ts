@@ -0,0 +1,191 @@
+import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import * as pdfParse from 'pdf-parse';
+import {
+  SupabaseService,
+  Lead,
+  LeadProfile,
+  MedicalDocument,
+} from '../../common/supabase/supabase.service';
+import { AiClientService } from '../ai-client/ai-client.service';
+
+// Keep the extraction request small - reports rarely need more than the first pages
+const MAX_EXTRACTION_CHARS = 15000;
+
+// Documents only fill in medical history; personal and treatment details come from the chat
+const DOCUMENT_PROFILE_FIELDS = [
+  'has_allergies',
+  'allergies_detail',
+  'has_chronic_disease',
+  'chronic_disease_detail',
+  'has_blood_disease',
+  'blood_disease_detail',
+  'uses_blood_thinners',
+  'blood_thinner_detail',
+  'has_previous_surgery',
+  'previous_surgery_detail',
+  'has_previous_hair_transplant',
+  'previous_hair_transplant_detail',
+  'current_medications',
+] as const;
+
+@Injectable()
+export class MedicalDocumentsService {
+  private readonly logger = new Logger(MedicalDocumentsService.name);
+
+  constructor(
+    private readonly supabase: SupabaseService,
+    @Inject(forwardRef(() => AiClientService))
+    private readonly aiClientService: AiClientService,
+  ) {}
+
+  /**
+   * Store a document sent by the lead, extract its text and fill medical history from it
+   * Extraction sends the text to the AI service, so it waits (status 'pending') until the lead consented
+   */
+  async saveDocument(
+    lead: Lead & { lead_profile: LeadProfile | null },
+    file: { buffer: Buffer; fileName?: string; mimeType?: string },
+    messageId?: string,
+  ): Promise<MedicalDocument> {
+    const mimeType = file.mimeType || 'application/octet-stream';
+    const extension = this.getExtension(file.fileName, mimeType);
+    const storagePath = `leads/${lead.id}/documents/${uuidv4()}.${extension}`;
+
+    await this.supabase.uploadFile('lead-media-private', storagePath, file.buffer, mimeType);
+
+    const document = await this.supabase.createMedicalDocument({
+      lead_id: lead.id,
+      message_id: messageId,
+      storage_path: storagePath,
+      file_name: file.fileName,
+      file_size: file.buffer.length,
+      mime_type: mimeType,
+    });
+
+    this.logger.log(`📄 Medical document saved for lead ${lead.id}: ${file.fileName || storagePath}`);
+
+    if (lead.lead_profile?.consent_given !== true) {
+      this.logger.log(`Document ${document.id} kept pending until lead ${lead.id} gives consent`);
+      return document;
+    }
+
+    await this.extractDocument(lead, document, file.buffer);
+    return document;
+  }
+
+  /**
+   * Extract the documents a lead sent before giving consent
+   */
+  async extractPendingDocuments(leadId: string): Promise<void> {
+    const lead = await this.supabase.getLeadById(leadId);
+    if (lead.lead_profile?.consent_given !== true) return;
+
+    const pending = (await this.supabase.getLeadDocuments(leadId))
+      .filter((document) => document.extraction_status === 'pending')
+      .reverse(); // Oldest first
+
+    for (const document of pending) {
+      const buffer = await this.supabase.downloadFile(document.storage_bucket, document.storage_path);
+      // Fields filled by an earlier document are not overwritten by a later one
+      await this.extractDocument(await this.supabase.getLeadById(leadId), document, buffer);
+    }
+
+    if (pending.length > 0) {
+      this.logger.log(`📄 Extracted ${pending.length} pending document(s) for lead ${leadId}`);
+    }
+  }
+
+  private async extractDocument(
+    lead: Lead & { lead_profile: LeadProfile | null },
+    document: MedicalDocument,
+    buffer: Buffer,
+  ): Promise<void> {
+    const mimeType = document.mime_type || 'application/octet-stream';
+
+    try {
+      const text = await this.extractText(buffer, mimeType);
+      if (!text) {
+        await this.supabase.updateMedicalDocument(document.id, { extraction_status: 'unsupported' });
+        return;
+      }
+
+      const extraction = await this.aiClientService.extractInfo({
+        message: `[Medical document: ${document.file_name || 'attachment'}]\n${text.slice(0, MAX_EXTRACTION_CHARS)}`,
+        language: lead.language || 'en',
+        existingProfile: (lead.lead_profile || undefined) as Record<string, unknown> | undefined,
+      });
+
+      await this.supabase.updateMedicalDocument(document.id, {
+        extraction_status: 'extracted',
+        extracted_text: text,
+        extracted_fields: extraction,
+      });
+
+      if (extraction) {
+        await this.applyToProfile(lead, extraction);
+      }
+    } catch (error) {
+      this.logger.error(`Text extraction failed for document ${document.id}:`, error);
+      await this.supabase.updateMedicalDocument(document.id, { extraction_status: 'failed' });
+    }
+  }
+
+  /**
+   * Extract plain text (null when the format is not supported, e.g. scanned images)
+   */
+  private async extractText(buffer: Buffer, mimeType: string): Promise<string | null> {
+    if (mimeType === 'application/pdf') {
+      const result = await pdfParse(buffer);
+      const text = result.text.replace(/\n{3,}/g, '\n\n').trim();
+      return text || null;
+    }
+
+    if (mimeType.startsWith('text/')) {
+      return buffer.toString('utf-8').trim() || null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Fill empty medical history fields - values the lead gave in chat are never overwritten
+   */
+  private async applyToProfile(
+    lead: Lead & { lead_profile: LeadProfile | null },
+    extraction: Record<string, unknown>,
+  ): Promise<void> {
+    const profile = (lead.lead_profile || {}) as Record<string, unknown>;
+    const updates: Record<string, unknown> = {};
+
+    for (const field of DOCUMENT_PROFILE_FIELDS) {
+      const value = extraction[field];
+      if (value === null || value === undefined || value === '') continue;
+      if (profile[field] !== null && profile[field] !== undefined) continue;
+
+      updates[field] = field.startsWith('has_') || field.startsWith('uses_')
+        ? (typeof value === 'string' ? ['yes', 'true'].includes(value.toLowerCase()) : Boolean(value))
+        : value;
+    }
+
+    if (Object.keys(updates).length === 0) return;
+
+    await this.supabase.upsertLeadProfile(lead.id, updates);
+    this.logger.log(`🩺 Profile updated from document for lead ${lead.id}: ${Object.keys(updates).join(', ')}`);
+  }
+
+  private getExtension(fileName: string | undefined, mimeType: string): string {
+    const fromName = fileName?.split('.').pop();
+    if (fromName && fromName !== fileName && fromName.length <= 5) {
+      return fromName.toLowerCase();
+    }
+
+    const mapping: Record<string, string> = {
+      'application/pdf': 'pdf',
+      'text/plain': 'txt',
+      'image/jpeg': 'jpg',
+      'image/png': 'png',
+    };
+    return mapping[mimeType] || 'bin';
+  }
+}
@@ -2,6 +2,7 @@ import { Module, forwardRef } from '@nestjs/common';
 import { PhotosController } from './photos.controller';
 import { PhotosService } from './photos.service';
 import { PhotoAnalyzerService } from './photo-analyzer.service';
+import { MedicalDocumentsService } from './medical-documents.service';
 import { SupabaseModule } from '../../common/supabase/supabase.module';
 import { QueueModule } from '../../common/queue/queue.module';
 import { AuthModule } from '../auth/auth.module';
@@ -15,8 +16,8 @@ import { AiClientModule } from '../ai-client/ai-client.module';
     forwardRef(() => AiClientModule),
   ],
   controllers: [PhotosController],
-  providers: [PhotosService, PhotoAnalyzerService],
-  exports: [PhotosService, PhotoAnalyzerService],
+  providers: [PhotosService, PhotoAnalyzerService, MedicalDocumentsService],
+  exports: [PhotosService, PhotoAnalyzerService, MedicalDocumentsService],
 })
 export class PhotosModule {}
 
@@ -0,0 +1,13 @@
+export interface TranscriptionResult {
+  text: string;
+  language?: string; // ISO 639-1 code detected by the provider
+  durationSeconds?: number;
+}
+
+/**
+ * Speech-to-text backend used by TranscriptionService
+ */
+export interface SpeechToTextProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, mimeType: string, languageHint?: string): Promise<TranscriptionResult>;
+}
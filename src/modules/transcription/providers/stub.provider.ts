@@ -0,0 +1,18 @@
+import { SpeechToTextProvider, TranscriptionResult } from './speech-to-text.provider';
+
+/**
+ * Local stub for development and tests - returns a fixed transcript without calling any API
+ */
+export class StubProvider implements SpeechToTextProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly text: string) {}
+
+  async transcribe(audio: Buffer, _mimeType: string, languageHint?: string): Promise<TranscriptionResult> {
+    return {
+      text: this.text,
+      language: languageHint,
+      durationSeconds: Math.round(audio.length / 16000), // ~16KB/s for compressed voice notes
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import axios from 'axios';
+import { SpeechToTextProvider, TranscriptionResult } from './speech-to-text.provider';
+
+/**
+ * OpenAI Whisper (or any API compatible with /v1/audio/transcriptions)
+ */
+export class WhisperProvider implements SpeechToTextProvider {
+  readonly name = 'whisper';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly apiUrl: string,
+    private readonly model: string,
+  ) {}
+
+  async transcribe(audio: Buffer, mimeType: string, languageHint?: string): Promise<TranscriptionResult> {
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(audio)], { type: mimeType }), `voice.${this.getExtension(mimeType)}`);
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+    if (languageHint) {
+      form.append('language', languageHint.split(/[-_]/)[0]);
+    }
+
+    const response = await axios.post(`${this.apiUrl}/audio/transcriptions`, form, {
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      timeout: 60000,
+    });
+
+    return {
+      text: (response.data.text || '').trim(),
+      language: this.toIsoCode(response.data.language),
+      durationSeconds: response.data.duration,
+    };
+  }
+
+  private getExtension(mimeType: string): string {
+    const mapping: Record<string, string> = {
+      'audio/ogg': 'ogg',
+      'audio/mpeg': 'mp3',
+      'audio/mp4': 'm4a',
+      'audio/aac': 'aac',
+      'audio/amr': 'amr',
+      'audio/wav': 'wav',
+      'audio/webm': 'webm',
+    };
+    return mapping[mimeType.split(';')[0].trim()] || 'ogg';
+  }
+
+  // verbose_json reports the language name ('turkish'), we store codes
+  private toIsoCode(language?: string): string | undefined {
+    if (!language) return undefined;
+
+    const mapping: Record<string, string> = {
+      turkish: 'tr',
+      english: 'en',
+      arabic: 'ar',
+      french: 'fr',
+      russian: 'ru',
+      german: 'de',
+      spanish: 'es',
+      italian: 'it',
+      persian: 'fa',
+    };
+    return mapping[language.toLowerCase()] || (language.length === 2 ? language : undefined);
+  }
+}
@@ -0,0 +1,71 @@
+import axios from 'axios';
+import { ConfigService } from '@nestjs/config';
+import { TranscriptionService } from './transcription.service';
+import { WhisperProvider } from './providers/whisper.provider';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const createService = (env: Record<string, string>): TranscriptionService => {
+  const configService = {
+    get: (key: string, defaultValue?: unknown) => env[key] ?? defaultValue,
+  } as unknown as ConfigService;
+  return new TranscriptionService(configService);
+};
+
+describe('TranscriptionService', () => {
+  afterEach(() => jest.resetAllMocks());
+
+  it('is disabled unless STT_PROVIDER is set, even with an OpenAI key', async () => {
+    const service = createService({ OPENAI_API_KEY: 'sk-test' });
+
+    expect(service.isEnabled()).toBe(false);
+    expect(await service.transcribe(Buffer.from('audio'), 'audio/ogg')).toBeNull();
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+  });
+
+  it('stays disabled when whisper has no API key', () => {
+    expect(createService({ STT_PROVIDER: 'whisper' }).isEnabled()).toBe(false);
+  });
+
+  it('transcribes with the configured provider', async () => {
+    const service = createService({ STT_PROVIDER: 'stub', STT_STUB_TEXT: 'Merhaba' });
+
+    const transcript = await service.transcribe(Buffer.alloc(32000), 'audio/ogg', 'tr');
+
+    expect(transcript).toMatchObject({ text: 'Merhaba', language: 'tr', durationSeconds: 2, provider: 'stub' });
+    expect(transcript?.transcribedAt).toEqual(expect.any(String));
+  });
+
+  it('returns null when nothing was heard', async () => {
+    const service = createService({ STT_PROVIDER: 'stub', STT_STUB_TEXT: '' });
+    expect(await service.transcribe(Buffer.from('audio'), 'audio/ogg')).toBeNull();
+  });
+
+  it('returns null when the provider fails', async () => {
+    mockedAxios.post.mockRejectedValue(new Error('timeout'));
+    const service = createService({ STT_PROVIDER: 'whisper', STT_API_KEY: 'sk-test' });
+
+    expect(await service.transcribe(Buffer.from('audio'), 'audio/ogg')).toBeNull();
+  });
+});
+
+describe('WhisperProvider', () => {
+  afterEach(() => jest.resetAllMocks());
+
+  it('posts the audio and maps the detected language to its ISO code', async () => {
+    mockedAxios.post.mockResolvedValue({ data: { text: ' Merhaba ', language: 'turkish', duration: 3.2 } });
+    const provider = new WhisperProvider('sk-test', 'https://stt.example.com/v1', 'whisper-1');
+
+    const result = await provider.transcribe(Buffer.from('audio'), 'audio/ogg; codecs=opus', 'tr-TR');
+
+    expect(result).toEqual({ text: 'Merhaba', language: 'tr', durationSeconds: 3.2 });
+
+    const [url, form, options] = mockedAxios.post.mock.calls[0];
+    expect(url).toBe('https://stt.example.com/v1/audio/transcriptions');
+    expect((form as FormData).get('model')).toBe('whisper-1');
+    expect((form as FormData).get('language')).toBe('tr');
+    expect(((form as FormData).get('file') as File).name).toBe('voice.ogg');
+    expect(options?.headers).toEqual({ Authorization: 'Bearer sk-test' });
+  });
+});
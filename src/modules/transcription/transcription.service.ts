@@ -0,0 +1,81 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SpeechToTextProvider, TranscriptionResult } from './providers/speech-to-text.provider';
+import { WhisperProvider } from './providers/whisper.provider';
+import { StubProvider } from './providers/stub.provider';
+
+export interface VoiceTranscript extends TranscriptionResult {
+  provider: string;
+  transcribedAt: string;
+}
+
+@Injectable()
+export class TranscriptionService {
+  private readonly logger = new Logger(TranscriptionService.name);
+  private readonly provider: SpeechToTextProvider | null;
+
+  constructor(private readonly configService: ConfigService) {
+    this.provider = this.createProvider();
+    this.logger.log(`Speech-to-text provider: ${this.provider?.name || 'disabled'}`);
+  }
+
+  isEnabled(): boolean {
+    return !!this.provider;
+  }
+
+  /**
+   * Transcribe a voice note - returns null if STT is disabled, fails or hears nothing
+   */
+  async transcribe(audio: Buffer, mimeType: string, languageHint?: string): Promise<VoiceTranscript | null> {
+    if (!this.provider) return null;
+
+    try {
+      const startTime = Date.now();
+      const result = await this.provider.transcribe(audio, mimeType, languageHint);
+
+      if (!result.text) {
+        this.logger.warn('Transcription returned empty text');
+        return null;
+      }
+
+      this.logger.log(
+        `🎙️ Voice note transcribed by ${this.provider.name} in ${Date.now() - startTime}ms ` +
+        `(${result.text.length} chars, language=${result.language || 'unknown'})`,
+      );
+
+      return {
+        ...result,
+        provider: this.provider.name,
+        transcribedAt: new Date().toISOString(),
+      };
+    } catch (error: any) {
+      this.logger.error('Voice note transcription failed:', error.response?.data || error.message);
+      return null;
+    }
+  }
+
+  private createProvider(): SpeechToTextProvider | null {
+    const apiKey = this.configService.get<string>('STT_API_KEY') || this.configService.get<string>('OPENAI_API_KEY');
+    // Voice notes are patient data sent to a third party - only an explicit STT_PROVIDER turns it on
+    const providerName = this.configService.get<string>('STT_PROVIDER', 'none');
+
+    switch (providerName) {
+      case 'whisper':
+        if (!apiKey) {
+          this.logger.warn('STT_PROVIDER=whisper but no STT_API_KEY / OPENAI_API_KEY configured');
+          return null;
+        }
+        return new WhisperProvider(
+          apiKey,
+          this.configService.get<string>('STT_API_URL', 'https://api.openai.com/v1'),
+          this.configService.get<string>('STT_MODEL', 'whisper-1'),
+        );
+      case 'stub':
+        return new StubProvider(
+          this.configService.get<string>('STT_STUB_TEXT', 'This is a transcribed voice message.'),
+        );
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,420 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as nodemailer from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
+import { SupabaseService, Conversation } from '../../../common/supabase/supabase.service';
+import { NormalizedMessage, OutgoingMessage } from '../interfaces/normalized-message.interface';
+
+/**
+ * Provider-agnostic inbound email payload
+ * (inbound-parse webhooks or a local IMAP poller post this shape to /webhooks/email)
+ */
+export interface InboundEmailPayload {
+  from: string; // "Jane Doe <jane@example.com>" or "jane@example.com"
+  to?: string;
+  subject?: string;
+  text?: string;
+  html?: string;
+  messageId: string;
+  inReplyTo?: string;
+  references?: string | string[];
+  date?: string;
+  attachments?: InboundEmailAttachment[];
+}
+
+export interface InboundEmailAttachment {
+  filename?: string;
+  contentType: string;
+  content?: string; // base64
+  url?: string;
+}
+
+// Thread state kept in conversations.metadata.email_thread
+interface EmailThread {
+  subject?: string;
+  messageIds: string[];
+}
+
+// Max Message-IDs kept for the References header
+const MAX_THREAD_REFERENCES = 20;
+
+// Max Message-IDs remembered per thread (sent and received), used to match replies to their conversation
+const MAX_THREAD_MESSAGE_IDS = 200;
+
+// Attachments handled as medical documents (lab results, reports)
+const DOCUMENT_CONTENT_TYPES = ['application/pdf', 'text/plain'];
+
+// Inbound attachments larger than this are dropped (inline or downloaded)
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+const ATTACHMENT_DOWNLOAD_TIMEOUT_MS = 15000;
+
+@Injectable()
+export class EmailAdapter {
+  private readonly logger = new Logger(EmailAdapter.name);
+  private readonly transporter: nodemailer.Transporter;
+  private readonly fromAddress: string;
+  private readonly messageIdDomain: string;
+  private readonly attachmentHosts: string[];
+
+  constructor(
+    private configService: ConfigService,
+    private readonly supabase: SupabaseService,
+  ) {
+    // Defaults target a local SMTP stand-in (e.g. MailHog / Mailpit on port 1025)
+    const smtpUser = this.configService.get<string>('SMTP_USER');
+    this.transporter = nodemailer.createTransport({
+      host: this.configService.get<string>('SMTP_HOST', 'localhost'),
+      port: Number(this.configService.get<number>('SMTP_PORT', 1025)),
+      secure: this.configService.get<string>('SMTP_SECURE') === 'true',
+      auth: smtpUser
+        ? { user: smtpUser, pass: this.configService.get<string>('SMTP_PASSWORD', '') }
+        : undefined,
+    });
+
+    this.fromAddress = this.configService.get<string>('EMAIL_FROM', 'Natural Clinic <no-reply@naturalclinic.com>');
+    this.messageIdDomain = this.parseAddress(this.fromAddress).address.split('@')[1] || 'localhost';
+
+    // Hosts attachment URLs may point to (the inbound-parse provider's storage) - none by default,
+    // so only inline base64 attachments are accepted unless a host is allow-listed
+    this.attachmentHosts = this.configService.get<string>('EMAIL_ATTACHMENT_HOSTS', '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  normalizeInbound(payload: InboundEmailPayload): NormalizedMessage[] {
+    const normalizedMessages: NormalizedMessage[] = [];
+
+    if (!payload?.from || !payload.messageId) {
+      this.logger.warn('Inbound email without sender or Message-ID, skipping');
+      return normalizedMessages;
+    }
+
+    const sender = this.parseAddress(payload.from);
+    const references = Array.isArray(payload.references)
+      ? payload.references
+      : (payload.references || '').split(/\s+/).filter(Boolean);
+
+    const email: NonNullable<NormalizedMessage['email']> = {
+      subject: payload.subject,
+      messageId: payload.messageId,
+      inReplyTo: payload.inReplyTo,
+      references,
+    };
+
+    const base = {
+      channel: 'email' as const,
+      channelUserId: sender.address,
+      senderName: sender.name,
+      email,
+      timestamp: payload.date ? new Date(payload.date) : new Date(),
+    };
+
+    const content = this.stripQuotedReply(payload.text || this.htmlToText(payload.html || ''));
+    const imageAttachments = (payload.attachments || []).filter((a) => a.contentType?.startsWith('image/'));
+    const documentAttachments = (payload.attachments || []).filter((a) => DOCUMENT_CONTENT_TYPES.includes(a.contentType));
+
+    // First message carries the text (and the first image, if any)
+    normalizedMessages.push({
+      ...base,
+      channelMessageId: payload.messageId,
+      content,
+      mediaType: imageAttachments.length > 0 ? 'image' : 'text',
+      mediaUrl: imageAttachments.length > 0 ? this.getAttachmentRef(imageAttachments[0]) : undefined,
+      rawPayload: { attachment: imageAttachments[0] } as Record<string, unknown>,
+    });
+
+    // Each additional image / document becomes its own message so it goes through media processing
+    const extraAttachments = [
+      ...imageAttachments.slice(1).map((attachment) => ({ attachment, mediaType: 'image' as const })),
+      ...documentAttachments.map((attachment) => ({ attachment, mediaType: 'document' as const })),
+    ];
+
+    extraAttachments.forEach(({ attachment, mediaType }, index) => {
+      normalizedMessages.push({
+        ...base,
+        channelMessageId: `${payload.messageId}#${index + 2}`,
+        mediaType,
+        mediaUrl: this.getAttachmentRef(attachment),
+        mimeType: attachment.contentType,
+        fileName: attachment.filename,
+        rawPayload: { attachment } as Record<string, unknown>,
+      });
+    });
+
+    return normalizedMessages;
+  }
+
+  /**
+   * Get attachment bytes for a normalized email message (inline base64, or a URL on an allow-listed https host)
+   */
+  async getAttachmentBuffer(message: NormalizedMessage): Promise<Buffer | null> {
+    const attachment = message.rawPayload?.attachment as InboundEmailAttachment | undefined;
+    if (!attachment) return null;
+
+    if (attachment.content) {
+      const buffer = Buffer.from(attachment.content, 'base64');
+      if (buffer.length > MAX_ATTACHMENT_BYTES) {
+        this.logger.warn(`Email attachment skipped, ${buffer.length} bytes is over the limit`);
+        return null;
+      }
+      return buffer;
+    }
+
+    if (attachment.url) {
+      if (!this.isAllowedAttachmentUrl(attachment.url)) {
+        this.logger.warn(`Email attachment skipped, URL host is not allow-listed: ${attachment.url}`);
+        return null;
+      }
+
+      try {
+        const response = await axios.get(attachment.url, {
+          responseType: 'arraybuffer',
+          timeout: ATTACHMENT_DOWNLOAD_TIMEOUT_MS,
+          maxContentLength: MAX_ATTACHMENT_BYTES,
+          maxRedirects: 0, // A redirect could lead off the allow-listed host
+        });
+        return Buffer.from(response.data);
+      } catch (error) {
+        this.logger.error('Failed to download email attachment:', error);
+        throw error;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Only https URLs on a host from EMAIL_ATTACHMENT_HOSTS are fetched
+   */
+  private isAllowedAttachmentUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === 'https:' && this.attachmentHosts.includes(parsed.hostname.toLowerCase());
+    } catch {
+      return false;
+    }
+  }
+
+  async sendMessage(message: OutgoingMessage): Promise<string> {
+    return this.sendEmail(message.channelUserId, message.content, {
+      mediaUrl: message.mediaUrl,
+    });
+  }
+
+  /**
+   * Record an inbound email on its conversation's thread (for In-Reply-To / References)
+   */
+  async recordInboundThread(conversation: Conversation, email: NonNullable<NormalizedMessage['email']>): Promise<void> {
+    await this.appendToThread(conversation.id, email.messageId, email.subject);
+  }
+
+  /**
+   * Send KVKK consent message (email has no buttons - user replies "Yes")
+   */
+  async sendKvkkConsentMessage(
+    to: string,
+    language: string,
+    kvkkLinkUrl: string,
+  ): Promise<string> {
+    const messages: Record<string, string> = {
+      tr: `Size daha iyi yardımcı olabilmem için birkaç bilgi ve fotoğraf isteyeceğim.\n\nPaylaştığınız bilgiler yalnızca doktor değerlendirmesi için kullanılacaktır.\n\n📋 KVKK Aydınlatma Metni: ${kvkkLinkUrl}\n\nOnaylıyorsanız lütfen bu e-postayı "Evet" yazarak yanıtlayın.`,
+      en: `To better assist you, I'll need to ask for some information and photos.\n\nThe information you share will only be used for doctor evaluation.\n\n📋 Privacy Policy: ${kvkkLinkUrl}\n\nIf you approve, please reply to this email with "Yes".`,
+      ar: `لمساعدتك بشكل أفضل، سأحتاج إلى بعض المعلومات والصور.\n\nالمعلومات التي تشاركها ستُستخدم فقط لتقييم الطبيب.\n\n📋 سياسة الخصوصية: ${kvkkLinkUrl}\n\nإذا كنت توافق، يرجى الرد على هذا البريد بكلمة "نعم".`,
+      fr: `Pour mieux vous aider, j'aurai besoin de quelques informations et photos.\n\nLes informations partagées seront uniquement utilisées pour l'évaluation médicale.\n\n📋 Politique de confidentialité: ${kvkkLinkUrl}\n\nSi vous êtes d'accord, veuillez répondre à cet e-mail par "Oui".`,
+    };
+
+    return this.sendEmail(to, messages[language] || messages.en);
+  }
+
+  /**
+   * Send flow selection after KVKK approval (Form vs Chat)
+   */
+  async sendFlowSelectionMessage(
+    to: string,
+    language: string,
+    formUrl: string,
+  ): Promise<string> {
+    const messages: Record<string, string> = {
+      tr: `Teşekkürler! Şimdi nasıl devam etmek istersiniz?\n\n📝 Form: ${formUrl}\n💬 Danışman: Bu e-postayı yanıtlayarak benimle devam edebilirsiniz.`,
+      en: `Thank you! How would you like to continue?\n\n📝 Form: ${formUrl}\n💬 Consultant: Simply reply to this email to continue with me.`,
+      ar: `شكراً! كيف تريد المتابعة؟\n\n📝 النموذج: ${formUrl}\n💬 المستشار: ما عليك سوى الرد على هذا البريد للمتابعة معي.`,
+      fr: `Merci! Comment souhaitez-vous continuer?\n\n📝 Formulaire: ${formUrl}\n💬 Consultant: Répondez simplement à cet e-mail pour continuer avec moi.`,
+    };
+
+    return this.sendEmail(to, messages[language] || messages.en);
+  }
+
+  /**
+   * Send form link message
+   */
+  async sendFormLinkMessage(
+    to: string,
+    language: string,
+    formUrl: string,
+  ): Promise<string> {
+    const messages: Record<string, string> = {
+      tr: `Harika seçim! 📝\n\nHasta bilgi formunu doldurmak için: ${formUrl}\n\nForm tamamlandığında doktorlarımız değerlendirecektir.`,
+      en: `Great choice! 📝\n\nFill out the patient information form here: ${formUrl}\n\nOnce completed, our doctors will evaluate.`,
+      ar: `اختيار رائع! 📝\n\nاملأ نموذج معلومات المريض هنا: ${formUrl}\n\nبمجرد الانتهاء، سيقوم أطباؤنا بالتقييم.`,
+      fr: `Excellent choix! 📝\n\nRemplissez le formulaire d'information patient ici: ${formUrl}\n\nUne fois terminé, nos médecins évalueront.`,
+    };
+
+    return this.sendEmail(to, messages[language] || messages.en);
+  }
+
+  // ==================== INTERNAL ====================
+
+  private async sendEmail(
+    to: string,
+    text: string,
+    options: { mediaUrl?: string } = {},
+  ): Promise<string> {
+    const conversation = await this.getConversationForRecipient(to);
+    const thread = conversation ? this.getThread(conversation) : { messageIds: [] };
+    const lastMessageId = thread.messageIds[thread.messageIds.length - 1];
+
+    const baseSubject = thread.subject || 'Natural Clinic';
+    const subject = /^re:/i.test(baseSubject) ? baseSubject : `Re: ${baseSubject}`;
+    const messageId = `<${uuidv4()}@${this.messageIdDomain}>`;
+
+    try {
+      await this.transporter.sendMail({
+        from: this.fromAddress,
+        to,
+        subject: lastMessageId ? subject : baseSubject,
+        messageId,
+        inReplyTo: lastMessageId,
+        references: thread.messageIds.length > 0 ? thread.messageIds.slice(-MAX_THREAD_REFERENCES) : undefined,
+        text,
+        html: this.renderHtml(text),
+        attachments: this.getOutboundAttachments(options.mediaUrl),
+      });
+
+      this.logger.log(`Email sent to ${to}: ${messageId}`);
+    } catch (error) {
+      this.logger.error('Failed to send email:', error);
+      throw error;
+    }
+
+    // Remember our Message-ID so the lead's reply (In-Reply-To / References) finds this conversation
+    if (conversation) {
+      await this.appendToThread(conversation.id, messageId);
+    }
+
+    return messageId;
+  }
+
+  private async getConversationForRecipient(to: string): Promise<Conversation | null> {
+    const lead = await this.supabase.getLeadByChannelUser('email', to);
+    if (!lead) return null;
+    return this.supabase.getActiveConversation(lead.id);
+  }
+
+  private getThread(conversation: Conversation): EmailThread {
+    const metadata = (conversation.metadata || {}) as Record<string, any>;
+    return metadata.email_thread || { messageIds: [] };
+  }
+
+  /**
+   * Add a Message-ID to the conversation's thread
+   * Re-reads the conversation first - a send takes a while and the thread may have grown meanwhile
+   */
+  private async appendToThread(conversationId: string, messageId: string, subject?: string): Promise<void> {
+    const conversation = await this.supabase.getConversationById(conversationId);
+    if (!conversation) return;
+
+    const thread = this.getThread(conversation);
+    if (thread.messageIds.includes(messageId)) return;
+
+    const metadata = (conversation.metadata || {}) as Record<string, unknown>;
+    await this.supabase.updateConversation(conversation.id, {
+      metadata: {
+        ...metadata,
+        email_thread: {
+          subject: thread.subject || subject,
+          messageIds: [...thread.messageIds, messageId].slice(-MAX_THREAD_MESSAGE_IDS),
+        },
+      },
+    });
+  }
+
+  /**
+   * Attach outbound media by URL - only http(s), a local path or file:// URL would make
+   * nodemailer read files from this server
+   */
+  private getOutboundAttachments(mediaUrl?: string): nodemailer.SendMailOptions['attachments'] {
+    if (!mediaUrl) return undefined;
+
+    let protocol: string | null = null;
+    try {
+      protocol = new URL(mediaUrl).protocol;
+    } catch {
+      // Not an absolute URL (e.g. a file path)
+    }
+
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      this.logger.warn(`Email attachment skipped, not an http(s) URL: ${mediaUrl}`);
+      return undefined;
+    }
+
+    return [{ path: mediaUrl }];
+  }
+
+  private parseAddress(value: string): { name?: string; address: string } {
+    const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+    if (match) {
+      return { name: match[1].trim() || undefined, address: match[2].trim().toLowerCase() };
+    }
+    return { address: value.trim().toLowerCase() };
+  }
+
+  private getAttachmentRef(attachment: InboundEmailAttachment): string {
+    return attachment.url || `attachment:${attachment.filename || 'image'}`;
+  }
+
+  /**
+   * Drop quoted history from a reply ("> ..." lines and everything after "On ... wrote:")
+   */
+  private stripQuotedReply(text: string): string {
+    const lines = text.split(/\r?\n/);
+    const result: string[] = [];
+
+    for (const line of lines) {
+      if (/^On .+wrote:\s*$/i.test(line.trim()) || /^-{2,}\s*Original Message/i.test(line.trim())) break;
+      if (line.trim().startsWith('>')) continue;
+      result.push(line);
+    }
+
+    return result.join('\n').trim();
+  }
+
+  private htmlToText(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/p>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .trim();
+  }
+
+  private renderHtml(text: string): string {
+    const escaped = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+
+    const linked = escaped.replace(/(https?:\/\/[^\s<]+)/g, '<a href="$1">$1</a>');
+    const paragraphs = linked
+      .split(/\n{2,}/)
+      .map((p) => `<p>${p.replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+
+    return `<div style="font-family: Arial, sans-serif; font-size: 14px; line-height: 1.5;">\n${paragraphs}\n</div>`;
+  }
+}
@@ -0,0 +1,395 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { NormalizedMessage, OutgoingMessage } from '../interfaces/normalized-message.interface';
+
+export interface InstagramQuickReply {
+  payload: string;
+  title: string;
+}
+
+interface InstagramMessagingEvent {
+  sender: { id: string };
+  recipient: { id: string };
+  timestamp: number;
+  message?: {
+    mid: string;
+    text?: string;
+    is_echo?: boolean;
+    is_deleted?: boolean;
+    quick_reply?: { payload: string };
+    attachments?: Array<{
+      type: 'image' | 'video' | 'audio' | 'file' | 'share' | 'story_mention' | 'ig_reel' | string;
+      payload?: { url?: string };
+    }>;
+  };
+  postback?: {
+    mid: string;
+    title?: string;
+    payload: string;
+  };
+}
+
+interface InstagramWebhookPayload {
+  object: string;
+  entry: Array<{
+    id: string;
+    time: number;
+    messaging?: InstagramMessagingEvent[];
+  }>;
+}
+
+// Result type for quick reply / postback processing (mirrors Telegram callback queries)
+export interface InstagramQuickReplyResult {
+  type: 'quick_reply';
+  messageId: string;
+  senderId: string;
+  data: string;
+}
+
+@Injectable()
+export class InstagramAdapter {
+  private readonly logger = new Logger(InstagramAdapter.name);
+  private readonly apiUrl: string;
+  private readonly accountId: string;
+  private readonly accessToken: string;
+
+  constructor(private configService: ConfigService) {
+    this.apiUrl = this.configService.get<string>('INSTAGRAM_API_URL', 'https://graph.facebook.com/v18.0');
+    this.accountId = this.configService.get<string>('INSTAGRAM_ACCOUNT_ID', 'me');
+    this.accessToken = this.configService.get<string>('INSTAGRAM_ACCESS_TOKEN', '');
+  }
+
+  normalizeWebhook(payload: InstagramWebhookPayload): NormalizedMessage[] {
+    const normalizedMessages: NormalizedMessage[] = [];
+
+    if (payload.object !== 'instagram') {
+      return normalizedMessages;
+    }
+
+    for (const entry of payload.entry || []) {
+      for (const event of entry.messaging || []) {
+        const message = event.message;
+
+        // Skip our own outgoing messages, deletions and button replies (handled separately)
+        if (!message || message.is_echo || message.is_deleted || message.quick_reply) {
+          continue;
+        }
+
+        const attachment = message.attachments?.[0];
+
+        const normalized: NormalizedMessage = {
+          channel: 'instagram',
+          channelMessageId: message.mid,
+          channelUserId: event.sender.id,
+          mediaType: attachment ? this.mapMediaType(attachment.type) : 'text',
+          content: message.text,
+          timestamp: new Date(event.timestamp),
+          rawPayload: event as unknown as Record<string, unknown>,
+        };
+
+        // Instagram delivers attachments as direct CDN URLs (no media id lookup needed)
+        if (attachment?.payload?.url) {
+          normalized.mediaUrl = attachment.payload.url;
+        }
+
+        normalizedMessages.push(normalized);
+      }
+    }
+
+    return normalizedMessages;
+  }
+
+  /**
+   * Extract quick reply and postback button presses from a webhook payload
+   */
+  parseQuickReplies(payload: InstagramWebhookPayload): InstagramQuickReplyResult[] {
+    const results: InstagramQuickReplyResult[] = [];
+
+    if (payload.object !== 'instagram') {
+      return results;
+    }
+
+    for (const entry of payload.entry || []) {
+      for (const event of entry.messaging || []) {
+        if (event.message?.quick_reply && !event.message.is_echo) {
+          results.push({
+            type: 'quick_reply',
+            messageId: event.message.mid,
+            senderId: event.sender.id,
+            data: event.message.quick_reply.payload,
+          });
+        } else if (event.postback) {
+          results.push({
+            type: 'quick_reply',
+            messageId: event.postback.mid,
+            senderId: event.sender.id,
+            data: event.postback.payload,
+          });
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private mapMediaType(type: string): NormalizedMessage['mediaType'] {
+    const mapping: Record<string, NormalizedMessage['mediaType']> = {
+      image: 'image',
+      video: 'video',
+      ig_reel: 'video',
+      audio: 'audio',
+      file: 'document',
+    };
+    return mapping[type] || 'text';
+  }
+
+  async sendMessage(message: OutgoingMessage): Promise<string> {
+    const payload: Record<string, unknown> = {
+      recipient: { id: message.channelUserId },
+      message: { text: message.content },
+    };
+
+    // Handle media messages (Instagram does not support captions, so text is sent separately)
+    if (message.mediaUrl && message.mediaType) {
+      payload.message = {
+        attachment: {
+          type: message.mediaType === 'document' ? 'file' : message.mediaType,
+          payload: { url: message.mediaUrl },
+        },
+      };
+    }
+
+    const messageId = await this.postMessage(payload);
+    this.logger.log(`Instagram message sent: ${messageId}`);
+
+    if (message.mediaUrl && message.mediaType && message.content) {
+      await this.postMessage({
+        recipient: { id: message.channelUserId },
+        message: { text: message.content },
+      });
+    }
+
+    return messageId;
+  }
+
+  /**
+   * Send a text message with quick reply buttons
+   * Max 13 quick replies, titles are limited to 20 chars
+   */
+  async sendQuickReplies(
+    to: string,
+    text: string,
+    quickReplies: InstagramQuickReply[],
+  ): Promise<string> {
+    const messageId = await this.postMessage({
+      recipient: { id: to },
+      messaging_type: 'RESPONSE',
+      message: {
+        text,
+        quick_replies: quickReplies.slice(0, 13).map((reply) => ({
+          content_type: 'text',
+          title: reply.title.substring(0, 20),
+          payload: reply.payload,
+        })),
+      },
+    });
+
+    this.logger.log(`Instagram quick reply message sent: ${messageId}`);
+    return messageId;
+  }
+
+  /**
+   * Download media from an Instagram attachment URL
+   */
+  async downloadMedia(mediaUrl: string): Promise<Buffer> {
+    try {
+      const response = await axios.get(mediaUrl, {
+        responseType: 'arraybuffer',
+      });
+      return Buffer.from(response.data);
+    } catch (error) {
+      this.logger.error('Failed to download Instagram media:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the sender's display name (requires instagram_manage_messages permission)
+   */
+  async getUserName(igsid: string): Promise<string | undefined> {
+    try {
+      const response = await axios.get(`${this.apiUrl}/${igsid}`, {
+        params: { fields: 'name,username', access_token: this.accessToken },
+      });
+      return response.data.name || response.data.username;
+    } catch (error: any) {
+      this.logger.warn(`Failed to fetch Instagram profile for ${igsid}:`, error.response?.data?.error?.message || error.message);
+      return undefined;
+    }
+  }
+
+  /**
+   * Send KVKK consent message with approval quick replies
+   */
+  async sendKvkkConsentMessage(
+    to: string,
+    language: string,
+    kvkkLinkUrl: string,
+  ): Promise<string> {
+    const messages: Record<string, { body: string; approve: string; decline: string }> = {
+      tr: {
+        body: `Size daha iyi yardımcı olabilmem için birkaç bilgi ve fotoğraf isteyeceğim.\n\nPaylaştığınız bilgiler yalnızca doktor değerlendirmesi için kullanılacaktır.\n\n📋 KVKK Aydınlatma Metni: ${kvkkLinkUrl}\n\nVerileriniz güvende tutulacaktır.`,
+        approve: '✅ Onaylıyorum',
+        decline: '❌ Onaylamıyorum',
+      },
+      en: {
+        body: `To better assist you, I'll need to ask for some information and photos.\n\nThe information you share will only be used for doctor evaluation.\n\n📋 Privacy Policy: ${kvkkLinkUrl}\n\nYour data will be kept safe.`,
+        approve: '✅ I Approve',
+        decline: '❌ I Decline',
+      },
+      ar: {
+        body: `لمساعدتك بشكل أفضل، سأحتاج إلى بعض المعلومات والصور.\n\nالمعلومات التي تشاركها ستُستخدم فقط لتقييم الطبيب.\n\n📋 سياسة الخصوصية: ${kvkkLinkUrl}\n\nبياناتك ستبقى آمنة.`,
+        approve: '✅ أوافق',
+        decline: '❌ لا أوافق',
+      },
+      fr: {
+        body: `Pour mieux vous aider, j'aurai besoin de quelques informations et photos.\n\nLes informations partagées seront uniquement utilisées pour l'évaluation médicale.\n\n📋 Politique de confidentialité: ${kvkkLinkUrl}\n\nVos données seront protégées.`,
+        approve: '✅ J\'approuve',
+        decline: '❌ Je refuse',
+      },
+    };
+
+    const msg = messages[language] || messages.en;
+
+    return this.sendQuickReplies(to, msg.body, [
+      { payload: 'consent_approve', title: msg.approve },
+      { payload: 'consent_decline', title: msg.decline },
+    ]);
+  }
+
+  /**
+   * Send flow selection after KVKK approval (Form vs Chat)
+   */
+  async sendFlowSelectionMessage(
+    to: string,
+    language: string,
+    formUrl: string,
+  ): Promise<string> {
+    const messages: Record<string, { body: string; form: string; chat: string }> = {
+      tr: {
+        body: `Teşekkürler! Şimdi nasıl devam etmek istersiniz?\n\n📝 Form: Bilgilerinizi hızlıca form üzerinden doldurun.\n💬 Danışman: Benimle sohbet ederek ilerleyin.`,
+        form: '📝 Form ile devam',
+        chat: '💬 Danışmanla devam',
+      },
+      en: {
+        body: `Thank you! How would you like to continue?\n\n📝 Form: Quickly fill out your information via form.\n💬 Consultant: Continue chatting with me.`,
+        form: '📝 Continue with Form',
+        chat: '💬 Chat with Consultant',
+      },
+      ar: {
+        body: `شكراً! كيف تريد المتابعة؟\n\n📝 النموذج: املأ معلوماتك بسرعة عبر النموذج.\n💬 المستشار: تابع الدردشة معي.`,
+        form: '📝 متابعة بالنموذج',
+        chat: '💬 الدردشة مع مستشار',
+      },
+      fr: {
+        body: `Merci! Comment souhaitez-vous continuer?\n\n📝 Formulaire: Remplissez rapidement vos informations.\n💬 Consultant: Continuez à discuter avec moi.`,
+        form: '📝 Continuer avec Form',
+        chat: '💬 Discuter avec Consultant',
+      },
+    };
+
+    const msg = messages[language] || messages.en;
+
+    return this.sendQuickReplies(to, msg.body, [
+      { payload: 'flow_form', title: msg.form },
+      { payload: 'flow_chat', title: msg.chat },
+    ]);
+  }
+
+  /**
+   * Send form link message with a web_url button (generic template)
+   */
+  async sendFormLinkMessage(
+    to: string,
+    language: string,
+    formUrl: string,
+  ): Promise<string> {
+    const messages: Record<string, { body: string; button: string; title: string }> = {
+      tr: {
+        body: `Harika seçim! 📝\n\nAşağıdaki butona tıklayarak hasta bilgi formunu doldurun.\n\nForm tamamlandığında doktorlarımız değerlendirecektir.`,
+        button: '📋 Formu Doldur',
+        title: 'Natural Clinic',
+      },
+      en: {
+        body: `Great choice! 📝\n\nClick the button below to fill out the patient information form.\n\nOnce completed, our doctors will evaluate.`,
+        button: '📋 Fill Out Form',
+        title: 'Natural Clinic',
+      },
+      ar: {
+        body: `اختيار رائع! 📝\n\nانقر على الزر أدناه لملء نموذج معلومات المريض.\n\nبمجرد الانتهاء، سيقوم أطباؤنا بالتقييم.`,
+        button: '📋 ملء النموذج',
+        title: 'Natural Clinic',
+      },
+      fr: {
+        body: `Excellent choix! 📝\n\nCliquez sur le bouton ci-dessous pour remplir le formulaire d'information patient.\n\nUne fois terminé, nos médecins évalueront.`,
+        button: '📋 Remplir le formulaire',
+        title: 'Natural Clinic',
+      },
+    };
+
+    const msg = messages[language] || messages.en;
+
+    try {
+      await this.postMessage({
+        recipient: { id: to },
+        message: { text: msg.body },
+      });
+
+      const messageId = await this.postMessage({
+        recipient: { id: to },
+        message: {
+          attachment: {
+            type: 'template',
+            payload: {
+              template_type: 'generic',
+              elements: [
+                {
+                  title: msg.title,
+                  buttons: [
+                    { type: 'web_url', url: formUrl, title: msg.button },
+                  ],
+                },
+              ],
+            },
+          },
+        },
+      });
+
+      this.logger.log(`Instagram form link message sent: ${messageId}`);
+      return messageId;
+    } catch (error: any) {
+      // Fallback to regular text message with link if templates are not available
+      this.logger.warn('Instagram generic template failed, falling back to text message:', error.response?.data?.error?.message || error.message);
+      return this.sendMessage({ channel: 'instagram', channelUserId: to, content: `🔗 ${formUrl}` });
+    }
+  }
+
+  private async postMessage(payload: Record<string, unknown>): Promise<string> {
+    const url = `${this.apiUrl}/${this.accountId}/messages`;
+
+    try {
+      const response = await axios.post(url, payload, {
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      return response.data.message_id;
+    } catch (error: any) {
+      this.logger.error('Failed to send Instagram message:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+}
@@ -50,6 +50,13 @@ interface TelegramUpdate {
       mime_type?: string;
       file_size?: number;
     };
+    voice?: {
+      file_id: string;
+      file_unique_id: string;
+      duration: number;
+      mime_type?: string;
+      file_size?: number;
+    };
     document?: {
       file_id: string;
       file_unique_id: string;
@@ -199,8 +206,13 @@ export class TelegramAdapter {
       normalized.mediaUrl = message.video.file_id;
     } else if (message.audio) {
       normalized.mediaUrl = message.audio.file_id;
+    } else if (message.voice) {
+      normalized.mediaUrl = message.voice.file_id;
+      normalized.mimeType = message.voice.mime_type;
     } else if (message.document) {
       normalized.mediaUrl = message.document.file_id;
+      normalized.mimeType = message.document.mime_type;
+      normalized.fileName = message.document.file_name;
     } else if (message.sticker) {
       normalized.mediaUrl = message.sticker.file_id;
     } else if (message.location) {
@@ -244,7 +256,7 @@ export class TelegramAdapter {
     if (!message) return 'text';
     if (message.photo) return 'image';
     if (message.video) return 'video';
-    if (message.audio) return 'audio';
+    if (message.audio || message.voice) return 'audio';
     if (message.document) return 'document';
     if (message.sticker) return 'sticker';
     if (message.location) return 'location';
@@ -332,6 +344,24 @@ export class TelegramAdapter {
     }
   }
 
+  /**
+   * Download a file by id (voice notes, documents, ...)
+   */
+  async downloadFile(fileId: string): Promise<{ buffer: Buffer; mimeType: string }> {
+    const fileUrl = await this.getFileUrl(fileId);
+
+    try {
+      const response = await this.axiosInstance.get(fileUrl, { responseType: 'arraybuffer' });
+      return {
+        buffer: Buffer.from(response.data),
+        mimeType: response.headers['content-type'] || 'application/octet-stream',
+      };
+    } catch (error: any) {
+      this.logger.error(`Failed to download Telegram file: ${error.message}`);
+      throw error;
+    }
+  }
+
   async setWebhook(webhookUrl: string): Promise<void> {
     const secretToken = this.configService.get<string>('TELEGRAM_WEBHOOK_SECRET');
 
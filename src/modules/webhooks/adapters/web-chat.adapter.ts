@@ -0,0 +1,258 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import type { Server } from 'socket.io';
+import IORedis from 'ioredis';
+import { OutgoingMessage } from '../interfaces/normalized-message.interface';
+
+export interface WebChatButton {
+  id: string;
+  title: string;
+}
+
+// Event pushed to the website widget (over WebSocket, or picked up via REST polling)
+export interface WebChatEvent {
+  id: string;
+  type: 'message' | 'buttons' | 'link' | 'typing';
+  content?: string;
+  mediaUrl?: string;
+  mediaType?: OutgoingMessage['mediaType'];
+  buttons?: WebChatButton[];
+  url?: string;
+  linkText?: string;
+  createdAt: string;
+}
+
+// Max events kept per session for REST polling clients
+const MAX_OUTBOX_SIZE = 100;
+
+// Outboxes of sessions that went quiet are dropped after a week
+const OUTBOX_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+@Injectable()
+export class WebChatAdapter implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebChatAdapter.name);
+  private server: Server | null = null;
+
+  // Outbox per session lives in Redis (web-chat:outbox:<sessionId>), shared by all instances
+  // and kept across restarts for the REST fallback and reconnecting widgets
+  private connection!: IORedis;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit() {
+    // Support both REDIS_URL (Railway) and individual host/port/password config
+    const redisUrl = this.configService.get<string>('REDIS_URL');
+
+    this.connection = redisUrl
+      ? new IORedis(redisUrl, { enableReadyCheck: false })
+      : new IORedis({
+          host: this.configService.get<string>('REDIS_HOST', 'localhost'),
+          port: this.configService.get<number>('REDIS_PORT', 6379),
+          password: this.configService.get<string>('REDIS_PASSWORD') || undefined,
+        });
+
+    this.connection.on('error', (err) => {
+      this.logger.error('Web chat outbox Redis connection error:', err);
+    });
+  }
+
+  async onModuleDestroy() {
+    await this.connection?.quit();
+  }
+
+  /**
+   * Called by the gateway once the Socket.IO server is ready
+   */
+  attachServer(server: Server): void {
+    this.server = server;
+    this.logger.log('Web chat adapter attached to WebSocket server');
+  }
+
+  async sendMessage(message: OutgoingMessage): Promise<string> {
+    return this.emit(message.channelUserId, {
+      type: 'message',
+      content: message.content,
+      mediaUrl: message.mediaUrl,
+      mediaType: message.mediaType,
+    });
+  }
+
+  /**
+   * Show the "typing..." indicator in the widget (not kept in the outbox)
+   */
+  sendTypingIndicator(sessionId: string): void {
+    this.server?.to(sessionId).emit('typing', { sessionId });
+  }
+
+  /**
+   * Get events for a session, optionally only those after a given event id
+   */
+  async getEvents(sessionId: string, afterEventId?: string): Promise<WebChatEvent[]> {
+    const stored = await this.connection.lrange(this.getOutboxKey(sessionId), 0, -1);
+    const events = stored.map((event) => JSON.parse(event) as WebChatEvent);
+    if (!afterEventId) return events;
+
+    const index = events.findIndex((e) => e.id === afterEventId);
+    return index === -1 ? events : events.slice(index + 1);
+  }
+
+  /**
+   * Send KVKK consent message with approval buttons
+   */
+  async sendKvkkConsentMessage(
+    sessionId: string,
+    language: string,
+    kvkkLinkUrl: string,
+  ): Promise<string> {
+    const messages: Record<string, { body: string; approve: string; decline: string; link: string }> = {
+      tr: {
+        body: 'Size daha iyi yardımcı olabilmem için birkaç bilgi ve fotoğraf isteyeceğim.\n\nPaylaştığınız bilgiler yalnızca doktor değerlendirmesi için kullanılacaktır.',
+        approve: '✅ Onaylıyorum',
+        decline: '❌ Onaylamıyorum',
+        link: '📋 KVKK Aydınlatma Metni',
+      },
+      en: {
+        body: 'To better assist you, I\'ll need to ask for some information and photos.\n\nThe information you share will only be used for doctor evaluation.',
+        approve: '✅ I Approve',
+        decline: '❌ I Decline',
+        link: '📋 Privacy Policy',
+      },
+      ar: {
+        body: 'لمساعدتك بشكل أفضل، سأحتاج إلى بعض المعلومات والصور.\n\nالمعلومات التي تشاركها ستُستخدم فقط لتقييم الطبيب.',
+        approve: '✅ أوافق',
+        decline: '❌ لا أوافق',
+        link: '📋 سياسة الخصوصية',
+      },
+      fr: {
+        body: 'Pour mieux vous aider, j\'aurai besoin de quelques informations et photos.\n\nLes informations partagées seront uniquement utilisées pour l\'évaluation médicale.',
+        approve: '✅ J\'approuve',
+        decline: '❌ Je refuse',
+        link: '📋 Politique de confidentialité',
+      },
+    };
+
+    const msg = messages[language] || messages.en;
+
+    return this.emit(sessionId, {
+      type: 'buttons',
+      content: msg.body,
+      url: kvkkLinkUrl,
+      linkText: msg.link,
+      buttons: [
+        { id: 'consent_approve', title: msg.approve },
+        { id: 'consent_decline', title: msg.decline },
+      ],
+    });
+  }
+
+  /**
+   * Send flow selection after KVKK approval (Form vs Chat)
+   */
+  async sendFlowSelectionMessage(
+    sessionId: string,
+    language: string,
+    formUrl: string,
+  ): Promise<string> {
+    const messages: Record<string, { body: string; form: string; chat: string }> = {
+      tr: {
+        body: 'Teşekkürler! Şimdi nasıl devam etmek istersiniz?\n\n📝 Form: Bilgilerinizi hızlıca form üzerinden doldurun.\n💬 Danışman: Benimle sohbet ederek ilerleyin.',
+        form: '📝 Form ile devam',
+        chat: '💬 Danışmanla devam',
+      },
+      en: {
+        body: 'Thank you! How would you like to continue?\n\n📝 Form: Quickly fill out your information via form.\n💬 Consultant: Continue chatting with me.',
+        form: '📝 Continue with Form',
+        chat: '💬 Chat with Consultant',
+      },
+      ar: {
+        body: 'شكراً! كيف تريد المتابعة؟\n\n📝 النموذج: املأ معلوماتك بسرعة عبر النموذج.\n💬 المستشار: تابع الدردشة معي.',
+        form: '📝 متابعة بالنموذج',
+        chat: '💬 الدردشة مع مستشار',
+      },
+      fr: {
+        body: 'Merci! Comment souhaitez-vous continuer?\n\n📝 Formulaire: Remplissez rapidement vos informations.\n💬 Consultant: Continuez à discuter avec moi.',
+        form: '📝 Continuer avec Form',
+        chat: '💬 Discuter avec Consultant',
+      },
+    };
+
+    const msg = messages[language] || messages.en;
+
+    return this.emit(sessionId, {
+      type: 'buttons',
+      content: msg.body,
+      buttons: [
+        { id: 'flow_form', title: msg.form },
+        { id: 'flow_chat', title: msg.chat },
+      ],
+    });
+  }
+
+  /**
+   * Send form link message (rendered as a link button in the widget)
+   */
+  async sendFormLinkMessage(
+    sessionId: string,
+    language: string,
+    formUrl: string,
+  ): Promise<string> {
+    const messages: Record<string, { body: string; button: string }> = {
+      tr: {
+        body: 'Harika seçim! 📝\n\nAşağıdaki butona tıklayarak hasta bilgi formunu doldurun.\n\nForm tamamlandığında doktorlarımız değerlendirecektir.',
+        button: '📋 Formu Doldur',
+      },
+      en: {
+        body: 'Great choice! 📝\n\nClick the button below to fill out the patient information form.\n\nOnce completed, our doctors will evaluate.',
+        button: '📋 Fill Out Form',
+      },
+      ar: {
+        body: 'اختيار رائع! 📝\n\nانقر على الزر أدناه لملء نموذج معلومات المريض.\n\nبمجرد الانتهاء، سيقوم أطباؤنا بالتقييم.',
+        button: '📋 ملء النموذج',
+      },
+      fr: {
+        body: 'Excellent choix! 📝\n\nCliquez sur le bouton ci-dessous pour remplir le formulaire d\'information patient.\n\nUne fois terminé, nos médecins évalueront.',
+        button: '📋 Remplir le formulaire',
+      },
+    };
+
+    const msg = messages[language] || messages.en;
+
+    return this.emit(sessionId, {
+      type: 'link',
+      content: msg.body,
+      url: formUrl,
+      linkText: msg.button,
+    });
+  }
+
+  private async emit(sessionId: string, event: Omit<WebChatEvent, 'id' | 'createdAt'>): Promise<string> {
+    const fullEvent: WebChatEvent = {
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+      ...event,
+    };
+
+    // Stored first - if Redis is down the send fails and is retried instead of reaching only live sockets
+    const key = this.getOutboxKey(sessionId);
+    await this.connection
+      .multi()
+      .rpush(key, JSON.stringify(fullEvent))
+      .ltrim(key, -MAX_OUTBOX_SIZE, -1)
+      .expire(key, OUTBOX_TTL_SECONDS)
+      .exec();
+
+    if (this.server) {
+      this.server.to(sessionId).emit('event', fullEvent);
+    } else {
+      this.logger.debug(`WebSocket server not ready, event kept for polling: ${fullEvent.id}`);
+    }
+
+    this.logger.log(`Web chat ${event.type} event sent: ${fullEvent.id}`);
+    return fullEvent.id;
+  }
+
+  private getOutboxKey(sessionId: string): string {
+    return `web-chat:outbox:${sessionId}`;
+  }
+}
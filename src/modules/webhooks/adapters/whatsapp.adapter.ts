@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
 import { NormalizedMessage, OutgoingMessage } from '../interfaces/normalized-message.interface';
+import { MessageDeliveryStatus } from '../../../common/supabase/supabase.service';
 
 export interface WhatsAppButton {
   id: string;
@@ -29,6 +30,15 @@ export interface WhatsAppInteractiveMessage {
   buttonText?: string; // For list type - the button that opens the list
 }
 
+// Delivery receipt from the webhook 'statuses' array
+export interface WhatsappStatusUpdate {
+  channelMessageId: string;
+  recipientId: string;
+  status: MessageDeliveryStatus;
+  timestamp: Date;
+  error?: string;
+}
+
 interface WhatsappWebhookPayload {
   object: string;
   entry: Array<{
@@ -62,6 +72,7 @@ interface WhatsappWebhookPayload {
           status: string;
           timestamp: string;
           recipient_id: string;
+          errors?: Array<{ code: number; title: string; message?: string }>;
         }>;
       };
       field: string;
@@ -126,10 +137,13 @@ export class WhatsappAdapter {
               break;
             case 'audio':
               normalized.mediaUrl = message.audio?.id;
+              normalized.mimeType = message.audio?.mime_type;
               break;
             case 'document':
               normalized.content = message.document?.caption;
               normalized.mediaUrl = message.document?.id;
+              normalized.mimeType = message.document?.mime_type;
+              normalized.fileName = message.document?.filename;
               break;
             case 'location':
               normalized.location = {
@@ -151,6 +165,38 @@ export class WhatsappAdapter {
     return normalizedMessages;
   }
 
+  /**
+   * Extract delivery receipts (sent / delivered / read / failed) for our outbound messages
+   */
+  parseStatuses(payload: WhatsappWebhookPayload): WhatsappStatusUpdate[] {
+    const updates: WhatsappStatusUpdate[] = [];
+
+    if (payload.object !== 'whatsapp_business_account') {
+      return updates;
+    }
+
+    for (const entry of payload.entry || []) {
+      for (const change of entry.changes || []) {
+        if (change.field !== 'messages') continue;
+
+        for (const status of change.value.statuses || []) {
+          if (!['sent', 'delivered', 'read', 'failed'].includes(status.status)) continue;
+
+          const error = status.errors?.[0];
+          updates.push({
+            channelMessageId: status.id,
+            recipientId: status.recipient_id,
+            status: status.status as MessageDeliveryStatus,
+            timestamp: new Date(parseInt(status.timestamp) * 1000),
+            error: error ? `${error.code}: ${error.message || error.title}` : undefined,
+          });
+        }
+      }
+    }
+
+    return updates;
+  }
+
   private mapMediaType(type: string): NormalizedMessage['mediaType'] {
     const mapping: Record<string, NormalizedMessage['mediaType']> = {
       text: 'text',
@@ -201,6 +247,50 @@ export class WhatsappAdapter {
     }
   }
 
+  /**
+   * Send an approved message template (required outside the 24h customer-service window)
+   */
+  async sendTemplateMessage(
+    to: string,
+    templateName: string,
+    languageCode: string,
+    bodyParameters: string[] = [],
+  ): Promise<string> {
+    const url = `${this.apiUrl}/${this.phoneNumberId}/messages`;
+
+    const payload: Record<string, unknown> = {
+      messaging_product: 'whatsapp',
+      to,
+      type: 'template',
+      template: {
+        name: templateName,
+        language: { code: languageCode },
+        components: bodyParameters.length > 0
+          ? [{
+            type: 'body',
+            parameters: bodyParameters.map((text) => ({ type: 'text', text })),
+          }]
+          : undefined,
+      },
+    };
+
+    try {
+      const response = await axios.post(url, payload, {
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const messageId = response.data.messages?.[0]?.id;
+      this.logger.log(`WhatsApp template message sent: ${templateName} (${messageId})`);
+      return messageId;
+    } catch (error: any) {
+      this.logger.error('Failed to send WhatsApp template message:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
   async getMediaUrl(mediaId: string): Promise<string> {
     try {
       // First, get media URL
@@ -217,6 +307,28 @@ export class WhatsappAdapter {
     }
   }
 
+  /**
+   * Download media by id (the media URL itself also requires the access token)
+   */
+  async downloadMedia(mediaId: string): Promise<{ buffer: Buffer; mimeType: string }> {
+    const mediaUrl = await this.getMediaUrl(mediaId);
+
+    try {
+      const response = await axios.get(mediaUrl, {
+        headers: { Authorization: `Bearer ${this.accessToken}` },
+        responseType: 'arraybuffer',
+      });
+
+      return {
+        buffer: Buffer.from(response.data),
+        mimeType: response.headers['content-type'] || 'application/octet-stream',
+      };
+    } catch (error) {
+      this.logger.error('Failed to download WhatsApp media:', error);
+      throw error;
+    }
+  }
+
   async markAsRead(messageId: string): Promise<void> {
     const url = `${this.apiUrl}/${this.phoneNumberId}/messages`;
 
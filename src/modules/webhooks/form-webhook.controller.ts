@@ -6,8 +6,12 @@ import {
   HttpCode, 
   HttpStatus,
   BadRequestException,
+  Req,
+  RawBodyRequest,
 } from '@nestjs/common';
+import { Request } from 'express';
 import { SupabaseService } from '../../common/supabase/supabase.service';
+import { WebhookSignatureService } from './webhook-signature.service';
 import { DoctorNotificationsService } from '../notifications/doctor-notifications.service';
 
 /**
@@ -79,6 +83,7 @@ export class FormWebhookController {
   constructor(
     private readonly supabase: SupabaseService,
     private readonly doctorNotifications: DoctorNotificationsService,
+    private readonly webhookSignature: WebhookSignatureService,
   ) {}
 
   /**
@@ -87,12 +92,16 @@ export class FormWebhookController {
    */
   @Post('submission')
   @HttpCode(HttpStatus.OK)
-  async handleFormSubmission(@Body() payload: FormSubmissionPayload): Promise<{
+  async handleFormSubmission(
+    @Body() payload: FormSubmissionPayload,
+    @Req() req: RawBodyRequest<Request>,
+  ): Promise<{
     success: boolean;
     lead_id?: string;
     message: string;
   }> {
     this.logger.log('Received form submission webhook');
+    await this.webhookSignature.verifyFormSubmission(req, payload.form_id);
     
     try {
       // 1. Find the lead
@@ -127,8 +136,10 @@ export class FormWebhookController {
       }
 
       // 5. Update lead status to READY_FOR_DOCTOR
-      await this.supabase.updateLead(lead.id, {
-        status: 'READY_FOR_DOCTOR',
+      await this.supabase.updateLeadStatus(lead.id, 'READY_FOR_DOCTOR', {
+        event: 'FORM_SUBMITTED',
+        actor: 'system',
+        reason: 'Patient form submitted',
       });
 
       // 6. Create doctor notification
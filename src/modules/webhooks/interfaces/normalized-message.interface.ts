@@ -1,6 +1,6 @@
 export interface NormalizedMessage {
   // Channel info
-  channel: 'whatsapp' | 'telegram' | 'web' | 'instagram';
+  channel: 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email';
   channelMessageId: string;
   channelUserId: string;
   
@@ -13,6 +13,8 @@ export interface NormalizedMessage {
   content?: string;
   mediaType: 'text' | 'image' | 'video' | 'audio' | 'document' | 'location' | 'sticker';
   mediaUrl?: string;
+  mimeType?: string; // When reported by the channel (documents, voice notes)
+  fileName?: string; // Original file name (documents)
   
   // Location (if applicable)
   location?: {
@@ -20,13 +22,21 @@ export interface NormalizedMessage {
     longitude: number;
   };
   
+  // Email threading (email channel only)
+  email?: {
+    subject?: string;
+    messageId: string;
+    inReplyTo?: string;
+    references?: string[];
+  };
+  
   // Metadata
   timestamp: Date;
   rawPayload?: Record<string, unknown>;
 }
 
 export interface OutgoingMessage {
-  channel: 'whatsapp' | 'telegram' | 'web' | 'instagram';
+  channel: 'whatsapp' | 'telegram' | 'web' | 'instagram' | 'email';
   channelUserId: string;
   content: string;
   mediaUrl?: string;
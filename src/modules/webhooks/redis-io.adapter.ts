@@ -0,0 +1,54 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import type { Server, ServerOptions } from 'socket.io';
+import IORedis from 'ioredis';
+
+/**
+ * Socket.IO adapter backed by Redis pub/sub
+ * Web chat rooms span every instance, so a reply emitted by the replica that ran the
+ * channel-send job reaches a widget connected to another one.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private pubClient: IORedis | null = null;
+  private subClient: IORedis | null = null;
+
+  constructor(private readonly app: INestApplicationContext) {
+    super(app);
+  }
+
+  async connectToRedis(): Promise<void> {
+    const configService = this.app.get(ConfigService);
+
+    // Support both REDIS_URL (Railway) and individual host/port/password config
+    const redisUrl = configService.get<string>('REDIS_URL');
+    this.pubClient = redisUrl
+      ? new IORedis(redisUrl, { enableReadyCheck: false })
+      : new IORedis({
+          host: configService.get<string>('REDIS_HOST', 'localhost'),
+          port: configService.get<number>('REDIS_PORT', 6379),
+          password: configService.get<string>('REDIS_PASSWORD') || undefined,
+        });
+    this.subClient = this.pubClient.duplicate();
+
+    this.pubClient.on('error', (err) => this.logger.error('Socket.IO Redis pub connection error:', err));
+    this.subClient.on('error', (err) => this.logger.error('Socket.IO Redis sub connection error:', err));
+
+    this.logger.log('Socket.IO Redis adapter configured');
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server: Server = super.createIOServer(port, options);
+    if (this.pubClient && this.subClient) {
+      server.adapter(createAdapter(this.pubClient, this.subClient));
+    }
+    return server;
+  }
+
+  async close(server: Server): Promise<void> {
+    await super.close(server);
+    await Promise.all([this.pubClient?.quit(), this.subClient?.quit()]);
+  }
+}
@@ -3,7 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance } from 'axios';
 import * as https from 'https';
 import { TelegramAdapter } from './adapters/telegram.adapter';
-import { OrchestratorService } from '../orchestrator/orchestrator.service';
+import { QueueService } from '../../common/queue/queue.service';
 
 @Injectable()
 export class TelegramPollingService implements OnModuleInit, OnModuleDestroy {
@@ -18,7 +18,7 @@ export class TelegramPollingService implements OnModuleInit, OnModuleDestroy {
   constructor(
     private readonly configService: ConfigService,
     private readonly telegramAdapter: TelegramAdapter,
-    private readonly orchestratorService: OrchestratorService,
+    private readonly queueService: QueueService,
   ) {
     this.botToken = this.configService.get<string>('TELEGRAM_BOT_TOKEN', '');
     this.apiUrl = `https://api.telegram.org/bot${this.botToken}`;
@@ -160,7 +160,7 @@ export class TelegramPollingService implements OnModuleInit, OnModuleDestroy {
 
       if (normalizedMessage) {
         this.logger.log(`Processing message from ${normalizedMessage.channelUserId}: ${normalizedMessage.content}`);
-        await this.orchestratorService.handleIncomingMessage(normalizedMessage);
+        await this.queueService.addInboundMessageJob(normalizedMessage);
       }
     } catch (error) {
       this.logger.error('Error processing Telegram update:', error);
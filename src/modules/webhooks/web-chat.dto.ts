@@ -0,0 +1,59 @@
+import { IsString, IsOptional, IsUUID, MinLength, MaxLength } from 'class-validator';
+
+// Payloads of the web chat widget - shared by the REST endpoints and the WebSocket gateway
+
+export class StartWebSessionDto {
+  @IsOptional()
+  @IsUUID()
+  sessionId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  language?: string;
+}
+
+export class WebMessageDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(4000)
+  content: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  messageId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  language?: string;
+}
+
+export class WebButtonDto {
+  @IsString()
+  @MaxLength(100)
+  data: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  language?: string;
+}
+
+// Over WebSocket the session id travels in the payload instead of the URL
+
+export class WsWebMessageDto extends WebMessageDto {
+  @IsUUID()
+  sessionId: string;
+}
+
+export class WsWebButtonDto extends WebButtonDto {
+  @IsUUID()
+  sessionId: string;
+}
@@ -0,0 +1,85 @@
+import { Logger, UsePipes, ValidationPipe } from '@nestjs/common';
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayInit,
+  WsException,
+} from '@nestjs/websockets';
+import type { Server, Socket } from 'socket.io';
+import { WebhooksService } from './webhooks.service';
+import { WebChatAdapter } from './adapters/web-chat.adapter';
+import { StartWebSessionDto, WsWebMessageDto, WsWebButtonDto } from './web-chat.dto';
+
+/**
+ * WebSocket gateway for the website chat widget
+ * Clients join a room named after their session id and receive replies as 'event' messages
+ */
+@WebSocketGateway({
+  namespace: 'web-chat',
+  cors: { origin: process.env.CORS_ORIGIN || '*' },
+})
+// Same rules as the REST endpoints - the global ValidationPipe doesn't run for WebSocket messages
+@UsePipes(new ValidationPipe({
+  whitelist: true,
+  forbidNonWhitelisted: true,
+  transform: true,
+  exceptionFactory: (errors) => new WsException(
+    errors.flatMap((error) => Object.values(error.constraints || {})).join(', ') || 'Invalid payload',
+  ),
+}))
+export class WebChatGateway implements OnGatewayInit {
+  private readonly logger = new Logger(WebChatGateway.name);
+
+  @WebSocketServer()
+  server!: Server;
+
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    private readonly webChatAdapter: WebChatAdapter,
+  ) {}
+
+  afterInit(server: Server) {
+    this.webChatAdapter.attachServer(server);
+    this.logger.log('Web chat gateway initialized');
+  }
+
+  @SubscribeMessage('session:start')
+  async handleSessionStart(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: StartWebSessionDto,
+  ) {
+    const session = await this.webhooksService.startWebSession(body);
+    await client.join(session.sessionId);
+    this.logger.log(`Web chat client ${client.id} joined session ${session.sessionId}`);
+    return session;
+  }
+
+  @SubscribeMessage('message')
+  async handleMessage(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: WsWebMessageDto,
+  ) {
+    this.assertJoined(client, body.sessionId);
+    await this.webhooksService.handleWebMessage(body.sessionId, body);
+    return { status: 'received' };
+  }
+
+  @SubscribeMessage('button')
+  async handleButton(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: WsWebButtonDto,
+  ) {
+    this.assertJoined(client, body.sessionId);
+    await this.webhooksService.handleWebButton(body.sessionId, body.data, body.language);
+    return { status: 'received' };
+  }
+
+  private assertJoined(client: Socket, sessionId?: string): void {
+    if (!sessionId || !client.rooms.has(sessionId)) {
+      throw new WsException('Session not started');
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import { Injectable, Logger, UnauthorizedException, RawBodyRequest } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { SupabaseService } from '../../common/supabase/supabase.service';
+import { MetricsService } from '../../common/metrics/metrics.service';
+
+type SignedProvider = 'whatsapp' | 'instagram' | 'form' | 'telegram' | 'email';
+
+// Channels that authenticate with a shared secret header instead of a signature
+const SHARED_SECRETS: Record<'telegram' | 'email', { configKey: string; header: string }> = {
+  telegram: { configKey: 'TELEGRAM_WEBHOOK_SECRET', header: 'x-telegram-bot-api-secret-token' },
+  email: { configKey: 'EMAIL_WEBHOOK_SECRET', header: 'x-email-webhook-secret' },
+};
+
+// Meta retries failed deliveries for hours, so its payloads get a wide window (duplicates are caught by the inbound idempotency key)
+const DEFAULT_META_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+// Form providers sign the request time, so replays are only accepted for a few minutes
+const DEFAULT_FORM_TOLERANCE_SECONDS = 5 * 60;
+
+// Cache per-form secrets loaded from system_configs
+const FORM_SECRETS_CACHE_TTL_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class WebhookSignatureService {
+  private readonly logger = new Logger(WebhookSignatureService.name);
+  private readonly metaMaxAgeSeconds: number;
+  private readonly formToleranceSeconds: number;
+  private readonly allowUnsigned: boolean;
+  private cachedFormSecrets: Record<string, string> | null = null;
+  private cachedAt = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly supabase: SupabaseService,
+    private readonly metrics: MetricsService,
+  ) {
+    this.metaMaxAgeSeconds = Number(
+      this.configService.get<string>('WEBHOOK_MAX_AGE_SECONDS', String(DEFAULT_META_MAX_AGE_SECONDS)),
+    );
+    this.formToleranceSeconds = Number(
+      this.configService.get<string>('FORM_WEBHOOK_TOLERANCE_SECONDS', String(DEFAULT_FORM_TOLERANCE_SECONDS)),
+    );
+
+    // Missing secrets reject every request unless unsigned webhooks are explicitly allowed (never in production)
+    const allowUnsigned = this.configService.get<string>('ALLOW_UNSIGNED_WEBHOOKS') === 'true';
+    const production = this.configService.get<string>('NODE_ENV') === 'production';
+    if (allowUnsigned && production) {
+      this.logger.error('ALLOW_UNSIGNED_WEBHOOKS is ignored in production, webhooks without a secret are rejected');
+    }
+    this.allowUnsigned = allowUnsigned && !production;
+  }
+
+  /**
+   * Verify X-Hub-Signature-256 (HMAC-SHA256 of the raw body with the Meta app secret)
+   * and reject payloads whose events are all older than the replay window
+   */
+  async verifyMetaWebhook(provider: 'whatsapp' | 'instagram', req: RawBodyRequest<Request>): Promise<void> {
+    const secretKey = provider === 'whatsapp' ? 'WHATSAPP_APP_SECRET' : 'INSTAGRAM_APP_SECRET';
+    const appSecret = this.configService.get<string>(secretKey);
+    if (!appSecret) {
+      if (this.allowUnsigned) {
+        this.logger.warn(`${secretKey} not configured, ${provider} webhook signature not verified`);
+        return;
+      }
+      return this.reject(provider, 'secret_not_configured', req);
+    }
+
+    const signature = req.headers['x-hub-signature-256'] as string | undefined;
+    if (!signature || !req.rawBody) {
+      return this.reject(provider, 'missing_signature', req);
+    }
+
+    const expected = `sha256=${this.hmac(appSecret, req.rawBody)}`;
+    if (!this.safeEqual(signature, expected)) {
+      return this.reject(provider, 'invalid_signature', req);
+    }
+
+    const newestEventAt = this.getNewestMetaEventTime(provider, req.body);
+    if (newestEventAt && Date.now() - newestEventAt > this.metaMaxAgeSeconds * 1000) {
+      return this.reject(provider, 'stale_timestamp', req, { event_time: new Date(newestEventAt).toISOString() });
+    }
+  }
+
+  /**
+   * Verify the shared secret header of a Telegram (setWebhook secret_token) or inbound email webhook
+   */
+  async verifySharedSecret(provider: 'telegram' | 'email', req: Request): Promise<void> {
+    const { configKey, header } = SHARED_SECRETS[provider];
+    const expected = this.configService.get<string>(configKey);
+    if (!expected) {
+      if (this.allowUnsigned) {
+        this.logger.warn(`${configKey} not configured, ${provider} webhook secret not verified`);
+        return;
+      }
+      return this.reject(provider, 'secret_not_configured', req);
+    }
+
+    const secret = req.headers[header] as string | undefined;
+    if (!secret) {
+      return this.reject(provider, 'missing_secret', req);
+    }
+    if (!this.safeEqual(secret, expected)) {
+      return this.reject(provider, 'invalid_secret', req);
+    }
+  }
+
+  /**
+   * Verify a form submission: X-Form-Signature is sha256=HMAC(secret, "<X-Form-Timestamp>.<raw body>")
+   * with the secret registered for the payload's form_id (system_configs 'form_webhook_secrets')
+   */
+  async verifyFormSubmission(req: RawBodyRequest<Request>, formId?: string): Promise<void> {
+    const secret = await this.getFormSecret(formId);
+    if (secret === undefined) {
+      if (this.allowUnsigned) {
+        this.logger.warn('No form webhook secrets configured, form submission signature not verified');
+        return;
+      }
+      return this.reject('form', 'secret_not_configured', req, { form_id: formId || null });
+    }
+    if (!secret) {
+      return this.reject('form', 'unknown_form', req, { form_id: formId || null });
+    }
+
+    const signature = req.headers['x-form-signature'] as string | undefined;
+    const timestamp = req.headers['x-form-timestamp'] as string | undefined;
+    if (!signature || !timestamp || !req.rawBody) {
+      return this.reject('form', 'missing_signature', req, { form_id: formId || null });
+    }
+
+    const signedAt = Number(timestamp) * 1000;
+    if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > this.formToleranceSeconds * 1000) {
+      return this.reject('form', 'stale_timestamp', req, { form_id: formId || null, timestamp });
+    }
+
+    const expected = `sha256=${this.hmac(secret, Buffer.concat([Buffer.from(`${timestamp}.`), req.rawBody]))}`;
+    if (!this.safeEqual(signature, expected)) {
+      return this.reject('form', 'invalid_signature', req, { form_id: formId || null });
+    }
+  }
+
+  /**
+   * Secret for a form (null = secrets are configured but not for this form, undefined = none configured)
+   */
+  private async getFormSecret(formId?: string): Promise<string | null | undefined> {
+    if (!this.cachedFormSecrets || Date.now() - this.cachedAt > FORM_SECRETS_CACHE_TTL_MS) {
+      let secrets: Record<string, string> = {};
+      try {
+        const config = await this.supabase.getConfig('form_webhook_secrets');
+        if (config && typeof config === 'object' && !Array.isArray(config)) {
+          secrets = config as Record<string, string>;
+        }
+      } catch (error) {
+        this.logger.warn('Failed to load form webhook secrets from system_configs', error);
+      }
+      this.cachedFormSecrets = secrets;
+      this.cachedAt = Date.now();
+    }
+
+    const defaultSecret = this.configService.get<string>('FORM_WEBHOOK_SECRET');
+    if (formId && this.cachedFormSecrets[formId]) {
+      return this.cachedFormSecrets[formId];
+    }
+    if (defaultSecret) {
+      return defaultSecret;
+    }
+    return Object.keys(this.cachedFormSecrets).length > 0 ? null : undefined;
+  }
+
+  /**
+   * Newest event time (ms) in a Meta payload - WhatsApp uses unix seconds, Instagram milliseconds
+   */
+  private getNewestMetaEventTime(provider: 'whatsapp' | 'instagram', payload: any): number | null {
+    const times: number[] = [];
+
+    for (const entry of payload?.entry || []) {
+      if (provider === 'whatsapp') {
+        for (const change of entry.changes || []) {
+          const events = [...(change.value?.messages || []), ...(change.value?.statuses || [])];
+          for (const event of events) {
+            if (event.timestamp) times.push(parseInt(event.timestamp, 10) * 1000);
+          }
+        }
+      } else {
+        for (const event of entry.messaging || []) {
+          if (event.timestamp) times.push(Number(event.timestamp));
+        }
+        if (entry.time) times.push(Number(entry.time));
+      }
+    }
+
+    const valid = times.filter((time) => Number.isFinite(time));
+    return valid.length > 0 ? Math.max(...valid) : null;
+  }
+
+  private async reject(
+    provider: SignedProvider,
+    reason: string,
+    req: Request,
+    details: Record<string, unknown> = {},
+  ): Promise<never> {
+    this.logger.warn(`🚫 Rejected ${provider} webhook from ${req.ip}: ${reason}`);
+    this.metrics.incrementCounter(
+      'sales_agent_webhook_rejected_total',
+      'Webhook requests rejected by signature / timestamp checks',
+      { provider, reason },
+    );
+
+    try {
+      await this.supabase.createAuditLog({
+        action: 'webhook_rejected',
+        entity_type: 'webhook',
+        new_value: { provider, reason, path: req.originalUrl, ...details },
+        ip_address: req.ip,
+        user_agent: req.headers['user-agent'],
+      });
+    } catch (error) {
+      this.logger.error('Failed to write webhook rejection to audit_logs', error);
+    }
+
+    throw new UnauthorizedException(`Webhook rejected: ${reason}`);
+  }
+
+  private hmac(secret: string, data: Buffer): string {
+    return createHmac('sha256', secret).update(data).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+  }
+}
@@ -8,17 +8,25 @@ import {
   HttpCode,
   HttpStatus,
   Logger,
-  Headers,
+  Req,
+  ParseUUIDPipe,
+  RawBodyRequest,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiParam } from '@nestjs/swagger';
+import { Request } from 'express';
+import { ApiTags, ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
 import { WebhooksService } from './webhooks.service';
+import { WebhookSignatureService } from './webhook-signature.service';
+import { StartWebSessionDto, WebMessageDto, WebButtonDto } from './web-chat.dto';
 
 @ApiTags('webhooks')
 @Controller('webhooks')
 export class WebhooksController {
   private readonly logger = new Logger(WebhooksController.name);
 
-  constructor(private readonly webhooksService: WebhooksService) {}
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    private readonly webhookSignature: WebhookSignatureService,
+  ) {}
 
   // ==================== WHATSAPP ====================
 
@@ -36,15 +44,15 @@ export class WebhooksController {
   @Post('whatsapp')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'WhatsApp incoming webhook' })
-  async handleWhatsapp(@Body() payload: any): Promise<{ status: string }> {
+  async handleWhatsapp(
+    @Body() payload: any,
+    @Req() req: RawBodyRequest<Request>,
+  ): Promise<{ status: string }> {
     this.logger.log('WhatsApp webhook received');
+    await this.webhookSignature.verifyMetaWebhook('whatsapp', req);
     
-    // Process asynchronously - return immediately
-    setImmediate(() => {
-      this.webhooksService.handleWhatsapp(payload).catch((err) => {
-        this.logger.error('WhatsApp webhook processing error:', err);
-      });
-    });
+    // Messages are only queued here - a failure returns 5xx so the channel retries delivery
+    await this.webhooksService.handleWhatsapp(payload);
 
     return { status: 'received' };
   }
@@ -56,16 +64,104 @@ export class WebhooksController {
   @ApiOperation({ summary: 'Telegram incoming webhook' })
   async handleTelegram(
     @Body() payload: any,
-    @Headers('x-telegram-bot-api-secret-token') secretToken?: string,
+    @Req() req: Request,
   ): Promise<{ status: string }> {
     this.logger.log('Telegram webhook received');
+    await this.webhookSignature.verifySharedSecret('telegram', req);
 
-    // Process asynchronously - return immediately
-    setImmediate(() => {
-      this.webhooksService.handleTelegram(payload, secretToken).catch((err) => {
-        this.logger.error('Telegram webhook processing error:', err);
-      });
-    });
+    // Messages are only queued here - a failure returns 5xx so the channel retries delivery
+    await this.webhooksService.handleTelegram(payload);
+
+    return { status: 'received' };
+  }
+
+  // ==================== INSTAGRAM ====================
+
+  @Get('instagram')
+  @ApiOperation({ summary: 'Instagram webhook verification' })
+  async verifyInstagram(
+    @Query('hub.mode') mode: string,
+    @Query('hub.verify_token') token: string,
+    @Query('hub.challenge') challenge: string,
+  ): Promise<string> {
+    this.logger.log('Instagram verification request received');
+    return this.webhooksService.verifyInstagram(mode, token, challenge);
+  }
+
+  @Post('instagram')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Instagram Direct incoming webhook' })
+  async handleInstagram(
+    @Body() payload: any,
+    @Req() req: RawBodyRequest<Request>,
+  ): Promise<{ status: string }> {
+    this.logger.log('Instagram webhook received');
+    await this.webhookSignature.verifyMetaWebhook('instagram', req);
+
+    // Messages are only queued here - a failure returns 5xx so the channel retries delivery
+    await this.webhooksService.handleInstagram(payload);
+
+    return { status: 'received' };
+  }
+
+  // ==================== WEB CHAT (REST fallback for the widget) ====================
+
+  @Post('web/sessions')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Open or resume a web chat session' })
+  async startWebSession(@Body() dto: StartWebSessionDto) {
+    return this.webhooksService.startWebSession(dto);
+  }
+
+  @Post('web/sessions/:sessionId/messages')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send a web chat message' })
+  @ApiParam({ name: 'sessionId', type: String })
+  async handleWebMessage(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: WebMessageDto,
+  ): Promise<{ status: string }> {
+    await this.webhooksService.handleWebMessage(sessionId, dto);
+    return { status: 'received' };
+  }
+
+  @Post('web/sessions/:sessionId/buttons')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send a web chat button press (consent / flow selection)' })
+  @ApiParam({ name: 'sessionId', type: String })
+  async handleWebButton(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: WebButtonDto,
+  ): Promise<{ status: string }> {
+    await this.webhooksService.handleWebButton(sessionId, dto.data, dto.language);
+    return { status: 'received' };
+  }
+
+  @Get('web/sessions/:sessionId/events')
+  @ApiOperation({ summary: 'Poll web chat events (replies, buttons, links)' })
+  @ApiParam({ name: 'sessionId', type: String })
+  @ApiQuery({ name: 'after', required: false, type: String, description: 'Last received event id' })
+  async getWebEvents(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Query('after') after?: string,
+  ) {
+    return { events: await this.webhooksService.getWebEvents(sessionId, after) };
+  }
+
+  // ==================== EMAIL ====================
+
+  @Post('email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Inbound email webhook (inbound-parse / IMAP poller)' })
+  async handleEmail(
+    @Body() payload: any,
+    @Req() req: Request,
+  ): Promise<{ status: string }> {
+    this.logger.log('Inbound email webhook received');
+    await this.webhookSignature.verifySharedSecret('email', req);
+
+    // Messages are only queued here - a failure returns 5xx so the channel retries delivery
+    await this.webhooksService.handleEmail(payload);
 
     return { status: 'received' };
   }
@@ -75,19 +171,34 @@ export class WebhooksController {
   @Post('channel/:provider')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Generic channel webhook' })
-  @ApiParam({ name: 'provider', enum: ['whatsapp', 'telegram', 'web'] })
+  @ApiParam({ name: 'provider', enum: ['whatsapp', 'telegram', 'instagram', 'web', 'email'] })
   async handleChannel(
     @Param('provider') provider: string,
     @Body() payload: any,
+    @Req() req: RawBodyRequest<Request>,
   ): Promise<{ status: string }> {
     this.logger.log(`Channel webhook received: ${provider}`);
 
+    // Same checks as the dedicated routes
     switch (provider) {
       case 'whatsapp':
-        setImmediate(() => this.webhooksService.handleWhatsapp(payload));
+        await this.webhookSignature.verifyMetaWebhook('whatsapp', req);
+        await this.webhooksService.handleWhatsapp(payload);
         break;
       case 'telegram':
-        setImmediate(() => this.webhooksService.handleTelegram(payload));
+        await this.webhookSignature.verifySharedSecret('telegram', req);
+        await this.webhooksService.handleTelegram(payload);
+        break;
+      case 'instagram':
+        await this.webhookSignature.verifyMetaWebhook('instagram', req);
+        await this.webhooksService.handleInstagram(payload);
+        break;
+      case 'web':
+        await this.webhooksService.handleWeb(payload);
+        break;
+      case 'email':
+        await this.webhookSignature.verifySharedSecret('email', req);
+        await this.webhooksService.handleEmail(payload);
         break;
       default:
         this.logger.warn(`Unknown channel provider: ${provider}`);
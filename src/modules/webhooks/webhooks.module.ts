@@ -3,8 +3,14 @@ import { WebhooksController } from './webhooks.controller';
 import { FormWebhookController } from './form-webhook.controller';
 import { WhatsappAdapter } from './adapters/whatsapp.adapter';
 import { TelegramAdapter } from './adapters/telegram.adapter';
+import { InstagramAdapter } from './adapters/instagram.adapter';
+import { WebChatAdapter } from './adapters/web-chat.adapter';
+import { EmailAdapter } from './adapters/email.adapter';
 import { WebhooksService } from './webhooks.service';
 import { TelegramPollingService } from './telegram-polling.service';
+import { WebChatGateway } from './web-chat.gateway';
+import { WhatsappTemplatesService } from './whatsapp-templates.service';
+import { WebhookSignatureService } from './webhook-signature.service';
 import { OrchestratorModule } from '../orchestrator/orchestrator.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { SupabaseModule } from '../../common/supabase/supabase.module';
@@ -16,9 +22,15 @@ import { SupabaseModule } from '../../common/supabase/supabase.module';
     WebhooksService,
     WhatsappAdapter,
     TelegramAdapter,
+    InstagramAdapter,
+    WebChatAdapter,
+    EmailAdapter,
     TelegramPollingService,
+    WebChatGateway,
+    WhatsappTemplatesService,
+    WebhookSignatureService,
   ],
-  exports: [WhatsappAdapter, TelegramAdapter, TelegramPollingService],
+  exports: [WhatsappAdapter, TelegramAdapter, InstagramAdapter, WebChatAdapter, EmailAdapter, TelegramPollingService, WhatsappTemplatesService],
 })
 export class WebhooksModule {}
 
@@ -1,9 +1,18 @@
-import { Injectable, Logger, UnauthorizedException, Inject, forwardRef } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException, BadRequestException, Inject, forwardRef } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { WhatsappAdapter } from './adapters/whatsapp.adapter';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { WhatsappAdapter, WhatsappStatusUpdate } from './adapters/whatsapp.adapter';
 import { TelegramAdapter, CallbackQueryResult } from './adapters/telegram.adapter';
+import { InstagramAdapter, InstagramQuickReplyResult } from './adapters/instagram.adapter';
+import { WebChatAdapter, WebChatEvent } from './adapters/web-chat.adapter';
+import { EmailAdapter, InboundEmailPayload } from './adapters/email.adapter';
 import { OrchestratorService } from '../orchestrator/orchestrator.service';
+import { SupabaseService } from '../../common/supabase/supabase.service';
+import { QueueService } from '../../common/queue/queue.service';
 import { NormalizedMessage } from './interfaces/normalized-message.interface';
+import { WsWebMessageDto, WsWebButtonDto } from './web-chat.dto';
 
 @Injectable()
 export class WebhooksService {
@@ -14,6 +23,11 @@ export class WebhooksService {
     private readonly configService: ConfigService,
     private readonly whatsappAdapter: WhatsappAdapter,
     private readonly telegramAdapter: TelegramAdapter,
+    private readonly instagramAdapter: InstagramAdapter,
+    private readonly webChatAdapter: WebChatAdapter,
+    private readonly emailAdapter: EmailAdapter,
+    private readonly supabase: SupabaseService,
+    private readonly queueService: QueueService,
     @Inject(forwardRef(() => OrchestratorService))
     private readonly orchestratorService: OrchestratorService,
   ) {
@@ -50,28 +64,51 @@ export class WebhooksService {
           await this.processNormalizedMessage(message);
         }
       }
+
+      // Delivery receipts for our outbound messages
+      for (const update of this.whatsappAdapter.parseStatuses(payload)) {
+        await this.processWhatsappStatus(update);
+      }
     } catch (error) {
       this.logger.error('Error processing WhatsApp webhook:', error);
       throw error;
     }
   }
 
+  private async processWhatsappStatus(update: WhatsappStatusUpdate): Promise<void> {
+    try {
+      const message = await this.supabase.updateMessageDeliveryStatus(
+        { channel: 'whatsapp', channelUserId: update.recipientId, channelMessageId: update.channelMessageId },
+        update.status,
+        update.timestamp.toISOString(),
+        update.error,
+      );
+
+      if (!message) {
+        this.logger.debug(`No stored message for WhatsApp status ${update.status}: ${update.channelMessageId}`);
+        return;
+      }
+
+      if (update.status === 'failed') {
+        this.logger.warn(`❌ WhatsApp message ${message.id} failed to deliver: ${update.error || 'unknown error'}`);
+      } else {
+        this.logger.debug(`WhatsApp message ${message.id} ${update.status}`);
+      }
+    } catch (error) {
+      // A receipt must never fail the whole webhook
+      this.logger.error(`Error saving WhatsApp status for ${update.channelMessageId}:`, error);
+    }
+  }
+
   // ==================== TELEGRAM ====================
 
-  async handleTelegram(payload: any, secretToken?: string): Promise<void> {
+  async handleTelegram(payload: any): Promise<void> {
     const isEnabled = this.configService.get<string>('ENABLE_TELEGRAM') === 'true';
     if (!isEnabled) {
       this.logger.warn('Telegram is disabled, skipping webhook');
       return;
     }
 
-    // Verify secret token if configured
-    const expectedToken = this.configService.get<string>('TELEGRAM_WEBHOOK_SECRET');
-    if (expectedToken && secretToken !== expectedToken) {
-      this.logger.warn('Telegram webhook secret mismatch');
-      throw new UnauthorizedException('Invalid secret token');
-    }
-
     try {
       // Check if this is a callback query (button press)
       if (this.telegramAdapter.hasCallbackQuery(payload)) {
@@ -153,18 +190,220 @@ export class WebhooksService {
     }
   }
 
-  // ==================== COMMON PROCESSING ====================
+  // ==================== INSTAGRAM ====================
 
-  private async processNormalizedMessage(message: NormalizedMessage): Promise<void> {
-    this.logger.log(`Processing message from ${message.channel}:${message.channelUserId}`);
+  verifyInstagram(mode: string, token: string, challenge: string): string {
+    const verifyToken = this.configService.get<string>('INSTAGRAM_VERIFY_TOKEN');
+
+    if (mode === 'subscribe' && token === verifyToken) {
+      this.logger.log('Instagram webhook verified');
+      return challenge;
+    }
+
+    this.logger.warn('Instagram webhook verification failed');
+    throw new UnauthorizedException('Verification failed');
+  }
+
+  async handleInstagram(payload: any): Promise<void> {
+    const isEnabled = this.configService.get<string>('ENABLE_INSTAGRAM') === 'true';
+    if (!isEnabled) {
+      this.logger.warn('Instagram is disabled, skipping webhook');
+      return;
+    }
 
     try {
-      // Send to orchestrator for processing
-      await this.orchestratorService.handleIncomingMessage(message);
+      // Quick reply / postback button presses
+      for (const quickReply of this.instagramAdapter.parseQuickReplies(payload)) {
+        await this.handleInstagramQuickReply(quickReply);
+      }
+
+      // Normalize the messages
+      const normalizedMessages = this.instagramAdapter.normalizeWebhook(payload);
+
+      for (const message of normalizedMessages) {
+        // Instagram webhooks don't include the sender's name
+        message.senderName = await this.instagramAdapter.getUserName(message.channelUserId);
+        await this.processNormalizedMessage(message);
+      }
     } catch (error) {
-      this.logger.error('Error in orchestrator processing:', error);
+      this.logger.error('Error processing Instagram webhook:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle Instagram quick reply (button presses)
+   */
+  private async handleInstagramQuickReply(quickReply: InstagramQuickReplyResult): Promise<void> {
+    this.logger.log(`Instagram quick reply received: ${quickReply.data} from ${quickReply.senderId}`);
+
+    try {
+      await this.dispatchButtonCallback('instagram', quickReply.senderId, quickReply.data, '');
+    } catch (error) {
+      this.logger.error('Error handling Instagram quick reply:', error);
       throw error;
     }
   }
-}
 
+  // ==================== WEB CHAT ====================
+
+  /**
+   * Open (or resume) a web chat session for the website widget
+   */
+  async startWebSession(options: {
+    sessionId?: string;
+    name?: string;
+    language?: string;
+  }): Promise<{ sessionId: string; events: WebChatEvent[] }> {
+    this.assertWebChatEnabled();
+
+    if (options.sessionId && !isUuid(options.sessionId)) {
+      throw new BadRequestException('Invalid session id');
+    }
+
+    const sessionId = options.sessionId || uuidv4();
+    await this.orchestratorService.startWebSession(sessionId, options.name, options.language);
+
+    return {
+      sessionId,
+      events: await this.webChatAdapter.getEvents(sessionId),
+    };
+  }
+
+  async handleWebMessage(
+    sessionId: string,
+    body: { content: string; messageId?: string; language?: string },
+  ): Promise<void> {
+    this.assertWebChatEnabled();
+
+    if (!body.content || !body.content.trim()) {
+      throw new BadRequestException('Message content is required');
+    }
+
+    const message: NormalizedMessage = {
+      channel: 'web',
+      channelMessageId: body.messageId || `web_${uuidv4()}`,
+      channelUserId: sessionId,
+      senderLanguage: body.language,
+      content: body.content,
+      mediaType: 'text',
+      timestamp: new Date(),
+    };
+
+    await this.processNormalizedMessage(message);
+  }
+
+  async handleWebButton(sessionId: string, data: string, language?: string): Promise<void> {
+    this.assertWebChatEnabled();
+    await this.dispatchButtonCallback('web', sessionId, data, language || '');
+  }
+
+  async getWebEvents(sessionId: string, afterEventId?: string): Promise<WebChatEvent[]> {
+    return this.webChatAdapter.getEvents(sessionId, afterEventId);
+  }
+
+  /**
+   * Handle generic web payloads posted to /webhooks/channel/web
+   * The body is untyped on this route, so it is validated against the WebSocket DTOs here
+   */
+  async handleWeb(payload: unknown): Promise<void> {
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      throw new BadRequestException('Web payload must be an object');
+    }
+
+    const { type, ...body } = payload as Record<string, unknown>;
+    if (type === 'button') {
+      const dto = await this.validateWebPayload(WsWebButtonDto, body);
+      await this.handleWebButton(dto.sessionId, dto.data, dto.language);
+    } else {
+      const dto = await this.validateWebPayload(WsWebMessageDto, body);
+      await this.handleWebMessage(dto.sessionId, dto);
+    }
+  }
+
+  private async validateWebPayload<T extends object>(type: new () => T, body: Record<string, unknown>): Promise<T> {
+    const dto = plainToInstance(type, body);
+    const errors = await validate(dto, { whitelist: true, forbidNonWhitelisted: true });
+    if (errors.length > 0) {
+      throw new BadRequestException(errors.flatMap((error) => Object.values(error.constraints || {})));
+    }
+    return dto;
+  }
+
+  private assertWebChatEnabled(): void {
+    if (this.configService.get<string>('ENABLE_WEB_CHAT') !== 'true') {
+      this.logger.warn('Web chat is disabled');
+      throw new BadRequestException('Web chat is disabled');
+    }
+  }
+
+  // ==================== EMAIL ====================
+
+  async handleEmail(payload: InboundEmailPayload): Promise<void> {
+    const isEnabled = this.configService.get<string>('ENABLE_EMAIL') === 'true';
+    if (!isEnabled) {
+      this.logger.warn('Email channel is disabled, skipping webhook');
+      return;
+    }
+
+    try {
+      const normalizedMessages = this.emailAdapter.normalizeInbound(payload);
+
+      for (const message of normalizedMessages) {
+        await this.processNormalizedMessage(message);
+      }
+    } catch (error) {
+      this.logger.error('Error processing inbound email:', error);
+      throw error;
+    }
+  }
+
+  // ==================== COMMON PROCESSING ====================
+
+  /**
+   * Route consent / flow selection button presses to the orchestrator
+   */
+  private async dispatchButtonCallback(
+    channel: 'instagram' | 'web',
+    channelUserId: string,
+    data: string,
+    language: string,
+  ): Promise<void> {
+    switch (data) {
+      case 'consent_approve':
+      case 'consent_decline':
+        await this.orchestratorService.handleCallbackConsentResponse(
+          channelUserId,
+          data === 'consent_approve',
+          language,
+          channel,
+        );
+        break;
+
+      case 'flow_form':
+      case 'flow_chat':
+        await this.orchestratorService.handleCallbackFlowSelection(
+          channelUserId,
+          data === 'flow_form' ? 'form' : 'chat',
+          language,
+          channel,
+        );
+        break;
+
+      default:
+        this.logger.warn(`Unknown ${channel} button payload: ${data}`);
+    }
+  }
+
+  /**
+   * Hand the message to the inbound queue (per-user ordering, deduplicated by channel message id)
+   */
+  private async processNormalizedMessage(message: NormalizedMessage): Promise<void> {
+    this.logger.log(`Queueing message from ${message.channel}:${message.channelUserId}`);
+
+    const queued = await this.queueService.addInboundMessageJob(message);
+    if (!queued) {
+      this.logger.log(`Duplicate ${message.channel} message ignored: ${message.channelMessageId}`);
+    }
+  }
+}
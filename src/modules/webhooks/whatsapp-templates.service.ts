@@ -0,0 +1,233 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SupabaseService, Lead, LeadProfile } from '../../common/supabase/supabase.service';
+import { WhatsappAdapter } from './adapters/whatsapp.adapter';
+
+/**
+ * WhatsApp Cloud API message template (must be approved in Meta Business Manager)
+ */
+export interface WhatsappTemplate {
+  name: string;
+  language: string; // Meta language code, e.g. 'tr', 'en', 'en_US'
+  category: 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
+  purpose: 'followup' | 'reengagement';
+  slots: string[]; // Ordered body variables -> {{1}}, {{2}}, ...
+  body: string; // Approved body text, used for history / previews
+}
+
+// Meta only allows free-form messages within 24h of the customer's last message
+const SERVICE_WINDOW_HOURS = 24;
+
+// Cache templates loaded from system_configs
+const TEMPLATE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const DEFAULT_TEMPLATES: WhatsappTemplate[] = [
+  {
+    name: 'followup_checkin',
+    language: 'tr',
+    category: 'MARKETING',
+    purpose: 'followup',
+    slots: ['name', 'agent_name'],
+    body: 'Merhaba {{1}}, ben Natural Clinic\'ten {{2}}. Tedavi planınızla ilgili size yardımcı olmaya devam etmek isteriz. Sohbete devam etmek için bu mesajı yanıtlamanız yeterli.',
+  },
+  {
+    name: 'followup_checkin',
+    language: 'en',
+    category: 'MARKETING',
+    purpose: 'followup',
+    slots: ['name', 'agent_name'],
+    body: 'Hello {{1}}, this is {{2}} from Natural Clinic. We would love to keep helping you with your treatment plan. Simply reply to this message to continue our conversation.',
+  },
+  {
+    name: 'followup_checkin',
+    language: 'ar',
+    category: 'MARKETING',
+    purpose: 'followup',
+    slots: ['name', 'agent_name'],
+    body: 'مرحباً {{1}}، أنا {{2}} من Natural Clinic. يسعدنا مواصلة مساعدتك في خطة علاجك. ما عليك سوى الرد على هذه الرسالة لمتابعة المحادثة.',
+  },
+  {
+    name: 'followup_checkin',
+    language: 'fr',
+    category: 'MARKETING',
+    purpose: 'followup',
+    slots: ['name', 'agent_name'],
+    body: 'Bonjour {{1}}, c\'est {{2}} de Natural Clinic. Nous serions ravis de continuer à vous aider pour votre plan de traitement. Répondez simplement à ce message pour poursuivre la conversation.',
+  },
+  {
+    name: 'conversation_reopen',
+    language: 'tr',
+    category: 'UTILITY',
+    purpose: 'reengagement',
+    slots: ['name'],
+    body: 'Merhaba {{1}}, talebinizle ilgili sizin için yeni bir bilgimiz var. Görmek için lütfen bu mesajı yanıtlayın.',
+  },
+  {
+    name: 'conversation_reopen',
+    language: 'en',
+    category: 'UTILITY',
+    purpose: 'reengagement',
+    slots: ['name'],
+    body: 'Hello {{1}}, we have an update regarding your request. Please reply to this message to see it.',
+  },
+  {
+    name: 'conversation_reopen',
+    language: 'ar',
+    category: 'UTILITY',
+    purpose: 'reengagement',
+    slots: ['name'],
+    body: 'مرحباً {{1}}، لدينا تحديث بخصوص طلبك. يرجى الرد على هذه الرسالة للاطلاع عليه.',
+  },
+  {
+    name: 'conversation_reopen',
+    language: 'fr',
+    category: 'UTILITY',
+    purpose: 'reengagement',
+    slots: ['name'],
+    body: 'Bonjour {{1}}, nous avons une mise à jour concernant votre demande. Veuillez répondre à ce message pour la consulter.',
+  },
+];
+
+@Injectable()
+export class WhatsappTemplatesService {
+  private readonly logger = new Logger(WhatsappTemplatesService.name);
+  private cachedTemplates: WhatsappTemplate[] | null = null;
+  private cachedAt = 0;
+
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly whatsappAdapter: WhatsappAdapter,
+  ) {}
+
+  /**
+   * Get the template registry (system_configs 'whatsapp_templates' overrides the defaults)
+   */
+  async getTemplates(): Promise<WhatsappTemplate[]> {
+    if (this.cachedTemplates && Date.now() - this.cachedAt < TEMPLATE_CACHE_TTL_MS) {
+      return this.cachedTemplates;
+    }
+
+    let templates = DEFAULT_TEMPLATES;
+    try {
+      const config = await this.supabase.getConfig('whatsapp_templates');
+      if (Array.isArray(config) && config.length > 0) {
+        templates = config as unknown as WhatsappTemplate[];
+      }
+    } catch (error) {
+      this.logger.warn('Failed to load WhatsApp templates from system_configs, using defaults', error);
+    }
+
+    this.cachedTemplates = templates;
+    this.cachedAt = Date.now();
+    return templates;
+  }
+
+  /**
+   * Find a template for a purpose, preferring the lead's language and falling back to English
+   */
+  async findTemplate(
+    purpose: WhatsappTemplate['purpose'],
+    language: string,
+  ): Promise<WhatsappTemplate | null> {
+    const templates = (await this.getTemplates()).filter((t) => t.purpose === purpose);
+    const baseLanguage = language.split(/[-_]/)[0];
+
+    return templates.find((t) => t.language === language)
+      || templates.find((t) => t.language.split(/[-_]/)[0] === baseLanguage)
+      || templates.find((t) => t.language.startsWith('en'))
+      || null;
+  }
+
+  /**
+   * Check if the 24h customer-service window is still open for a lead
+   */
+  async isServiceWindowOpen(leadId: string): Promise<boolean> {
+    const lastInboundAt = await this.supabase.getLastInboundMessageAt(leadId);
+    if (!lastInboundAt) return false;
+
+    const hoursSince = (Date.now() - new Date(lastInboundAt).getTime()) / (1000 * 60 * 60);
+    return hoursSince < SERVICE_WINDOW_HOURS;
+  }
+
+  /**
+   * Get the WhatsApp lead for a user if their service window has closed (null if still open / unknown)
+   */
+  async getClosedWindowLead(
+    channelUserId: string,
+  ): Promise<(Lead & { lead_profile: LeadProfile | null }) | null> {
+    const lead = await this.supabase.getLeadByChannelUser('whatsapp', channelUserId);
+    if (!lead) return null;
+
+    return (await this.isServiceWindowOpen(lead.id)) ? null : lead;
+  }
+
+  /**
+   * Send the lead's template for a purpose and record it on the followup row (if any)
+   * Returns null when no template is registered for the purpose
+   */
+  async sendForLead(
+    lead: Lead & { lead_profile: LeadProfile | null },
+    purpose: WhatsappTemplate['purpose'],
+    followupId?: string,
+  ): Promise<{ template: WhatsappTemplate; messageId: string; renderedBody: string } | null> {
+    if (!lead.channel_user_id) return null;
+
+    const template = await this.findTemplate(purpose, lead.language || 'en');
+    if (!template) {
+      this.logger.warn(`No WhatsApp template registered for ${purpose}/${lead.language}`);
+      return null;
+    }
+
+    const profile = lead.lead_profile as (LeadProfile & { agent_name?: string }) | null;
+    const { messageId, renderedBody } = await this.sendTemplate(lead.channel_user_id, template, {
+      name: profile?.name,
+      agent_name: profile?.agent_name,
+    });
+
+    if (followupId) {
+      await this.recordTemplateOnFollowup(followupId, template);
+    }
+
+    return { template, messageId, renderedBody };
+  }
+
+  /**
+   * Send a template, filling its slots from the given values
+   * Returns the rendered body so it can be stored in message history
+   */
+  async sendTemplate(
+    to: string,
+    template: WhatsappTemplate,
+    values: Record<string, string | null | undefined>,
+  ): Promise<{ messageId: string; renderedBody: string }> {
+    const parameters = template.slots.map((slot) => values[slot] || '-');
+
+    const messageId = await this.whatsappAdapter.sendTemplateMessage(
+      to,
+      template.name,
+      template.language,
+      parameters,
+    );
+
+    const renderedBody = parameters.reduce(
+      (body, value, index) => body.split(`{{${index + 1}}}`).join(value),
+      template.body,
+    );
+
+    this.logger.log(`WhatsApp template ${template.name}/${template.language} sent to ${to}`);
+    return { messageId, renderedBody };
+  }
+
+  /**
+   * Record which template was used on the followup row
+   */
+  async recordTemplateOnFollowup(followupId: string, template: WhatsappTemplate): Promise<void> {
+    await this.supabase.updateFollowupMetadata(followupId, {
+      whatsapp_template: {
+        name: template.name,
+        language: template.language,
+        category: template.category,
+        sent_at: new Date().toISOString(),
+      },
+    });
+  }
+}
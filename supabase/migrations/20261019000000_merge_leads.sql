@@ -0,0 +1,84 @@
+-- Merge a duplicate lead into its primary lead in one transaction
+-- Called by IdentityService.mergeLeads through supabase.rpc('merge_leads'). The service decides
+-- which fields to fill; this function applies every write, or none of them if one fails.
+
+create or replace function public.merge_leads(
+  p_primary_id uuid,
+  p_secondary_id uuid,
+  p_tables text[],               -- lead-owned tables whose rows move to the primary
+  p_lead_updates jsonb,          -- primary lead columns to fill (country, tags, ...)
+  p_profile_updates jsonb,       -- primary lead_profile columns to fill
+  p_merged_lead jsonb,           -- entry appended to the primary's metadata.merged_leads
+  p_secondary_metadata jsonb,    -- merged_into / merged_at / merged_by for the duplicate
+  p_audit jsonb                  -- audit_logs row (action, user_id, user_role, old_value, new_value)
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_table text;
+  v_count integer;
+  v_moved jsonb := '{}'::jsonb;
+begin
+  -- Serialize concurrent merges touching either lead
+  perform 1 from leads where id in (p_primary_id, p_secondary_id) order by id for update;
+
+  if exists (
+    select 1 from leads
+    where id in (p_primary_id, p_secondary_id) and metadata->>'merged_into' is not null
+  ) then
+    raise exception 'One of the leads has already been merged' using errcode = 'P0001';
+  end if;
+
+  -- Pending followups of the duplicate would double up with the primary's own schedule
+  update followups set status = 'cancelled' where lead_id = p_secondary_id and status = 'pending';
+
+  foreach v_table in array p_tables loop
+    if v_table = 'conversations' then
+      -- Only the primary's active conversation keeps receiving messages
+      update conversations set lead_id = p_primary_id, is_active = false where lead_id = p_secondary_id;
+    else
+      execute format('update %I set lead_id = $1 where lead_id = $2', v_table) using p_primary_id, p_secondary_id;
+    end if;
+
+    get diagnostics v_count = row_count;
+    v_moved := v_moved || jsonb_build_object(v_table, v_count);
+  end loop;
+
+  if p_profile_updates <> '{}'::jsonb then
+    insert into lead_profile (lead_id) values (p_primary_id) on conflict (lead_id) do nothing;
+    execute format(
+      'update lead_profile p set %s from jsonb_populate_record(null::lead_profile, $2) r where p.lead_id = $1',
+      (select string_agg(format('%I = r.%I', key, key), ', ') from jsonb_object_keys(p_profile_updates) as key)
+    ) using p_primary_id, p_profile_updates;
+  end if;
+
+  if p_lead_updates <> '{}'::jsonb then
+    execute format(
+      'update leads l set %s from jsonb_populate_record(null::leads, $2) r where l.id = $1',
+      (select string_agg(format('%I = r.%I', key, key), ', ') from jsonb_object_keys(p_lead_updates) as key)
+    ) using p_primary_id, p_lead_updates;
+  end if;
+
+  update leads
+  set metadata = coalesce(metadata, '{}'::jsonb)
+    || jsonb_build_object('merged_leads', coalesce(metadata->'merged_leads', '[]'::jsonb) || jsonb_build_array(p_merged_lead))
+  where id = p_primary_id;
+
+  update leads
+  set metadata = coalesce(metadata, '{}'::jsonb) || p_secondary_metadata
+  where id = p_secondary_id;
+
+  insert into audit_logs (action, entity_type, entity_id, user_id, user_role, old_value, new_value)
+  values (
+    'lead_merged',
+    'lead',
+    p_primary_id,
+    (p_audit->>'user_id')::uuid,
+    p_audit->>'user_role',
+    p_audit->'old_value',
+    (p_audit->'new_value') || jsonb_build_object('moved', v_moved)
+  );
+
+  return v_moved;
+end;
+$$;
@@ -0,0 +1,153 @@
+-- Delivery receipts of outbound messages
+-- Replaces messages.metadata.delivery: every write is a single statement (or RPC), so concurrent
+-- receipts for the parts of a split reply no longer overwrite each other, and receipts find their
+-- message through an indexed channel message id instead of a JSONB containment scan.
+-- Channel message ids are only unique per chat on some channels (Telegram message_id counts up
+-- per chat), so every id is keyed by channel + chat (channel_user_id) + id.
+
+alter table messages
+  add column if not exists delivery_status text check (delivery_status in ('sent', 'delivered', 'read', 'failed')),
+  add column if not exists delivery_updated_at timestamptz,
+  add column if not exists channel text,
+  add column if not exists channel_user_id text;
+
+-- Inbound messages remember the chat they came from - the duplicate check is scoped to it
+update messages m
+set channel = l.channel,
+    channel_user_id = l.channel_user_id
+from leads l
+where m.lead_id = l.id
+  and m.direction = 'in'
+  and m.channel is null;
+
+create index if not exists messages_inbound_channel_message_idx
+  on messages (channel, channel_user_id, channel_message_id)
+  where direction = 'in';
+
+-- One row per sent part (split replies) - the primary key is the lookup index for receipts
+create table if not exists message_deliveries (
+  channel text not null,
+  channel_user_id text not null,
+  channel_message_id text not null,
+  message_id uuid not null references messages(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (channel, channel_user_id, channel_message_id)
+);
+
+create index if not exists message_deliveries_message_id_idx on message_deliveries (message_id);
+
+-- Every receipt / failure as it arrived
+create table if not exists message_delivery_events (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references messages(id) on delete cascade,
+  channel_message_id text, -- null when the send itself failed
+  status text not null check (status in ('sent', 'delivered', 'read', 'failed')),
+  error text,
+  occurred_at timestamptz not null default now()
+);
+
+create index if not exists message_delivery_events_message_id_idx on message_delivery_events (message_id, occurred_at);
+
+-- Receipts can arrive out of order, a status never moves back to a lower rank
+create or replace function public.delivery_status_rank(p_status text) returns integer
+language sql immutable
+as $$
+  select case p_status when 'failed' then 0 when 'sent' then 1 when 'delivered' then 2 when 'read' then 3 else -1 end;
+$$;
+
+-- Link a channel message id (WhatsApp wamid, Telegram message_id, ...) of a chat to an outbound message
+create or replace function public.record_outbound_delivery(
+  p_message_id uuid,
+  p_channel text,
+  p_channel_user_id text,
+  p_channel_message_id text
+) returns void
+language plpgsql
+as $$
+begin
+  insert into message_deliveries (channel, channel_user_id, channel_message_id, message_id)
+  values (p_channel, p_channel_user_id, p_channel_message_id, p_message_id)
+  on conflict (channel, channel_user_id, channel_message_id) do nothing;
+
+  if not found then
+    return; -- Already linked (retried job)
+  end if;
+
+  insert into message_delivery_events (message_id, channel_message_id, status)
+  values (p_message_id, p_channel_message_id, 'sent');
+
+  update messages
+  set delivery_status = case
+        when delivery_status_rank(delivery_status) < delivery_status_rank('sent') then 'sent'
+        else delivery_status
+      end,
+      delivery_updated_at = case
+        when delivery_status_rank(delivery_status) < delivery_status_rank('sent') then now()
+        else delivery_updated_at
+      end
+  where id = p_message_id;
+end;
+$$;
+
+-- Apply a receipt to the message owning the channel message id of a chat (no row if the id is unknown)
+create or replace function public.apply_delivery_receipt(
+  p_channel text,
+  p_channel_user_id text,
+  p_channel_message_id text,
+  p_status text,
+  p_at timestamptz,
+  p_error text default null
+) returns setof messages
+language plpgsql
+as $$
+declare
+  v_message_id uuid;
+begin
+  select message_id into v_message_id
+  from message_deliveries
+  where channel = p_channel
+    and channel_user_id = p_channel_user_id
+    and channel_message_id = p_channel_message_id;
+  if v_message_id is null then
+    return;
+  end if;
+
+  insert into message_delivery_events (message_id, channel_message_id, status, error, occurred_at)
+  values (v_message_id, p_channel_message_id, p_status, p_error, p_at);
+
+  -- 'failed' only sticks while nothing has been delivered yet
+  return query
+  update messages
+  set delivery_status = p_status,
+      delivery_updated_at = p_at
+  where id = v_message_id
+    and (
+      case when p_status = 'failed'
+        then coalesce(delivery_status, 'sent') = 'sent'
+        else delivery_status_rank(p_status) > delivery_status_rank(delivery_status)
+      end
+    )
+  returning *;
+
+  if not found then
+    return query select * from messages where id = v_message_id;
+  end if;
+end;
+$$;
+
+-- Mark an outbound message as failed when its send job gave up (nothing reached the channel)
+create or replace function public.record_outbound_send_failure(p_message_id uuid, p_error text)
+returns void
+language plpgsql
+as $$
+begin
+  insert into message_delivery_events (message_id, status, error)
+  values (p_message_id, 'failed', p_error);
+
+  update messages
+  set delivery_status = 'failed',
+      delivery_updated_at = now()
+  where id = p_message_id
+    and not exists (select 1 from message_deliveries where message_id = p_message_id);
+end;
+$$;
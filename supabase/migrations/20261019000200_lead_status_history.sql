@@ -0,0 +1,17 @@
+-- Lead status transitions: who / what moved the lead and why
+-- Written by SupabaseService.updateLeadStatus, read by the lead timeline and the funnel reports.
+
+create table if not exists lead_status_history (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null references leads(id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  event text, -- State machine event behind the change
+  actor text not null check (actor in ('ai', 'user', 'system')),
+  actor_id uuid references users(id) on delete set null,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lead_status_history_lead_id_idx on lead_status_history (lead_id, created_at);
+create index if not exists lead_status_history_to_status_idx on lead_status_history (to_status, created_at);
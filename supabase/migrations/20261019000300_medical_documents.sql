@@ -0,0 +1,23 @@
+-- Medical documents (lab results, surgery reports, ...) sent by leads
+-- The file lives in the lead-media-private bucket; text is only extracted once the lead consented.
+
+create table if not exists medical_documents (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null references leads(id) on delete cascade,
+  message_id uuid references messages(id) on delete set null,
+  storage_bucket text not null default 'lead-media-private',
+  storage_path text not null,
+  file_name text,
+  file_size integer,
+  mime_type text,
+  extraction_status text not null default 'pending'
+    check (extraction_status in ('pending', 'extracted', 'unsupported', 'failed')),
+  extracted_text text,
+  extracted_fields jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create index if not exists medical_documents_lead_id_idx on medical_documents (lead_id, created_at);
+create index if not exists medical_documents_pending_idx on medical_documents (lead_id)
+  where extraction_status = 'pending';
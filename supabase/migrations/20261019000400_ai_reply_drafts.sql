@@ -0,0 +1,24 @@
+-- AI replies held for human review before they are sent (draft review mode)
+
+create table if not exists ai_reply_drafts (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null references leads(id) on delete cascade,
+  conversation_id uuid not null references conversations(id) on delete cascade,
+  trigger_message_id uuid references messages(id) on delete set null,
+  ai_run_id uuid references ai_runs(id) on delete set null,
+  draft_content text not null,
+  final_content text,
+  review_reason text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'edited', 'rejected', 'superseded')),
+  sent_message_id uuid references messages(id) on delete set null,
+  reviewed_by uuid references users(id) on delete set null,
+  reviewed_at timestamptz,
+  rejection_reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_reply_drafts_status_idx on ai_reply_drafts (status, created_at);
+create index if not exists ai_reply_drafts_lead_id_idx on ai_reply_drafts (lead_id, created_at);
+create index if not exists ai_reply_drafts_pending_conversation_idx on ai_reply_drafts (conversation_id)
+  where status = 'pending';
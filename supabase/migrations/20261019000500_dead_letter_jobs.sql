@@ -0,0 +1,21 @@
+-- Queue jobs that used up their retries, kept with their payload so they can be replayed
+
+create table if not exists dead_letter_jobs (
+  id uuid primary key default gen_random_uuid(),
+  queue text not null check (queue in ('channel-send', 'ai-processing', 'inbound-messages')),
+  job_id text,
+  job_name text,
+  payload jsonb not null,
+  error text,
+  attempts integer not null default 0,
+  lead_id uuid references leads(id) on delete set null,
+  status text not null default 'open' check (status in ('open', 'replayed', 'discarded')),
+  replayed_job_id text,
+  resolved_by uuid references users(id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create index if not exists dead_letter_jobs_status_idx on dead_letter_jobs (status, created_at);
+create index if not exists dead_letter_jobs_lead_id_idx on dead_letter_jobs (lead_id);
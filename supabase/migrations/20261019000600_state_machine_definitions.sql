@@ -0,0 +1,12 @@
+-- Versioned lead state machine definitions - one version is live at a time
+
+create table if not exists state_machine_definitions (
+  id uuid primary key default gen_random_uuid(),
+  version integer not null unique,
+  definition jsonb not null, -- StateMachineDefinition, validated by StateMachineService before saving
+  is_active boolean not null default false,
+  notes text,
+  created_by uuid references users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  activated_at timestamptz
+);
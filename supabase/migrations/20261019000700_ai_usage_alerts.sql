@@ -0,0 +1,15 @@
+-- AI spend / error rate threshold crossings raised by the usage monitor
+
+create table if not exists ai_usage_alerts (
+  id uuid primary key default gen_random_uuid(),
+  alert_type text not null check (alert_type in ('daily_spend', 'error_rate')),
+  value numeric not null,
+  threshold numeric not null,
+  details jsonb,
+  acknowledged_by uuid references users(id) on delete set null,
+  acknowledged_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_usage_alerts_created_at_idx on ai_usage_alerts (created_at desc);
+create index if not exists ai_usage_alerts_type_idx on ai_usage_alerts (alert_type, created_at);
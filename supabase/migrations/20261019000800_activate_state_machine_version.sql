@@ -0,0 +1,33 @@
+-- Switch the live state machine definition in one transaction
+-- Called by SupabaseService.activateStateMachineVersion through supabase.rpc. Two separate updates
+-- could leave no version (or two) active when they interleave with another activation.
+
+-- At most one active version, enforced by the database
+create unique index if not exists state_machine_definitions_single_active_idx
+  on state_machine_definitions (is_active)
+  where is_active;
+
+create or replace function public.activate_state_machine_version(p_id uuid)
+returns setof state_machine_definitions
+language plpgsql
+as $$
+begin
+  -- Serialize concurrent activations
+  perform 1 from state_machine_definitions where is_active or id = p_id order by id for update;
+
+  if not exists (select 1 from state_machine_definitions where id = p_id) then
+    raise exception 'State machine version % not found', p_id using errcode = 'P0002';
+  end if;
+
+  update state_machine_definitions
+  set is_active = false
+  where is_active and id <> p_id;
+
+  return query
+  update state_machine_definitions
+  set is_active = true,
+      activated_at = now()
+  where id = p_id
+  returning *;
+end;
+$$;